@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AccountConfig, AccountPause } from './types';
+
+// Path to accounts.json - use project directory for consistency
+export function getAccountsPath(): string {
+    return path.join(process.cwd(), 'accounts.json');
+}
+
+// Entries of accounts.json as written, without resolving vault references or validating them
+export function loadAccounts(): AccountConfig[] {
+    const accountsPath = getAccountsPath();
+    if (!fs.existsSync(accountsPath)) {
+        throw new Error('accounts.json file not found. Please create it with your account configurations.');
+    }
+    const accounts = JSON.parse(fs.readFileSync(accountsPath, 'utf8'));
+    if (!Array.isArray(accounts)) {
+        throw new Error('accounts.json must contain an array of account configurations.');
+    }
+    return accounts;
+}
+
+function saveAccounts(accounts: AccountConfig[]): void {
+    fs.writeFileSync(getAccountsPath(), JSON.stringify(accounts, null, 2));
+}
+
+// Append an entry to accounts.json, creating the file for the first account
+export function addAccount(account: AccountConfig): void {
+    const accounts = fs.existsSync(getAccountsPath()) ? loadAccounts() : [];
+    if (accounts.some(acc => acc.login === account.login)) {
+        throw new Error(`Account with login '${account.login}' already exists`);
+    }
+    saveAccounts([...accounts, account]);
+}
+
+// Remove every entry of the login; returns false when it is not in accounts.json. Its data/ folder is kept
+export function removeAccount(login: string): boolean {
+    const accounts = loadAccounts();
+    const remaining = accounts.filter(acc => acc.login !== login);
+    if (remaining.length === accounts.length) {
+        return false;
+    }
+    saveAccounts(remaining);
+    return true;
+}
+
+// Add an application to the login's entry in accounts.json; returns false when it is already tracked
+export function trackApplication(login: string, applicationId: string): boolean {
+    const accounts = loadAccounts();
+    const account = accounts.find(acc => acc.login === login);
+    if (!account) {
+        throw new Error(`Account with login '${login}' not found`);
+    }
+
+    if (account.applications === 'all') {
+        return false;
+    }
+    const applications = account.applications || (account.elementText ? [account.elementText] : []);
+    if (applications.includes(applicationId)) {
+        return false;
+    }
+
+    // The list replaces the single elementText of older configs
+    account.applications = [...applications, applicationId];
+    delete account.elementText;
+    saveAccounts(accounts);
+    return true;
+}
+
+// Applies `update` to the login's entries and saves accounts.json when any of them changed
+function updateAccounts(login: string, update: (account: AccountConfig) => boolean): boolean {
+    const accountsPath = getAccountsPath();
+    if (!fs.existsSync(accountsPath)) {
+        return false;
+    }
+    const accounts: AccountConfig[] = JSON.parse(fs.readFileSync(accountsPath, 'utf8'));
+    if (!Array.isArray(accounts)) {
+        return false;
+    }
+    // Entries repeating a login are checked in one session, so they are paused and resumed together
+    const changed = accounts.filter(acc => acc.login === login).map(update).includes(true);
+    if (changed) {
+        saveAccounts(accounts);
+    }
+    return changed;
+}
+
+// Stop scheduled checks of a login until resumeAccount; returns false when the login is not in accounts.json
+export function pauseAccount(login: string, pause: AccountPause): boolean {
+    return updateAccounts(login, account => {
+        account.paused = pause;
+        return true;
+    });
+}
+
+// Returns false when the login was not paused
+export function resumeAccount(login: string): boolean {
+    return updateAccounts(login, account => {
+        if (!account.paused) {
+            return false;
+        }
+        delete account.paused;
+        return true;
+    });
+}
@@ -0,0 +1,96 @@
+import { ApplicationList, ApplicationListEntry, DataChange } from './types';
+
+// Rows as read from the wnioski-przyjete page: the link target and the text of every cell in its row
+export interface RawApplicationList {
+    headers: string[];
+    rows: Array<{ href: string; cells: string[] }>;
+}
+
+// "/szczegoly-wniosku/224518?tab=1" → "224518"; detailsPath comes from the site profile
+export function applicationIdFromHref(href: string, detailsPath: string = '/szczegoly-wniosku'): string | null {
+    const [, rest] = href.split(`${detailsPath.replace(/\/$/, '')}/`);
+    const id = rest ? rest.split(/[/?#]/)[0] : '';
+    return id || null;
+}
+
+export function parseApplicationList(raw: RawApplicationList, url: string, timestamp: string, detailsPath?: string): ApplicationList {
+    const entries: ApplicationListEntry[] = [];
+    const seen = new Set<string>();
+
+    for (const row of raw.rows) {
+        const applicationId = applicationIdFromHref(row.href, detailsPath);
+        if (!applicationId || seen.has(applicationId)) {
+            continue;
+        }
+        seen.add(applicationId);
+        entries.push({ applicationId, cells: row.cells });
+    }
+
+    return { url, timestamp, headers: raw.headers, entries };
+}
+
+function columnName(headers: string[], column: number): string {
+    return headers[column] || `column ${column + 1}`;
+}
+
+function describeEntry(entry: ApplicationListEntry): string {
+    // The first cell usually repeats the application number
+    const cells = entry.cells.filter(cell => cell && cell !== entry.applicationId);
+    return cells.length > 0 ? ` (${cells.join(', ')})` : '';
+}
+
+// Applications that appeared or disappeared, and cell changes (e.g. the status column) of the ones still listed
+export function diffApplicationLists(previous: ApplicationList, current: ApplicationList): DataChange[] {
+    const changes: DataChange[] = [];
+    const previousById = new Map(previous.entries.map(entry => [entry.applicationId, entry]));
+    const currentIds = new Set(current.entries.map(entry => entry.applicationId));
+
+    current.entries.forEach(entry => {
+        const before = previousById.get(entry.applicationId);
+        if (!before) {
+            changes.push({
+                kind: 'application-added',
+                section: 'applications',
+                location: `Application ${entry.applicationId}`,
+                oldValue: null,
+                newValue: entry.applicationId,
+                description: `New application ${entry.applicationId}${describeEntry(entry)}`
+            });
+            return;
+        }
+
+        const columns = Math.max(before.cells.length, entry.cells.length);
+        for (let column = 0; column < columns; column++) {
+            const oldValue = before.cells[column] ?? null;
+            const newValue = entry.cells[column] ?? null;
+            if (oldValue === newValue) {
+                continue;
+            }
+            const name = columnName(current.headers, column);
+            changes.push({
+                kind: 'cell-changed',
+                section: 'applications',
+                location: `Application ${entry.applicationId}, ${name}`,
+                column,
+                oldValue,
+                newValue,
+                description: `Application ${entry.applicationId}: ${name} changed from "${oldValue ?? 'none'}" to "${newValue ?? 'none'}"`
+            });
+        }
+    });
+
+    previous.entries
+        .filter(entry => !currentIds.has(entry.applicationId))
+        .forEach(entry => {
+            changes.push({
+                kind: 'application-removed',
+                section: 'applications',
+                location: `Application ${entry.applicationId}`,
+                oldValue: entry.applicationId,
+                newValue: null,
+                description: `Application ${entry.applicationId} is no longer listed`
+            });
+        });
+
+    return changes;
+}
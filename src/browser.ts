@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as puppeteer from 'puppeteer';
+
+// A page plus whatever has to be closed when the check is done with it
+export interface BrowserSession {
+    page: puppeteer.Page;
+    close(): Promise<void>;
+}
+
+// Cookies of a logged-in portal session, stored per account in data/<login>/session.json
+export interface SavedSession {
+    savedAt: string;
+    cookies: puppeteer.Protocol.Network.Cookie[];
+}
+
+export function launchBrowser(headless: boolean): Promise<puppeteer.Browser> {
+    return puppeteer.launch({
+        headless,
+        // Using Puppeteer's bundled Chromium instead of system Chrome
+        timeout: 0,
+        protocolTimeout: 240000,
+        args: [
+            '--no-sandbox',
+            '--disable-setuid-sandbox',
+            '--disable-dev-shm-usage',
+            '--disable-gpu',
+            '--disable-web-security',
+            '--disable-features=VizDisplayCompositor'
+        ]
+    });
+}
+
+async function closeQuietly(target: { close(): Promise<void> }): Promise<void> {
+    try {
+        await target.close();
+    } catch (e) {
+        const errorMessage = e instanceof Error ? e.message : String(e);
+        console.log('Warning: Error closing browser:', errorMessage);
+    }
+}
+
+// A browser of its own, closed together with the page
+export async function openDedicatedSession(headless: boolean): Promise<BrowserSession> {
+    const browser = await launchBrowser(headless);
+    try {
+        return { page: await browser.newPage(), close: () => closeQuietly(browser) };
+    } catch (error) {
+        await closeQuietly(browser);
+        throw error;
+    }
+}
+
+// One Chromium for several accounts; every session gets its own incognito context so cookies never mix
+export class SharedBrowser {
+    private launching: Promise<puppeteer.Browser> | null = null;
+
+    constructor(private readonly headless: boolean) {}
+
+    private async getBrowser(): Promise<puppeteer.Browser> {
+        if (!this.launching) {
+            this.launching = launchBrowser(this.headless).catch(error => {
+                this.launching = null;
+                throw error;
+            });
+        }
+        const browser = await this.launching;
+        // Relaunch after a crash instead of failing every remaining account
+        if (!browser.isConnected()) {
+            this.launching = null;
+            return this.getBrowser();
+        }
+        return browser;
+    }
+
+    async openSession(): Promise<BrowserSession> {
+        const context = await (await this.getBrowser()).createIncognitoBrowserContext();
+        try {
+            return { page: await context.newPage(), close: () => closeQuietly(context) };
+        } catch (error) {
+            await closeQuietly(context);
+            throw error;
+        }
+    }
+
+    async close(): Promise<void> {
+        const launching = this.launching;
+        this.launching = null;
+        if (launching) {
+            await closeQuietly(await launching);
+        }
+    }
+}
+
+export function loadSession(file: string): SavedSession | null {
+    if (!fs.existsSync(file)) {
+        return null;
+    }
+    try {
+        const session: SavedSession = JSON.parse(fs.readFileSync(file, 'utf8'));
+        // Drop cookies that expired since they were saved; -1 marks browser-session cookies
+        const now = Date.now() / 1000;
+        const cookies = (session.cookies || []).filter(cookie => cookie.expires === -1 || cookie.expires > now);
+        return cookies.length > 0 ? { savedAt: session.savedAt, cookies } : null;
+    } catch (error) {
+        console.warn(`Ignoring unreadable session file ${file}:`, error instanceof Error ? error.message : String(error));
+        return null;
+    }
+}
+
+export function saveSession(file: string, cookies: puppeteer.Protocol.Network.Cookie[]): void {
+    const session: SavedSession = { savedAt: new Date().toISOString(), cookies };
+    // Session cookies grant access to the account just like the password
+    fs.writeFileSync(file, JSON.stringify(session, null, 2), { mode: 0o600 });
+}
+
+export function clearSession(file: string): void {
+    fs.rmSync(file, { force: true });
+}
@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import { MultiAccountChecker } from './pio-checker';
+import { getAccountsPath } from './accounts';
+import { loadSettings } from './settings';
+import { recordChecks } from './schedule-state';
+import { formatDuration } from './pool';
+import { writeLog } from './logger';
+import { AccountProgress, AccountRunResult } from './types';
+
+// What the desktop window shows about the check in progress
+export interface RunnerStatus {
+    status: 'running' | 'completed' | 'error';
+    message: string;
+    results?: AccountRunResult[];
+    timestamp: string;
+}
+
+export interface CheckRunnerListeners {
+    onStatus?: (status: RunnerStatus) => void;
+    onProgress?: (progress: AccountProgress) => void;
+}
+
+// Runs the accounts with the settings.json options; one run at a time, whether started by a schedule or by hand
+export class CheckRunner {
+    private current: Promise<AccountRunResult[] | null> | null = null;
+    private readonly listeners: CheckRunnerListeners;
+
+    constructor(listeners: CheckRunnerListeners = {}) {
+        this.listeners = listeners;
+    }
+
+    get isRunning(): boolean {
+        return this.current !== null;
+    }
+
+    // Checks the given logins, every account by default. Resolves with the results, or null when the run was skipped
+    // or failed as a whole
+    async run(accounts: string[] | null = null): Promise<AccountRunResult[] | null> {
+        if (this.current) {
+            writeLog('Check already in progress', 'WARN');
+            return null;
+        }
+        this.current = this.execute(accounts);
+        try {
+            return await this.current;
+        } finally {
+            this.current = null;
+        }
+    }
+
+    // Resolves once the check in progress, if any, has finished
+    async idle(): Promise<void> {
+        await this.current;
+    }
+
+    private async execute(accounts: string[] | null): Promise<AccountRunResult[] | null> {
+        // Check if accounts.json has any accounts
+        try {
+            const accounts = JSON.parse(fs.readFileSync(getAccountsPath(), 'utf8'));
+            if (!Array.isArray(accounts) || accounts.length === 0) {
+                writeLog('No accounts configured, skipping check', 'WARN');
+                this.report('error', 'No accounts configured. Please add accounts in the Accounts tab.');
+                return null;
+            }
+        } catch (error) {
+            writeLog('Error reading accounts: ' + (error instanceof Error ? error.message : String(error)), 'ERROR');
+            this.report('error', 'Error reading accounts configuration');
+            return null;
+        }
+
+        const settings = loadSettings();
+        const now = new Date();
+        writeLog(`Check started at: ${now.toLocaleString()} (UTC: ${now.toISOString()}, Timezone: ${Intl.DateTimeFormat().resolvedOptions().timeZone})` +
+            (accounts ? ` for ${accounts.join(', ')}` : ''));
+        this.report('running', 'Running check...');
+
+        try {
+            const headlessMode = settings.headlessMode !== undefined ? settings.headlessMode : true;
+            writeLog(`Running check with headless mode: ${headlessMode}`);
+
+            // Per-account progress while the pool runs
+            const checker = new MultiAccountChecker(headlessMode, {
+                onProgress: progress => {
+                    if (progress.state === 'finished' && progress.result) {
+                        const result = progress.result;
+                        writeLog(`[${progress.completed}/${progress.total}] ${result.accountId}: ${result.checkStatus || result.status}` +
+                            `${result.durationMs !== undefined ? ` in ${formatDuration(result.durationMs)}` : ''}${result.error ? ` [${result.errorCategory || 'unknown'}: ${result.error}]` : ''}`);
+                    }
+                    this.listeners.onProgress?.(progress);
+                }
+            });
+            const results = await checker.runAll(accounts ?? undefined);
+            // Check times per account for the scheduler, see schedule-state.ts
+            recordChecks(results, now);
+
+            writeLog(`Check completed successfully. Results: ${results.map(result =>
+                `${result.accountId}=${result.checkStatus || result.status}${result.summary ? ` (${result.summary})` : ''}${result.error ? ` [${result.errorCategory || 'unknown'}: ${result.error}]` : ''}`
+            ).join(', ')}`);
+            this.report('completed', 'Check completed successfully', results);
+            return results;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            writeLog('Check failed: ' + errorMessage, 'ERROR');
+            if (error instanceof Error && error.stack) {
+                writeLog('Stack trace: ' + error.stack, 'ERROR');
+            }
+            this.report('error', `Check failed: ${errorMessage}`);
+            return null;
+        } finally {
+            writeLog('Check process finished');
+        }
+    }
+
+    private report(status: RunnerStatus['status'], message: string, results?: AccountRunResult[]): void {
+        this.listeners.onStatus?.({
+            status,
+            message,
+            ...(results !== undefined ? { results } : {}),
+            timestamp: new Date().toISOString()
+        });
+    }
+}
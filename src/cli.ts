@@ -0,0 +1,350 @@
+#!/usr/bin/env node
+import { parseArgs } from 'util';
+import { AccountConfig, AccountRunResult } from './types';
+import { MultiAccountChecker, PIOChecker } from './pio-checker';
+import { addAccount, loadAccounts, removeAccount } from './accounts';
+import { compareSnapshots, listSnapshots } from './history';
+import { mergeNoiseRules, validateNoiseRules } from './noise-filter';
+import { loadSettings } from './settings';
+import { loadSiteProfile } from './site-profile';
+import { validateRetention } from './retention';
+import { validateSchedule } from './scheduler';
+import { validateChannelConfigs } from './notifications';
+import { openHistoryStore } from './storage';
+import { CredentialVault, isSecretRef, moveSecretsToVault, readSecret } from './vault';
+
+// For cron and systemd: anything failed beats a change, a change beats nothing new
+export const EXIT_UNCHANGED = 0;
+export const EXIT_CHANGED = 1;
+export const EXIT_ERROR = 2;
+
+const USAGE = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  check [--account <login>] [--force] [--headful] [--dry-run]
+                                                      check every account, or one; --force checks a paused one
+  history <login> [application] [--limit <n>]        stored snapshots, newest first
+  diff <login> [snapshotA] [snapshotB] [--application <id>] [--raw]
+                                                      compare two snapshots, the latest two by default
+  accounts list
+  accounts add <login> [--password vault:<key>] (--application <id> ... | --all)
+                                                      prompts for the password, or reads it from stdin
+  accounts remove <login>
+  accounts validate                                   check accounts.json and settings.json
+  notify test [--account <login>]                     send a test message through the account's channels
+
+Options:
+  --json   print the result as JSON on stdout; logs go to stderr
+
+Exit codes: 0 nothing changed, 1 a change was found, 2 an error (also when other accounts changed)`;
+
+const OPTIONS = {
+    account: { type: 'string' },
+    headful: { type: 'boolean' },
+    'dry-run': { type: 'boolean' },
+    force: { type: 'boolean' },
+    json: { type: 'boolean' },
+    limit: { type: 'string' },
+    application: { type: 'string', multiple: true },
+    all: { type: 'boolean' },
+    raw: { type: 'boolean' },
+    password: { type: 'string' },
+    help: { type: 'boolean', short: 'h' }
+} as const;
+
+type CliOptions = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+// What a command prints: text for people, data for --json
+interface CommandResult {
+    code: number;
+    text: string;
+    data: unknown;
+}
+
+class UsageError extends Error {}
+
+// Asks for a secret; replaced in tests
+type SecretReader = (prompt: string) => Promise<string>;
+
+// Taken before --json sends everything else written to stdout to stderr
+const writeStdout = process.stdout.write.bind(process.stdout);
+
+export function exitCodeFor(results: AccountRunResult[]): number {
+    const failed = results.some(result => result.status === 'error' ||
+        result.applications?.some(application => application.status === 'error'));
+    if (failed) {
+        return EXIT_ERROR;
+    }
+    return results.some(result => result.checkStatus === 'changed') ? EXIT_CHANGED : EXIT_UNCHANGED;
+}
+
+async function check(positionals: string[], options: CliOptions): Promise<CommandResult> {
+    // `npm run check -- <login>` keeps working next to --account
+    const login = options.account || positionals[0];
+    if (options.force && !login) {
+        throw new UsageError('--force checks one paused account, name it with --account');
+    }
+    const checker = new MultiAccountChecker(!options.headful, { dryRun: options['dry-run'] === true });
+    const results = login ? [await checker.runSingle(login, { force: options.force === true })] : await checker.runAll();
+
+    // runAll prints its own summary
+    const text = login
+        ? results.map(result => `${result.status === 'success' ? '✅' : result.status === 'paused' ? '⏸' : '❌'} ${result.accountId}: ${result.checkStatus || result.status}` +
+            (result.summary ? `\n   ${result.summary}` : '') + (result.error ? `\n   Error (${result.errorCategory || 'unknown'}): ${result.error}` : '')).join('\n')
+        : '';
+    return { code: exitCodeFor(results), text, data: results };
+}
+
+function history(positionals: string[], options: CliOptions): CommandResult {
+    const [login, application] = positionals;
+    if (!login) {
+        throw new UsageError('history needs a login');
+    }
+    const limit = options.limit !== undefined ? Number(options.limit) : undefined;
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+        throw new UsageError('--limit must be a positive whole number');
+    }
+
+    const snapshots = listSnapshots(openHistoryStore(), login, application).slice(0, limit);
+    if (snapshots.length === 0) {
+        throw new Error(`No snapshots stored for ${application ? `${login}/${application}` : login}`);
+    }
+    const text = snapshots.map(snapshot => [
+        snapshot.timestamp,
+        snapshot.application,
+        snapshot.filename,
+        [snapshot.status, snapshot.stage].filter(Boolean).join(' / ') || '-',
+        ...(snapshot.statusChanged ? ['(status changed)'] : [])
+    ].join('  ')).join('\n');
+    return { code: EXIT_UNCHANGED, text, data: snapshots };
+}
+
+function findAccount(login: string): AccountConfig | undefined {
+    try {
+        return loadAccounts().find(acc => acc.login === login);
+    } catch {
+        return undefined;
+    }
+}
+
+function diff(positionals: string[], options: CliOptions): CommandResult {
+    const [login, fromName, toName] = positionals;
+    if (!login) {
+        throw new UsageError('diff needs a login');
+    }
+    const store = openHistoryStore();
+    const applications = store.listApplications(login);
+    const application = options.application?.[0] || (applications.length === 1 ? applications[0] : undefined);
+    if (!application) {
+        throw new Error(applications.length === 0
+            ? `No snapshots stored for ${login}`
+            : `${login} has several applications (${applications.join(', ')}), pick one with --application`);
+    }
+
+    // One name compares it with the latest snapshot; none compares the latest two
+    const names = store.listSnapshots(login, application).map(snapshot => snapshot.name);
+    const [from, to] = fromName
+        ? [fromName, toName || names[names.length - 1]]
+        : [names[names.length - 2], names[names.length - 1]];
+    if (!from || !to) {
+        throw new Error(`${login}/${application} needs two snapshots to compare, it has ${names.length}`);
+    }
+
+    // The same ignore rules as the checks, unless --raw
+    const settings = loadSettings();
+    const account = findAccount(login);
+    const rules = options.raw ? {} : mergeNoiseRules(settings.ignoreRules, account?.ignoreRules);
+    const extraction = loadSiteProfile(account?.siteProfile || settings.siteProfile).extraction;
+    const comparison = compareSnapshots(store, login, application, from, to, rules, extraction);
+    const text = [
+        `${comparison.from.filename} → ${comparison.to.filename}`,
+        comparison.summary,
+        ...comparison.changes.map(change => `  - ${change.description}`),
+        ...(comparison.text.some(line => line.type !== 'equal') ? [''] : []),
+        ...comparison.text.filter(line => line.type !== 'equal').map(line => `${line.type === 'added' ? '+' : '-'} ${line.text}`)
+    ].join('\n');
+    return { code: comparison.changes.length > 0 ? EXIT_CHANGED : EXIT_UNCHANGED, text, data: comparison };
+}
+
+// A typed password goes into the vault like one saved from the desktop app; it stays in plaintext only without a vault
+function vaultPassword(account: AccountConfig): AccountConfig {
+    if (isSecretRef(account.password)) {
+        return account;
+    }
+    let vault: CredentialVault;
+    try {
+        vault = CredentialVault.openOrCreate();
+    } catch (error) {
+        console.warn(`Credential vault unavailable, the password is stored in plaintext: ${error instanceof Error ? error.message : String(error)}`);
+        return account;
+    }
+    const { value, moved } = moveSecretsToVault([account], vault, 'accounts');
+    if (moved > 0) {
+        vault.save();
+    }
+    return value[0]!;
+}
+
+async function accounts(positionals: string[], options: CliOptions, readPassword: SecretReader): Promise<CommandResult> {
+    const [action, login] = positionals;
+    switch (action) {
+        case 'list': {
+            // Never prints passwords
+            const entries = loadAccounts().map(acc => ({
+                login: acc.login,
+                applications: acc.applications ?? (acc.elementText ? [acc.elementText] : []),
+                ...(acc.siteProfile !== undefined ? { siteProfile: acc.siteProfile } : {}),
+                ...(acc.paused !== undefined ? { paused: acc.paused } : {})
+            }));
+            const text = entries.map(entry => {
+                const applications = entry.applications === 'all' ? 'all applications' : entry.applications.join(', ') || 'no applications';
+                return `${entry.login}: ${applications}${entry.paused ? ` (paused since ${entry.paused.since}: ${entry.paused.reason})` : ''}`;
+            }).join('\n');
+            return { code: EXIT_UNCHANGED, text: text || 'No accounts in accounts.json', data: entries };
+        }
+        case 'add': {
+            if (!login) {
+                throw new UsageError('accounts add needs a login');
+            }
+            if (!options.all && !options.application?.length) {
+                throw new UsageError('accounts add needs --application <id> or --all');
+            }
+            // Passwords on the command line end up in shell history
+            if (options.password !== undefined && !isSecretRef(options.password)) {
+                throw new UsageError('--password only takes a vault:<key> reference; leave it out to type the password or pipe it on stdin');
+            }
+            if (findAccount(login)) {
+                throw new Error(`Account with login '${login}' already exists`);
+            }
+            const password = options.password ?? await readPassword(`Password for ${login}: `);
+            if (!password) {
+                throw new Error('No password given');
+            }
+            addAccount(vaultPassword({
+                login,
+                password,
+                applications: options.all ? 'all' : options.application!
+            }));
+            return { code: EXIT_UNCHANGED, text: `Added ${login} to accounts.json`, data: { added: login } };
+        }
+        case 'remove': {
+            if (!login) {
+                throw new UsageError('accounts remove needs a login');
+            }
+            if (!removeAccount(login)) {
+                throw new Error(`Account with login '${login}' not found`);
+            }
+            return { code: EXIT_UNCHANGED, text: `Removed ${login} from accounts.json; its data/ folder is kept`, data: { removed: login } };
+        }
+        case 'validate': {
+            const settings = loadSettings();
+            validateNoiseRules(settings.ignoreRules, 'settings.json');
+            validateChannelConfigs(settings.notificationChannels, 'settings.json');
+            validateRetention(settings.retention, 'settings.json');
+            validateSchedule(settings, 'settings.json');
+            loadSiteProfile(settings.siteProfile);
+            loadAccounts().forEach((acc, index) => {
+                if (!acc.login || !acc.password) {
+                    throw new Error(`accounts.json entry ${index + 1} (${acc.login}): login and password are required`);
+                }
+            });
+            // Validates every entry and resolves vault references the way a check does
+            const logins = new MultiAccountChecker().getAccountIds();
+            return { code: EXIT_UNCHANGED, text: `accounts.json and settings.json are valid: ${logins.length} account(s)`, data: { valid: true, accounts: logins } };
+        }
+        default:
+            throw new UsageError('accounts needs one of: list, add, remove, validate');
+    }
+}
+
+async function notify(positionals: string[], options: CliOptions): Promise<CommandResult> {
+    if (positionals[0] !== 'test') {
+        throw new UsageError('notify needs: test');
+    }
+    const entries = loadAccounts();
+    const account = options.account ? entries.find(acc => acc.login === options.account) : entries[0];
+    if (!account) {
+        throw new Error(options.account ? `Account with login '${options.account}' not found` : 'accounts.json has no accounts');
+    }
+
+    const results = await new PIOChecker(account).sendTestNotification();
+    if (results.length === 0) {
+        throw new Error(`No channel of ${account.login} receives change notifications`);
+    }
+    const text = results.map(result => `${result.success ? '✅' : '❌'} ${result.channel}${result.error ? `: ${result.error}` : ''}`).join('\n');
+    return { code: results.every(result => result.success) ? EXIT_UNCHANGED : EXIT_ERROR, text, data: results };
+}
+
+async function runCommand(command: string | undefined, positionals: string[], options: CliOptions, readPassword: SecretReader): Promise<CommandResult> {
+    switch (command) {
+        case 'check':
+            return check(positionals, options);
+        case 'history':
+            return history(positionals, options);
+        case 'diff':
+            return diff(positionals, options);
+        case 'accounts':
+            return accounts(positionals, options, readPassword);
+        case 'notify':
+            return notify(positionals, options);
+        default:
+            throw new UsageError(command ? `Unknown command: ${command}` : 'Missing command');
+    }
+}
+
+// Runs one command and returns its exit code; output goes through `write` and passwords come from `readPassword` so
+// tests can replace them
+export async function runCli(
+    argv: string[],
+    write: (text: string) => void = text => writeStdout(text),
+    readPassword: SecretReader = readSecret
+): Promise<number> {
+    let options: CliOptions;
+    let positionals: string[];
+    try {
+        ({ values: options, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true }));
+    } catch (error) {
+        console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+        return EXIT_ERROR;
+    }
+    if (options.help) {
+        write(`${USAGE}\n`);
+        return EXIT_UNCHANGED;
+    }
+
+    // Keeps stdout parseable: the checker logs through console.log, notification commands print to stdout
+    const { log, info, warn } = console;
+    const stdoutWrite = process.stdout.write;
+    if (options.json) {
+        console.log = console.info = console.warn = (...args: unknown[]) => console.error(...args);
+        process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write;
+    }
+    try {
+        const [command, ...rest] = positionals;
+        const result = await runCommand(command, rest, options, readPassword);
+        if (options.json) {
+            write(`${JSON.stringify(result.data, null, 2)}\n`);
+        } else if (result.text) {
+            write(`${result.text}\n`);
+        }
+        return result.code;
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (options.json) {
+            write(`${JSON.stringify({ error: message }, null, 2)}\n`);
+        } else {
+            console.error(error instanceof UsageError ? `${message}\n\n${USAGE}` : message);
+        }
+        return EXIT_ERROR;
+    } finally {
+        Object.assign(console, { log, info, warn });
+        process.stdout.write = stdoutWrite;
+    }
+}
+
+// npm run cli -- <command> [options]
+if (require.main === module) {
+    runCli(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
@@ -0,0 +1,149 @@
+// Cron expressions in local time: minute hour day-of-month month day-of-week. node-cron 4 cannot tell the next run
+// after an arbitrary time (only after now), and around daylight-saving changes it jumps ahead by months, so the
+// scheduler's previews, catch-up and timers all use this walker instead
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface CronFields {
+    minutes: Set<number>;
+    hours: Set<number>;
+    days: Set<number>;
+    months: Set<number>;
+    weekdays: Set<number>;
+    // A restricted day of month or weekday matches either one, as in cron
+    anyDay: boolean;
+    anyWeekday: boolean;
+}
+
+function parseCronValue(text: string, names: string[] | undefined, offset: number): number {
+    const index = names ? names.indexOf(text.toLowerCase()) : -1;
+    if (index >= 0) {
+        return index + offset;
+    }
+    return /^\d+$/.test(text) ? Number(text) : NaN;
+}
+
+// "*", "5", "1-5", "*/15", "9-17/2" and lists of them; names for months and weekdays
+function parseCronField(text: string, min: number, max: number, names?: string[]): Set<number> {
+    const values = new Set<number>();
+    for (const part of text.split(',')) {
+        const [range, stepText] = part.split('/');
+        const step = stepText === undefined ? 1 : Number(stepText);
+        const [fromText, toText] = range === '*' ? [String(min), String(max)] : (range || '').split('-');
+        const from = parseCronValue(fromText || '', names, min);
+        // A step after a single value runs to the end of the range
+        const to = toText !== undefined ? parseCronValue(toText, names, min) : stepText !== undefined ? max : from;
+        if (!Number.isInteger(step) || step < 1 || !Number.isInteger(from) || !Number.isInteger(to) || from < min || to > max || from > to) {
+            throw new Error(`"${part}" is out of range ${min}-${max}`);
+        }
+        for (let value = from; value <= to; value += step) {
+            values.add(value);
+        }
+    }
+    return values;
+}
+
+export function parseCron(expression: string): CronFields {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== 5) {
+        throw new Error(`cron expression "${expression}" needs 5 fields: minute hour day-of-month month day-of-week`);
+    }
+    const [minute, hour, day, month, weekday] = parts as [string, string, string, string, string];
+    try {
+        // 7 is Sunday too
+        const weekdays = new Set([...parseCronField(weekday, 0, 7, WEEKDAY_NAMES)].map(value => value % 7));
+        return {
+            minutes: parseCronField(minute, 0, 59),
+            hours: parseCronField(hour, 0, 23),
+            days: parseCronField(day, 1, 31),
+            months: parseCronField(month, 1, 12, MONTH_NAMES),
+            weekdays,
+            anyDay: day.startsWith('*'),
+            anyWeekday: weekday.startsWith('*')
+        };
+    } catch (error) {
+        throw new Error(`cron expression "${expression}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+// Wall-clock times are walked as UTC dates, which have no daylight-saving changes to skip or repeat them
+function matchesDay(fields: CronFields, wall: Date): boolean {
+    const day = fields.days.has(wall.getUTCDate());
+    const weekday = fields.weekdays.has(wall.getUTCDay());
+    if (fields.anyDay || fields.anyWeekday) {
+        return day && weekday;
+    }
+    return day || weekday;
+}
+
+function localTime(wall: Date): Date {
+    return new Date(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate(), wall.getUTCHours(), wall.getUTCMinutes());
+}
+
+function isWallTime(date: Date, wall: Date): boolean {
+    return date.getFullYear() === wall.getUTCFullYear() && date.getMonth() === wall.getUTCMonth() && date.getDate() === wall.getUTCDate() &&
+        date.getHours() === wall.getUTCHours() && date.getMinutes() === wall.getUTCMinutes();
+}
+
+// When a matching wall-clock time first happens, if after `after`. As in cronie, a time skipped by a daylight-saving
+// change runs at the first minute after the gap
+function firstOccurrence(wall: Date, after: Date): Date | null {
+    const probe = new Date(wall.getTime());
+    let date = localTime(probe);
+    while (!isWallTime(date, probe)) {
+        probe.setUTCMinutes(probe.getUTCMinutes() + 1);
+        date = localTime(probe);
+    }
+    return date.getTime() > after.getTime() ? date : null;
+}
+
+// The second time a wall-clock time happens when the clock goes back, if after `after`
+function repeatedOccurrence(wall: Date, after: Date): Date | null {
+    const first = localTime(wall);
+    const shiftMs = (new Date(first.getTime() + 3 * HOUR_MS).getTimezoneOffset() - first.getTimezoneOffset()) * 60000;
+    const second = new Date(first.getTime() + shiftMs);
+    return shiftMs > 0 && isWallTime(second, wall) && second.getTime() > after.getTime() ? second : null;
+}
+
+// Walks the wall-clock minutes matching the expression from `wall` up to `limit` until `pick` accepts one
+function walkCron(fields: CronFields, wall: Date, limit: number, pick: (wall: Date) => Date | null): Date | null {
+    while (wall.getTime() <= limit) {
+        if (!fields.months.has(wall.getUTCMonth() + 1)) {
+            wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+            wall.setUTCHours(0, 0, 0, 0);
+        } else if (!matchesDay(fields, wall)) {
+            wall.setUTCDate(wall.getUTCDate() + 1);
+            wall.setUTCHours(0, 0, 0, 0);
+        } else if (!fields.hours.has(wall.getUTCHours())) {
+            wall.setUTCHours(wall.getUTCHours() + 1, 0, 0, 0);
+        } else if (!fields.minutes.has(wall.getUTCMinutes())) {
+            wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+        } else {
+            const run = pick(wall);
+            if (run) {
+                return run;
+            }
+            wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+        }
+    }
+    return null;
+}
+
+// First minute after `after` matching the expression, within five years
+export function nextCronTime(fields: CronFields, after: Date): Date | null {
+    const start = Date.UTC(after.getFullYear(), after.getMonth(), after.getDate(), after.getHours(), after.getMinutes() + 1);
+    const next = walkCron(fields, new Date(start), start + 5 * 366 * DAY_MS, wall => firstOccurrence(wall, after));
+
+    // Like cronie, an expression running every hour runs again in the hour repeated when the clock goes back
+    const goesBack = new Date(after.getTime() + 3 * HOUR_MS).getTimezoneOffset() > new Date(after.getTime() - 3 * HOUR_MS).getTimezoneOffset();
+    if (fields.hours.size === 24 && goesBack) {
+        const repeated = walkCron(fields, new Date(start - 3 * HOUR_MS), start + 3 * HOUR_MS, wall => repeatedOccurrence(wall, after));
+        if (repeated && (!next || repeated.getTime() < next.getTime())) {
+            return repeated;
+        }
+    }
+    return next;
+}
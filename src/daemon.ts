@@ -0,0 +1,80 @@
+import { CheckRunner } from './check-runner';
+import { loadScheduledAccounts, Scheduler } from './scheduler';
+import { loadSettings } from './settings';
+import { initializeLogs, startupHeader, writeLog } from './logger';
+import { closeHistoryStores } from './storage';
+
+// Wakes the event loop now and then so the process stays up while no job is scheduled; SIGHUP may add some
+const KEEP_ALIVE_MS = 60 * 60 * 1000;
+
+// The desktop app's schedule without the window: settings.json and accounts.json decide when checks run, logs/
+// records them
+export class Daemon {
+    private readonly runner: CheckRunner;
+    private readonly scheduler: Scheduler;
+    private keepAlive: NodeJS.Timeout | null = null;
+
+    constructor(runner: CheckRunner = new CheckRunner()) {
+        this.runner = runner;
+        // Adaptive schedules follow up on what the check found
+        this.scheduler = new Scheduler((entry, accounts) => {
+            void this.runner.run(accounts).then(() => this.scheduler.refresh());
+        });
+    }
+
+    start(): void {
+        this.scheduler.start(loadSettings(), loadScheduledAccounts());
+        if (!this.scheduler.active) {
+            writeLog('Nothing is scheduled; enable the schedule in settings.json or accounts.json and send SIGHUP', 'WARN');
+        }
+        // Checks due while the daemon was stopped run once now
+        this.scheduler.catchUp('daemon started');
+        this.keepAlive = setInterval(() => undefined, KEEP_ALIVE_MS);
+    }
+
+    // Re-reads settings.json and accounts.json; a check in progress finishes with the settings it started with
+    reload(): void {
+        writeLog('Reloading settings.json and accounts.json');
+        this.scheduler.start(loadSettings(), loadScheduledAccounts());
+    }
+
+    // No new checks start; resolves once the one in progress has finished
+    async stop(): Promise<void> {
+        this.scheduler.stop();
+        if (this.keepAlive) {
+            clearInterval(this.keepAlive);
+            this.keepAlive = null;
+        }
+        if (this.runner.isRunning) {
+            writeLog('Waiting for the check in progress to finish');
+            await this.runner.idle();
+        }
+    }
+}
+
+// npm run daemon
+if (require.main === module) {
+    initializeLogs(startupHeader('Daemon Started'));
+    writeLog(`PID: ${process.pid}`);
+    const daemon = new Daemon();
+    daemon.start();
+
+    let stopping = false;
+    const shutdown = (signal: NodeJS.Signals) => {
+        // A second signal does not wait for the check
+        if (stopping) {
+            writeLog(`${signal} received again, exiting now`, 'WARN');
+            process.exit(1);
+        }
+        stopping = true;
+        writeLog(`${signal} received, stopping`);
+        daemon.stop().then(() => {
+            closeHistoryStores();
+            writeLog('Daemon stopped');
+            process.exit(0);
+        });
+    };
+    process.on('SIGTERM', shutdown);
+    process.on('SIGINT', shutdown);
+    process.on('SIGHUP', () => daemon.reload());
+}
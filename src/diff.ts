@@ -0,0 +1,397 @@
+import { ApplicationDetails, ChangeSection, DataChange, ScrapedData } from './types';
+import { extractApplicationDetails } from './extractor';
+
+type DiffOp<T> =
+    | { type: 'equal'; oldIndex: number; newIndex: number; value: T }
+    | { type: 'removed'; oldIndex: number; value: T }
+    | { type: 'added'; newIndex: number; value: T };
+
+// Above this many LCS cells fall back to a cheaper set-based comparison
+const MAX_LCS_CELLS = 4_000_000;
+
+// Longest-common-subsequence alignment of two sequences compared by key
+export function diffSequences<T>(oldItems: T[], newItems: T[], key: (item: T) => string = String): DiffOp<T>[] {
+    const oldKeys = oldItems.map(key);
+    const newKeys = newItems.map(key);
+    const n = oldKeys.length;
+    const m = newKeys.length;
+
+    if (n * m > MAX_LCS_CELLS) {
+        return diffBySets(oldItems, newItems, oldKeys, newKeys);
+    }
+
+    // lengths[i][j] = LCS length of oldKeys[i..] and newKeys[j..]
+    const lengths: Uint32Array[] = [];
+    for (let i = 0; i <= n; i++) {
+        lengths.push(new Uint32Array(m + 1));
+    }
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lengths[i]![j] = oldKeys[i] === newKeys[j]
+                ? lengths[i + 1]![j + 1]! + 1
+                : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+        }
+    }
+
+    const ops: DiffOp<T>[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        if (oldKeys[i] === newKeys[j]) {
+            ops.push({ type: 'equal', oldIndex: i, newIndex: j, value: newItems[j]! });
+            i++;
+            j++;
+        } else if (lengths[i + 1]![j]! >= lengths[i]![j + 1]!) {
+            ops.push({ type: 'removed', oldIndex: i, value: oldItems[i]! });
+            i++;
+        } else {
+            ops.push({ type: 'added', newIndex: j, value: newItems[j]! });
+            j++;
+        }
+    }
+    for (; i < n; i++) {
+        ops.push({ type: 'removed', oldIndex: i, value: oldItems[i]! });
+    }
+    for (; j < m; j++) {
+        ops.push({ type: 'added', newIndex: j, value: newItems[j]! });
+    }
+
+    return ops;
+}
+
+function diffBySets<T>(oldItems: T[], newItems: T[], oldKeys: string[], newKeys: string[]): DiffOp<T>[] {
+    const oldSet = new Set(oldKeys);
+    const newSet = new Set(newKeys);
+    const ops: DiffOp<T>[] = [];
+
+    oldKeys.forEach((itemKey, index) => {
+        if (!newSet.has(itemKey)) {
+            ops.push({ type: 'removed', oldIndex: index, value: oldItems[index]! });
+        }
+    });
+    newKeys.forEach((itemKey, index) => {
+        if (!oldSet.has(itemKey)) {
+            ops.push({ type: 'added', newIndex: index, value: newItems[index]! });
+        }
+    });
+
+    return ops;
+}
+
+function truncate(text: string, maxLength: number = 120): string {
+    return text.length > maxLength ? text.slice(0, maxLength - 1) + '…' : text;
+}
+
+const DETAIL_FIELDS: Array<[keyof ApplicationDetails & string, string]> = [
+    ['status', 'Status'],
+    ['stage', 'Stage'],
+    ['caseHandler', 'Case handler'],
+    ['caseNumber', 'Case number'],
+    ['applicationNumber', 'Application number'],
+    ['submissionDate', 'Submission date']
+];
+
+// Snapshots saved before structured extraction have no details - derive them from the raw data
+export function getDetails(data: ScrapedData): ApplicationDetails {
+    return data.details ?? extractApplicationDetails(data.mainText || '', data.fields.tables || []);
+}
+
+export function diffDetails(oldDetails: ApplicationDetails, newDetails: ApplicationDetails): DataChange[] {
+    const changes: DataChange[] = [];
+
+    DETAIL_FIELDS.forEach(([field, label]) => {
+        const oldValue = oldDetails[field] as string | null;
+        const newValue = newDetails[field] as string | null;
+        if (oldValue !== newValue) {
+            changes.push({
+                kind: 'field-changed',
+                section: 'details',
+                location: label,
+                oldValue,
+                newValue,
+                description: `${label} changed from "${oldValue ?? 'none'}" to "${newValue ?? 'none'}"`
+            });
+        }
+    });
+
+    const listItem = (label: string, kind: 'item-added' | 'item-removed', value: string): DataChange => ({
+        kind,
+        section: 'details',
+        location: label,
+        oldValue: kind === 'item-removed' ? value : null,
+        newValue: kind === 'item-added' ? value : null,
+        description: `${label} ${kind === 'item-added' ? 'added' : 'removed'}: ${value}`
+    });
+
+    const diffList = (label: string, oldItems: string[], newItems: string[]) => {
+        diffSequences(oldItems, newItems).forEach(op => {
+            if (op.type === 'added') {
+                changes.push(listItem(label, 'item-added', op.value));
+            } else if (op.type === 'removed') {
+                changes.push(listItem(label, 'item-removed', op.value));
+            }
+        });
+    };
+
+    diffList(
+        'Deadline',
+        oldDetails.deadlines.map(deadline => `${deadline.label}: ${deadline.date}`),
+        newDetails.deadlines.map(deadline => `${deadline.label}: ${deadline.date}`)
+    );
+    diffList(
+        'Correspondence',
+        oldDetails.correspondence.map(entry => `${entry.date ? `${entry.date} - ` : ''}${entry.title}`),
+        newDetails.correspondence.map(entry => `${entry.date ? `${entry.date} - ` : ''}${entry.title}`)
+    );
+    diffList('Missing documents request', oldDetails.missingDocuments, newDetails.missingDocuments);
+
+    return changes;
+}
+
+function columnName(header: string[] | undefined, column: number): string {
+    const name = header?.[column]?.trim();
+    return name ? name : `${column + 1}`;
+}
+
+function diffRows(
+    tableIndex: number,
+    header: string[] | undefined,
+    oldRow: string[],
+    oldRowIndex: number,
+    newRow: string[],
+    newRowIndex: number
+): DataChange[] {
+    const changes: DataChange[] = [];
+    const columns = Math.max(oldRow.length, newRow.length);
+
+    for (let column = 0; column < columns; column++) {
+        const oldValue = oldRow[column] ?? null;
+        const newValue = newRow[column] ?? null;
+        if (oldValue === newValue) {
+            continue;
+        }
+        const location = `Table ${tableIndex + 1}, row ${newRowIndex + 1}, column ${columnName(header, column)}`;
+        changes.push({
+            kind: 'cell-changed',
+            section: 'tables',
+            location,
+            table: tableIndex,
+            row: newRowIndex,
+            column,
+            oldValue,
+            newValue,
+            description: `${location}: "${truncate(oldValue ?? '')}" → "${truncate(newValue ?? '')}"`
+        });
+    }
+
+    // Keep the original row position available when rows shifted
+    if (oldRowIndex !== newRowIndex) {
+        changes.forEach(change => {
+            change.location += ` (was row ${oldRowIndex + 1})`;
+        });
+    }
+
+    return changes;
+}
+
+export function diffTables(oldTables: string[][][], newTables: string[][][]): DataChange[] {
+    const changes: DataChange[] = [];
+    const tableCount = Math.max(oldTables.length, newTables.length);
+
+    for (let t = 0; t < tableCount; t++) {
+        const oldTable = oldTables[t];
+        const newTable = newTables[t];
+
+        if (!oldTable && newTable) {
+            changes.push({
+                kind: 'table-added',
+                section: 'tables',
+                location: `Table ${t + 1}`,
+                table: t,
+                oldValue: null,
+                newValue: JSON.stringify(newTable),
+                description: `Table ${t + 1} added (${newTable.length} rows)`
+            });
+            continue;
+        }
+        if (oldTable && !newTable) {
+            changes.push({
+                kind: 'table-removed',
+                section: 'tables',
+                location: `Table ${t + 1}`,
+                table: t,
+                oldValue: JSON.stringify(oldTable),
+                newValue: null,
+                description: `Table ${t + 1} removed (${oldTable.length} rows)`
+            });
+            continue;
+        }
+        if (!oldTable || !newTable) {
+            continue;
+        }
+
+        const header = newTable[0];
+        const ops = diffSequences(oldTable, newTable, row => JSON.stringify(row));
+
+        // Removed and added rows between two unchanged rows are paired up as modified rows
+        let removed: Array<{ index: number; row: string[] }> = [];
+        let added: Array<{ index: number; row: string[] }> = [];
+
+        const flush = () => {
+            const paired = Math.min(removed.length, added.length);
+            for (let k = 0; k < paired; k++) {
+                changes.push(...diffRows(t, header, removed[k]!.row, removed[k]!.index, added[k]!.row, added[k]!.index));
+            }
+            removed.slice(paired).forEach(({ index, row }) => {
+                const location = `Table ${t + 1}, row ${index + 1}`;
+                changes.push({
+                    kind: 'row-removed',
+                    section: 'tables',
+                    location,
+                    table: t,
+                    row: index,
+                    oldValue: row.join(' | '),
+                    newValue: null,
+                    description: `${location} removed: ${truncate(row.join(' | '))}`
+                });
+            });
+            added.slice(paired).forEach(({ index, row }) => {
+                const location = `Table ${t + 1}, row ${index + 1}`;
+                changes.push({
+                    kind: 'row-added',
+                    section: 'tables',
+                    location,
+                    table: t,
+                    row: index,
+                    oldValue: null,
+                    newValue: row.join(' | '),
+                    description: `${location} added: ${truncate(row.join(' | '))}`
+                });
+            });
+            removed = [];
+            added = [];
+        };
+
+        ops.forEach(op => {
+            if (op.type === 'removed') {
+                removed.push({ index: op.oldIndex, row: op.value });
+            } else if (op.type === 'added') {
+                added.push({ index: op.newIndex, row: op.value });
+            } else {
+                flush();
+            }
+        });
+        flush();
+    }
+
+    return changes;
+}
+
+export function diffText(oldText: string, newText: string): DataChange[] {
+    const toLines = (text: string) => text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+
+    const changes: DataChange[] = [];
+
+    diffSequences(toLines(oldText), toLines(newText)).forEach(op => {
+        if (op.type === 'added') {
+            changes.push({
+                kind: 'line-added',
+                section: 'text',
+                location: `Line ${op.newIndex + 1}`,
+                oldValue: null,
+                newValue: op.value,
+                description: `+ ${truncate(op.value)}`
+            });
+        } else if (op.type === 'removed') {
+            changes.push({
+                kind: 'line-removed',
+                section: 'text',
+                location: `Line ${op.oldIndex + 1}`,
+                oldValue: op.value,
+                newValue: null,
+                description: `- ${truncate(op.value)}`
+            });
+        }
+    });
+
+    return changes;
+}
+
+export function diffNumbers(oldNumbers: string[], newNumbers: string[]): DataChange[] {
+    const changes: DataChange[] = [];
+    const remaining = new Map<string, number>();
+
+    oldNumbers.forEach(value => remaining.set(value, (remaining.get(value) || 0) + 1));
+
+    newNumbers.forEach(value => {
+        const count = remaining.get(value) || 0;
+        if (count > 0) {
+            remaining.set(value, count - 1);
+        } else {
+            changes.push({
+                kind: 'number-added',
+                section: 'numbers',
+                location: 'Numbers/dates',
+                oldValue: null,
+                newValue: value,
+                description: `Number/date added: ${value}`
+            });
+        }
+    });
+
+    remaining.forEach((count, value) => {
+        for (let k = 0; k < count; k++) {
+            changes.push({
+                kind: 'number-removed',
+                section: 'numbers',
+                location: 'Numbers/dates',
+                oldValue: value,
+                newValue: null,
+                description: `Number/date removed: ${value}`
+            });
+        }
+    });
+
+    return changes;
+}
+
+// Full structured comparison of two snapshots, most meaningful changes first
+export function diffSnapshots(oldData: ScrapedData, newData: ScrapedData): DataChange[] {
+    return [
+        ...diffDetails(getDetails(oldData), getDetails(newData)),
+        ...diffTables(oldData.fields.tables || [], newData.fields.tables || []),
+        ...diffText(oldData.mainText || '', newData.mainText || ''),
+        ...diffNumbers(oldData.fields.numbers || [], newData.fields.numbers || [])
+    ];
+}
+
+const SECTION_LABELS: Record<ChangeSection, string> = {
+    details: 'field change(s)',
+    tables: 'table change(s)',
+    text: 'text line change(s)',
+    numbers: 'number/date change(s)',
+    applications: 'application list change(s)'
+};
+
+// Short one-line summary for desktop notifications and logs
+export function summarizeChanges(changes: DataChange[], maxDetails: number = 3): string {
+    const parts: string[] = [];
+
+    // Application list and field changes are spelled out, the rest is counted
+    (['applications', 'details'] as ChangeSection[]).forEach(section => {
+        const described = changes.filter(change => change.section === section);
+        parts.push(...described.slice(0, maxDetails).map(change => change.description));
+        if (described.length > maxDetails) {
+            parts.push(`${described.length - maxDetails} more ${SECTION_LABELS[section]}`);
+        }
+    });
+
+    (['tables', 'text', 'numbers'] as ChangeSection[]).forEach(section => {
+        const count = changes.filter(change => change.section === section).length;
+        if (count > 0) {
+            parts.push(`${count} ${SECTION_LABELS[section]}`);
+        }
+    });
+
+    return parts.join('; ');
+}
@@ -1,55 +1,97 @@
-import { app, BrowserWindow, ipcMain, Tray, Menu, shell, dialog } from 'electron';
+import { app, BrowserWindow, ipcMain, Tray, Menu, shell, dialog, safeStorage, powerMonitor, Notification } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs';
-import * as cron from 'node-cron';
-import { MultiAccountChecker } from '../pio-checker';
+import { resumeAccount, trackApplication } from '../accounts';
+import { Settings, loadSettings, saveSettings } from '../settings';
+import { loadScheduledAccounts, Scheduler, upcomingRuns, validateAccountSchedule, validateSchedule } from '../scheduler';
+import { CheckRunner } from '../check-runner';
+import { getLogsDir, initializeLogs, startupHeader, writeLog } from '../logger';
+import { FAILURE_FILE, getFailureFile, listFailures } from '../failures';
+import { compareSnapshots, listSnapshots } from '../history';
+import { openHistoryStore } from '../storage';
+import { buildTimeline, buildTimelines, timelineToCsv } from '../timeline';
+import { evaluateNoiseRules, mergeNoiseRules, validateNoiseRules } from '../noise-filter';
+import { AccountConfig, ExtractionRules, NoiseRules } from '../types';
+import { loadSiteProfile } from '../site-profile';
+import {
+    CredentialVault,
+    findPlaintextSecrets,
+    getVaultPath,
+    maskSecrets,
+    migrateToVault,
+    moveSecretsToVault,
+    redactSecrets,
+    restoreMaskedSecrets,
+    useSafeStorage
+} from '../vault';
 
 let mainWindow: BrowserWindow | null = null;
 let tray: Tray | null = null;
-let cronJob: cron.ScheduledTask | null = null;
-let isChecking = false;
 
 // Path to accounts.json - use project directory for consistency
 const accountsPath = path.join(process.cwd(), 'accounts.json');
-const settingsPath = path.join(process.cwd(), 'settings.json');
-const logsDir = path.join(process.cwd(), 'logs');
-const currentLogPath = path.join(logsDir, 'current.log');
-const previousLogPath = path.join(logsDir, 'previous.log');
-
-// Initialize logs directory
-function initializeLogs() {
-    if (!fs.existsSync(logsDir)) {
-        fs.mkdirSync(logsDir, { recursive: true });
-    }
+const logsDir = getLogsDir();
 
-    // Rotate logs: current becomes previous
-    if (fs.existsSync(currentLogPath)) {
-        fs.copyFileSync(currentLogPath, previousLogPath);
-        fs.unlinkSync(currentLogPath);
-    }
+// Checks started by the schedule, the tray or the window; progress and results go to the renderer
+const checkRunner = new CheckRunner({
+    onStatus: status => mainWindow?.webContents.send('check-status', redactSecrets(status)),
+    onProgress: progress => mainWindow?.webContents.send('check-progress', redactSecrets(progress))
+});
+const scheduler = new Scheduler((entry, accounts) => runCheck(accounts));
 
-    // Write initial log entry
-    writeLog('=== Application Started ===');
-    writeLog(`Timestamp: ${new Date().toISOString()}`);
-    writeLog(`Project Directory: ${process.cwd()}`);
-    writeLog(`Accounts Path: ${accountsPath}`);
-    writeLog(`Data Path: ${path.join(process.cwd(), 'data')}`);
-    writeLog('===========================\n');
+// Credential vault for secrets saved from the renderer; null (plaintext) until the user agreed to one, or when neither
+// keychain nor passphrase works. An existing vault is always used
+function openVault(): CredentialVault | null {
+    try {
+        return loadSettings().useVault ? CredentialVault.openOrCreate() : CredentialVault.open();
+    } catch (error) {
+        writeLog('Credential vault unavailable, secrets stay in plaintext: ' + (error instanceof Error ? error.message : String(error)), 'WARN');
+        return null;
+    }
 }
 
-// Write log to file and console
-function writeLog(message: string, level: 'INFO' | 'ERROR' | 'WARN' = 'INFO') {
-    const timestamp = new Date().toISOString();
-    const logLine = `[${timestamp}] [${level}] ${message}\n`;
-
-    // Write to console
-    console.log(logLine.trim());
+// Asks once before moving plaintext passwords from accounts.json, settings.json and .env into the vault; the answer is
+// kept as useVault in settings.json. A keychain vault locks out the command line and the daemon, so the question says so
+async function migrateSecrets() {
+    const settings = loadSettings();
+    const files = settings.useVault === false ? [] : findPlaintextSecrets();
+    if (files.length === 0) {
+        return;
+    }
+    if (settings.useVault === undefined) {
+        const keychainOnly = !process.env.PIO_VAULT_PASSPHRASE && !fs.existsSync(getVaultPath());
+        const { response } = await dialog.showMessageBox({
+            type: 'question',
+            buttons: ['Move to Vault', 'Keep Plaintext'],
+            defaultId: 0,
+            cancelId: 1,
+            title: 'Credential Vault',
+            message: `Move the plaintext passwords in ${files.join(', ')} into the encrypted credential vault?`,
+            detail: keychainOnly
+                ? 'The vault will be protected by the OS keychain, which only this app can open: npm run check, the command line and the daemon ' +
+                    'will no longer be able to read the passwords. To keep them working, quit, set PIO_VAULT_PASSPHRASE and start the app again.'
+                : 'The files will keep vault: references instead of the passwords.'
+        });
+        settings.useVault = response === 0;
+        saveSettings(settings);
+        writeLog(settings.useVault ? 'Plaintext secrets will be moved into the credential vault' : 'Plaintext secrets kept, not asking again');
+        if (!settings.useVault) {
+            return;
+        }
+    }
 
-    // Write to file
+    const vault = openVault();
+    if (!vault) {
+        return;
+    }
     try {
-        fs.appendFileSync(currentLogPath, logLine, 'utf8');
+        const report = migrateToVault(vault);
+        const moved = report.accounts + report.settings + report.env;
+        if (moved > 0) {
+            writeLog(`Moved ${moved} plaintext secret(s) into the credential vault (${vault.backend})`);
+        }
     } catch (error) {
-        console.error('Failed to write to log file:', error);
+        writeLog('Credential migration failed: ' + (error instanceof Error ? error.message : String(error)), 'ERROR');
     }
 }
 
@@ -63,59 +105,6 @@ function initializeAccounts() {
     writeLog('Accounts file location: ' + accountsPath);
 }
 
-interface DaySchedule {
-    enabled: boolean;
-    time: string; // HH:MM format
-}
-
-interface Settings {
-    scheduleEnabled: boolean;
-    scheduleType?: 'interval' | 'days'; // interval or day-based
-    scheduleInterval: number; // in minutes
-    scheduleDays?: {
-        [key: string]: DaySchedule; // monday, tuesday, etc.
-    };
-    lastCheck?: string;
-    headlessMode?: boolean; // whether to run browser in headless mode
-}
-
-// Load or create settings
-function loadSettings(): Settings {
-    try {
-        if (fs.existsSync(settingsPath)) {
-            const settings = JSON.parse(fs.readFileSync(settingsPath, 'utf8'));
-            // Set defaults for new properties
-            if (!settings.scheduleType) {
-                settings.scheduleType = 'days';
-            }
-            if (!settings.scheduleDays) {
-                settings.scheduleDays = {};
-            }
-            if (settings.headlessMode === undefined) {
-                settings.headlessMode = true; // default to headless
-            }
-            return settings;
-        }
-    } catch (error) {
-        console.error('Error loading settings:', error);
-    }
-    return {
-        scheduleEnabled: false,
-        scheduleType: 'days',
-        scheduleInterval: 30, // default 30 minutes
-        scheduleDays: {},
-        headlessMode: true // default to headless mode
-    };
-}
-
-function saveSettings(settings: Settings): void {
-    try {
-        fs.writeFileSync(settingsPath, JSON.stringify(settings, null, 2));
-    } catch (error) {
-        console.error('Error saving settings:', error);
-    }
-}
-
 function createWindow() {
     mainWindow = new BrowserWindow({
         width: 1200,
@@ -184,199 +173,290 @@ function createTray() {
     });
 }
 
-async function runCheck() {
-    if (isChecking) {
-        writeLog('Check already in progress', 'WARN');
-        return;
+// Every account unless the schedule names some; adaptive schedules follow up on what the check found
+function runCheck(accounts: string[] | null = null) {
+    void checkRunner.run(accounts).then(() => scheduler.refresh());
+}
+
+function setupScheduler(settings: Settings) {
+    scheduler.start(settings, loadScheduledAccounts());
+}
+
+// One check for the scheduled runs missed while the app was closed or the computer slept
+function catchUpMissedRuns(reason: string) {
+    const missed = scheduler.catchUp(reason);
+    if (missed.length > 0 && Notification.isSupported()) {
+        const at = new Date(missed[0]!.at).toLocaleString();
+        new Notification({
+            title: 'PIO Website Checker',
+            body: `Checking now: the scheduled check of ${at}${missed.length > 1 ? ` and ${missed.length - 1} more` : ''} was missed (${reason})`
+        }).show();
     }
+}
 
-    // Check if accounts.json has any accounts
+// IPC Handlers
+ipcMain.handle('get-accounts', async () => {
     try {
-        const accountsContent = fs.readFileSync(accountsPath, 'utf8');
-        const accounts = JSON.parse(accountsContent);
-        if (!Array.isArray(accounts) || accounts.length === 0) {
-            writeLog('No accounts configured, skipping check', 'WARN');
-            mainWindow?.webContents.send('check-status', {
-                status: 'error',
-                message: 'No accounts configured. Please add accounts in the Accounts tab.',
-                timestamp: new Date().toISOString()
-            });
-            return;
+        if (fs.existsSync(accountsPath)) {
+            const content = fs.readFileSync(accountsPath, 'utf8');
+            // Plaintext passwords are never sent to the renderer; vault references are
+            return { success: true, data: JSON.stringify(maskSecrets(JSON.parse(content)), null, 2) };
         }
+        return { success: true, data: '[]' };
     } catch (error) {
-        writeLog('Error reading accounts: ' + (error instanceof Error ? error.message : String(error)), 'ERROR');
-        mainWindow?.webContents.send('check-status', {
-            status: 'error',
-            message: 'Error reading accounts configuration',
-            timestamp: new Date().toISOString()
-        });
-        return;
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
     }
+});
 
-    isChecking = true;
-    const settings = loadSettings();
-    const now = new Date();
-    settings.lastCheck = now.toISOString();
-    writeLog(`Check started at: ${now.toLocaleString()} (UTC: ${now.toISOString()}, Timezone: ${Intl.DateTimeFormat().resolvedOptions().timeZone})`);
-    saveSettings(settings);
-
-    // Send status to renderer
-    mainWindow?.webContents.send('check-status', {
-        status: 'running',
-        message: 'Running check...',
-        timestamp: new Date().toISOString()
-    });
-
+ipcMain.handle('save-accounts', async (event, content: string) => {
     try {
-        const headlessMode = settings.headlessMode !== undefined ? settings.headlessMode : true;
-        writeLog(`Running check with headless mode: ${headlessMode}`);
+        // Validate JSON
+        const existing = fs.existsSync(accountsPath) ? JSON.parse(fs.readFileSync(accountsPath, 'utf8')) : [];
+        let accounts = restoreMaskedSecrets(JSON.parse(content), existing);
 
-        const checker = new MultiAccountChecker(headlessMode);
-        const results = await checker.runAll();
+        if (Array.isArray(accounts)) {
+            const settings = loadSettings();
+            accounts.forEach((account: AccountConfig, index: number) => {
+                validateAccountSchedule(settings, account, `Account ${index + 1} (${account.login})`);
+            });
+        }
 
-        writeLog(`Check completed successfully. Results: ${JSON.stringify(results)}`);
+        // A new password is the fix for rejected credentials, so the account is checked again on schedule
+        if (Array.isArray(accounts) && Array.isArray(existing)) {
+            accounts.forEach((account: AccountConfig) => {
+                const previous = existing.find((acc: AccountConfig) => acc.login === account.login);
+                if (account.paused && previous && previous.password !== account.password) {
+                    delete account.paused;
+                    writeLog(`Password of ${account.login} changed, scheduled checks resumed`);
+                }
+            });
+        }
 
-        // Send results to renderer
-        mainWindow?.webContents.send('check-status', {
-            status: 'completed',
-            message: 'Check completed successfully',
-            results: results,
-            timestamp: new Date().toISOString()
-        });
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        writeLog('Check failed: ' + errorMessage, 'ERROR');
-        if (error instanceof Error && error.stack) {
-            writeLog('Stack trace: ' + error.stack, 'ERROR');
+        // Newly typed passwords go into the vault; accounts.json keeps "vault:<key>" references
+        const vault = openVault();
+        if (vault) {
+            const { value, moved } = moveSecretsToVault(accounts, vault, 'accounts');
+            if (moved > 0) {
+                vault.save();
+                writeLog(`Stored ${moved} secret(s) from accounts.json in the credential vault`);
+            }
+            accounts = value;
         }
+        fs.writeFileSync(accountsPath, JSON.stringify(accounts, null, 2));
 
-        mainWindow?.webContents.send('check-status', {
-            status: 'error',
-            message: `Check failed: ${errorMessage}`,
-            timestamp: new Date().toISOString()
-        });
-    } finally {
-        isChecking = false;
-        writeLog('Check process finished');
+        // Accounts may have their own schedules
+        setupScheduler(loadSettings());
+        return { success: true };
+    } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
     }
-}
+});
 
-function setupScheduler(settings: Settings) {
-    // Clear existing job if any
-    if (cronJob) {
-        cronJob.stop();
-        cronJob = null;
+ipcMain.handle('get-settings', async () => {
+    return maskSecrets(loadSettings());
+});
+
+ipcMain.handle('save-settings', async (event, settings: Settings) => {
+    try {
+        const stored = loadSettings();
+        settings = restoreMaskedSecrets(settings, stored);
+        // The answer to the vault question is not part of the settings form
+        if (settings.useVault === undefined && stored.useVault !== undefined) {
+            settings.useVault = stored.useVault;
+        }
+        validateSchedule(settings, 'Schedule');
+    } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
     }
 
-    if (!settings.scheduleEnabled) {
-        writeLog('Scheduler disabled');
-        return;
+    // Channel passwords and tokens go into the vault like account passwords
+    const vault = settings.notificationChannels ? openVault() : null;
+    if (vault) {
+        const { value, moved } = moveSecretsToVault(settings, vault, 'settings');
+        if (moved > 0) {
+            vault.save();
+        }
+        settings = value;
     }
+    saveSettings(settings);
 
-    if (settings.scheduleType === 'interval') {
-        const intervalMinutes = settings.scheduleInterval;
-        if (intervalMinutes > 0) {
-            // Create cron expression for running every N minutes
-            const cronExpression = `*/${intervalMinutes} * * * *`;
+    // Update scheduler
+    setupScheduler(settings);
 
-            cronJob = cron.schedule(cronExpression, () => {
-                console.log(`Running scheduled check at ${new Date().toISOString()}`);
-                runCheck();
-            });
+    return { success: true };
+});
 
-            cronJob.start();
-            writeLog(`Scheduler started: checking every ${intervalMinutes} minutes`);
-        }
-    } else if (settings.scheduleType === 'days' && settings.scheduleDays) {
-        // Build cron expressions for each enabled day
-        const days = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-        const dayToCron: { [key: string]: number } = {
-            sunday: 0,
-            monday: 1,
-            tuesday: 2,
-            wednesday: 3,
-            thursday: 4,
-            friday: 5,
-            saturday: 6
-        };
-
-        const enabledDays = days.filter(day =>
-            settings.scheduleDays![day] && settings.scheduleDays![day].enabled
-        );
-
-        if (enabledDays.length === 0) {
-            writeLog('No days enabled for scheduling', 'WARN');
-            return;
-        }
+// Next scheduled checks: of the running schedule, or of settings being edited before they are saved
+ipcMain.handle('get-next-runs', async (event, settings?: Settings, count: number = 5) => {
+    try {
+        return { success: true, data: settings ? upcomingRuns(settings, new Date(), count, loadScheduledAccounts()) : scheduler.nextRuns(count) };
+    } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+});
 
-        // Create a cron job for each enabled day
-        const cronJobs: cron.ScheduledTask[] = [];
+function findAccountConfig(account: string): AccountConfig | undefined {
+    const accounts: AccountConfig[] = fs.existsSync(accountsPath) ? JSON.parse(fs.readFileSync(accountsPath, 'utf8')) : [];
+    return accounts.find(acc => acc.login === account);
+}
 
-        enabledDays.forEach(day => {
-            const dayConfig = settings.scheduleDays![day];
-            if (!dayConfig) return;
+// Data folder of a configured account; the login comes from the renderer, so it must not name any other path
+function getAccountDir(account: string): string {
+    if (!findAccountConfig(account)) {
+        throw new Error(`Unknown account: ${account}`);
+    }
+    return path.join(process.cwd(), 'data', account);
+}
 
-            const [hours, minutes] = dayConfig.time.split(':').map(Number);
-            const dayOfWeek = dayToCron[day];
+// Global ignore rules plus the account's own, as used by its checks
+function getAccountNoiseRules(account: string): NoiseRules {
+    return mergeNoiseRules(loadSettings().ignoreRules, findAccountConfig(account)?.ignoreRules);
+}
 
-            // Cron format: minute hour * * day-of-week
-            const cronExpression = `${minutes} ${hours} * * ${dayOfWeek}`;
+// The checks re-read the details of the filtered page with the extraction rules of the account's site profile
+function getAccountExtraction(account: string): ExtractionRules {
+    return loadSiteProfile(findAccountConfig(account)?.siteProfile || loadSettings().siteProfile).extraction;
+}
 
-            writeLog(`Setting up cron for ${day}: expression="${cronExpression}", time=${dayConfig.time}, current time=${new Date().toLocaleString()}`);
+ipcMain.handle('test-ignore-rules', async (event, account: string, rules?: NoiseRules, application?: string) => {
+    try {
+        const effectiveRules = rules || getAccountNoiseRules(account);
+        validateNoiseRules(effectiveRules, 'ignoreRules');
+
+        const extraction = getAccountExtraction(account);
+        const store = openHistoryStore();
+        const applications = application ? [application] : store.listApplications(account);
+        const data = applications.map(applicationId => ({
+            application: applicationId,
+            reports: evaluateNoiseRules(store.listSnapshots(account, applicationId), effectiveRules, extraction)
+        }));
+        return { success: true, data };
+    } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+});
 
-            const job = cron.schedule(cronExpression, () => {
-                writeLog(`Running scheduled check for ${day} at ${dayConfig.time} (system time: ${new Date().toLocaleString()}, UTC: ${new Date().toISOString()})`);
-                runCheck();
-            }, {
-                timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
-            });
+ipcMain.handle('get-application-list', async (event, account: string) => {
+    try {
+        const accountDir = getAccountDir(account);
+        const files = fs.existsSync(accountDir)
+            ? fs.readdirSync(accountDir).filter(f => f.startsWith('wnioski-przyjete_') && f.endsWith('.json')).sort()
+            : [];
+        const latest = files[files.length - 1];
+        const data = latest ? JSON.parse(fs.readFileSync(path.join(accountDir, latest), 'utf8')) : null;
+        return { success: true, data };
+    } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+});
 
-            job.start();
-            cronJobs.push(job);
-            writeLog(`✓ Scheduled check for ${day} at ${dayConfig.time} (timezone: ${Intl.DateTimeFormat().resolvedOptions().timeZone})`);
-        });
+ipcMain.handle('track-application', async (event, account: string, applicationId: string) => {
+    try {
+        const added = trackApplication(account, applicationId);
+        writeLog(added ? `Now tracking application ${applicationId} for ${account}` : `Application ${applicationId} already tracked for ${account}`);
+        return { success: true, data: { added } };
+    } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+});
 
-        // Store the first job as the main job (for stopping later)
-        // In a real app, we'd want to track all jobs
-        cronJob = cronJobs[0] || null;
+// Full snapshot history of an account (or one application), newest first, with status and stage of each check
+ipcMain.handle('get-snapshot-history', async (event, account: string, application?: string) => {
+    try {
+        return { success: true, data: listSnapshots(openHistoryStore(), account, application) };
+    } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
     }
-}
+});
 
-// IPC Handlers
-ipcMain.handle('get-accounts', async () => {
+ipcMain.handle('get-snapshot', async (event, account: string, application: string, filename: string) => {
     try {
-        if (fs.existsSync(accountsPath)) {
-            const content = fs.readFileSync(accountsPath, 'utf8');
-            return { success: true, data: content };
-        }
-        return { success: true, data: '[]' };
+        return { success: true, data: openHistoryStore().readSnapshot(account, application, filename) };
     } catch (error) {
         return { success: false, error: error instanceof Error ? error.message : String(error) };
     }
 });
 
-ipcMain.handle('save-accounts', async (event, content: string) => {
+// Inline and side-by-side diff of any two snapshots; by default without the noise the ignore rules hide
+ipcMain.handle('compare-snapshots', async (event, account: string, application: string, from: string, to: string, applyIgnoreRules: boolean = true) => {
     try {
-        // Validate JSON
-        JSON.parse(content);
-        fs.writeFileSync(accountsPath, content);
-        return { success: true };
+        const rules = applyIgnoreRules ? getAccountNoiseRules(account) : {};
+        return { success: true, data: compareSnapshots(openHistoryStore(), account, application, from, to, rules, getAccountExtraction(account)) };
     } catch (error) {
         return { success: false, error: error instanceof Error ? error.message : String(error) };
     }
 });
 
-ipcMain.handle('get-settings', async () => {
-    return loadSettings();
+// Status/stage timeline with days per stage and check statistics, for one application or all of the account
+ipcMain.handle('get-timeline', async (event, account: string, application?: string) => {
+    try {
+        const store = openHistoryStore();
+        return { success: true, data: application ? [buildTimeline(store, account, application)] : buildTimelines(store, account) };
+    } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
 });
 
-ipcMain.handle('save-settings', async (event, settings: Settings) => {
-    saveSettings(settings);
+ipcMain.handle('export-timeline', async (event, account: string, format: 'json' | 'csv' = 'csv') => {
+    try {
+        const result = await dialog.showSaveDialog(mainWindow!, {
+            defaultPath: `timeline-${account}.${format}`,
+            filters: [{ name: format.toUpperCase(), extensions: [format] }]
+        });
+        if (result.canceled || !result.filePath) {
+            return { success: true, data: null };
+        }
+        const timelines = buildTimelines(openHistoryStore(), account);
+        fs.writeFileSync(result.filePath, format === 'json' ? JSON.stringify(timelines, null, 2) : timelineToCsv(timelines));
+        writeLog(`Timeline of ${account} exported to ${result.filePath}`);
+        return { success: true, data: result.filePath };
+    } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+});
 
-    // Update scheduler
-    setupScheduler(settings);
+// Screenshots, HTML and console logs saved in data/<login>/failures/ when a check failed
+ipcMain.handle('get-failures', async (event, account: string) => {
+    try {
+        return { success: true, data: listFailures(getAccountDir(account)) };
+    } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+});
 
-    return { success: true };
+// Screenshots come back as data URLs, HTML and console logs as text
+ipcMain.handle('get-failure-file', async (event, account: string, run: string, name: string, file: string) => {
+    try {
+        const filePath = getFailureFile(getAccountDir(account), run, name, file);
+        const data = filePath.endsWith('.png')
+            ? `data:image/png;base64,${fs.readFileSync(filePath).toString('base64')}`
+            : fs.readFileSync(filePath, 'utf8');
+        return { success: true, data };
+    } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+});
+
+ipcMain.handle('open-failure-folder', async (event, account: string, run: string, name: string) => {
+    try {
+        const folder = path.dirname(getFailureFile(getAccountDir(account), run, name, FAILURE_FILE));
+        const error = await shell.openPath(folder);
+        return error ? { success: false, error } : { success: true };
+    } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+});
+
+ipcMain.handle('resume-account', async (event, account: string) => {
+    try {
+        const resumed = resumeAccount(account);
+        if (resumed) {
+            writeLog(`Scheduled checks of ${account} resumed`);
+        }
+        return { success: true, data: { resumed } };
+    } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
 });
 
 ipcMain.handle('run-check', async () => {
@@ -399,31 +479,31 @@ ipcMain.handle('open-logs-folder', async () => {
     return { success: true };
 });
 
+// One stored check in the log view
+interface LogEntry {
+    account: string;
+    application: string;
+    filename: string;
+    timestamp: string;
+    url: string;
+}
+
 ipcMain.handle('get-logs', async () => {
     try {
-        const dataDir = path.join(process.cwd(), 'data');
-        const logs: any[] = [];
-
-        if (fs.existsSync(dataDir)) {
-            const accounts = fs.readdirSync(dataDir);
-            for (const account of accounts) {
-                const accountDir = path.join(dataDir, account);
-                if (fs.statSync(accountDir).isDirectory()) {
-                    const files = fs.readdirSync(accountDir)
-                        .filter(f => f.endsWith('.json'))
-                        .sort()
-                        .reverse()
-                        .slice(0, 10); // Last 10 checks per account
-
-                    for (const file of files) {
-                        const content = JSON.parse(fs.readFileSync(path.join(accountDir, file), 'utf8'));
-                        logs.push({
-                            account,
-                            filename: file,
-                            timestamp: content.timestamp,
-                            url: content.url
-                        });
-                    }
+        const store = openHistoryStore();
+        const logs: LogEntry[] = [];
+
+        for (const { login: account } of store.listAccounts()) {
+            for (const application of store.listApplications(account)) {
+                // Last 10 checks per application
+                for (const snapshot of store.listSnapshots(account, application).slice(-10).reverse()) {
+                    logs.push({
+                        account,
+                        application,
+                        filename: snapshot.name,
+                        timestamp: snapshot.data.timestamp,
+                        url: snapshot.data.url
+                    });
                 }
             }
         }
@@ -435,19 +515,30 @@ ipcMain.handle('get-logs', async () => {
 });
 
 // App event handlers
-app.whenReady().then(() => {
+app.whenReady().then(async () => {
     // Initialize logs first
-    initializeLogs();
+    initializeLogs(startupHeader('Application Started'));
 
     // Initialize accounts.json if it doesn't exist
     initializeAccounts();
 
+    // The OS keychain is only usable once the app is ready
+    useSafeStorage(safeStorage);
+    await migrateSecrets();
+
     createWindow();
     createTray();
 
     // Load settings and start scheduler if enabled
     const settings = loadSettings();
     setupScheduler(settings);
+    catchUpMissedRuns('app started');
+
+    // Timers do not run while the computer sleeps
+    powerMonitor.on('resume', () => {
+        writeLog('System resumed');
+        catchUpMissedRuns('system resumed');
+    });
 });
 
 app.on('window-all-closed', () => {
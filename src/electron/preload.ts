@@ -10,6 +10,38 @@ contextBridge.exposeInMainWorld('electronAPI', {
     // Settings management
     getSettings: () => ipcRenderer.invoke('get-settings'),
     saveSettings: (settings: any) => ipcRenderer.invoke('save-settings', settings),
+    // Next scheduled check times and the accounts they cover, skipping quiet hours; pass unsaved settings to preview them
+    getNextRuns: (settings?: any, count?: number) => ipcRenderer.invoke('get-next-runs', settings, count),
+
+    // Ignore rules: replay against stored snapshots, per application folder
+    testIgnoreRules: (account: string, rules?: any, application?: string) =>
+        ipcRenderer.invoke('test-ignore-rules', account, rules, application),
+
+    // Applications list: latest wnioski-przyjete snapshot and tracking of newly found applications
+    getApplicationList: (account: string) => ipcRenderer.invoke('get-application-list', account),
+    trackApplication: (account: string, applicationId: string) =>
+        ipcRenderer.invoke('track-application', account, applicationId),
+
+    // Accounts paused after rejected credentials or a lock are checked on schedule again
+    resumeAccount: (account: string) => ipcRenderer.invoke('resume-account', account),
+
+    // Snapshot history: list every check, open one, compare any two (inline, side by side and per table)
+    getSnapshotHistory: (account: string, application?: string) => ipcRenderer.invoke('get-snapshot-history', account, application),
+    getSnapshot: (account: string, application: string, filename: string) =>
+        ipcRenderer.invoke('get-snapshot', account, application, filename),
+    compareSnapshots: (account: string, application: string, from: string, to: string, applyIgnoreRules?: boolean) =>
+        ipcRenderer.invoke('compare-snapshots', account, application, from, to, applyIgnoreRules),
+
+    // Timeline: stages with days spent in each and check statistics; export saves CSV or JSON through a save dialog
+    getTimeline: (account: string, application?: string) => ipcRenderer.invoke('get-timeline', account, application),
+    exportTimeline: (account: string, format?: 'json' | 'csv') => ipcRenderer.invoke('export-timeline', account, format),
+
+    // Failure artifacts: runs with their captures, one saved file, or the capture folder in the file manager
+    getFailures: (account: string) => ipcRenderer.invoke('get-failures', account),
+    getFailureFile: (account: string, run: string, name: string, file: string) =>
+        ipcRenderer.invoke('get-failure-file', account, run, name, file),
+    openFailureFolder: (account: string, run: string, name: string) =>
+        ipcRenderer.invoke('open-failure-folder', account, run, name),
 
     // Check operations
     runCheck: () => ipcRenderer.invoke('run-check'),
@@ -22,6 +54,11 @@ contextBridge.exposeInMainWorld('electronAPI', {
         ipcRenderer.on('check-status', callback);
     },
 
+    // Per-account progress of a running check: queued, running, finished (with its result and timing)
+    onCheckProgress: (callback: (event: any, data: any) => void) => {
+        ipcRenderer.on('check-progress', callback);
+    },
+
     // Open data folder
     openDataFolder: () => {
         ipcRenderer.invoke('open-data-folder');
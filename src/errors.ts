@@ -0,0 +1,133 @@
+import { ErrorCategory } from './types';
+
+export const ERROR_CATEGORIES: ErrorCategory[] = [
+    'auth',
+    'account-locked',
+    'captcha',
+    'maintenance',
+    'application-not-found',
+    'site-unavailable',
+    'selector-changed',
+    'navigation-timeout',
+    'unknown'
+];
+
+// Worth another attempt: the portal may be back or faster in a moment
+const TRANSIENT: ErrorCategory[] = ['site-unavailable', 'navigation-timeout', 'unknown'];
+
+// Trying again with the same credentials cannot help and may get the account locked
+const PAUSING: ErrorCategory[] = ['auth', 'account-locked'];
+
+export function pausesAccount(category: ErrorCategory): boolean {
+    return PAUSING.includes(category);
+}
+
+// A failure of a check with the category that decides retries and is reported in notifications and results
+export class CheckError extends Error {
+    constructor(readonly category: ErrorCategory, message: string) {
+        super(message);
+        this.name = new.target.name;
+    }
+
+    get transient(): boolean {
+        return TRANSIENT.includes(this.category);
+    }
+}
+
+// The portal kept showing the login form after submitting the credentials
+export class AuthenticationError extends CheckError {
+    constructor(message: string) {
+        super('auth', message);
+    }
+}
+
+// The portal refuses the login because of too many attempts or a blocked account
+export class AccountLockedError extends CheckError {
+    constructor(message: string) {
+        super('account-locked', message);
+    }
+}
+
+// A captcha has to be solved by a person before logging in
+export class CaptchaError extends CheckError {
+    constructor(message: string) {
+        super('captcha', message);
+    }
+}
+
+// The portal shows its maintenance page; retrying within the same run will not help
+export class MaintenanceError extends CheckError {
+    constructor(message: string) {
+        super('maintenance', message);
+    }
+}
+
+// No link to the application on wnioski-przyjete
+export class ApplicationNotFoundError extends CheckError {
+    constructor(message: string) {
+        super('application-not-found', message);
+    }
+}
+
+// Connection refused, DNS failure or 5xx responses
+export class SiteUnavailableError extends CheckError {
+    constructor(message: string) {
+        super('site-unavailable', message);
+    }
+}
+
+// An element the checker relies on is missing; the page layout probably changed
+export class SelectorChangedError extends CheckError {
+    constructor(message: string) {
+        super('selector-changed', message);
+    }
+}
+
+// A page or element did not load in time
+export class NavigationTimeoutError extends CheckError {
+    constructor(message: string) {
+        super('navigation-timeout', message);
+    }
+}
+
+const ERROR_CLASSES: Record<Exclude<ErrorCategory, 'unknown'>, new (message: string) => CheckError> = {
+    'auth': AuthenticationError,
+    'account-locked': AccountLockedError,
+    'captcha': CaptchaError,
+    'maintenance': MaintenanceError,
+    'application-not-found': ApplicationNotFoundError,
+    'site-unavailable': SiteUnavailableError,
+    'selector-changed': SelectorChangedError,
+    'navigation-timeout': NavigationTimeoutError
+};
+
+export function createCheckError(category: ErrorCategory, message: string): CheckError {
+    return category === 'unknown' ? new CheckError('unknown', message) : new ERROR_CLASSES[category](message);
+}
+
+// Maps puppeteer and network errors onto a category; errors that are already classified pass through
+export function classifyError(error: unknown): CheckError {
+    if (error instanceof CheckError) {
+        return error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+
+    if ((error instanceof Error && error.name === 'TimeoutError') || /timeout .*exceeded|timed out/i.test(message)) {
+        return new NavigationTimeoutError(message);
+    }
+    if (/net::ERR_|ECONNREFUSED|ECONNRESET|ENOTFOUND|EAI_AGAIN/.test(message)) {
+        return new SiteUnavailableError(message);
+    }
+    return new CheckError('unknown', message);
+}
+
+// Same category, message prefixed with what was being done
+export function withContext(error: CheckError, context: string): CheckError {
+    return createCheckError(error.category, `${context}: ${error.message}`);
+}
+
+// Exponential backoff with up to 20% jitter: 5s, 10s, 20s, ... capped at maxMs
+export function backoffDelay(attempt: number, baseMs: number = 5000, maxMs: number = 60000, random: () => number = Math.random): number {
+    const delay = Math.min(maxMs, baseMs * 2 ** (attempt - 1));
+    return Math.round(delay * (1 + random() * 0.2));
+}
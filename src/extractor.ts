@@ -0,0 +1,194 @@
+import { ApplicationDetails, CorrespondenceEntry, DeadlineEntry, ExtractionRules } from './types';
+
+// Labels as they appear on the szczegoly-wniosku page (lowercase, without trailing colon)
+const FIELD_LABELS: ExtractionRules['fieldLabels'] = {
+    caseNumber: ['numer sprawy', 'sygnatura sprawy', 'znak sprawy', 'case number'],
+    applicationNumber: ['numer wniosku', 'nr wniosku', 'application number'],
+    submissionDate: ['data złożenia wniosku', 'data złożenia', 'data wpływu wniosku', 'data wpływu', 'submission date'],
+    status: ['status wniosku', 'status sprawy', 'status', 'application status'],
+    stage: ['etap postępowania', 'etap sprawy', 'etap', 'stage'],
+    caseHandler: ['osoba prowadząca sprawę', 'osoba prowadząca', 'inspektor prowadzący', 'prowadzący sprawę', 'case handler']
+};
+
+// Header keywords identifying the correspondence/documents table
+const CORRESPONDENCE_KEYWORDS = ['korespondencja', 'pismo', 'pisma', 'dokument', 'dokumenty', 'correspondence', 'document'];
+
+// Text fragments that mark a request for missing documents
+const MISSING_DOCUMENT_KEYWORDS = ['wezwanie do uzupełnienia', 'uzupełnienie braków', 'braki formalne', 'brakujące dokumenty', 'missing document'];
+
+// What the DUW portal shows; site profiles of other offices can replace any of it
+export const DEFAULT_EXTRACTION_RULES: ExtractionRules = {
+    fieldLabels: FIELD_LABELS,
+    correspondenceKeywords: CORRESPONDENCE_KEYWORDS,
+    missingDocumentKeywords: MISSING_DOCUMENT_KEYWORDS
+};
+
+const DEADLINE_KEYWORD = /termin|deadline/i;
+const DATE_PATTERN = /\b(\d{1,2}[.\-/]\d{1,2}[.\-/]\d{4}|\d{4}-\d{2}-\d{2})\b/;
+
+function normalizeLabel(text: string): string {
+    return text.trim().replace(/:$/, '').trim().toLowerCase();
+}
+
+function findDate(text: string): string | null {
+    const match = text.match(DATE_PATTERN);
+    return match ? match[1]! : null;
+}
+
+// Look for "Label: value", "Label\tvalue" or a label line followed by its value line
+function findLabeledValue(lines: string[], labels: string[]): string | null {
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i]!;
+        const lower = line.toLowerCase();
+
+        for (const label of labels) {
+            if (!lower.startsWith(label)) {
+                continue;
+            }
+
+            const rest = line.slice(label.length);
+            const inline = rest.match(/^\s*[:\t]\s*(.+)$/);
+            if (inline) {
+                return inline[1]!.trim();
+            }
+
+            if (normalizeLabel(line) === label) {
+                const next = lines[i + 1];
+                if (next && next.trim()) {
+                    return next.trim();
+                }
+            }
+        }
+    }
+
+    return null;
+}
+
+// Two-column table rows are usually label/value pairs
+function findTableValue(tables: string[][][], labels: string[]): string | null {
+    for (const table of tables) {
+        for (const row of table) {
+            if (row.length < 2) {
+                continue;
+            }
+            const label = normalizeLabel(row[0]!);
+            if (labels.includes(label) && row[1]!.trim()) {
+                return row[1]!.trim();
+            }
+        }
+    }
+    return null;
+}
+
+function extractField(lines: string[], tables: string[][][], labels: string[]): string | null {
+    return findTableValue(tables, labels) ?? findLabeledValue(lines, labels);
+}
+
+function extractDeadlines(lines: string[], tables: string[][][]): DeadlineEntry[] {
+    const deadlines: DeadlineEntry[] = [];
+    const seen = new Set<string>();
+
+    const add = (label: string, date: string) => {
+        const key = `${label}|${date}`;
+        if (!seen.has(key)) {
+            seen.add(key);
+            deadlines.push({ label, date });
+        }
+    };
+
+    for (const table of tables) {
+        for (const row of table) {
+            if (row.length >= 2 && DEADLINE_KEYWORD.test(row[0]!)) {
+                const date = findDate(row.slice(1).join(' '));
+                if (date) {
+                    add(row[0]!.trim().replace(/:$/, ''), date);
+                }
+            }
+        }
+    }
+
+    lines.forEach((line, index) => {
+        if (!DEADLINE_KEYWORD.test(line)) {
+            return;
+        }
+        const date = findDate(line) ?? findDate(lines[index + 1] || '');
+        if (date) {
+            const label = line.replace(DATE_PATTERN, '').replace(/[:\s]+$/, '').trim();
+            add(label, date);
+        }
+    });
+
+    return deadlines;
+}
+
+function isCorrespondenceTable(table: string[][], keywords: string[]): boolean {
+    const header = (table[0] || []).join(' ').toLowerCase();
+    return keywords.some(keyword => header.includes(keyword));
+}
+
+function extractCorrespondence(tables: string[][][], keywords: string[]): CorrespondenceEntry[] {
+    const entries: CorrespondenceEntry[] = [];
+
+    for (const table of tables) {
+        if (!isCorrespondenceTable(table, keywords)) {
+            continue;
+        }
+
+        table.slice(1).forEach(row => {
+            const cells = row.map(cell => cell.trim());
+            if (cells.every(cell => !cell)) {
+                return;
+            }
+
+            const date = cells.map(findDate).find(value => value !== null) ?? null;
+            // The title is the longest cell that is not just a date
+            const title = cells
+                .filter(cell => cell && cell !== date)
+                .sort((a, b) => b.length - a.length)[0] || '';
+
+            entries.push({ date, title, cells });
+        });
+    }
+
+    return entries;
+}
+
+function extractMissingDocuments(lines: string[], keywords: string[]): string[] {
+    const requests: string[] = [];
+    for (const line of lines) {
+        const lower = line.toLowerCase();
+        if (keywords.some(keyword => lower.includes(keyword)) && !requests.includes(line.trim())) {
+            requests.push(line.trim());
+        }
+    }
+    return requests;
+}
+
+// Application numbers, dates and other numeric tokens found in the page text
+export function extractNumbers(text: string): string[] {
+    return text.match(/\d+[\.\d]*(?:\.\d+\.\d+)?/g) || [];
+}
+
+// Turn the raw text and tables of the application details page into named fields
+export function extractApplicationDetails(
+    mainText: string,
+    tables: string[][][],
+    rules: ExtractionRules = DEFAULT_EXTRACTION_RULES
+): ApplicationDetails {
+    const lines = mainText
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line.length > 0);
+
+    return {
+        caseNumber: extractField(lines, tables, rules.fieldLabels.caseNumber),
+        applicationNumber: extractField(lines, tables, rules.fieldLabels.applicationNumber),
+        submissionDate: extractField(lines, tables, rules.fieldLabels.submissionDate),
+        status: extractField(lines, tables, rules.fieldLabels.status),
+        stage: extractField(lines, tables, rules.fieldLabels.stage),
+        caseHandler: extractField(lines, tables, rules.fieldLabels.caseHandler),
+        deadlines: extractDeadlines(lines, tables),
+        correspondence: extractCorrespondence(tables, rules.correspondenceKeywords),
+        missingDocuments: extractMissingDocuments(lines, rules.missingDocumentKeywords)
+    };
+}
@@ -0,0 +1,135 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as puppeteer from 'puppeteer';
+import { CheckError } from './errors';
+import { FailureCapture } from './types';
+import { redactSecrets } from './vault';
+
+export const FAILURE_FILE = 'failure.json';
+export const SCREENSHOT_FILE = 'screenshot.png';
+export const PAGE_FILE = 'page.html';
+export const CONSOLE_FILE = 'console.log';
+
+// Runs with failures kept per account; older run folders are deleted when a new one is written
+const KEEP_RUNS = 20;
+const MAX_CONSOLE_LINES = 500;
+
+export function getFailuresDir(accountDir: string): string {
+    return path.join(accountDir, 'failures');
+}
+
+// Collects console messages, page errors and failed requests of the page for failure captures
+export function watchConsole(page: puppeteer.Page): string[] {
+    const lines: string[] = [];
+    const add = (line: string) => {
+        if (lines.length < MAX_CONSOLE_LINES) {
+            lines.push(`${new Date().toISOString()} ${line}`);
+        }
+    };
+    page.on('console', message => add(`[${message.type()}] ${message.text()}`));
+    page.on('pageerror', error => add(`[pageerror] ${error instanceof Error ? error.message : String(error)}`));
+    page.on('requestfailed', request => add(`[requestfailed] ${request.url()} ${request.failure()?.errorText || ''}`.trim()));
+    return lines;
+}
+
+// Saves whatever the page still allows: a closed or crashed page yields a capture without screenshot or HTML
+export async function captureFailure(
+    page: puppeteer.Page,
+    accountDir: string,
+    run: string,
+    details: { attempt: number; applicationId?: string; error: CheckError; console: string[] }
+): Promise<FailureCapture> {
+    const name = `attempt-${details.attempt}${details.applicationId ? `-${details.applicationId.replace(/[^\w.-]/g, '_')}` : ''}`;
+    const dir = path.join(getFailuresDir(accountDir), run, name);
+    fs.mkdirSync(dir, { recursive: true });
+    const files: string[] = [];
+
+    const save = async (file: string, write: (target: string) => Promise<void>) => {
+        try {
+            await write(path.join(dir, file));
+            files.push(file);
+        } catch (error) {
+            console.log(`Warning: Could not save ${file} of the failure:`, error instanceof Error ? error.message : String(error));
+        }
+    };
+    await save(SCREENSHOT_FILE, async target => { await page.screenshot({ path: target, fullPage: true }); });
+    // Typed credentials never end up in the markup, but a resolved secret could appear in a script or error text
+    await save(PAGE_FILE, async target => fs.writeFileSync(target, redactSecrets(await page.content())));
+    await save(CONSOLE_FILE, async target => fs.writeFileSync(target, redactSecrets(details.console.join('\n'))));
+
+    let url = '';
+    try {
+        url = page.url();
+    } catch {
+        // A detached page has no URL any more
+    }
+    const capture: FailureCapture = {
+        run,
+        name,
+        dir,
+        capturedAt: new Date().toISOString(),
+        attempt: details.attempt,
+        ...(details.applicationId !== undefined ? { applicationId: details.applicationId } : {}),
+        url,
+        error: redactSecrets(details.error.message),
+        errorCategory: details.error.category,
+        files
+    };
+    fs.writeFileSync(path.join(dir, FAILURE_FILE), JSON.stringify(capture, null, 2));
+    return capture;
+}
+
+// Newest run first, captures in the order they were written
+export function listFailures(accountDir: string): Array<{ run: string; captures: FailureCapture[] }> {
+    const failuresDir = getFailuresDir(accountDir);
+    if (!fs.existsSync(failuresDir)) {
+        return [];
+    }
+    return listDirs(failuresDir).reverse().map(run => ({
+        run,
+        captures: listDirs(path.join(failuresDir, run))
+            .map(name => readCapture(path.join(failuresDir, run, name)))
+            .filter((capture): capture is FailureCapture => capture !== null)
+            .sort((a, b) => a.capturedAt.localeCompare(b.capturedAt))
+    }));
+}
+
+// Deletes all but the newest `keep` run folders; returns how many were removed
+export function pruneFailures(accountDir: string, keep: number = KEEP_RUNS): number {
+    const failuresDir = getFailuresDir(accountDir);
+    if (!fs.existsSync(failuresDir)) {
+        return 0;
+    }
+    const stale = listDirs(failuresDir).slice(0, -keep || undefined);
+    stale.forEach(run => fs.rmSync(path.join(failuresDir, run), { recursive: true, force: true }));
+    return stale.length;
+}
+
+// Path of one artifact of a capture; names are checked so the renderer cannot reach outside failures/
+export function getFailureFile(accountDir: string, run: string, name: string, file: string): string {
+    const parts = [run, name, file];
+    if (parts.some(part => !part || part !== path.basename(part) || part === '..')) {
+        throw new Error(`Invalid failure file: ${parts.join('/')}`);
+    }
+    const target = path.join(getFailuresDir(accountDir), ...parts);
+    if (!fs.existsSync(target)) {
+        throw new Error(`Failure file not found: ${parts.join('/')}`);
+    }
+    return target;
+}
+
+function listDirs(dir: string): string[] {
+    return fs.readdirSync(dir, { withFileTypes: true })
+        .filter(entry => entry.isDirectory())
+        .map(entry => entry.name)
+        .sort();
+}
+
+function readCapture(dir: string): FailureCapture | null {
+    try {
+        // The folder may have been moved since, so trust its current location
+        return { ...JSON.parse(fs.readFileSync(path.join(dir, FAILURE_FILE), 'utf8')), dir };
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,171 @@
+// Local stand-in for pio-przybysz.duw.pl serving recorded HTML pages
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+
+export const DEFAULT_FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'pio');
+
+const SESSION_COOKIE = 'pio_fixture_session';
+
+export interface FixtureServerOptions {
+    fixturesDir?: string;
+    port?: number;
+    // When set, the login form only accepts these credentials
+    credentials?: {
+        login: string;
+        password: string;
+    };
+}
+
+export interface FixtureServer {
+    url: string;
+    loginUrl: string;
+    wniosikiUrl: string;
+    // Paths requested so far, e.g. "GET /login"
+    requests: string[];
+    close(): Promise<void>;
+}
+
+// Recorded pages are rendered Angular output; this replaces the app's submit handler with a plain form post
+const LOGIN_SHIM = `
+<script>
+document.addEventListener('click', function (event) {
+    var button = event.target.closest && event.target.closest('button.btn-primary');
+    if (!button) { return; }
+    event.preventDefault();
+    var form = document.createElement('form');
+    form.method = 'post';
+    form.action = '/login';
+    ['username', 'pass'].forEach(function (name) {
+        var source = document.querySelector('input[formcontrolname="' + name + '"]');
+        var input = document.createElement('input');
+        input.type = 'hidden';
+        input.name = name;
+        input.value = source ? source.value : '';
+        form.appendChild(input);
+    });
+    document.body.appendChild(form);
+    form.submit();
+}, true);
+</script>`;
+
+function readFixture(fixturesDir: string, name: string): string | null {
+    const filepath = path.join(fixturesDir, `${name}.html`);
+    if (!fs.existsSync(filepath)) {
+        return null;
+    }
+    // Recorded pages still reference the portal's scripts, which cannot load offline
+    return fs.readFileSync(filepath, 'utf8').replace(/<script\b[^>]*>[\s\S]*?<\/script>/gi, '');
+}
+
+function hasSession(req: http.IncomingMessage): boolean {
+    return (req.headers.cookie || '').split(';').some(cookie => cookie.trim().startsWith(`${SESSION_COOKIE}=`));
+}
+
+function readBody(req: http.IncomingMessage): Promise<URLSearchParams> {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        req.on('data', chunk => {
+            body += chunk;
+        });
+        req.on('end', () => resolve(new URLSearchParams(body)));
+        req.on('error', reject);
+    });
+}
+
+function sendHtml(res: http.ServerResponse, html: string, status: number = 200): void {
+    res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(html);
+}
+
+function redirect(res: http.ServerResponse, location: string, headers: http.OutgoingHttpHeaders = {}): void {
+    res.writeHead(302, { Location: location, ...headers });
+    res.end();
+}
+
+export function startFixtureServer(options: FixtureServerOptions = {}): Promise<FixtureServer> {
+    const fixturesDir = options.fixturesDir || DEFAULT_FIXTURES_DIR;
+    const requests: string[] = [];
+
+    const server = http.createServer(async (req, res) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        requests.push(`${req.method} ${url.pathname}`);
+
+        try {
+            if (url.pathname === '/login' && req.method === 'POST') {
+                const form = await readBody(req);
+                const credentials = options.credentials;
+                if (credentials && (form.get('username') !== credentials.login || form.get('pass') !== credentials.password)) {
+                    redirect(res, '/login?error=invalid-credentials');
+                    return;
+                }
+                redirect(res, '/wnioski-przyjete', { 'Set-Cookie': `${SESSION_COOKIE}=1; Path=/; HttpOnly` });
+                return;
+            }
+
+            if (url.pathname === '/login' || url.pathname === '/') {
+                const html = readFixture(fixturesDir, 'login');
+                if (html === null) {
+                    sendHtml(res, 'login fixture missing', 404);
+                    return;
+                }
+                sendHtml(res, html.replace(/<\/body>/i, `${LOGIN_SHIM}</body>`));
+                return;
+            }
+
+            // Everything behind the login form needs the session cookie
+            if (!hasSession(req)) {
+                redirect(res, '/login');
+                return;
+            }
+
+            if (url.pathname === '/wnioski-przyjete') {
+                const html = readFixture(fixturesDir, 'wnioski-przyjete');
+                sendHtml(res, html ?? 'applications fixture missing', html ? 200 : 404);
+                return;
+            }
+
+            if (url.pathname.startsWith('/szczegoly-wniosku')) {
+                // Prefer a page recorded for this specific application, e.g. szczegoly-wniosku-223199.html
+                const applicationId = url.pathname.split('/').filter(Boolean)[1];
+                const html = (applicationId && readFixture(fixturesDir, `szczegoly-wniosku-${applicationId}`))
+                    || readFixture(fixturesDir, 'szczegoly-wniosku');
+                sendHtml(res, html ?? 'details fixture missing', html ? 200 : 404);
+                return;
+            }
+
+            sendHtml(res, 'Not found', 404);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            sendHtml(res, `Fixture server error: ${errorMessage}`, 500);
+        }
+    });
+
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(options.port || 0, '127.0.0.1', () => {
+            const { port } = server.address() as AddressInfo;
+            const url = `http://127.0.0.1:${port}`;
+            resolve({
+                url,
+                loginUrl: `${url}/login`,
+                wniosikiUrl: `${url}/wnioski-przyjete`,
+                requests,
+                close: () => new Promise(done => server.close(() => done()))
+            });
+        });
+    });
+}
+
+// Serve fixtures for manual runs: npm run fixture:serve -- [fixturesDir] [port]
+if (require.main === module) {
+    const fixturesDir = process.argv[2] || DEFAULT_FIXTURES_DIR;
+    const port = Number(process.argv[3]) || 4300;
+
+    startFixtureServer({ fixturesDir, port }).then(server => {
+        console.log(`Serving fixtures from ${fixturesDir}`);
+        console.log(`loginUrl:    ${server.loginUrl}`);
+        console.log(`wniosikiUrl: ${server.wniosikiUrl}`);
+    }).catch(console.error);
+}
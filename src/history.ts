@@ -0,0 +1,215 @@
+import { DataChange, ExtractionRules, NoiseRules, ScrapedData } from './types';
+import { diffSequences, diffSnapshots, getDetails, summarizeChanges } from './diff';
+import { applyNoiseRules } from './noise-filter';
+import { HistoryStore } from './storage/store';
+
+export function isSnapshotFile(file: string): boolean {
+    return file.startsWith('szczegoly-wniosku_') && file.endsWith('.json');
+}
+
+// Oldest first: by the local time in the name, then by the -N suffix of further snapshots within the same second
+export function compareSnapshotFiles(a: string, b: string): number {
+    const [timeA, countA] = snapshotFileOrder(a);
+    const [timeB, countB] = snapshotFileOrder(b);
+    return timeA.localeCompare(timeB) || countA - countB;
+}
+
+function snapshotFileOrder(file: string): [string, number] {
+    const match = /^(szczegoly-wniosku_\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2})(?:-(\d+))?\.json$/.exec(file);
+    return match ? [match[1]!, Number(match[2] || 1)] : [file, 1];
+}
+
+// One stored check of an application, as listed in the history browser
+export interface SnapshotInfo {
+    application: string;
+    filename: string;
+    timestamp: string;
+    url: string;
+    status: string | null;
+    stage: string | null;
+    // Status or stage differ from the next older snapshot; false for the oldest one
+    statusChanged: boolean;
+}
+
+export interface LineDiff {
+    type: 'equal' | 'added' | 'removed';
+    text: string;
+    oldLine?: number; // 1-based
+    newLine?: number;
+}
+
+// A row of the side-by-side view; an added line has no left side, a removed one no right side
+export interface SideBySideRow {
+    left: LineDiff | null;
+    right: LineDiff | null;
+}
+
+export interface TableRowDiff {
+    type: 'equal' | 'added' | 'removed' | 'changed';
+    oldRow: string[] | null;
+    newRow: string[] | null;
+    changedColumns: number[]; // 0-based, for changed rows
+}
+
+export interface TableDiff {
+    table: number; // 1-based
+    type: 'equal' | 'added' | 'removed' | 'changed';
+    rows: TableRowDiff[];
+}
+
+export interface SnapshotComparison {
+    from: SnapshotInfo;
+    to: SnapshotInfo;
+    changes: DataChange[];
+    summary: string;
+    text: LineDiff[];
+    sideBySide: SideBySideRow[];
+    tables: TableDiff[];
+}
+
+function describeSnapshot(application: string, filename: string, data: ScrapedData): Omit<SnapshotInfo, 'statusChanged'> {
+    const details = getDetails(data);
+    return {
+        application,
+        filename,
+        timestamp: data.timestamp,
+        url: data.url,
+        status: details.status,
+        stage: details.stage
+    };
+}
+
+// Every snapshot of the account (or of one application), newest first; unreadable snapshots are skipped
+export function listSnapshots(store: HistoryStore, login: string, application?: string): SnapshotInfo[] {
+    const snapshots: SnapshotInfo[] = [];
+    const previous = new Map<string, Omit<SnapshotInfo, 'statusChanged'>>();
+    for (const snapshot of store.listSnapshots(login, application)) {
+        const info = describeSnapshot(snapshot.application, snapshot.name, snapshot.data);
+        const before = previous.get(snapshot.application);
+        const statusChanged = before !== undefined && (before.status !== info.status || before.stage !== info.stage);
+        snapshots.push({ ...info, statusChanged });
+        previous.set(snapshot.application, info);
+    }
+    return snapshots.reverse().sort((a, b) => b.timestamp.localeCompare(a.timestamp) || a.application.localeCompare(b.application));
+}
+
+function toLines(text: string): string[] {
+    return text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+}
+
+export function diffLines(oldText: string, newText: string): LineDiff[] {
+    return diffSequences(toLines(oldText), toLines(newText)).map(op =>
+        op.type === 'equal' ? { type: 'equal', text: op.value, oldLine: op.oldIndex + 1, newLine: op.newIndex + 1 }
+        : op.type === 'removed' ? { type: 'removed', text: op.value, oldLine: op.oldIndex + 1 }
+        : { type: 'added', text: op.value, newLine: op.newIndex + 1 });
+}
+
+// Removed and added lines between two unchanged ones are shown next to each other
+export function toSideBySide(lines: LineDiff[]): SideBySideRow[] {
+    const rows: SideBySideRow[] = [];
+    let removed: LineDiff[] = [];
+    let added: LineDiff[] = [];
+
+    const flush = () => {
+        for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+            rows.push({ left: removed[k] ?? null, right: added[k] ?? null });
+        }
+        removed = [];
+        added = [];
+    };
+
+    lines.forEach(line => {
+        if (line.type === 'removed') {
+            removed.push(line);
+        } else if (line.type === 'added') {
+            added.push(line);
+        } else {
+            flush();
+            rows.push({ left: line, right: line });
+        }
+    });
+    flush();
+    return rows;
+}
+
+function diffTableRows(oldTable: string[][], newTable: string[][]): TableRowDiff[] {
+    const rows: TableRowDiff[] = [];
+    let removed: string[][] = [];
+    let added: string[][] = [];
+
+    // Like diffTables: removed and added rows between unchanged ones are paired up as changed rows
+    const flush = () => {
+        const paired = Math.min(removed.length, added.length);
+        for (let k = 0; k < paired; k++) {
+            const oldRow = removed[k]!;
+            const newRow = added[k]!;
+            const changedColumns = Array.from({ length: Math.max(oldRow.length, newRow.length) }, (_, column) => column)
+                .filter(column => oldRow[column] !== newRow[column]);
+            rows.push({ type: 'changed', oldRow, newRow, changedColumns });
+        }
+        removed.slice(paired).forEach(row => rows.push({ type: 'removed', oldRow: row, newRow: null, changedColumns: [] }));
+        added.slice(paired).forEach(row => rows.push({ type: 'added', oldRow: null, newRow: row, changedColumns: [] }));
+        removed = [];
+        added = [];
+    };
+
+    diffSequences(oldTable, newTable, row => JSON.stringify(row)).forEach(op => {
+        if (op.type === 'removed') {
+            removed.push(op.value);
+        } else if (op.type === 'added') {
+            added.push(op.value);
+        } else {
+            flush();
+            rows.push({ type: 'equal', oldRow: op.value, newRow: op.value, changedColumns: [] });
+        }
+    });
+    flush();
+    return rows;
+}
+
+export function diffTablesForView(oldTables: string[][][], newTables: string[][][]): TableDiff[] {
+    return Array.from({ length: Math.max(oldTables.length, newTables.length) }, (_, index) => {
+        const oldTable = oldTables[index];
+        const newTable = newTables[index];
+        if (!oldTable) {
+            return { table: index + 1, type: 'added' as const, rows: newTable!.map(row => ({ type: 'added' as const, oldRow: null, newRow: row, changedColumns: [] })) };
+        }
+        if (!newTable) {
+            return { table: index + 1, type: 'removed' as const, rows: oldTable.map(row => ({ type: 'removed' as const, oldRow: row, newRow: null, changedColumns: [] })) };
+        }
+        const rows = diffTableRows(oldTable, newTable);
+        return { table: index + 1, type: rows.every(row => row.type === 'equal') ? 'equal' as const : 'changed' as const, rows };
+    });
+}
+
+// Any two snapshots of an application, older one first; ignore rules hide the same noise as in notifications, with
+// the extraction rules of the account's site profile re-reading the details of the filtered page
+export function compareSnapshots(
+    store: HistoryStore,
+    login: string,
+    application: string,
+    fromFile: string,
+    toFile: string,
+    rules: NoiseRules = {},
+    extraction?: ExtractionRules
+): SnapshotComparison {
+    const [older, newer] = [fromFile, toFile]
+        .map(name => ({ name, data: store.readSnapshot(login, application, name) }))
+        .sort((a, b) => a.data.timestamp.localeCompare(b.data.timestamp) || compareSnapshotFiles(a.name, b.name));
+    const from = applyNoiseRules(older!.data, rules, extraction);
+    const to = applyNoiseRules(newer!.data, rules, extraction);
+
+    const changes = diffSnapshots(from, to);
+    const text = diffLines(from.mainText || '', to.mainText || '');
+    const fromInfo = describeSnapshot(application, older!.name, from);
+    const toInfo = describeSnapshot(application, newer!.name, to);
+    return {
+        from: { ...fromInfo, statusChanged: false },
+        to: { ...toInfo, statusChanged: fromInfo.status !== toInfo.status || fromInfo.stage !== toInfo.stage },
+        changes,
+        summary: summarizeChanges(changes),
+        text,
+        sideBySide: toSideBySide(text),
+        tables: diffTablesForView(from.fields.tables || [], to.fields.tables || [])
+    };
+}
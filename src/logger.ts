@@ -0,0 +1,58 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { redactSecrets } from './vault';
+
+export type LogLevel = 'INFO' | 'ERROR' | 'WARN';
+
+// logs/current.log of this start and previous.log of the one before, shared by the desktop app and the daemon
+export function getLogsDir(): string {
+    return path.join(process.cwd(), 'logs');
+}
+
+function getCurrentLogPath(): string {
+    return path.join(getLogsDir(), 'current.log');
+}
+
+// Rotate logs (current becomes previous) and start the new log with the given header lines
+export function initializeLogs(header: string[]): void {
+    const logsDir = getLogsDir();
+    if (!fs.existsSync(logsDir)) {
+        fs.mkdirSync(logsDir, { recursive: true });
+    }
+
+    const currentLogPath = getCurrentLogPath();
+    if (fs.existsSync(currentLogPath)) {
+        fs.copyFileSync(currentLogPath, path.join(logsDir, 'previous.log'));
+        fs.unlinkSync(currentLogPath);
+    }
+
+    header.forEach(line => writeLog(line));
+}
+
+// Write log to file and console
+export function writeLog(message: string, level: LogLevel = 'INFO'): void {
+    const timestamp = new Date().toISOString();
+    const logLine = `[${timestamp}] [${level}] ${redactSecrets(message)}\n`;
+
+    // Write to console
+    console.log(logLine.trim());
+
+    // Write to file
+    try {
+        fs.appendFileSync(getCurrentLogPath(), logLine, 'utf8');
+    } catch (error) {
+        console.error('Failed to write to log file:', error);
+    }
+}
+
+// Startup lines of every log
+export function startupHeader(title: string): string[] {
+    return [
+        `=== ${title} ===`,
+        `Timestamp: ${new Date().toISOString()}`,
+        `Project Directory: ${process.cwd()}`,
+        `Accounts Path: ${path.join(process.cwd(), 'accounts.json')}`,
+        `Data Path: ${path.join(process.cwd(), 'data')}`,
+        '===========================\n'
+    ];
+}
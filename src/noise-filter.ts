@@ -0,0 +1,214 @@
+import { ExtractionRules, NoiseRules, ScrapedData } from './types';
+import { extractApplicationDetails, extractNumbers } from './extractor';
+import { diffSnapshots } from './diff';
+
+const MASK = '***';
+
+export interface NoiseRuleReport {
+    previousFile: string;
+    currentFile: string;
+    rawChanges: number;
+    filteredChanges: number;
+    // Descriptions of the changes that remain after filtering
+    remaining: string[];
+}
+
+// Global rules come first, account rules are appended
+export function mergeNoiseRules(...ruleSets: Array<NoiseRules | undefined>): NoiseRules {
+    const merged: NoiseRules = {};
+
+    for (const rules of ruleSets) {
+        if (!rules) {
+            continue;
+        }
+        if (rules.maskPatterns) {
+            merged.maskPatterns = [...(merged.maskPatterns || []), ...rules.maskPatterns];
+        }
+        if (rules.ignoreTables) {
+            merged.ignoreTables = [...(merged.ignoreTables || []), ...rules.ignoreTables];
+        }
+        if (rules.ignoreColumns) {
+            merged.ignoreColumns = [...(merged.ignoreColumns || []), ...rules.ignoreColumns];
+        }
+        if (rules.includeSections) {
+            merged.includeSections = [...(merged.includeSections || []), ...rules.includeSections];
+        }
+    }
+
+    return merged;
+}
+
+export function hasNoiseRules(rules: NoiseRules): boolean {
+    return Boolean(
+        rules.maskPatterns?.length ||
+        rules.ignoreTables?.length ||
+        rules.ignoreColumns?.length ||
+        rules.includeSections?.length
+    );
+}
+
+// Throws a descriptive error for malformed rules so typos surface when the config is loaded
+export function validateNoiseRules(rules: unknown, context: string): void {
+    if (rules === undefined) {
+        return;
+    }
+    if (typeof rules !== 'object' || rules === null || Array.isArray(rules)) {
+        throw new Error(`${context}: ignoreRules must be an object`);
+    }
+
+    const { maskPatterns, ignoreTables, ignoreColumns, includeSections } = rules as Record<string, unknown>;
+
+    if (maskPatterns !== undefined) {
+        if (!Array.isArray(maskPatterns)) {
+            throw new Error(`${context}: ignoreRules.maskPatterns must be an array of regular expressions`);
+        }
+        maskPatterns.forEach(pattern => {
+            try {
+                new RegExp(String(pattern), 'g');
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                throw new Error(`${context}: invalid mask pattern "${pattern}": ${errorMessage}`);
+            }
+        });
+    }
+
+    if (ignoreTables !== undefined &&
+        (!Array.isArray(ignoreTables) || ignoreTables.some(table => !Number.isInteger(table) || table < 1))) {
+        throw new Error(`${context}: ignoreRules.ignoreTables must be an array of table numbers starting at 1`);
+    }
+
+    if (ignoreColumns !== undefined) {
+        const valid = Array.isArray(ignoreColumns) && ignoreColumns.every(rule =>
+            rule && Number.isInteger(rule.table) && rule.table >= 1 &&
+            ((typeof rule.column === 'number' && rule.column >= 1) || (typeof rule.column === 'string' && rule.column.trim()))
+        );
+        if (!valid) {
+            throw new Error(`${context}: ignoreRules.ignoreColumns entries need a table number and a column number or header`);
+        }
+    }
+
+    if (includeSections !== undefined) {
+        const valid = Array.isArray(includeSections) && includeSections.every(section =>
+            section && typeof section.start === 'string' && section.start.trim() &&
+            (section.end === undefined || typeof section.end === 'string')
+        );
+        if (!valid) {
+            throw new Error(`${context}: ignoreRules.includeSections entries need a start line`);
+        }
+    }
+}
+
+function maskText(text: string, patterns: RegExp[]): string {
+    return patterns.reduce((result, pattern) => result.replace(pattern, MASK), text);
+}
+
+function filterSections(text: string, rules: NoiseRules): string {
+    const sections = rules.includeSections;
+    if (!sections || sections.length === 0) {
+        return text;
+    }
+
+    const kept: string[] = [];
+    let activeEnd: string | undefined | null = null; // null = outside any section
+
+    for (const line of text.split('\n')) {
+        const lower = line.toLowerCase();
+
+        if (activeEnd === null) {
+            const section = sections.find(candidate => lower.includes(candidate.start.toLowerCase()));
+            if (section) {
+                activeEnd = section.end;
+                kept.push(line);
+            }
+            continue;
+        }
+
+        if (activeEnd !== undefined && lower.includes(activeEnd.toLowerCase())) {
+            activeEnd = null;
+            continue;
+        }
+        kept.push(line);
+    }
+
+    return kept.join('\n');
+}
+
+function resolveColumn(table: string[][], column: number | string): number {
+    if (typeof column === 'number') {
+        return column - 1;
+    }
+    const header = (table[0] || []).map(cell => cell.trim().toLowerCase());
+    return header.indexOf(column.trim().toLowerCase());
+}
+
+function filterTables(tables: string[][][], rules: NoiseRules, patterns: RegExp[]): string[][][] {
+    const ignoredTables = new Set(rules.ignoreTables || []);
+
+    return tables
+        .map((table, index) => {
+            const tableNumber = index + 1;
+            if (ignoredTables.has(tableNumber)) {
+                return null;
+            }
+
+            const ignoredColumns = new Set(
+                (rules.ignoreColumns || [])
+                    .filter(rule => rule.table === tableNumber)
+                    .map(rule => resolveColumn(table, rule.column))
+                    .filter(column => column >= 0)
+            );
+
+            return table.map(row => row
+                .filter((_, column) => !ignoredColumns.has(column))
+                .map(cell => maskText(cell, patterns)));
+        })
+        .filter((table): table is string[][] => table !== null);
+}
+
+// Copy of the snapshot with volatile content removed; the stored snapshot is never modified
+export function applyNoiseRules(data: ScrapedData, rules: NoiseRules, extraction?: ExtractionRules): ScrapedData {
+    if (!hasNoiseRules(rules)) {
+        return data;
+    }
+
+    const patterns = (rules.maskPatterns || []).map(pattern => new RegExp(pattern, 'g'));
+    const mainText = maskText(filterSections(data.mainText || '', rules), patterns);
+    const tables = filterTables(data.fields.tables || [], rules, patterns);
+
+    return {
+        ...data,
+        mainText,
+        fields: {
+            tables,
+            numbers: extractNumbers(mainText)
+        },
+        details: extractApplicationDetails(mainText, tables, extraction)
+    };
+}
+
+// Replay rules over consecutive stored snapshots (oldest first) to see which changes they would suppress; `extraction`
+// is the site profile's, as in the checks
+export function evaluateNoiseRules(
+    snapshots: Array<{ name: string; data: ScrapedData }>,
+    rules: NoiseRules,
+    extraction?: ExtractionRules
+): NoiseRuleReport[] {
+    const reports: NoiseRuleReport[] = [];
+    for (let i = 1; i < snapshots.length; i++) {
+        const previous = snapshots[i - 1]!;
+        const current = snapshots[i]!;
+
+        const rawChanges = diffSnapshots(previous.data, current.data);
+        const filteredChanges = diffSnapshots(applyNoiseRules(previous.data, rules, extraction), applyNoiseRules(current.data, rules, extraction));
+
+        reports.push({
+            previousFile: previous.name,
+            currentFile: current.name,
+            rawChanges: rawChanges.length,
+            filteredChanges: filteredChanges.length,
+            remaining: filteredChanges.map(change => change.description)
+        });
+    }
+
+    return reports;
+}
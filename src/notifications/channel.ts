@@ -0,0 +1,52 @@
+import { DataChange, ErrorCategory, NotificationEvent } from '../types';
+
+export const ALL_EVENTS: NotificationEvent[] = ['firstRun', 'noChange', 'change', 'error'];
+
+export interface NotificationMessage {
+    event: NotificationEvent;
+    accountId: string;
+    applicationId?: string; // set when the message is about one application of the account
+    title: string; // e.g. "PIO Checker - Changes Detected!"
+    text: string; // plain-text body for chat and push channels
+    html?: string; // rich body for email
+    changes?: DataChange[];
+    errorCategory?: ErrorCategory; // set on error messages
+    attachments?: Array<{ filename: string; path: string }>; // sent by email channels, ignored by the others
+    url?: string;
+    // Account specific email recipients, override the channel's own "to"
+    to?: string[];
+    cc?: string[];
+    timestamp: string;
+}
+
+export interface NotificationChannel {
+    readonly type: string;
+    readonly name: string;
+    readonly events: NotificationEvent[];
+    send(message: NotificationMessage): Promise<void>;
+}
+
+export interface DeliveryResult {
+    channel: string;
+    success: boolean;
+    error?: string;
+}
+
+// POST helper shared by the HTTP based channels
+export async function postRequest(url: string, body: string, headers: Record<string, string>, timeoutMs: number = 15000): Promise<void> {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(timeoutMs)
+    });
+
+    if (!response.ok) {
+        const responseText = await response.text().catch(() => '');
+        throw new Error(`HTTP ${response.status} from ${new URL(url).host}: ${responseText.slice(0, 200)}`);
+    }
+}
+
+export function postJson(url: string, payload: unknown, headers: Record<string, string> = {}): Promise<void> {
+    return postRequest(url, JSON.stringify(payload), { 'Content-Type': 'application/json', ...headers });
+}
@@ -0,0 +1,54 @@
+import { spawn } from 'child_process';
+import { CommandChannelConfig, NotificationEvent } from '../types';
+import { ALL_EVENTS, NotificationChannel, NotificationMessage } from './channel';
+
+// Hook for local scripts: message details in PIO_* variables and the full message as JSON on stdin
+export class CommandChannel implements NotificationChannel {
+    readonly type = 'command';
+    readonly name: string;
+    readonly events: NotificationEvent[];
+    private config: CommandChannelConfig;
+
+    constructor(config: CommandChannelConfig) {
+        this.name = config.name || 'command';
+        this.events = config.events || ALL_EVENTS;
+        this.config = config;
+    }
+
+    send(message: NotificationMessage): Promise<void> {
+        const { command, args, timeoutMs = 30000 } = this.config;
+
+        return new Promise((resolve, reject) => {
+            const child = spawn(command, args || [], {
+                shell: !args,
+                stdio: ['pipe', 'pipe', 'inherit'],
+                timeout: timeoutMs,
+                env: {
+                    ...process.env,
+                    PIO_EVENT: message.event,
+                    PIO_ACCOUNT: message.accountId,
+                    PIO_APPLICATION: message.applicationId || '',
+                    PIO_TITLE: message.title,
+                    PIO_MESSAGE: message.text,
+                    PIO_URL: message.url || '',
+                    PIO_ERROR_CATEGORY: message.errorCategory || ''
+                }
+            });
+
+            // Through process.stdout rather than the file descriptor, so the CLI can keep --json output clean
+            child.stdout.on('data', chunk => process.stdout.write(chunk));
+            child.on('error', reject);
+            child.on('close', (code, signal) => {
+                if (code === 0) {
+                    resolve();
+                } else {
+                    reject(new Error(`Command "${command}" exited with ${signal ? `signal ${signal}` : `code ${code}`}`));
+                }
+            });
+
+            // The command may exit without reading stdin
+            child.stdin.on('error', () => {});
+            child.stdin.end(JSON.stringify(message));
+        });
+    }
+}
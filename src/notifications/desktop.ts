@@ -0,0 +1,24 @@
+import notifier from 'node-notifier';
+import { DesktopChannelConfig, NotificationEvent } from '../types';
+import { ALL_EVENTS, NotificationChannel, NotificationMessage } from './channel';
+
+// Native toast/notification center message via node-notifier
+export class DesktopChannel implements NotificationChannel {
+    readonly type = 'desktop';
+    readonly name: string;
+    readonly events: NotificationEvent[];
+
+    constructor(config: DesktopChannelConfig) {
+        this.name = config.name || 'desktop';
+        this.events = config.events || ALL_EVENTS;
+    }
+
+    async send(message: NotificationMessage): Promise<void> {
+        notifier.notify({
+            title: `${message.title} - ${message.accountId}`,
+            message: message.text,
+            sound: true,
+            wait: false
+        });
+    }
+}
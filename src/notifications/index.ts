@@ -0,0 +1,163 @@
+import { AccountConfig, ChannelConfig, NotificationEvent } from '../types';
+import { ALL_EVENTS, DeliveryResult, NotificationChannel, NotificationMessage } from './channel';
+import { DesktopChannel } from './desktop';
+import { SmtpChannel } from './smtp';
+import { TelegramChannel } from './telegram';
+import { WebhookChannel } from './webhook';
+import { NtfyChannel } from './ntfy';
+import { CommandChannel } from './command';
+import { getNotificationTexts, isNotificationLanguage, LANGUAGES, NotificationTexts } from './messages';
+
+export { ALL_EVENTS, DeliveryResult, NotificationChannel, NotificationMessage };
+export { getNotificationTexts, isNotificationLanguage, LANGUAGES, NotificationTexts };
+
+const CHANNEL_TYPES = ['desktop', 'smtp', 'telegram', 'webhook', 'slack', 'discord', 'ntfy', 'command'];
+
+// Fields each channel type cannot work without
+const REQUIRED_FIELDS: Record<string, string[]> = {
+    telegram: ['botToken', 'chatId'],
+    webhook: ['url'],
+    slack: ['url'],
+    discord: ['url'],
+    ntfy: ['url'],
+    command: ['command']
+};
+
+export function createChannel(config: ChannelConfig): NotificationChannel {
+    switch (config.type) {
+        case 'desktop':
+            return new DesktopChannel(config);
+        case 'smtp':
+            return new SmtpChannel(config);
+        case 'telegram':
+            return new TelegramChannel(config);
+        case 'webhook':
+        case 'slack':
+        case 'discord':
+            return new WebhookChannel(config);
+        case 'ntfy':
+            return new NtfyChannel(config);
+        case 'command':
+            return new CommandChannel(config);
+    }
+}
+
+// Used when neither settings.json nor the account configure channels: desktop toasts plus Gmail from .env
+export function defaultChannelConfigs(env: NodeJS.ProcessEnv = process.env): ChannelConfig[] {
+    const configs: ChannelConfig[] = [{ type: 'desktop' }];
+
+    if (env.mail && env.pass) {
+        configs.push({ type: 'smtp', name: 'gmail', service: 'gmail', user: env.mail, pass: env.pass });
+    } else {
+        console.warn(`Warning: Gmail credentials not found in environment variables. Email notifications will be disabled.`);
+    }
+
+    return configs;
+}
+
+export function validateChannelConfigs(configs: unknown, context: string): void {
+    if (configs === undefined) {
+        return;
+    }
+    if (!Array.isArray(configs)) {
+        throw new Error(`${context}: notificationChannels must be an array`);
+    }
+
+    configs.forEach((config, index) => {
+        const label = `${context}: notificationChannels[${index}]`;
+        if (!config || typeof config !== 'object' || !CHANNEL_TYPES.includes(config.type)) {
+            throw new Error(`${label} must have a type (${CHANNEL_TYPES.join(', ')})`);
+        }
+
+        const missing = (REQUIRED_FIELDS[config.type] || []).filter(field => config[field] === undefined || config[field] === '');
+        if (missing.length > 0) {
+            throw new Error(`${label} (${config.type}) is missing ${missing.join(', ')}`);
+        }
+
+        if (config.type === 'smtp' && !config.service && !config.host) {
+            throw new Error(`${label} (smtp) needs either a service or a host`);
+        }
+
+        if (config.events !== undefined &&
+            (!Array.isArray(config.events) || config.events.some((event: NotificationEvent) => !ALL_EVENTS.includes(event)))) {
+            throw new Error(`${label} events must be a list of: ${ALL_EVENTS.join(', ')}`);
+        }
+    });
+}
+
+function isEmailList(value: unknown): boolean {
+    return Array.isArray(value) && value.every(address => typeof address === 'string' && /^[^@\s]+@[^@\s]+$/.test(address));
+}
+
+// Checks the account's recipients, language and notifyOn preferences
+export function validateNotificationPreferences(
+    account: Pick<AccountConfig, 'recipients' | 'language' | 'notifyOn'>,
+    context: string
+): void {
+    const { recipients, language, notifyOn } = account;
+
+    if (recipients !== undefined) {
+        if (!recipients || typeof recipients !== 'object' || Array.isArray(recipients)) {
+            throw new Error(`${context}: recipients must be an object with to, cc and errorCc lists`);
+        }
+        for (const field of ['to', 'cc', 'errorCc'] as const) {
+            const list: unknown = recipients[field];
+            if (list !== undefined && !isEmailList(list)) {
+                throw new Error(`${context}: recipients.${field} must be a list of email addresses`);
+            }
+        }
+    }
+
+    if (language !== undefined && !isNotificationLanguage(language)) {
+        throw new Error(`${context}: language must be one of: ${LANGUAGES.join(', ')}`);
+    }
+
+    if (notifyOn !== undefined) {
+        if (!notifyOn || typeof notifyOn !== 'object' || Array.isArray(notifyOn)) {
+            throw new Error(`${context}: notifyOn must be an object keyed by event`);
+        }
+        Object.entries(notifyOn).forEach(([event, preference]) => {
+            if (!ALL_EVENTS.includes(event as NotificationEvent)) {
+                throw new Error(`${context}: notifyOn.${event} is not an event (${ALL_EVENTS.join(', ')})`);
+            }
+            const valid = typeof preference === 'boolean' ||
+                (Array.isArray(preference) && preference.every(channel => typeof channel === 'string'));
+            if (!valid) {
+                throw new Error(`${context}: notifyOn.${event} must be true, false or a list of channel names/types`);
+            }
+        });
+    }
+}
+
+// Apply an account's notifyOn preference for one event: false mutes, a list keeps matching names or types
+export function selectChannels(channels: NotificationChannel[], preference: boolean | string[] | undefined): NotificationChannel[] {
+    if (preference === undefined || preference === true) {
+        return channels;
+    }
+    if (preference === false) {
+        return [];
+    }
+    return channels.filter(channel => preference.includes(channel.name) || preference.includes(channel.type));
+}
+
+export function createChannels(configs: ChannelConfig[]): NotificationChannel[] {
+    return configs
+        .filter(config => config.enabled !== false)
+        .map(createChannel);
+}
+
+// Deliver to every channel subscribed to the event; a failing channel never blocks the others
+export async function notifyChannels(channels: NotificationChannel[], message: NotificationMessage): Promise<DeliveryResult[]> {
+    const targets = channels.filter(channel => channel.events.includes(message.event));
+
+    return Promise.all(targets.map(async channel => {
+        try {
+            await channel.send(message);
+            return { channel: channel.name, success: true };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.log(`[${message.accountId}] Error sending ${channel.name} notification:`, errorMessage);
+            return { channel: channel.name, success: false, error: errorMessage };
+        }
+    }));
+}
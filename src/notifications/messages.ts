@@ -0,0 +1,247 @@
+import { ErrorCategory, NotificationLanguage } from '../types';
+import { CheckStatistics } from '../timeline';
+
+export const LANGUAGES: NotificationLanguage[] = ['en', 'pl'];
+
+export function isNotificationLanguage(value: unknown): value is NotificationLanguage {
+    return typeof value === 'string' && (LANGUAGES as readonly string[]).includes(value);
+}
+
+// Every user-facing string of the notifications and email reports
+export interface NotificationTexts {
+    firstRunTitle: string;
+    firstRunText: string;
+    noChangeTitle: string;
+    noChangeText: string;
+    changeTitle: string;
+    changeText: (summary: string) => string;
+    // Sent by `cli notify test` to check the channel configuration
+    testTitle: string;
+    testText: string;
+    errorTitle: string;
+    errorText: (error: string, category: string) => string;
+    errorCategories: Record<ErrorCategory, string>;
+    // Distinct titles and advice for failures that need the user to act
+    errorTitles: Partial<Record<ErrorCategory, string>>;
+    errorHints: Partial<Record<ErrorCategory, string>>;
+    errorType: string;
+    listChangeTitle: string;
+    untrackedHint: (applicationIds: string[]) => string;
+    autoTracked: (applicationIds: string[]) => string;
+    applicationsList: string;
+    errorReportHeading: string;
+    errorReportBody: string[];
+    // Saved screenshots and page HTML of the failed attempts
+    failureArtifacts: string;
+    failureArtifactsNote: string;
+    updateHeading: string;
+    account: string;
+    time: string;
+    applicationNumber: string;
+    error: string;
+    changesDetected: string;
+    applicationDetails: string;
+    tableChanges: string;
+    currentData: string;
+    textChanges: string;
+    numberChanges: string;
+    added: string;
+    removed: string;
+    none: string;
+    applicationUrl: string;
+    footer: (accountId: string) => string;
+    errorFooter: string;
+    location: string;
+    previous: string;
+    current: string;
+    noTableData: string;
+    table: (number: number) => string;
+    caseNumber: string;
+    submissionDate: string;
+    status: string;
+    stage: string;
+    caseHandler: string;
+    deadlines: string;
+    missingDocuments: string;
+    // Timeline of the application in the change email
+    timeline: string;
+    enteredAt: string;
+    daysInStage: string;
+    daysSinceSubmission: (days: number) => string;
+    daysSinceFirstCheck: (days: number) => string;
+    checkStatistics: (statistics: CheckStatistics) => string;
+}
+
+const EN: NotificationTexts = {
+    firstRunTitle: 'PIO Checker - First Run',
+    firstRunText: 'Baseline data has been saved. Future runs will detect changes.',
+    noChangeTitle: 'PIO Checker - No Changes',
+    noChangeText: 'Your application status remains unchanged.',
+    changeTitle: 'PIO Checker - Changes Detected!',
+    changeText: summary => `Changes found: ${summary}`,
+    testTitle: 'PIO Checker - Test Notification',
+    testText: 'Notifications are configured correctly. Changes of your application will be delivered here.',
+    errorTitle: 'PIO Checker - Error',
+    errorText: (error, category) => `An error occurred (${category}): ${error}`,
+    errorCategories: {
+        'auth': 'Login failed',
+        'account-locked': 'Account locked',
+        'captcha': 'Captcha required',
+        'maintenance': 'Site maintenance',
+        'application-not-found': 'Application not found',
+        'site-unavailable': 'Site unavailable',
+        'selector-changed': 'Page layout changed',
+        'navigation-timeout': 'Page load timed out',
+        'unknown': 'Unexpected error'
+    },
+    errorTitles: {
+        'auth': 'PIO Checker - Login Failed',
+        'account-locked': 'PIO Checker - Account Locked',
+        'captcha': 'PIO Checker - Captcha Required',
+        'maintenance': 'PIO Checker - Site Maintenance'
+    },
+    errorHints: {
+        'auth': 'Scheduled checks of this account are paused until its password is updated.',
+        'account-locked': 'Scheduled checks of this account are paused. Unlock it on the PIO website, then resume it.',
+        'captcha': 'Log in once on the PIO website in a browser; the next check will try again.',
+        'maintenance': 'The next scheduled check will try again.'
+    },
+    errorType: 'Error type',
+    listChangeTitle: 'PIO Checker - Applications List Changed',
+    untrackedHint: ids => `Not tracked yet: ${ids.join(', ')}. Add to "applications" or enable "autoTrack" to follow.`,
+    autoTracked: ids => `Now tracking: ${ids.join(', ')}.`,
+    applicationsList: 'Accepted Applications',
+    errorReportHeading: 'PIO Checker - Error Report',
+    errorReportBody: [
+        'The PIO checker encountered an error while trying to check your application status.',
+        'Please check the application manually or review the system logs.'
+    ],
+    failureArtifacts: 'Saved pages',
+    failureArtifactsNote: 'The screenshot and HTML of the last failed page are attached; all captures are in the folders below.',
+    updateHeading: 'PIO Application Status Update',
+    account: 'Account',
+    time: 'Time',
+    applicationNumber: 'Application Number',
+    error: 'Error',
+    changesDetected: 'Changes Detected',
+    applicationDetails: 'Application Details',
+    tableChanges: 'Table Changes',
+    currentData: 'Current Data',
+    textChanges: 'Text Changes',
+    numberChanges: 'Number/Date Changes',
+    added: 'Added',
+    removed: 'Removed',
+    none: 'none',
+    applicationUrl: 'Application URL',
+    footer: accountId => `This is an automated notification from PIO Checker for account ${accountId}.`,
+    errorFooter: 'This is an automated notification from PIO Checker.',
+    location: 'Location',
+    previous: 'Previous',
+    current: 'Current',
+    noTableData: 'No table data available',
+    table: number => `Table ${number}:`,
+    caseNumber: 'Case number',
+    submissionDate: 'Submission date',
+    status: 'Status',
+    stage: 'Stage',
+    caseHandler: 'Case handler',
+    deadlines: 'Deadlines',
+    missingDocuments: 'Missing documents',
+    timeline: 'Timeline',
+    enteredAt: 'Since',
+    daysInStage: 'Days',
+    daysSinceSubmission: days => `${days} day(s) since submission.`,
+    daysSinceFirstCheck: days => `${days} day(s) since the first check (no submission date on the page).`,
+    checkStatistics: statistics => `${statistics.checks} check(s) since ${statistics.firstCheck ? new Date(statistics.firstCheck).toLocaleDateString() : '-'}, ` +
+        `${statistics.changes} with changes; ${statistics.failedRuns} of ${statistics.runs} run(s) failed.`
+};
+
+const PL: NotificationTexts = {
+    firstRunTitle: 'PIO Checker - Pierwsze uruchomienie',
+    firstRunText: 'Zapisano dane bazowe. Kolejne sprawdzenia wykryją zmiany.',
+    noChangeTitle: 'PIO Checker - Brak zmian',
+    noChangeText: 'Status wniosku nie zmienił się.',
+    changeTitle: 'PIO Checker - Wykryto zmiany!',
+    changeText: summary => `Znalezione zmiany: ${summary}`,
+    testTitle: 'PIO Checker - Powiadomienie testowe',
+    testText: 'Powiadomienia są skonfigurowane poprawnie. Zmiany w Twoim wniosku będą dostarczane tutaj.',
+    errorTitle: 'PIO Checker - Błąd',
+    errorText: (error, category) => `Wystąpił błąd (${category}): ${error}`,
+    errorCategories: {
+        'auth': 'Logowanie nieudane',
+        'account-locked': 'Konto zablokowane',
+        'captcha': 'Wymagana captcha',
+        'maintenance': 'Przerwa techniczna',
+        'application-not-found': 'Nie znaleziono wniosku',
+        'site-unavailable': 'Strona niedostępna',
+        'selector-changed': 'Zmieniony układ strony',
+        'navigation-timeout': 'Przekroczony czas ładowania',
+        'unknown': 'Nieoczekiwany błąd'
+    },
+    errorTitles: {
+        'auth': 'PIO Checker - Logowanie nieudane',
+        'account-locked': 'PIO Checker - Konto zablokowane',
+        'captcha': 'PIO Checker - Wymagana captcha',
+        'maintenance': 'PIO Checker - Przerwa techniczna'
+    },
+    errorHints: {
+        'auth': 'Zaplanowane sprawdzenia tego konta są wstrzymane do czasu zmiany hasła.',
+        'account-locked': 'Zaplanowane sprawdzenia tego konta są wstrzymane. Odblokuj je na stronie PIO i wznów sprawdzanie.',
+        'captcha': 'Zaloguj się raz na stronie PIO w przeglądarce; kolejne sprawdzenie spróbuje ponownie.',
+        'maintenance': 'Kolejne zaplanowane sprawdzenie spróbuje ponownie.'
+    },
+    errorType: 'Rodzaj błędu',
+    listChangeTitle: 'PIO Checker - Zmiana listy wniosków',
+    untrackedHint: ids => `Jeszcze nieśledzone: ${ids.join(', ')}. Dodaj do "applications" lub włącz "autoTrack".`,
+    autoTracked: ids => `Rozpoczęto śledzenie: ${ids.join(', ')}.`,
+    applicationsList: 'Wnioski przyjęte',
+    errorReportHeading: 'PIO Checker - Raport błędu',
+    errorReportBody: [
+        'Podczas sprawdzania statusu wniosku wystąpił błąd.',
+        'Sprawdź wniosek ręcznie lub przejrzyj logi systemowe.'
+    ],
+    failureArtifacts: 'Zapisane strony',
+    failureArtifactsNote: 'W załączniku zrzut ekranu i HTML ostatniej strony z błędem; wszystkie zapisy są w folderach poniżej.',
+    updateHeading: 'Aktualizacja statusu wniosku PIO',
+    account: 'Konto',
+    time: 'Czas',
+    applicationNumber: 'Numer wniosku',
+    error: 'Błąd',
+    changesDetected: 'Wykryte zmiany',
+    applicationDetails: 'Szczegóły wniosku',
+    tableChanges: 'Zmiany w tabelach',
+    currentData: 'Aktualne dane',
+    textChanges: 'Zmiany w treści',
+    numberChanges: 'Zmiany numerów i dat',
+    added: 'Dodane',
+    removed: 'Usunięte',
+    none: 'brak',
+    applicationUrl: 'Adres wniosku',
+    footer: accountId => `To jest automatyczne powiadomienie PIO Checker dla konta ${accountId}.`,
+    errorFooter: 'To jest automatyczne powiadomienie PIO Checker.',
+    location: 'Miejsce',
+    previous: 'Poprzednio',
+    current: 'Obecnie',
+    noTableData: 'Brak danych w tabelach',
+    table: number => `Tabela ${number}:`,
+    caseNumber: 'Numer sprawy',
+    submissionDate: 'Data złożenia',
+    status: 'Status',
+    stage: 'Etap',
+    caseHandler: 'Osoba prowadząca',
+    deadlines: 'Terminy',
+    missingDocuments: 'Brakujące dokumenty',
+    timeline: 'Przebieg sprawy',
+    enteredAt: 'Od',
+    daysInStage: 'Dni',
+    daysSinceSubmission: days => `Dni od złożenia wniosku: ${days}.`,
+    daysSinceFirstCheck: days => `Dni od pierwszego sprawdzenia: ${days} (brak daty złożenia na stronie).`,
+    checkStatistics: statistics => `Sprawdzenia: ${statistics.checks} od ${statistics.firstCheck ? new Date(statistics.firstCheck).toLocaleDateString('pl-PL') : '-'}, ` +
+        `ze zmianami: ${statistics.changes}; nieudane uruchomienia: ${statistics.failedRuns} z ${statistics.runs}.`
+};
+
+const TEXTS: Record<NotificationLanguage, NotificationTexts> = { en: EN, pl: PL };
+
+export function getNotificationTexts(language: NotificationLanguage = 'en'): NotificationTexts {
+    return TEXTS[language];
+}
@@ -0,0 +1,56 @@
+import { NotificationEvent, NtfyChannelConfig } from '../types';
+import { NotificationChannel, NotificationMessage, postRequest } from './channel';
+
+const EVENT_PRIORITY: Record<NotificationEvent, number> = {
+    firstRun: 2,
+    noChange: 1,
+    change: 4,
+    error: 4
+};
+
+const EVENT_TAGS: Record<NotificationEvent, string> = {
+    firstRun: 'floppy_disk',
+    noChange: 'white_check_mark',
+    change: 'bell',
+    error: 'warning'
+};
+
+// HTTP headers must be Latin-1; ntfy accepts RFC 2047 encoded titles for anything else
+function encodeHeader(value: string): string {
+    return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+// Push notification through an ntfy server (ntfy.sh or self-hosted)
+export class NtfyChannel implements NotificationChannel {
+    readonly type = 'ntfy';
+    readonly name: string;
+    readonly events: NotificationEvent[];
+    private url: string;
+    private token: string | undefined;
+    private priority: number | undefined;
+
+    constructor(config: NtfyChannelConfig) {
+        this.name = config.name || 'ntfy';
+        this.events = config.events || ['change', 'error'];
+        this.url = config.url;
+        this.token = config.token;
+        this.priority = config.priority;
+    }
+
+    async send(message: NotificationMessage): Promise<void> {
+        const headers: Record<string, string> = {
+            'Content-Type': 'text/plain; charset=utf-8',
+            Title: encodeHeader(`${message.title} - ${message.accountId}`),
+            Priority: String(this.priority ?? EVENT_PRIORITY[message.event]),
+            Tags: EVENT_TAGS[message.event]
+        };
+        if (message.url) {
+            headers.Click = message.url;
+        }
+        if (this.token) {
+            headers.Authorization = `Bearer ${this.token}`;
+        }
+
+        await postRequest(this.url, message.text, headers);
+    }
+}
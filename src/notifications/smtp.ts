@@ -0,0 +1,45 @@
+import * as nodemailer from 'nodemailer';
+import { NotificationEvent, SmtpChannelConfig } from '../types';
+import { NotificationChannel, NotificationMessage } from './channel';
+
+export class SmtpChannel implements NotificationChannel {
+    readonly type = 'smtp';
+    readonly name: string;
+    readonly events: NotificationEvent[];
+    private transporter: nodemailer.Transporter;
+    private from: string;
+    private to: string[];
+
+    constructor(config: SmtpChannelConfig) {
+        this.name = config.name || 'smtp';
+        // Email is for events worth reading later
+        this.events = config.events || ['change', 'error'];
+
+        const auth = config.user ? { user: config.user, pass: config.pass || '' } : undefined;
+        this.transporter = config.service
+            ? nodemailer.createTransport({ service: config.service, ...(auth ? { auth } : {}) })
+            : nodemailer.createTransport({
+                host: config.host,
+                port: config.port || 587,
+                secure: config.secure ?? config.port === 465,
+                ...(auth ? { auth } : {})
+            });
+
+        this.from = config.from || config.user || '';
+        const to = config.to || config.user || [];
+        this.to = Array.isArray(to) ? to : [to];
+    }
+
+    async send(message: NotificationMessage): Promise<void> {
+        const to = message.to && message.to.length > 0 ? message.to : this.to;
+        const info = await this.transporter.sendMail({
+            from: this.from,
+            to: to.join(', '),
+            ...(message.cc && message.cc.length > 0 ? { cc: message.cc.join(', ') } : {}),
+            subject: `${message.title} - Account: ${message.accountId}`,
+            html: message.html || `<p>${message.text}</p>`,
+            ...(message.attachments && message.attachments.length > 0 ? { attachments: message.attachments } : {})
+        });
+        console.log(`[${message.accountId}] Email sent successfully: ` + info.response);
+    }
+}
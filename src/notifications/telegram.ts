@@ -0,0 +1,34 @@
+import { NotificationEvent, TelegramChannelConfig } from '../types';
+import { NotificationChannel, NotificationMessage, postJson } from './channel';
+
+// Telegram limits messages to 4096 characters
+const MAX_MESSAGE_LENGTH = 4096;
+
+export class TelegramChannel implements NotificationChannel {
+    readonly type = 'telegram';
+    readonly name: string;
+    readonly events: NotificationEvent[];
+    private endpoint: string;
+    private chatId: string | number;
+
+    constructor(config: TelegramChannelConfig) {
+        this.name = config.name || 'telegram';
+        this.events = config.events || ['change', 'error'];
+        const apiUrl = (config.apiUrl || 'https://api.telegram.org').replace(/\/$/, '');
+        this.endpoint = `${apiUrl}/bot${config.botToken}/sendMessage`;
+        this.chatId = config.chatId;
+    }
+
+    async send(message: NotificationMessage): Promise<void> {
+        let text = `${message.title} - ${message.accountId}\n\n${message.text}`;
+        if (message.url) {
+            text += `\n\n${message.url}`;
+        }
+
+        await postJson(this.endpoint, {
+            chat_id: this.chatId,
+            text: text.slice(0, MAX_MESSAGE_LENGTH),
+            disable_web_page_preview: true
+        });
+    }
+}
@@ -0,0 +1,48 @@
+import { NotificationEvent, WebhookChannelConfig } from '../types';
+import { NotificationChannel, NotificationMessage, postJson } from './channel';
+
+// Discord rejects content longer than 2000 characters
+const DISCORD_MAX_LENGTH = 2000;
+
+export class WebhookChannel implements NotificationChannel {
+    readonly type: WebhookChannelConfig['type'];
+    readonly name: string;
+    readonly events: NotificationEvent[];
+    private url: string;
+    private headers: Record<string, string>;
+
+    constructor(config: WebhookChannelConfig) {
+        this.type = config.type;
+        this.name = config.name || config.type;
+        this.events = config.events || ['change', 'error'];
+        this.url = config.url;
+        this.headers = config.headers || {};
+    }
+
+    buildPayload(message: NotificationMessage): unknown {
+        const link = message.url ? `\n${message.url}` : '';
+
+        switch (this.type) {
+            case 'slack':
+                return { text: `*${message.title} - ${message.accountId}*\n${message.text}${link}` };
+            case 'discord':
+                return { content: `**${message.title} - ${message.accountId}**\n${message.text}${link}`.slice(0, DISCORD_MAX_LENGTH) };
+            default:
+                return {
+                    event: message.event,
+                    accountId: message.accountId,
+                    applicationId: message.applicationId ?? null,
+                    title: message.title,
+                    text: message.text,
+                    url: message.url ?? null,
+                    changes: message.changes || [],
+                    errorCategory: message.errorCategory ?? null,
+                    timestamp: message.timestamp
+                };
+        }
+    }
+
+    async send(message: NotificationMessage): Promise<void> {
+        await postJson(this.url, this.buildPayload(message), this.headers);
+    }
+}
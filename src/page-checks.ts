@@ -0,0 +1,79 @@
+import {
+    AccountLockedError,
+    AuthenticationError,
+    CaptchaError,
+    CheckError,
+    MaintenanceError
+} from './errors';
+
+interface PageCheck {
+    create: (message: string) => CheckError;
+    describe: string;
+    url?: RegExp;
+    text?: RegExp;
+    html?: RegExp;
+}
+
+// Checked in order: a maintenance page may also show the login form, a locked account also "fails" the login
+const PAGE_CHECKS: PageCheck[] = [
+    {
+        create: message => new MaintenanceError(message),
+        describe: 'The portal is showing a maintenance page',
+        url: /\/(maintenance|przerwa-techniczna|serwis)\b/i,
+        text: /przerwa techniczna|prace (serwisowe|konserwacyjne|techniczne)|serwis (jest )?(chwilowo |tymczasowo )?niedostępny|under maintenance|scheduled maintenance|service (is )?(temporarily )?unavailable/i
+    },
+    {
+        create: message => new AccountLockedError(message),
+        describe: 'The portal reports the account as locked',
+        text: /konto (zostało |jest )?(tymczasowo )?zablokowane|zablokowano (konto|dostęp)|zbyt wiele (nieudanych )?prób|account (has been |is )?(temporarily )?(locked|blocked|disabled)|too many (failed )?(login )?attempts/i
+    },
+    {
+        create: message => new CaptchaError(message),
+        describe: 'The portal asks for a captcha',
+        text: /nie jestem robotem|przepisz kod z obrazka|i'?m not a robot|verify you are human/i,
+        html: /class="[^"]*\b(g-recaptcha|h-captcha|cf-turnstile)\b|src="[^"]*(recaptcha|hcaptcha\.com|challenges\.cloudflare\.com)/i
+    },
+    {
+        create: message => new AuthenticationError(message),
+        describe: 'The portal rejected the login or password',
+        url: /[?&]error=(invalid|bad)[-_]?(credentials|login|password)/i,
+        text: /nieprawidłow[ya] (login|hasło|nazwa użytkownika|dane logowania)|błędn[ye] (login|hasło|dane logowania)|niepoprawn[ye] (login|hasło|dane logowania)|invalid (username|login|password|credentials)|incorrect (username|login|password)/i
+    }
+];
+
+// Visible text of a page without scripts, styles and markup
+export function pageText(html: string): string {
+    return html
+        .replace(/<(script|style|noscript)\b[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+function excerpt(text: string, pattern: RegExp): string {
+    const match = pattern.exec(text);
+    if (!match) {
+        return '';
+    }
+    const start = Math.max(0, match.index - 40);
+    return text.slice(start, match.index + match[0].length + 40).trim();
+}
+
+// Wrong credentials, locked account, captcha or maintenance recognised by URL or content; null for an ordinary page
+export function detectPageProblem(url: string, html: string): CheckError | null {
+    const text = pageText(html);
+
+    for (const check of PAGE_CHECKS) {
+        if (check.url?.test(url)) {
+            return check.create(`${check.describe} (${url})`);
+        }
+        if (check.text?.test(text)) {
+            return check.create(`${check.describe}: "${excerpt(text, check.text)}"`);
+        }
+        if (check.html?.test(html)) {
+            return check.create(`${check.describe} (${url})`);
+        }
+    }
+    return null;
+}
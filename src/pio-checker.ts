@@ -1,67 +1,188 @@
 import * as puppeteer from 'puppeteer';
 import * as fs from 'fs';
 import * as path from 'path';
-import notifier from 'node-notifier';
-import * as nodemailer from 'nodemailer';
 import * as dotenv from 'dotenv';
-
-dotenv.config();
+import {
+    AccountConfig,
+    AccountProgress,
+    AccountRunResult,
+    ApplicationCheckResult,
+    ApplicationDetails,
+    ApplicationList,
+    ApplicationScrape,
+    CheckResult,
+    DataChange,
+    EmailRecipients,
+    ErrorCategory,
+    FailureCapture,
+    NoiseRules,
+    NotificationEvent,
+    RetentionPolicy,
+    RunOptions,
+    ScrapedData,
+    SiteProfile
+} from './types';
+import { extractApplicationDetails, extractNumbers } from './extractor';
+import { diffSnapshots, getDetails, summarizeChanges } from './diff';
+import { applyNoiseRules, mergeNoiseRules, validateNoiseRules } from './noise-filter';
+import { loadSettings } from './settings';
+import { validateAccountSchedule } from './scheduler';
+import { pauseAccount, resumeAccount, trackApplication } from './accounts';
+import { resolveSecrets } from './vault';
+import { BrowserSession, clearSession, loadSession, openDedicatedSession, saveSession, SharedBrowser } from './browser';
+import { formatDuration, runPool, withTimeout } from './pool';
+import { detectPageProblem } from './page-checks';
+import { loadSiteProfile } from './site-profile';
+import { isSnapshotFile } from './history';
+import { DEFAULT_RETENTION, validateRetention } from './retention';
+import { applicationFolder, fileTimestamp, HistoryStore, openHistoryStore, StoredSnapshot } from './storage';
+import { ApplicationTimeline, buildTimeline } from './timeline';
+import { captureFailure, CONSOLE_FILE, PAGE_FILE, pruneFailures, SCREENSHOT_FILE, watchConsole } from './failures';
+import {
+    ApplicationNotFoundError,
+    AuthenticationError,
+    backoffDelay,
+    CheckError,
+    classifyError,
+    createCheckError,
+    NavigationTimeoutError,
+    pausesAccount,
+    SelectorChangedError,
+    SiteUnavailableError,
+    withContext
+} from './errors';
+import { diffApplicationLists, parseApplicationList, RawApplicationList } from './application-list';
+import {
+    createChannels,
+    defaultChannelConfigs,
+    DeliveryResult,
+    getNotificationTexts,
+    NotificationChannel,
+    NotificationMessage,
+    NotificationTexts,
+    notifyChannels,
+    selectChannels,
+    validateChannelConfigs,
+    validateNotificationPreferences
+} from './notifications';
+
+dotenv.config({ quiet: true });
 
 // Get the correct data directory - always use project directory for consistency
 function getDataDirectory(): string {
     return process.cwd();
 }
 
-interface AccountConfig {
-    login: string;
-    password: string;
-    elementText: string;
-    headless?: boolean;
-}
-
-interface TableData {
-    tables: string[][][];
-    numbers: string[];
+// Application numbers tracked by an account; older configs name a single one in elementText
+function resolveApplications(accountConfig: AccountConfig): string[] | 'all' {
+    const { applications, elementText } = accountConfig;
+    if (applications === undefined) {
+        return elementText ? [elementText] : [];
+    }
+    if (applications !== 'all' &&
+        (!Array.isArray(applications) || applications.some(id => typeof id !== 'string' || !id.trim()))) {
+        throw new Error(`Account ${accountConfig.login}: applications must be "all" or a list of application numbers`);
+    }
+    return applications;
 }
 
-interface ScrapedData {
-    mainText: string;
-    fields: TableData;
-    url: string;
-    timestamp: string;
-    elementText: string;
+function isApplicationListFile(file: string): boolean {
+    return file.startsWith('wnioski-przyjete_') && file.endsWith('.json');
 }
 
-interface LinkInfo {
-    text: string;
-    href: string | null;
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
 }
 
 class PIOChecker {
     private accountId: string;
     private dataDir: string;
-    private readonly loginUrl: string = 'https://pio-przybysz.duw.pl/login';
-    private readonly wniosikiUrl: string = 'https://pio-przybysz.duw.pl/wnioski-przyjete';
+    // URLs, selectors, waits and extraction rules of the portal
+    private readonly profile: SiteProfile;
+    private readonly loginUrl: string;
+    private readonly wniosikiUrl: string;
+    private readonly detailsUrlPrefix: string;
     private login: string;
     private password: string;
-    private elementText: string;
+    private applications: string[] | 'all';
+    private autoTrack: boolean;
+    // Paused after rejected credentials; a successful check resumes it
+    private readonly paused: boolean;
+    // wnioski-przyjete as read by the last scrapeData call
+    applicationList: ApplicationList | null = null;
+    // Page captures of the failed attempts and applications of the last scrapeData call
+    failureCaptures: FailureCapture[] = [];
     private headless: boolean;
-    private gmailUser: string | undefined;
-    private gmailPass: string | undefined;
-    private mailTransporter: nodemailer.Transporter | null = null;
-
-    constructor(accountConfig: AccountConfig) {
+    // Cookies of the last successful login, reused until the portal rejects them
+    private readonly reuseSession: boolean;
+    private readonly sessionFile: string;
+    private readonly sharedBrowser: SharedBrowser | null;
+    private activeSession: BrowserSession | null = null;
+    // First wait between attempts; doubles after every failed attempt
+    private retryBaseDelayMs = 5000;
+    private abortReason: string | null = null;
+    // Compares with the stored history but saves, notifies and pauses nothing
+    private readonly dryRun: boolean;
+    private noiseRules: NoiseRules;
+    // Snapshots, runs, changes and deliveries; loose JSON files in data/ or data/history.db
+    private store: HistoryStore;
+    // Applied to an application's snapshots after each check; null keeps everything but exact duplicates
+    private retention: RetentionPolicy | null;
+    private channels: NotificationChannel[];
+    private recipients: EmailRecipients;
+    private notifyOn: NonNullable<AccountConfig['notifyOn']>;
+    private texts: NotificationTexts;
+
+    constructor(accountConfig: AccountConfig, sharedBrowser: SharedBrowser | null = null, options: { dryRun?: boolean } = {}) {
+        // Passwords and channel tokens may be "vault:<key>" references
+        accountConfig = resolveSecrets(accountConfig, `Account ${accountConfig.login}`);
         this.accountId = accountConfig.login; // Use login as account ID
         // Use appropriate data directory based on context (Electron or Node)
         this.dataDir = path.join(getDataDirectory(), 'data', this.accountId);
         this.login = accountConfig.login;
         this.password = accountConfig.password;
-        this.elementText = accountConfig.elementText;
+        this.applications = resolveApplications(accountConfig);
+        this.autoTrack = accountConfig.autoTrack === true;
+        this.paused = accountConfig.paused !== undefined;
         this.headless = accountConfig.headless !== undefined ? accountConfig.headless : true;
-
-        // Gmail configuration from environment variables
-        this.gmailUser = process.env.mail;
-        this.gmailPass = process.env.pass;
+        this.reuseSession = accountConfig.reuseSession !== false;
+        this.sessionFile = path.join(this.dataDir, 'session.json');
+        this.sharedBrowser = sharedBrowser;
+        this.dryRun = options.dryRun === true;
+
+        // The account's site profile, else the one from settings.json; its URLs can be pointed at a local fixture
+        // server for offline runs
+        const settings = loadSettings();
+        this.profile = loadSiteProfile(accountConfig.siteProfile || settings.siteProfile);
+        this.loginUrl = accountConfig.loginUrl || this.profile.urls.login;
+        this.wniosikiUrl = accountConfig.wniosikiUrl || this.profile.urls.applicationsList;
+        this.detailsUrlPrefix = new URL(this.profile.urls.detailsPath, this.wniosikiUrl).href;
+
+        // Global ignore rules from settings.json plus the account's own rules
+        validateNoiseRules(accountConfig.ignoreRules, `Account ${this.accountId}`);
+        this.noiseRules = mergeNoiseRules(settings.ignoreRules, accountConfig.ignoreRules);
+
+        validateRetention(settings.retention, 'settings.json');
+        this.retention = settings.retention ? { ...DEFAULT_RETENTION, ...settings.retention } : null;
+        this.store = openHistoryStore(settings.storage, path.join(getDataDirectory(), 'data'));
+
+        // Global channels from settings.json plus the account's own; desktop + Gmail from .env when none are configured
+        validateChannelConfigs(settings.notificationChannels, 'settings.json');
+        validateChannelConfigs(accountConfig.notificationChannels, `Account ${this.accountId}`);
+        const channelConfigs = [
+            ...resolveSecrets(settings.notificationChannels || [], 'settings.json'),
+            ...(accountConfig.notificationChannels || [])
+        ];
+        this.channels = createChannels(channelConfigs.length > 0 ? channelConfigs : resolveSecrets(defaultChannelConfigs(), '.env'));
+
+        validateNotificationPreferences(accountConfig, `Account ${this.accountId}`);
+        this.recipients = accountConfig.recipients || {};
+        this.notifyOn = accountConfig.notifyOn || {};
+        this.texts = getNotificationTexts(accountConfig.language);
 
         // Ensure data directory exists
         if (!fs.existsSync(this.dataDir)) {
@@ -69,404 +190,835 @@ class PIOChecker {
         }
 
         // Validate required configuration
-        if (!this.login || !this.password || !this.elementText) {
-            throw new Error(`Missing required configuration for account ${this.accountId}: login, password, or elementText`);
+        if (!this.login || !this.password || this.applications.length === 0) {
+            throw new Error(`Missing required configuration for account ${this.accountId}: login, password, or applications`);
         }
+    }
 
-        if (!this.gmailUser || !this.gmailPass) {
-            console.warn(`Warning: Gmail credentials not found in environment variables. Email notifications will be disabled.`);
+    // Snapshots used to be stored directly in data/<login>/; move them into the folder of their application. Only real
+    // checks do this, not dry runs or test notifications
+    private migrateLegacySnapshots(): void {
+        const files = fs.readdirSync(this.dataDir).filter(isSnapshotFile);
+        const fallback = this.applications === 'all' ? undefined : this.applications[0];
+        let moved = 0;
+
+        for (const file of files) {
+            const source = path.join(this.dataDir, file);
+            let applicationId = fallback;
+            try {
+                applicationId = JSON.parse(fs.readFileSync(source, 'utf8')).elementText || fallback;
+            } catch {
+                // Unreadable snapshots go to the default application
+            }
+            if (!applicationId) {
+                continue;
+            }
+
+            const targetDir = this.getApplicationDir(applicationId);
+            fs.mkdirSync(targetDir, { recursive: true });
+            fs.renameSync(source, path.join(targetDir, file));
+            moved++;
         }
 
-        // Configure Gmail transporter
-        this.mailTransporter = null;
-        if (this.gmailUser && this.gmailPass) {
-            this.mailTransporter = nodemailer.createTransport({
-                service: 'gmail',
-                auth: {
-                    user: this.gmailUser,
-                    pass: this.gmailPass
-                }
-            });
+        if (moved > 0) {
+            console.log(`[${this.accountId}] Moved ${moved} snapshot(s) into per-application folders`);
         }
     }
 
-    async scrapeData(): Promise<ScrapedData> {
-        let browser: puppeteer.Browser | null = null;
-        let retries = 3;
+    // Logs in once (or reuses the saved session) and opens every tracked application from wnioski-przyjete;
+    // transient failures are retried with exponential backoff, permanent ones (see CheckError) fail right away
+    async scrapeData(): Promise<ApplicationScrape[]> {
+        let session: BrowserSession | null = null;
+        const retries = 3;
+        let attempts = 0;
+        let applicationIds = this.applications === 'all' ? [] : [...this.applications];
+        const scraped = new Map<string, ScrapedData>();
+        const failures = new Map<string, CheckError>();
+        // Failure captures of this check share one folder
+        const run = fileTimestamp(new Date());
+        this.failureCaptures = [];
 
         for (let attempt = 1; attempt <= retries; attempt++) {
+            attempts = attempt;
+            let page: puppeteer.Page | null = null;
+            let consoleLines: string[] = [];
             try {
-                console.log(`Attempt ${attempt}/${retries}: Launching browser...`);
-
-                browser = await puppeteer.launch({
-                    headless: this.headless,
-                    // Using Puppeteer's bundled Chromium instead of system Chrome
-                    timeout: 0,
-                    protocolTimeout: 240000,
-                    args: [
-                        '--no-sandbox',
-                        '--disable-setuid-sandbox',
-                        '--disable-dev-shm-usage',
-                        '--disable-gpu',
-                        '--disable-web-security',
-                        '--disable-features=VizDisplayCompositor'
-                    ]
-                });
-
-                const page = await browser.newPage();
-                await page.setDefaultTimeout(60000);
-                await page.setDefaultNavigationTimeout(60000);
+                console.log(`Attempt ${attempt}/${retries}: ${this.sharedBrowser ? 'Opening browser context' : 'Launching browser'}...`);
+                session = this.sharedBrowser
+                    ? await this.sharedBrowser.openSession()
+                    : await openDedicatedSession(this.headless);
+                this.activeSession = session;
+                this.throwIfAborted();
+
+                page = session.page;
+                consoleLines = watchConsole(page);
+                await page.setDefaultTimeout(this.profile.waits.navigationTimeoutMs);
+                await page.setDefaultNavigationTimeout(this.profile.waits.navigationTimeoutMs);
                 await page.setUserAgent('Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
 
-                // Step 1: Go to login page
-                console.log('Navigating to login page...');
-                await page.goto(this.loginUrl, {
-                    waitUntil: 'domcontentloaded',
-                    timeout: 60000
-                });
-
-                console.log('Login page loaded, looking for login form...');
+                // Steps 1-2: restore the saved session or log in
+                await this.signIn(page);
 
-                // Step 2: Login using credentials from .env file
-                console.log('Filling login credentials...');
+                // Step 3: Read the whole wnioski-przyjete list (signIn leaves the page there)
+                await this.recordPage(page, 'wnioski-przyjete');
+                const list = await this.readApplicationList(page);
+                this.applicationList = list;
+                await this.persistSession(page);
 
-                // Use the correct selectors for the login form
-                const usernameSelector = 'input[formcontrolname="username"]';
-                const passwordSelector = 'input[formcontrolname="pass"]';
-                const submitSelector = 'button.btn-primary';
+                if (this.applications === 'all') {
+                    applicationIds = list.entries.map(entry => entry.applicationId);
+                    if (applicationIds.length === 0) {
+                        throw new Error('No applications found on the applications page');
+                    }
+                    console.log(`Found ${applicationIds.length} application(s): ${applicationIds.join(', ')}`);
+                } else if (this.autoTrack) {
+                    const added = this.findNewApplications(list).filter(id => !applicationIds.includes(id));
+                    if (added.length > 0) {
+                        console.log(`New application(s) on the list, tracking: ${added.join(', ')}`);
+                        applicationIds.push(...added);
+                    }
+                }
 
-                // Wait for login form to be available and fill it
-                await page.waitForSelector(usernameSelector, { timeout: 10000 });
-                const loginField = await page.$(usernameSelector);
-                if (loginField) {
-                    await loginField.type(this.login);
-                    console.log('Login field filled');
+                // Step 4: Open each application that has not been scraped yet and did not fail for good
+                const pending = applicationIds.filter(id => !scraped.has(id) && failures.get(id)?.transient !== false);
+                let onApplicationsList = true;
+                for (const applicationId of pending) {
+                    try {
+                        if (!onApplicationsList) {
+                            await this.openApplicationsList(page);
+                        }
+                        onApplicationsList = false;
+                        scraped.set(applicationId, await this.scrapeApplication(page, applicationId));
+                        failures.delete(applicationId);
+                    } catch (error) {
+                        this.throwIfAborted();
+                        const checkError = classifyError(error);
+                        console.log(`❌ Application ${applicationId} failed (${checkError.category}):`, checkError.message);
+                        failures.set(applicationId, checkError);
+                        await this.captureFailure(page, run, { attempt, applicationId, error: checkError, console: consoleLines });
+                    }
                 }
 
-                await page.waitForSelector(passwordSelector, { timeout: 10000 });
-                const passwordField = await page.$(passwordSelector);
-                if (passwordField) {
-                    await passwordField.type(this.password);
-                    console.log('Password field filled');
+                const retryable = [...failures.values()].filter(failure => failure.transient).length;
+                if (retryable === 0 || attempt === retries) {
+                    break;
+                }
+                console.log(`Retrying ${retryable} failed application(s)...`);
+            } catch (error) {
+                this.throwIfAborted();
+                const checkError = classifyError(error);
+                console.log(`❌ Attempt ${attempt} failed (${checkError.category}):`, checkError.message);
+                // Nothing to capture when the browser did not even start
+                if (page) {
+                    await this.captureFailure(page, run, { attempt, error: checkError, console: consoleLines });
                 }
 
-                // Find and click submit button
-                console.log('Submitting login form...');
-                const submitButton = await page.$(submitSelector);
-                if (submitButton) {
-                    await Promise.all([
-                        page.waitForNavigation({ waitUntil: 'domcontentloaded', timeout: 30000 }),
-                        submitButton.click()
-                    ]);
-                    console.log('Login form submitted');
-                } else {
-                    throw new Error('Could not find submit button');
+                if (!checkError.transient || attempt === retries) {
+                    // Keep what earlier attempts collected; without any data the whole session failed
+                    if (scraped.size === 0) {
+                        throw withContext(checkError, `Failed to scrape data after ${attempt} attempt(s)`);
+                    }
+                    applicationIds.filter(id => !scraped.has(id)).forEach(id => failures.set(id, checkError));
+                    break;
                 }
+            } finally {
+                if (session) {
+                    await session.close();
+                    session = null;
+                    this.activeSession = null;
+                }
+            }
 
-                // Verify login was successful
-                await page.waitForTimeout(2000);
-                const currentUrl = page.url();
-                console.log(`Current URL after login: ${currentUrl}`);
+            // Wait before retrying, longer after every failed attempt
+            const delay = backoffDelay(attempt, this.retryBaseDelayMs);
+            console.log(`Waiting ${formatDuration(delay)} before retrying...`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+            this.throwIfAborted();
+        }
+        this.throwIfAborted();
+        if (this.failureCaptures.length > 0) {
+            pruneFailures(this.dataDir);
+        }
 
-                // Step 3: Go to wnioski-przyjete page
-                console.log('Navigating to applications page...');
-                await page.goto(this.wniosikiUrl, {
-                    waitUntil: 'domcontentloaded',
-                    timeout: 60000
-                });
+        return applicationIds.map(applicationId => {
+            const data = scraped.get(applicationId);
+            if (data) {
+                return { applicationId, data };
+            }
+            const failure = failures.get(applicationId) || new CheckError('unknown', 'not reached');
+            return {
+                applicationId,
+                error: `Failed to scrape data after ${attempts} attempt(s): ${failure.message}`,
+                errorCategory: failure.category
+            };
+        });
+    }
 
-                console.log('Applications page loaded');
+    // Stops a running check, e.g. when it exceeds its time limit; closing the browser makes pending steps fail fast
+    async abort(reason: string): Promise<void> {
+        this.abortReason = reason;
+        await this.activeSession?.close();
+    }
 
-                // Step 4: Find link with ELEMENT_TEXT from .env file
-                console.log(`Looking for element with text: ${this.elementText}`);
+    private throwIfAborted(): void {
+        if (this.abortReason) {
+            throw new Error(this.abortReason);
+        }
+    }
 
-                // Wait for page content to load
-                await page.waitForTimeout(3000);
+    // Failure artifacts are a debugging aid, so failing to save them never changes the outcome of the check
+    private async captureFailure(
+        page: puppeteer.Page,
+        run: string,
+        details: { attempt: number; applicationId?: string; error: CheckError; console: string[] }
+    ): Promise<void> {
+        try {
+            const capture = await captureFailure(page, this.dataDir, run, details);
+            this.failureCaptures.push(capture);
+            console.log(`[${this.accountId}] Failure artifacts saved to ${capture.dir}`);
+        } catch (error) {
+            console.log('Warning: Could not save failure artifacts:', error instanceof Error ? error.message : String(error));
+        }
+    }
 
-                const linkFound = await page.evaluate((elementText: string) => {
-                    const links = Array.from(document.querySelectorAll('a'));
-                    const targetLink = links.find(link =>
-                        (link as HTMLAnchorElement).textContent?.includes(elementText) ||
-                        (link as HTMLAnchorElement).getAttribute('href')?.includes(elementText)
-                    );
-                    if (targetLink) {
-                        console.log('Found target link, clicking...');
-                        (targetLink as HTMLAnchorElement).click();
-                        return true;
-                    }
-                    console.log('Target link not found');
-                    return false;
-                }, this.elementText);
-
-                if (!linkFound) {
-                    // Debug: Let's see what links are available
-                    const availableLinks = await page.evaluate(() => {
-                        const links = Array.from(document.querySelectorAll('a'));
-                        return links.map(link => ({
-                            text: (link as HTMLAnchorElement).textContent?.trim() || '',
-                            href: (link as HTMLAnchorElement).getAttribute('href')
-                        })).filter(link => link.text || link.href);
-                    });
-                    console.log('Available links:', availableLinks.slice(0, 10));
-                    throw new Error(`Could not find link containing text: ${this.elementText}`);
-                }
+    // Opens wnioski-przyjete with the saved cookies when they are still accepted, otherwise through the login form
+    private async signIn(page: puppeteer.Page): Promise<void> {
+        const saved = this.reuseSession ? loadSession(this.sessionFile) : null;
+        if (saved) {
+            console.log(`Reusing session saved at ${saved.savedAt}...`);
+            await page.setCookie(...saved.cookies);
+            await this.openApplicationsList(page);
+            if (!this.isLoginPage(page.url())) {
+                return;
+            }
+            // A lock notice or captcha on the login page will not go away by logging in again
+            const problem = await this.findPageProblem(page);
+            if (problem && problem.category !== 'auth') {
+                throw problem;
+            }
+            console.log('Saved session has expired, logging in again');
+            clearSession(this.sessionFile);
+        }
 
-                // Wait for navigation to the target page
-                console.log('Waiting for target page to load...');
+        await this.submitLogin(page);
+        await this.openApplicationsList(page);
+        // A fresh login that still ends on the login form means the credentials were not accepted
+        if (this.isLoginPage(page.url())) {
+            throw await this.findPageProblem(page)
+                || new AuthenticationError(`Login rejected for ${this.login}: the portal returned to the login page`);
+        }
+    }
 
-                // Instead of waiting for navigation event, check URL directly
-                let targetPageLoaded = false;
-                for (let i = 0; i < 10; i++) {
-                    await page.waitForTimeout(1000);
-                    const currentUrl = page.url();
-                    console.log(`Current URL: ${currentUrl}`);
+    // Wrong credentials, a locked account, a captcha or a maintenance page recognised on the current page
+    private async findPageProblem(page: puppeteer.Page): Promise<CheckError | null> {
+        const problem = detectPageProblem(page.url(), await page.content());
+        if (problem) {
+            console.log(`[${this.accountId}] ${problem.message}`);
+        }
+        return problem;
+    }
 
-                    if (currentUrl.includes('https://pio-przybysz.duw.pl/szczegoly-wniosku')) {
-                        console.log('Target page detected by URL!');
-                        targetPageLoaded = true;
-                        break;
-                    }
-                }
+    // The portal sends requests without a valid session back to its login page
+    private isLoginPage(url: string): boolean {
+        try {
+            return new URL(url).pathname === new URL(this.loginUrl).pathname;
+        } catch {
+            return false;
+        }
+    }
 
-                if (!targetPageLoaded) {
-                    throw new Error('Target page did not load within expected time');
-                }
+    private async persistSession(page: puppeteer.Page): Promise<void> {
+        if (!this.reuseSession) {
+            return;
+        }
+        try {
+            const cookies = await page.cookies();
+            if (cookies.length > 0) {
+                saveSession(this.sessionFile, cookies);
+            }
+        } catch (error) {
+            console.log('Warning: Could not save session cookies:', error instanceof Error ? error.message : String(error));
+        }
+    }
 
-                console.log('Target page loaded, extracting data...');
+    private async submitLogin(page: puppeteer.Page): Promise<void> {
+        // Step 1: Go to login page
+        console.log('Navigating to login page...');
+        await this.gotoPage(page, this.loginUrl);
 
-                // Step 5: Take the data from the opened page
-                const mainText = await page.evaluate(() => {
-                    return document.body ? document.body.innerText || '' : '';
-                });
+        console.log('Login page loaded, looking for login form...');
+        await this.recordPage(page, 'login');
 
-                // Extract table data
-                const tableData = await page.evaluate(() => {
-                    const tables = document.querySelectorAll('table');
-                    const tableResults: string[][][] = [];
-
-                    tables.forEach((table) => {
-                        const rows: string[][] = [];
-                        const tableRows = table.querySelectorAll('tr');
-
-                        tableRows.forEach(row => {
-                            const cells: string[] = [];
-                            const tableCells = row.querySelectorAll('td, th');
-                            tableCells.forEach(cell => {
-                                cells.push((cell as HTMLElement).innerText.trim());
-                            });
-                            if (cells.length > 0) {
-                                rows.push(cells);
-                            }
-                        });
-
-                        if (rows.length > 0) {
-                            tableResults.push(rows);
-                        }
-                    });
+        // The credentials have not been sent yet, so an error message about them is left over from an earlier visit
+        const problem = await this.findPageProblem(page);
+        if (problem && problem.category !== 'auth') {
+            throw problem;
+        }
 
-                    return tableResults;
-                });
+        // Step 2: Login using the account's credentials
+        console.log('Filling login credentials...');
+
+        // Selectors of the login form come from the site profile
+        const { username: usernameSelector, password: passwordSelector, submit: submitSelector } = this.profile.selectors;
 
-                // Extract numbers (application numbers, dates, etc.)
-                const numbers = mainText.match(/\d+[\.\d]*(?:\.\d+\.\d+)?/g) || [];
+        // Wait for login form to be available and fill it
+        await this.waitForElement(page, usernameSelector, 'Login field');
+        const loginField = await page.$(usernameSelector);
+        if (loginField) {
+            await loginField.type(this.login);
+            console.log('Login field filled');
+        }
 
-                const scrapedData: ScrapedData = {
-                    mainText: mainText.trim(),
-                    fields: {
-                        tables: tableData,
-                        numbers: numbers
-                    },
-                    url: page.url(),
-                    timestamp: new Date().toISOString(),
-                    elementText: this.elementText
-                };
+        await this.waitForElement(page, passwordSelector, 'Password field');
+        const passwordField = await page.$(passwordSelector);
+        if (passwordField) {
+            await passwordField.type(this.password);
+            console.log('Password field filled');
+        }
 
-                console.log('✅ Data scraped successfully');
-                return scrapedData;
+        // Find and click submit button
+        console.log('Submitting login form...');
+        const submitButton = await page.$(submitSelector);
+        if (submitButton) {
+            await Promise.all([
+                page.waitForNavigation({ waitUntil: 'domcontentloaded', timeout: this.profile.waits.submitTimeoutMs }),
+                submitButton.click()
+            ]);
+            console.log('Login form submitted');
+        } else {
+            throw new SelectorChangedError(`Login submit button not found (${submitSelector})`);
+        }
 
-            } catch (error) {
-                const errorMessage = error instanceof Error ? error.message : String(error);
-                console.log(`❌ Attempt ${attempt} failed:`, errorMessage);
+        // Verify login was successful
+        await page.waitForTimeout(this.profile.waits.afterLoginMs);
+        const currentUrl = page.url();
+        console.log(`Current URL after login: ${currentUrl}`);
 
-                if (attempt === retries) {
-                    throw new Error(`Failed to scrape data after ${retries} attempts: ${errorMessage}`);
-                }
+        const rejected = await this.findPageProblem(page);
+        if (rejected) {
+            throw rejected;
+        }
+    }
 
-                // Wait before retrying
-                await new Promise(resolve => setTimeout(resolve, 5000));
-            } finally {
-                if (browser) {
-                    try {
-                        await browser.close();
-                    } catch (e) {
-                        const errorMessage = e instanceof Error ? e.message : String(e);
-                        console.log('Warning: Error closing browser:', errorMessage);
-                    }
-                }
+    // Navigation errors and 5xx answers mean the portal is down rather than the check being wrong
+    private async gotoPage(page: puppeteer.Page, url: string): Promise<void> {
+        const response = await page.goto(url, {
+            waitUntil: 'domcontentloaded',
+            timeout: this.profile.waits.navigationTimeoutMs
+        });
+        if (response && response.status() >= 500) {
+            throw new SiteUnavailableError(`${url} answered HTTP ${response.status()}`);
+        }
+    }
+
+    // An element that does not show up on a loaded page points to a changed layout
+    private async waitForElement(page: puppeteer.Page, selector: string, description: string): Promise<void> {
+        try {
+            await page.waitForSelector(selector, { timeout: this.profile.waits.elementTimeoutMs });
+        } catch (error) {
+            if (classifyError(error).category === 'navigation-timeout') {
+                throw new SelectorChangedError(`${description} not found (${selector})`);
             }
+            throw error;
+        }
+    }
+
+    private async openApplicationsList(page: puppeteer.Page): Promise<void> {
+        console.log('Navigating to applications page...');
+        await this.gotoPage(page, this.wniosikiUrl);
+
+        // Wait for page content to load
+        await page.waitForTimeout(this.profile.waits.listLoadMs);
+
+        // Other problems are only looked for once the portal sends the browser back to the login page
+        const problem = await this.findPageProblem(page);
+        if (problem?.category === 'maintenance') {
+            throw problem;
+        }
+        // Only a page that is not the login form is expected to have the list
+        const { listReadySelector } = this.profile.waits;
+        if (listReadySelector && !this.isLoginPage(page.url())) {
+            await this.waitForElement(page, listReadySelector, 'Applications list');
         }
+        console.log('Applications page loaded');
+    }
+
+    // Every application linked from wnioski-przyjete with the cells of its row, in page order
+    private async readApplicationList(page: puppeteer.Page): Promise<ApplicationList> {
+        const detailsPath = this.profile.urls.detailsPath;
+        const raw: RawApplicationList = await page.evaluate((detailsPath: string) => {
+            const links = Array.from(document.querySelectorAll('a'))
+                .filter(link => ((link as HTMLAnchorElement).getAttribute('href') || '').includes(`${detailsPath}/`));
+
+            const rows = links.map(link => {
+                const row = link.closest('tr');
+                const cells = row
+                    ? Array.from(row.querySelectorAll('td, th')).map(cell => (cell as HTMLElement).innerText.trim())
+                    : [(link as HTMLAnchorElement).innerText.trim()];
+                return { href: (link as HTMLAnchorElement).getAttribute('href') || '', cells };
+            });
+
+            const headerRow = links[0]?.closest('table')?.querySelector('tr');
+            const headers = headerRow
+                ? Array.from(headerRow.querySelectorAll('th')).map(cell => (cell as HTMLElement).innerText.trim())
+                : [];
+
+            return { headers, rows };
+        }, detailsPath);
 
-        throw new Error('Failed to scrape data after all retries');
+        return parseApplicationList(raw, page.url(), new Date().toISOString(), detailsPath);
     }
 
-    getLatestDataFile(): string | null {
+    getLatestApplicationListFile(): string | null {
         if (!fs.existsSync(this.dataDir)) {
             return null;
         }
+        const files = fs.readdirSync(this.dataDir).filter(isApplicationListFile).sort().reverse();
+        return files.length > 0 ? path.join(this.dataDir, files[0]!) : null;
+    }
 
-        const files = fs.readdirSync(this.dataDir)
-            .filter(file => file.startsWith('szczegoly-wniosku_') && file.endsWith('.json'))
-            .sort()
-            .reverse();
+    private loadPreviousApplicationList(): ApplicationList | null {
+        const latestFile = this.getLatestApplicationListFile();
+        return latestFile ? JSON.parse(fs.readFileSync(latestFile, 'utf8')) : null;
+    }
 
-        return files.length > 0 ? path.join(this.dataDir, files[0]!) : null;
+    // Applications on the list that were not there last time; nothing is new before the first list is saved
+    private findNewApplications(list: ApplicationList): string[] {
+        const previous = this.loadPreviousApplicationList();
+        if (!previous) {
+            return [];
+        }
+        const known = new Set(previous.entries.map(entry => entry.applicationId));
+        return list.entries.map(entry => entry.applicationId).filter(id => !known.has(id));
     }
 
-    saveData(data: ScrapedData): string {
-        const now = new Date();
-        // Format as local time: YYYY-MM-DDTHH-MM-SS
-        const timestamp = now.getFullYear() + '-' +
-            String(now.getMonth() + 1).padStart(2, '0') + '-' +
-            String(now.getDate()).padStart(2, '0') + 'T' +
-            String(now.getHours()).padStart(2, '0') + '-' +
-            String(now.getMinutes()).padStart(2, '0') + '-' +
-            String(now.getSeconds()).padStart(2, '0');
-        const filename = `szczegoly-wniosku_${timestamp}.json`;
+    saveApplicationList(list: ApplicationList): string {
+        const filename = `wnioski-przyjete_${fileTimestamp(new Date())}.json`;
         const filepath = path.join(this.dataDir, filename);
 
-        fs.writeFileSync(filepath, JSON.stringify(data, null, 2));
-        console.log(`[${this.accountId}] Data saved to: ${filename}`);
+        fs.writeFileSync(filepath, JSON.stringify(list, null, 2));
+        console.log(`[${this.accountId}] Applications list saved to: ${filename}`);
         return filepath;
     }
 
-    compareData(oldData: ScrapedData, newData: ScrapedData): string[] {
-        const changes: string[] = [];
+    // Click the application's link on the list page and extract the details page it opens
+    private async scrapeApplication(page: puppeteer.Page, applicationId: string): Promise<ScrapedData> {
+        console.log(`Looking for element with text: ${applicationId}`);
 
-        // Compare main text
-        if (oldData.mainText !== newData.mainText) {
-            changes.push('Main content has changed');
+        const linkFound = await page.evaluate((elementText: string) => {
+            const links = Array.from(document.querySelectorAll('a'));
+            const targetLink = links.find(link =>
+                (link as HTMLAnchorElement).textContent?.includes(elementText) ||
+                (link as HTMLAnchorElement).getAttribute('href')?.includes(elementText)
+            );
+            if (targetLink) {
+                console.log('Found target link, clicking...');
+                (targetLink as HTMLAnchorElement).click();
+                return true;
+            }
+            console.log('Target link not found');
+            return false;
+        }, applicationId);
+
+        if (!linkFound) {
+            // Debug: Let's see what links are available
+            const availableLinks = await page.evaluate(() => {
+                const links = Array.from(document.querySelectorAll('a'));
+                return links.map(link => ({
+                    text: (link as HTMLAnchorElement).textContent?.trim() || '',
+                    href: (link as HTMLAnchorElement).getAttribute('href')
+                })).filter(link => link.text || link.href);
+            });
+            console.log('Available links:', availableLinks.slice(0, 10));
+            throw new ApplicationNotFoundError(`Could not find link containing text: ${applicationId}`);
         }
 
-        // Compare tables
-        const oldTables = JSON.stringify(oldData.fields.tables || []);
-        const newTables = JSON.stringify(newData.fields.tables || []);
-
-        if (oldTables !== newTables) {
-            changes.push('Table data has changed');
+        // Wait for navigation to the target page
+        console.log('Waiting for target page to load...');
+
+        // Instead of waiting for navigation event, check URL directly
+        let targetPageLoaded = false;
+        const polls = Math.max(1, Math.ceil(this.profile.waits.detailsTimeoutMs / 1000));
+        for (let i = 0; i < polls; i++) {
+            await page.waitForTimeout(1000);
+            const currentUrl = page.url();
+            console.log(`Current URL: ${currentUrl}`);
+
+            if (currentUrl.startsWith(this.detailsUrlPrefix)) {
+                console.log('Target page detected by URL!');
+                targetPageLoaded = true;
+                break;
+            }
         }
 
-        // Compare numbers
-        const oldNumbers = JSON.stringify(oldData.fields.numbers || []);
-        const newNumbers = JSON.stringify(newData.fields.numbers || []);
+        if (!targetPageLoaded) {
+            throw new NavigationTimeoutError(`Details page of application ${applicationId} did not load within expected time`);
+        }
 
-        if (oldNumbers !== newNumbers) {
-            changes.push('Numbers/dates have changed');
+        if (this.profile.waits.detailsReadySelector) {
+            await this.waitForElement(page, this.profile.waits.detailsReadySelector, 'Application details');
         }
 
-        return changes;
-    }
+        console.log('Target page loaded, extracting data...');
+        await this.recordPage(page, `szczegoly-wniosku-${applicationId}`);
 
-    sendNotification(title: string, message: string): void {
-        notifier.notify({
-            title: `${title} - ${this.accountId}`,
-            message: message,
-            sound: true,
-            wait: false
+        // Take the data from the opened page
+        const mainText = await page.evaluate(() => {
+            return document.body ? document.body.innerText || '' : '';
         });
+
+        // Extract table data
+        const tableData = await page.evaluate(() => {
+            const tables = document.querySelectorAll('table');
+            const tableResults: string[][][] = [];
+
+            tables.forEach((table) => {
+                const rows: string[][] = [];
+                const tableRows = table.querySelectorAll('tr');
+
+                tableRows.forEach(row => {
+                    const cells: string[] = [];
+                    const tableCells = row.querySelectorAll('td, th');
+                    tableCells.forEach(cell => {
+                        cells.push((cell as HTMLElement).innerText.trim());
+                    });
+                    if (cells.length > 0) {
+                        rows.push(cells);
+                    }
+                });
+
+                if (rows.length > 0) {
+                    tableResults.push(rows);
+                }
+            });
+
+            return tableResults;
+        });
+
+        // Extract numbers (application numbers, dates, etc.)
+        const numbers = extractNumbers(mainText);
+
+        const scrapedData: ScrapedData = {
+            mainText: mainText.trim(),
+            fields: {
+                tables: tableData,
+                numbers: numbers
+            },
+            details: extractApplicationDetails(mainText, tableData, this.profile.extraction),
+            url: page.url(),
+            timestamp: new Date().toISOString(),
+            elementText: applicationId
+        };
+
+        console.log(`✅ Application ${applicationId} scraped successfully`);
+        return scrapedData;
     }
 
-    async sendEmail(
-        subject: string,
-        message: string,
-        changes: string[] | null = null,
-        previousData: ScrapedData | null = null,
-        currentData: ScrapedData | null = null
-    ): Promise<void> {
-        if (!this.mailTransporter) {
-            console.log(`[${this.accountId}] Email notifications disabled - Gmail credentials not configured`);
+    // Save the rendered page as a fixture when PIO_RECORD_FIXTURES points to a directory
+    async recordPage(page: puppeteer.Page, name: string): Promise<void> {
+        const recordDir = process.env.PIO_RECORD_FIXTURES;
+        if (!recordDir) {
             return;
         }
 
-        let emailContent = message;
+        if (!fs.existsSync(recordDir)) {
+            fs.mkdirSync(recordDir, { recursive: true });
+        }
+        const filepath = path.join(recordDir, `${name}.html`);
+        fs.writeFileSync(filepath, await page.content());
+        console.log(`[${this.accountId}] Recorded fixture: ${filepath}`);
+    }
+
+    // Snapshots of each application are kept in data/<login>/<application>/
+    getApplicationDir(applicationId: string): string {
+        return path.join(this.dataDir, applicationFolder(applicationId));
+    }
+
+    getLatestSnapshot(applicationId: string): StoredSnapshot | null {
+        return this.store.latestSnapshot(this.login, applicationId);
+    }
 
-        // If changes are detected, create a detailed email
-        if (changes && changes.length > 0 && previousData && currentData) {
-            emailContent = this.createDetailedEmailContent(changes, previousData, currentData);
+    // A page identical to the latest snapshot is only recorded as a check; snapshot is the one holding the data
+    saveData(data: ScrapedData): { snapshot: StoredSnapshot; saved: boolean } {
+        const result = this.store.saveSnapshot(this.login, data);
+        if (!result.saved) {
+            console.log(`[${this.accountId}] Page unchanged since ${data.elementText}/${result.snapshot.name} - check recorded`);
+            return result;
         }
+        console.log(`[${this.accountId}] Data saved to: ${data.elementText}/${result.snapshot.name}`);
 
-        const mailOptions = {
-            from: this.gmailUser,
-            to: this.gmailUser,
-            subject: `${subject} - Account: ${this.accountId}`,
-            html: emailContent
-        };
+        if (this.retention) {
+            const { removed } = this.store.applyRetention(this.login, result.snapshot.application, this.retention, {
+                rules: this.noiseRules,
+                extraction: this.profile.extraction
+            });
+            if (removed.length > 0) {
+                console.log(`[${this.accountId}] Retention: ${removed.length} older snapshot(s) of ${data.elementText} replaced by check records`);
+            }
+        }
+        return result;
+    }
+
+    compareData(oldData: ScrapedData, newData: ScrapedData): DataChange[] {
+        // Snapshots are stored raw, so rules apply to both sides at comparison time
+        return diffSnapshots(
+            applyNoiseRules(oldData, this.noiseRules, this.profile.extraction),
+            applyNoiseRules(newData, this.noiseRules, this.profile.extraction)
+        );
+    }
+
+    formatDetailsForEmail(details: ApplicationDetails): string {
+        const texts = this.texts;
+        const rows: Array<[string, string | null]> = [
+            [texts.caseNumber, details.caseNumber],
+            [texts.applicationNumber, details.applicationNumber],
+            [texts.submissionDate, details.submissionDate],
+            [texts.status, details.status],
+            [texts.stage, details.stage],
+            [texts.caseHandler, details.caseHandler]
+        ];
+
+        let html = '<table border="1" style="border-collapse: collapse; margin-bottom: 10px;">';
+        rows
+            .filter(([, value]) => value !== null)
+            .forEach(([label, value]) => {
+                html += `<tr><th style="padding: 5px; border: 1px solid #ccc; text-align: left;">${label}</th>`;
+                html += `<td style="padding: 5px; border: 1px solid #ccc;">${escapeHtml(value ?? '')}</td></tr>`;
+            });
+        html += '</table>';
 
+        if (details.deadlines.length > 0) {
+            html += `<p><strong>${texts.deadlines}:</strong></p><ul>`;
+            details.deadlines.forEach(deadline => {
+                html += `<li>${escapeHtml(deadline.label)}: ${escapeHtml(deadline.date)}</li>`;
+            });
+            html += '</ul>';
+        }
+
+        if (details.missingDocuments.length > 0) {
+            html += `<p><strong>${texts.missingDocuments}:</strong></p><ul>`;
+            details.missingDocuments.forEach(request => {
+                html += `<li>${escapeHtml(request)}</li>`;
+            });
+            html += '</ul>';
+        }
+
+        return html;
+    }
+
+    // Stages of the application so far with the time spent in each; left out when the history cannot be read
+    formatTimelineForEmail(applicationId: string): string {
+        const texts = this.texts;
+        let timeline: ApplicationTimeline;
+        try {
+            timeline = buildTimeline(this.store, this.login, applicationId);
+        } catch (error) {
+            console.warn(`[${this.accountId}] Could not build the timeline of ${applicationId}: ${error instanceof Error ? error.message : String(error)}`);
+            return '';
+        }
+        if (timeline.stages.length === 0) {
+            return '';
+        }
+
+        let html = `<h3>${texts.timeline}:</h3>`;
+        if (timeline.elapsedDays !== null) {
+            html += `<p>${timeline.elapsedSince === 'submission' ? texts.daysSinceSubmission(timeline.elapsedDays) : texts.daysSinceFirstCheck(timeline.elapsedDays)}</p>`;
+        }
+        html += '<table border="1" style="border-collapse: collapse; margin-bottom: 10px;">';
+        html += `<tr><th style="padding: 5px; border: 1px solid #ccc;">${texts.status}</th><th style="padding: 5px; border: 1px solid #ccc;">${texts.stage}</th>`;
+        html += `<th style="padding: 5px; border: 1px solid #ccc;">${texts.enteredAt}</th><th style="padding: 5px; border: 1px solid #ccc;">${texts.daysInStage}</th></tr>`;
+        timeline.stages.forEach(stage => {
+            html += `<tr><td style="padding: 5px; border: 1px solid #ccc;">${escapeHtml(stage.status || '-')}</td>`;
+            html += `<td style="padding: 5px; border: 1px solid #ccc;">${escapeHtml(stage.stage || '-')}</td>`;
+            html += `<td style="padding: 5px; border: 1px solid #ccc;">${new Date(stage.enteredAt).toLocaleDateString()}</td>`;
+            html += `<td style="padding: 5px; border: 1px solid #ccc;">${stage.days}</td></tr>`;
+        });
+        html += '</table>';
+        html += `<p>${texts.checkStatistics(timeline.statistics)}</p>`;
+        return html;
+    }
+
+    // Fan a check outcome out to every channel subscribed to the event, as limited by the account's notifyOn
+    async notify(
+        event: NotificationEvent,
+        title: string,
+        text: string,
+        options: {
+            html?: string;
+            changes?: DataChange[];
+            applicationId?: string;
+            errorCategory?: ErrorCategory;
+            attachments?: NotificationMessage['attachments'];
+        } = {}
+    ): Promise<DeliveryResult[]> {
+        const { html, changes, applicationId, errorCategory, attachments } = options;
+        if (this.dryRun) {
+            console.log(`[${this.accountId}] Dry run, not sending: ${title}`);
+            return [];
+        }
+        const cc = [...(this.recipients.cc || []), ...(event === 'error' ? this.recipients.errorCc || [] : [])];
+        // Name the application when the login tracks more than one
+        const tracksSeveral = this.applications === 'all' || this.applications.length > 1;
+
+        const results = await notifyChannels(selectChannels(this.channels, this.notifyOn[event]), {
+            event,
+            accountId: this.accountId,
+            title: applicationId && tracksSeveral ? `${title} (${applicationId})` : title,
+            text,
+            ...(html !== undefined ? { html } : {}),
+            ...(changes !== undefined ? { changes } : {}),
+            ...(applicationId !== undefined ? { applicationId } : {}),
+            ...(errorCategory !== undefined ? { errorCategory } : {}),
+            ...(attachments !== undefined ? { attachments } : {}),
+            url: this.wniosikiUrl,
+            ...(this.recipients.to ? { to: this.recipients.to } : {}),
+            ...(cc.length > 0 ? { cc } : {}),
+            timestamp: new Date().toISOString()
+        });
+
+        const sentAt = new Date().toISOString();
+        this.recordHistory('deliveries', () => this.store.recordDeliveries(results.map(result => ({
+            login: this.login,
+            ...(applicationId !== undefined ? { application: applicationId } : {}),
+            event,
+            channel: result.channel,
+            success: result.success,
+            ...(result.error !== undefined ? { error: result.error } : {}),
+            sentAt
+        }))));
+        return results;
+    }
+
+    // Runs, changes and deliveries are bookkeeping; failing to store them must not fail the check
+    private recordHistory(what: string, write: () => void): void {
         try {
-            const info = await this.mailTransporter.sendMail(mailOptions);
-            console.log(`[${this.accountId}] Email sent successfully: ` + info.response);
+            write();
         } catch (error) {
-            console.log(`[${this.accountId}] Error sending email:`, error);
+            console.warn(`[${this.accountId}] Could not store ${what}: ${error instanceof Error ? error.message : String(error)}`);
         }
     }
 
-    createDetailedEmailContent(changes: string[], previousData: ScrapedData, currentData: ScrapedData): string {
+    // A change-like message through the channels that would get a change of this account; not stored as a delivery
+    async sendTestNotification(): Promise<DeliveryResult[]> {
+        return notifyChannels(selectChannels(this.channels, this.notifyOn.change), {
+            event: 'change',
+            accountId: this.accountId,
+            title: this.texts.testTitle,
+            text: this.texts.testText,
+            html: `<h2>${this.texts.testTitle}</h2>
+                 <p><strong>${this.texts.account}:</strong> ${this.accountId}</p>
+                 <p>${this.texts.testText}</p>`,
+            url: this.wniosikiUrl,
+            ...(this.recipients.to ? { to: this.recipients.to } : {}),
+            ...(this.recipients.cc ? { cc: this.recipients.cc } : {}),
+            timestamp: new Date().toISOString()
+        });
+    }
+
+    createDetailedEmailContent(changes: DataChange[], currentData: ScrapedData): string {
+        const texts = this.texts;
         const timestamp = new Date().toLocaleString();
 
         let html = `
-            <h2>PIO Application Status Update</h2>
-            <p><strong>Account:</strong> ${this.accountId}</p>
-            <p><strong>Time:</strong> ${timestamp}</p>
-            <p><strong>Application Number:</strong> ${this.elementText}</p>
-            <p><strong>Changes Detected:</strong></p>
-            <ul>
+            <h2>${texts.updateHeading}</h2>
+            <p><strong>${texts.account}:</strong> ${escapeHtml(this.accountId)}</p>
+            <p><strong>${texts.time}:</strong> ${timestamp}</p>
+            <p><strong>${texts.applicationNumber}:</strong> ${escapeHtml(currentData.elementText)}</p>
+            <p><strong>${texts.changesDetected}:</strong> ${summarizeChanges(changes)}</p>
         `;
 
-        changes.forEach(change => {
-            html += `<li>${change}</li>`;
-        });
+        const fieldChanges = changes.filter(change => change.section === 'details');
+        if (fieldChanges.length > 0) {
+            html += `<ul>`;
+            fieldChanges.forEach(change => {
+                html += `<li>${escapeHtml(change.description)}</li>`;
+            });
+            html += `</ul>`;
+        }
 
-        html += `</ul>`;
+        html += `<h3>${texts.applicationDetails}:</h3>`;
+        html += this.formatDetailsForEmail(getDetails(currentData));
+        html += this.formatTimelineForEmail(currentData.elementText);
+
+        // Add cell-level comparison if tables changed
+        const tableChanges = changes.filter(change => change.section === 'tables');
+        if (tableChanges.length > 0) {
+            html += `<h3>${texts.tableChanges}:</h3>`;
+            html += this.formatChangesForEmail(tableChanges);
+            html += `<h4>${texts.currentData}:</h4>`;
+            html += this.formatTablesForEmail(currentData.fields.tables || [], tableChanges);
+        }
 
-        // Add detailed comparison if tables changed
-        if (changes.includes('Table data has changed')) {
-            html += `<h3>Table Changes:</h3>`;
-            html += `<h4>Previous Data:</h4>`;
-            html += this.formatTablesForEmail(previousData.fields.tables || []);
-            html += `<h4>Current Data:</h4>`;
-            html += this.formatTablesForEmail(currentData.fields.tables || []);
+        // Add line-level text changes
+        const textChanges = changes.filter(change => change.section === 'text');
+        if (textChanges.length > 0) {
+            html += `<h3>${texts.textChanges}:</h3>`;
+            html += '<pre style="font-family: monospace; white-space: pre-wrap;">';
+            textChanges.forEach(change => {
+                const color = change.kind === 'line-added' ? '#1a7f37' : '#cf222e';
+                html += `<span style="color: ${color};">${escapeHtml(change.description)}</span>\n`;
+            });
+            html += '</pre>';
         }
 
         // Add number changes if detected
-        if (changes.includes('Numbers/dates have changed')) {
-            html += `<h3>Number/Date Changes:</h3>`;
-            html += `<p><strong>Previous:</strong> ${(previousData.fields.numbers || []).join(', ')}</p>`;
-            html += `<p><strong>Current:</strong> ${(currentData.fields.numbers || []).join(', ')}</p>`;
+        const numberChanges = changes.filter(change => change.section === 'numbers');
+        if (numberChanges.length > 0) {
+            const added = numberChanges.filter(change => change.kind === 'number-added').map(change => escapeHtml(change.newValue ?? ''));
+            const removed = numberChanges.filter(change => change.kind === 'number-removed').map(change => escapeHtml(change.oldValue ?? ''));
+            html += `<h3>${texts.numberChanges}:</h3>`;
+            html += `<p><strong>${texts.added}:</strong> ${added.join(', ') || texts.none}</p>`;
+            html += `<p><strong>${texts.removed}:</strong> ${removed.join(', ') || texts.none}</p>`;
         }
 
         html += `
             <hr>
-            <p><strong>Application URL:</strong> <a href="${currentData.url}">${currentData.url}</a></p>
-            <p><em>This is an automated notification from PIO Checker for account ${this.accountId}.</em></p>
+            <p><strong>${texts.applicationUrl}:</strong> <a href="${escapeHtml(currentData.url)}">${escapeHtml(currentData.url)}</a></p>
+            <p><em>${texts.footer(this.accountId)}</em></p>
         `;
 
         return html;
     }
 
-    formatTablesForEmail(tables: string[][][]): string {
+    formatChangesForEmail(changes: DataChange[]): string {
+        const cellStyle = 'padding: 5px; border: 1px solid #ccc;';
+        let html = '<table border="1" style="border-collapse: collapse; margin-bottom: 10px;">';
+        html += `<tr><th style="${cellStyle}">${this.texts.location}</th><th style="${cellStyle}">${this.texts.previous}</th><th style="${cellStyle}">${this.texts.current}</th></tr>`;
+
+        changes.forEach(change => {
+            html += '<tr>';
+            html += `<td style="${cellStyle}">${escapeHtml(change.location)}</td>`;
+            html += `<td style="${cellStyle} background: #ffebe9;">${escapeHtml(change.oldValue ?? '')}</td>`;
+            html += `<td style="${cellStyle} background: #dafbe1;">${escapeHtml(change.newValue ?? '')}</td>`;
+            html += '</tr>';
+        });
+
+        html += '</table>';
+        return html;
+    }
+
+    formatTablesForEmail(tables: string[][][], highlight: DataChange[] = []): string {
         if (!tables || tables.length === 0) {
-            return '<p>No table data available</p>';
+            return `<p>${this.texts.noTableData}</p>`;
         }
 
+        const isHighlighted = (tableIndex: number, rowIndex: number, cellIndex: number) => highlight.some(change =>
+            change.table === tableIndex &&
+            change.row === rowIndex &&
+            (change.column === undefined || change.column === cellIndex)
+        );
+
         let html = '';
         tables.forEach((table, index) => {
-            html += `<h5>Table ${index + 1}:</h5>`;
+            html += `<h5>${this.texts.table(index + 1)}</h5>`;
             html += '<table border="1" style="border-collapse: collapse; margin-bottom: 10px;">';
 
             table.forEach((row, rowIndex) => {
                 html += '<tr>';
-                row.forEach(cell => {
+                row.forEach((cell, cellIndex) => {
                     const tag = rowIndex === 0 ? 'th' : 'td';
-                    html += `<${tag} style="padding: 5px; border: 1px solid #ccc;">${cell}</${tag}>`;
+                    const background = isHighlighted(index, rowIndex, cellIndex) ? ' background: #fff8c5;' : '';
+                    html += `<${tag} style="padding: 5px; border: 1px solid #ccc;${background}">${escapeHtml(cell)}</${tag}>`;
                 });
                 html += '</tr>';
             });
@@ -477,94 +1029,302 @@ class PIOChecker {
         return html;
     }
 
-    async run(): Promise<void> {
+    async run(): Promise<CheckResult> {
+        if (this.dryRun) {
+            console.log(`[${this.accountId}] Dry run: nothing will be saved or sent`);
+            return this.runCheck();
+        }
+        this.migrateLegacySnapshots();
+        const startedAt = new Date().toISOString();
+        this.recordHistory('the account', () => this.store.touchAccount(this.login, startedAt));
+        const result = await this.runCheck();
+        this.recordHistory('the run', () => this.store.recordRun({
+            login: this.login,
+            startedAt,
+            finishedAt: new Date().toISOString(),
+            status: result.status,
+            applications: result.applications
+                ? result.applications.map(application => application.applicationId)
+                : this.applications === 'all' ? [] : [...this.applications],
+            ...(result.error !== undefined ? { error: result.error } : {}),
+            ...(result.errorCategory !== undefined ? { errorCategory: result.errorCategory } : {})
+        }));
+        return result;
+    }
+
+    private async runCheck(): Promise<CheckResult> {
         try {
             console.log(`[${this.accountId}] Starting PIO website check...`);
 
-            // Get latest data file
-            const latestFile = this.getLatestDataFile();
-            let previousData: ScrapedData | null = null;
+            // One login session covers every application of the account
+            this.applicationList = null;
+            this.failureCaptures = [];
+            const scrapes = await this.scrapeData();
 
-            if (latestFile) {
-                console.log(`[${this.accountId}] Found previous data: ${path.basename(latestFile)}`);
-                previousData = JSON.parse(fs.readFileSync(latestFile, 'utf8'));
-            } else {
-                console.log(`[${this.accountId}] No previous data found - this is the first run`);
+            const listResult = this.applicationList
+                ? await this.checkApplicationList(this.applicationList)
+                : { changes: [], untracked: [] };
+
+            const results: ApplicationCheckResult[] = [];
+            for (const scrape of scrapes) {
+                results.push(await this.checkApplication(scrape));
+            }
+
+            const combined = this.combineResults(results, listResult.changes, listResult.untracked);
+            if (this.paused && !this.dryRun && combined.status !== 'error' && resumeAccount(this.login)) {
+                console.log(`[${this.accountId}] Check succeeded, scheduled checks resumed`);
+            }
+            return combined;
+        } catch (error) {
+            const checkError = classifyError(error);
+            console.error(`[${this.accountId}] Error during check (${checkError.category}):`, error);
+            // Retrying rejected credentials on every schedule could get the account locked
+            if (pausesAccount(checkError.category) && !this.dryRun) {
+                this.pause(checkError);
             }
+            await this.notifyError(checkError);
 
-            // Scrape current data
-            const currentData = await this.scrapeData();
+            return { status: 'error', changes: [], error: checkError.message, errorCategory: checkError.category };
+        }
+    }
+
+    // Compare wnioski-przyjete with the previous list, notify about new/removed applications and column changes
+    async checkApplicationList(list: ApplicationList): Promise<{ changes: DataChange[]; untracked: string[] }> {
+        // An empty list is more likely a page that did not render than an account without applications
+        if (list.entries.length === 0) {
+            console.warn(`[${this.accountId}] Applications list is empty, not comparing it`);
+            return { changes: [], untracked: [] };
+        }
+
+        const previous = this.loadPreviousApplicationList();
+        if (!this.dryRun) {
+            this.saveApplicationList(list);
+        }
+        if (!previous) {
+            return { changes: [], untracked: [] };
+        }
+
+        const changes = diffApplicationLists(previous, list);
+        if (changes.length === 0) {
+            return { changes, untracked: [] };
+        }
+
+        const added = changes.filter(change => change.kind === 'application-added').map(change => change.newValue!);
+        const untracked: string[] = [];
+        const autoTracked: string[] = [];
+
+        added.forEach(applicationId => {
+            if (this.applications === 'all' || this.applications.includes(applicationId)) {
+                return;
+            }
+            if (!this.autoTrack) {
+                untracked.push(applicationId);
+                return;
+            }
+
+            // scrapeData already checked it in this run; remember it for the next ones
+            this.applications.push(applicationId);
+            autoTracked.push(applicationId);
+            if (this.dryRun) {
+                return;
+            }
+            try {
+                trackApplication(this.login, applicationId);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                console.warn(`[${this.accountId}] Could not save ${applicationId} to accounts.json: ${errorMessage}`);
+            }
+        });
+
+        console.log(`[${this.accountId}] 🔔 Applications list changed:`);
+        changes.forEach(change => console.log(`  - ${change.description}`));
+
+        const texts = this.texts;
+        const notes = [
+            ...(untracked.length > 0 ? [texts.untrackedHint(untracked)] : []),
+            ...(autoTracked.length > 0 ? [texts.autoTracked(autoTracked)] : [])
+        ];
+        const table = [list.headers, ...list.entries.map(entry => entry.cells)].filter(row => row.length > 0);
+
+        await this.notify(
+            'change',
+            texts.listChangeTitle,
+            [summarizeChanges(changes), ...notes].join(' '),
+            {
+                html: `<h2>${texts.listChangeTitle}</h2>
+                 <p><strong>${texts.account}:</strong> ${this.accountId}</p>
+                 <ul>${changes.map(change => `<li>${escapeHtml(change.description)}</li>`).join('')}</ul>
+                 ${notes.map(note => `<p><strong>${escapeHtml(note)}</strong></p>`).join('')}
+                 <h3>${texts.applicationsList}:</h3>
+                 ${this.formatTablesForEmail([table])}
+                 <p><strong>${texts.applicationUrl}:</strong> <a href="${list.url}">${list.url}</a></p>
+                 <p><em>${texts.footer(this.accountId)}</em></p>`,
+                changes
+            }
+        );
+
+        return { changes, untracked };
+    }
+
+    // Compare one application's fresh snapshot with its previous one and notify about the outcome
+    async checkApplication(scrape: ApplicationScrape): Promise<ApplicationCheckResult> {
+        const { applicationId } = scrape;
+        const label = `[${this.accountId}/${applicationId}]`;
+
+        try {
+            if (!scrape.data) {
+                throw createCheckError(scrape.errorCategory || 'unknown', scrape.error || 'Application could not be scraped');
+            }
+            const currentData = scrape.data;
+
+            const latest = this.getLatestSnapshot(applicationId);
+            const previousData = latest ? latest.data : null;
+
+            if (latest) {
+                console.log(`${label} Found previous data: ${latest.name}`);
+            } else {
+                console.log(`${label} No previous data found - this is the first run`);
+            }
 
             // Save current data
-            this.saveData(currentData);
+            const snapshot = this.dryRun ? null : this.saveData(currentData).snapshot;
 
             if (!previousData) {
-                console.log(`[${this.accountId}] ✅ First run completed - baseline data saved`);
-                this.sendNotification(
-                    'PIO Checker - First Run',
-                    'Baseline data has been saved. Future runs will detect changes.'
+                console.log(`${label} ✅ First run completed - baseline data saved`);
+                await this.notify(
+                    'firstRun',
+                    this.texts.firstRunTitle,
+                    this.texts.firstRunText,
+                    { applicationId }
                 );
 
-                return;
+                return { applicationId, status: 'first-run', changes: [] };
             }
 
             // Compare data
             const changes = this.compareData(previousData, currentData);
 
             if (changes.length === 0) {
-                console.log(`[${this.accountId}] ✅ No changes detected`);
-                this.sendNotification(
-                    'PIO Checker - No Changes',
-                    'Your application status remains unchanged.'
-                );
-            } else {
-                console.log(`[${this.accountId}] 🔔 Changes detected:`);
-                changes.forEach(change => console.log(`  - ${change}`));
-
-                this.sendNotification(
-                    'PIO Checker - Changes Detected!',
-                    `Changes found: ${changes.join(', ')}`
+                console.log(`${label} ✅ No changes detected`);
+                await this.notify(
+                    'noChange',
+                    this.texts.noChangeTitle,
+                    this.texts.noChangeText,
+                    { applicationId }
                 );
+                return { applicationId, status: 'unchanged', changes };
+            }
 
-                // Send detailed email report
-                await this.sendEmail(
-                    'PIO Checker - Changes Detected!',
-                    'Changes have been detected in your application status.',
-                    changes,
-                    previousData,
-                    currentData
-                );
+            console.log(`${label} 🔔 Changes detected:`);
+            changes.forEach(change => console.log(`  - ${change.description}`));
+            if (snapshot) {
+                this.recordHistory('the changes', () => this.store.recordChanges(this.login, snapshot.application, snapshot.name, changes, currentData.timestamp));
             }
 
-        } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            console.error(`[${this.accountId}] Error during check:`, error);
-            this.sendNotification(
-                'PIO Checker - Error',
-                `An error occurred: ${errorMessage}`
+            // Short summary for push/chat channels, detailed report for email
+            await this.notify(
+                'change',
+                this.texts.changeTitle,
+                this.texts.changeText(summarizeChanges(changes)),
+                { html: this.createDetailedEmailContent(changes, currentData), changes, applicationId }
             );
 
-            // Send error email
-            await this.sendEmail(
-                'PIO Checker - Error Occurred',
-                `<h2>PIO Checker - Error Report</h2>
-                 <p><strong>Account:</strong> ${this.accountId}</p>
-                 <p><strong>Time:</strong> ${new Date().toLocaleString()}</p>
-                 <p><strong>Error:</strong> ${errorMessage}</p>
-                 <p>The PIO checker encountered an error while trying to check your application status.</p>
-                 <p>Please check the application manually or review the system logs.</p>
-                 <p><em>This is an automated notification from PIO Checker.</em></p>`
-            );
+            return { applicationId, status: 'changed', changes };
+        } catch (error) {
+            const checkError = classifyError(error);
+            console.error(`${label} Error during check (${checkError.category}):`, checkError.message);
+            await this.notifyError(checkError, applicationId);
+
+            return { applicationId, status: 'error', changes: [], error: checkError.message, errorCategory: checkError.category };
         }
     }
+
+    private pause(error: CheckError): void {
+        try {
+            if (pauseAccount(this.login, { reason: error.message, category: error.category, since: new Date().toISOString() })) {
+                console.log(`[${this.accountId}] Scheduled checks paused until the account is resumed`);
+            }
+        } catch (pauseError) {
+            console.warn(`[${this.accountId}] Could not pause the account:`, pauseError instanceof Error ? pauseError.message : String(pauseError));
+        }
+    }
+
+    private async notifyError(error: CheckError, applicationId?: string): Promise<void> {
+        const texts = this.texts;
+        const category = texts.errorCategories[error.category];
+        const hint = texts.errorHints[error.category];
+        // Captures of this application, or all of them when the whole account failed
+        const captures = this.failureCaptures.filter(capture => !applicationId || capture.applicationId === applicationId);
+        const last = captures[captures.length - 1];
+        const attachments = last
+            ? [SCREENSHOT_FILE, PAGE_FILE, CONSOLE_FILE]
+                .filter(file => last.files.includes(file))
+                .map(file => ({ filename: `${last.name}-${file}`, path: path.join(last.dir, file) }))
+            : [];
+        await this.notify(
+            'error',
+            texts.errorTitles[error.category] || texts.errorTitle,
+            hint ? `${texts.errorText(error.message, category)} ${hint}` : texts.errorText(error.message, category),
+            {
+                html: `<h2>${texts.errorReportHeading}</h2>
+                 <p><strong>${texts.account}:</strong> ${this.accountId}</p>
+                 ${applicationId ? `<p><strong>${texts.applicationNumber}:</strong> ${applicationId}</p>` : ''}
+                 <p><strong>${texts.time}:</strong> ${new Date().toLocaleString()}</p>
+                 <p><strong>${texts.errorType}:</strong> ${category}</p>
+                 <p><strong>${texts.error}:</strong> ${escapeHtml(error.message)}</p>
+                 ${hint ? `<p><strong>${hint}</strong></p>` : ''}
+                 ${captures.length > 0 ? `<h3>${texts.failureArtifacts}</h3>
+                 <p>${texts.failureArtifactsNote}</p>
+                 <ul>${captures.map(capture => `<li>${escapeHtml(capture.name)}: ${escapeHtml(capture.url)}<br><code>${escapeHtml(capture.dir)}</code></li>`).join('')}</ul>` : ''}
+                 ${texts.errorReportBody.map(line => `<p>${line}</p>`).join('')}
+                 <p><em>${texts.errorFooter}</em></p>`,
+                errorCategory: error.category,
+                ...(attachments.length > 0 ? { attachments } : {}),
+                ...(applicationId !== undefined ? { applicationId } : {})
+            }
+        );
+    }
+
+    // The account is only in error when no application could be checked
+    private combineResults(results: ApplicationCheckResult[], listChanges: DataChange[] = [], untracked: string[] = []): CheckResult {
+        const failed = results.filter(result => result.status === 'error');
+        const statuses = results.map(result => result.status);
+
+        const combined: CheckResult = {
+            status: failed.length === results.length ? 'error'
+                : statuses.includes('changed') || listChanges.length > 0 ? 'changed'
+                : statuses.includes('first-run') ? 'first-run'
+                : 'unchanged',
+            changes: [...listChanges, ...results.flatMap(result => result.changes)],
+            applications: results
+        };
+        if (failed.length > 0) {
+            combined.error = failed.map(result => `${result.applicationId}: ${result.error}`).join('; ');
+            combined.errorCategory = failed[0]!.errorCategory || 'unknown';
+        }
+        if (untracked.length > 0) {
+            combined.untrackedApplications = untracked;
+        }
+        return combined;
+    }
 }
 
 class MultiAccountChecker {
     private accounts: AccountConfig[];
     private headless: boolean;
+    private options: Required<Omit<RunOptions, 'onProgress'>> & Pick<RunOptions, 'onProgress'>;
 
-    constructor(headless: boolean = true) {
+    constructor(headless: boolean = true, options: RunOptions = {}) {
         this.headless = headless;
+        const settings = loadSettings();
+        this.options = {
+            shareBrowser: options.shareBrowser ?? settings.shareBrowser === true,
+            concurrency: options.concurrency ?? settings.concurrency ?? 1,
+            accountTimeoutMs: options.accountTimeoutMs ?? (settings.accountTimeoutMinutes ?? 15) * 60000,
+            accountDelayMs: options.accountDelayMs ?? (settings.accountDelaySeconds ?? 3) * 1000,
+            dryRun: options.dryRun ?? false,
+            ...(options.onProgress ? { onProgress: options.onProgress } : {})
+        };
         this.accounts = this.loadAccountsConfig();
     }
 
@@ -582,58 +1342,202 @@ class MultiAccountChecker {
             throw new Error('accounts.json must contain an array of account configurations.');
         }
 
+        // A broken site profile should fail the whole run up front rather than every check of it
+        const settings = loadSettings();
+        accounts.forEach((acc, index) => {
+            const context = `accounts.json entry ${index + 1} (${acc.login})`;
+            if (acc.siteProfile !== undefined && typeof acc.siteProfile !== 'string') {
+                throw new Error(`${context}: siteProfile must be the name of a profile or a path to one`);
+            }
+            loadSiteProfile(acc.siteProfile || settings.siteProfile);
+            validateNoiseRules(acc.ignoreRules, context);
+            validateChannelConfigs(acc.notificationChannels, context);
+            validateNotificationPreferences(acc, context);
+            validateAccountSchedule(settings, acc, context);
+            resolveApplications(acc);
+        });
+
         // Inject headless setting into all accounts
-        return accounts.map(acc => ({
-            ...acc,
+        return this.mergeDuplicateLogins(accounts).map(acc => ({
+            ...resolveSecrets(acc, `accounts.json (${acc.login})`),
             headless: this.headless
         }));
     }
 
-    async runAll() {
-        console.log(`Starting checks for ${this.accounts.length} account(s)...`);
+    getAccountIds(): string[] {
+        return this.accounts.map(acc => acc.login);
+    }
 
-        const results: Array<{accountId: string, status: string, error?: string}> = [];
+    // Entries sharing a login are checked in one session; the first entry's other settings win
+    private mergeDuplicateLogins(accounts: AccountConfig[]): AccountConfig[] {
+        const merged = new Map<string, AccountConfig>();
 
-        for (const accountConfig of this.accounts) {
-            try {
-                console.log(`\n--- Checking account: ${accountConfig.login} ---`);
-                const checker = new PIOChecker(accountConfig);
-                await checker.run();
-                results.push({ accountId: accountConfig.login, status: 'success' });
-
-                // Add delay between accounts to avoid overwhelming the server
-                if (this.accounts.length > 1) {
-                    console.log('Waiting 3 seconds before next account...');
-                    await new Promise(resolve => setTimeout(resolve, 3000));
-                }
-            } catch (error) {
-                const errorMessage = error instanceof Error ? error.message : String(error);
-                console.error(`Failed to check account ${accountConfig.login}:`, error);
-                results.push({ accountId: accountConfig.login, status: 'error', error: errorMessage });
+        for (const acc of accounts) {
+            const existing = merged.get(acc.login);
+            if (!existing) {
+                merged.set(acc.login, acc);
+                continue;
             }
+
+            console.warn(`accounts.json: ${acc.login} is listed more than once, checking its applications in one session`);
+            const existingApplications = resolveApplications(existing);
+            const applications = resolveApplications(acc);
+            merged.set(acc.login, {
+                ...existing,
+                applications: existingApplications === 'all' || applications === 'all'
+                    ? 'all'
+                    : [...new Set([...existingApplications, ...applications])]
+            });
         }
 
+        return [...merged.values()];
+    }
+
+    // Every account, or only the given logins
+    async runAll(logins?: string[]) {
+        const accounts = logins ? this.accounts.filter(acc => logins.includes(acc.login)) : this.accounts;
+        const total = accounts.length;
+        const { concurrency, accountDelayMs } = this.options;
+        console.log(`Starting checks for ${total} account(s)${concurrency > 1 ? `, ${concurrency} at a time` : ''}...`);
+
+        const sharedBrowser = this.options.shareBrowser ? new SharedBrowser(this.headless) : null;
+        let completed = 0;
+        accounts.forEach(accountConfig => this.reportProgress({ accountId: accountConfig.login, state: 'queued', completed, total }));
+
+        // Accounts whose credentials were rejected wait until their password is updated or a single check succeeds
+        const results: AccountRunResult[] = [];
+        for (const accountConfig of accounts.filter(acc => acc.paused)) {
+            const result = this.pausedResult(accountConfig);
+            console.log(`Skipping paused account ${accountConfig.login} (since ${accountConfig.paused!.since})`);
+            results.push(result);
+            completed++;
+            this.reportProgress({ accountId: accountConfig.login, state: 'finished', completed, total, result });
+        }
+
+        try {
+            // Starts are spaced with jitter to avoid overwhelming the server
+            results.push(...await runPool(accounts.filter(acc => !acc.paused), async accountConfig => {
+                const result = await this.checkAccount(accountConfig, sharedBrowser, total, () => completed);
+                completed++;
+                this.reportProgress({ accountId: accountConfig.login, state: 'finished', completed, total, result });
+                return result;
+            }, { concurrency, spacingMs: accountDelayMs, jitterMs: accountDelayMs }));
+        } finally {
+            await sharedBrowser?.close();
+        }
+
+        // Back in accounts.json order
+        const order = accounts.map(acc => acc.login);
+        results.sort((a, b) => order.indexOf(a.accountId) - order.indexOf(b.accountId));
+
         console.log('\n--- Summary ---');
         results.forEach(result => {
-            const status = result.status === 'success' ? '✅' : '❌';
-            console.log(`${status} ${result.accountId}: ${result.status}`);
-            if (result.error) {
-                console.log(`   Error: ${result.error}`);
+            const status = result.status === 'success' ? '✅' : result.status === 'paused' ? '⏸' : '❌';
+            const duration = result.durationMs !== undefined ? ` (${formatDuration(result.durationMs)})` : '';
+            console.log(`${status} ${result.accountId}: ${result.checkStatus || result.status}${duration}`);
+            if (result.applications && result.applications.length > 1) {
+                result.applications.forEach(application => {
+                    console.log(`   ${application.applicationId}: ${application.status}${application.error ? ` (${application.error})` : ''}`);
+                });
+            } else if (result.error) {
+                console.log(`   Error (${result.errorCategory || 'unknown'}): ${result.error}`);
             }
         });
 
         return results;
     }
 
-    async runSingle(accountId: string) {
+    // One account of runAll: never throws, errors and timeouts become an error result with timing
+    private async checkAccount(
+        accountConfig: AccountConfig,
+        sharedBrowser: SharedBrowser | null,
+        total: number,
+        completed: () => number
+    ): Promise<AccountRunResult> {
+        const accountId = accountConfig.login;
+        const startedAt = new Date();
+        this.reportProgress({ accountId, state: 'running', completed: completed(), total });
+
+        let result: AccountRunResult;
+        try {
+            console.log(`\n--- Checking account: ${accountId} ---`);
+            const checker = new PIOChecker(accountConfig, sharedBrowser, { dryRun: this.options.dryRun });
+            const timeoutMs = this.options.accountTimeoutMs;
+            const message = `Check timed out after ${formatDuration(timeoutMs)}`;
+            result = this.toRunResult(accountId, await withTimeout(checker.run(), timeoutMs, message, () => {
+                console.error(`[${accountId}] ${message}, stopping it`);
+                void checker.abort(message);
+            }));
+        } catch (error) {
+            const checkError = classifyError(error);
+            console.error(`Failed to check account ${accountId}:`, error);
+            result = { accountId, status: 'error', error: checkError.message, errorCategory: checkError.category };
+        }
+
+        const finishedAt = new Date();
+        return {
+            ...result,
+            startedAt: startedAt.toISOString(),
+            finishedAt: finishedAt.toISOString(),
+            durationMs: finishedAt.getTime() - startedAt.getTime()
+        };
+    }
+
+    private pausedResult(accountConfig: AccountConfig): AccountRunResult {
+        const paused = accountConfig.paused!;
+        return {
+            accountId: accountConfig.login,
+            status: 'paused',
+            error: `Paused since ${paused.since}: ${paused.reason}`,
+            errorCategory: paused.category
+        };
+    }
+
+    private reportProgress(progress: AccountProgress): void {
+        try {
+            this.options.onProgress?.(progress);
+        } catch (error) {
+            console.warn('Progress listener failed:', error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    private toRunResult(accountId: string, result: CheckResult): AccountRunResult {
+        const runResult: AccountRunResult = {
+            accountId,
+            status: result.status === 'error' ? 'error' : 'success',
+            checkStatus: result.status,
+            changes: result.changes,
+            summary: summarizeChanges(result.changes)
+        };
+        if (result.error) {
+            runResult.error = result.error;
+        }
+        if (result.errorCategory) {
+            runResult.errorCategory = result.errorCategory;
+        }
+        if (result.applications) {
+            runResult.applications = result.applications;
+        }
+        if (result.untrackedApplications) {
+            runResult.untrackedApplications = result.untrackedApplications;
+        }
+        return runResult;
+    }
+
+    // A paused account is only checked with force, since its credentials were rejected; a successful check resumes it
+    async runSingle(accountId: string, options: { force?: boolean } = {}) {
         const accountConfig = this.accounts.find(acc => acc.login === accountId);
         if (!accountConfig) {
             throw new Error(`Account with login '${accountId}' not found`);
         }
+        if (accountConfig.paused && !options.force) {
+            console.log(`Skipping paused account ${accountId} (since ${accountConfig.paused.since}); resume it or check it with --force`);
+            return this.pausedResult(accountConfig);
+        }
 
-        console.log(`Checking single account: ${accountId}`);
-        const checker = new PIOChecker(accountConfig);
-        await checker.run();
+        console.log(`Checking single account: ${accountId}${accountConfig.paused ? ' (paused, checking anyway)' : ''}`);
+        const checker = new PIOChecker(accountConfig, null, { dryRun: this.options.dryRun });
+        return this.toRunResult(accountId, await checker.run());
     }
 }
 
@@ -645,7 +1549,7 @@ if (require.main === module) {
     const accountId = process.argv[2];
 
     if (accountId) {
-        multiChecker.runSingle(accountId).catch(console.error);
+        multiChecker.runSingle(accountId, { force: process.argv.includes('--force') }).catch(console.error);
     } else {
         multiChecker.runAll().catch(console.error);
     }
@@ -0,0 +1,65 @@
+// Runs tasks with at most `concurrency` in flight, spacing out their starts
+export interface PoolOptions {
+    concurrency: number;
+    // Minimum time between two task starts; a random extra of up to `jitterMs` is added each time
+    spacingMs?: number;
+    jitterMs?: number;
+    random?: () => number;
+    sleep?: (ms: number) => Promise<void>;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Results keep the order of `items`; a rejected task rejects the pool, so workers should catch their own errors
+export async function runPool<T, R>(items: T[], worker: (item: T, index: number) => Promise<R>, options: PoolOptions): Promise<R[]> {
+    const concurrency = Math.max(1, Math.floor(options.concurrency) || 1);
+    const sleep = options.sleep || defaultSleep;
+    const random = options.random || Math.random;
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    // Start times are handed out in order so parallel lanes never start two tasks at once
+    let nextStart = 0;
+
+    const lane = async (): Promise<void> => {
+        while (next < items.length) {
+            const index = next++;
+            const now = Date.now();
+            const startAt = Math.max(now, nextStart);
+            nextStart = startAt + (options.spacingMs || 0) + random() * (options.jitterMs || 0);
+            if (startAt > now) {
+                await sleep(startAt - now);
+            }
+            results[index] = await worker(items[index]!, index);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, lane));
+    return results;
+}
+
+// Rejects with `message` after `ms`; `onTimeout` lets the caller stop the work that is still running
+export async function withTimeout<R>(task: Promise<R>, ms: number, message: string, onTimeout?: () => void): Promise<R> {
+    if (!(ms > 0)) {
+        return task;
+    }
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            onTimeout?.();
+            reject(new Error(message));
+        }, ms);
+    });
+    try {
+        return await Promise.race([task, timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+// 850ms, 42s, 15 min
+export function formatDuration(ms: number): string {
+    if (ms < 1000) {
+        return `${Math.round(ms)}ms`;
+    }
+    return ms < 60000 ? `${Math.round(ms / 1000)}s` : `${Math.round(ms / 60000)} min`;
+}
@@ -0,0 +1,192 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AccountConfig, ExtractionRules, NoiseRules, RetentionPolicy, ScrapedData } from './types';
+import { diffSnapshots } from './diff';
+import { applyNoiseRules, mergeNoiseRules } from './noise-filter';
+import { compareSnapshotFiles, isSnapshotFile } from './history';
+import { loadSettings } from './settings';
+import { loadSiteProfile } from './site-profile';
+import { appendJsonLines, fileTimestamp, readJsonLines, RetentionOptions } from './storage/store';
+import { openHistoryStore } from './storage';
+
+// "Checked, unchanged" records of checks that did not get their own snapshot file, one JSON object per line
+export const CHECK_LOG = 'checks.jsonl';
+
+// Used by the compaction command when settings.json has no retention policy
+export const DEFAULT_RETENTION: RetentionPolicy = {
+    keepUnchanged: 10,
+    keepDailyDays: 30
+};
+
+export interface CheckRecord {
+    timestamp: string;
+    hash: string;
+    // Snapshot file holding the same content
+    snapshot: string;
+    // Set when the record replaces a snapshot file removed by compaction
+    compacted?: string;
+}
+
+export interface CompactionResult {
+    application: string;
+    kept: string[];
+    removed: string[];
+}
+
+// Everything the page showed; the check time is left out so two checks of an unchanged page hash the same
+export function snapshotHash(data: ScrapedData): string {
+    const content = JSON.stringify([data.url, data.elementText, data.mainText, data.fields]);
+    return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+export function validateRetention(retention: unknown, context: string): void {
+    if (retention === undefined) {
+        return;
+    }
+    if (typeof retention !== 'object' || retention === null || Array.isArray(retention)) {
+        throw new Error(`${context}: retention must be an object`);
+    }
+    for (const [key, value] of Object.entries(retention)) {
+        if (!(key in DEFAULT_RETENTION)) {
+            throw new Error(`${context}: unknown retention setting ${key}; expected ${Object.keys(DEFAULT_RETENTION).join(', ')}`);
+        }
+        if (!Number.isInteger(value) || (value as number) < 0) {
+            throw new Error(`${context}: retention.${key} must be a whole number of 0 or more`);
+        }
+    }
+}
+
+export function recordCheck(applicationDir: string, record: CheckRecord): void {
+    appendJsonLines(path.join(applicationDir, CHECK_LOG), [record]);
+}
+
+export function readCheckLog(applicationDir: string): CheckRecord[] {
+    return readJsonLines<CheckRecord>(path.join(applicationDir, CHECK_LOG));
+}
+
+// Local day of a snapshot file name, szczegoly-wniosku_2024-03-20T10-00-00.json → 2024-03-20
+function fileDay(file: string): string {
+    return file.slice('szczegoly-wniosku_'.length, 'szczegoly-wniosku_'.length + 10);
+}
+
+// Which snapshots of one application (oldest first) the policy keeps. Change points (the first snapshot and every one that
+// differs from the one before once ignore rules are applied) and the latest snapshot are always kept; of the
+// unchanged ones the newest `keepUnchanged` and the newest of each day of the last `keepDailyDays` days stay
+export function planRetention(
+    snapshots: Array<{ file: string; changed: boolean }>,
+    policy: RetentionPolicy,
+    now: Date = new Date()
+): { keep: string[]; remove: string[] } {
+    const keep = new Set<string>(snapshots.filter(snapshot => snapshot.changed).map(snapshot => snapshot.file));
+    if (snapshots.length > 0) {
+        keep.add(snapshots[snapshots.length - 1]!.file);
+    }
+
+    const unchanged = snapshots.filter(snapshot => !snapshot.changed).map(snapshot => snapshot.file);
+    if (policy.keepUnchanged > 0) {
+        unchanged.slice(-policy.keepUnchanged).forEach(file => keep.add(file));
+    }
+
+    if (policy.keepDailyDays > 0) {
+        const since = new Date(now.getFullYear(), now.getMonth(), now.getDate() - policy.keepDailyDays + 1);
+        const sinceDay = fileTimestamp(since).slice(0, 10);
+        const newestOfDay = new Map<string, string>();
+        snapshots.forEach(snapshot => {
+            if (fileDay(snapshot.file) >= sinceDay) {
+                newestOfDay.set(fileDay(snapshot.file), snapshot.file);
+            }
+        });
+        newestOfDay.forEach(file => keep.add(file));
+    }
+
+    return {
+        keep: snapshots.map(snapshot => snapshot.file).filter(file => keep.has(file)),
+        remove: snapshots.map(snapshot => snapshot.file).filter(file => !keep.has(file))
+    };
+}
+
+// Flags the first snapshot and every one that differs from the one before once ignore rules are applied
+export function markChangePoints<T extends { data: ScrapedData }>(
+    snapshots: T[],
+    rules: NoiseRules = {},
+    extraction?: ExtractionRules
+): Array<T & { changed: boolean }> {
+    let previous: ScrapedData | null = null;
+    return snapshots.map(snapshot => {
+        const changed = previous === null || diffSnapshots(
+            applyNoiseRules(previous, rules, extraction),
+            applyNoiseRules(snapshot.data, rules, extraction)
+        ).length > 0;
+        previous = snapshot.data;
+        return { ...snapshot, changed };
+    });
+}
+
+// Applies the policy to data/<login>/<application>/; removed snapshots leave a record in checks.jsonl that points at
+// the kept snapshot they are equivalent to
+export function compactApplication(applicationDir: string, policy: RetentionPolicy, options: RetentionOptions = {}): CompactionResult {
+    const application = path.basename(applicationDir);
+    const files = fs.existsSync(applicationDir) ? fs.readdirSync(applicationDir).filter(isSnapshotFile).sort(compareSnapshotFiles) : [];
+
+    // Unreadable files are left alone and never count as duplicates
+    const snapshots = markChangePoints(files.flatMap(file => {
+        try {
+            return [{ file, data: JSON.parse(fs.readFileSync(path.join(applicationDir, file), 'utf8')) as ScrapedData }];
+        } catch {
+            return [];
+        }
+    }), options.rules, options.extraction);
+
+    const { keep, remove } = planRetention(snapshots, policy, options.now);
+    if (!options.dryRun) {
+        const kept = new Set(keep);
+        let lastKept = '';
+        for (const snapshot of snapshots) {
+            if (kept.has(snapshot.file)) {
+                lastKept = snapshot.file;
+                continue;
+            }
+            recordCheck(applicationDir, {
+                timestamp: snapshot.data.timestamp,
+                hash: snapshotHash(snapshot.data),
+                snapshot: lastKept,
+                compacted: snapshot.file
+            });
+            fs.rmSync(path.join(applicationDir, snapshot.file));
+        }
+    }
+    return { application, kept: keep, removed: remove };
+}
+
+// npm run compact -- [login ...] [--dry-run]
+if (require.main === module) {
+    const args = process.argv.slice(2);
+    const dryRun = args.includes('--dry-run');
+    const settings = loadSettings();
+    validateRetention(settings.retention, 'settings.json');
+    const policy = { ...DEFAULT_RETENTION, ...settings.retention };
+
+    const accountsFile = path.join(process.cwd(), 'accounts.json');
+    const accounts: AccountConfig[] = fs.existsSync(accountsFile) ? JSON.parse(fs.readFileSync(accountsFile, 'utf8')) : [];
+    const store = openHistoryStore(settings.storage);
+    const logins = args.filter(arg => !arg.startsWith('--'));
+    const targets = logins.length > 0 ? logins : store.listAccounts().map(account => account.login);
+
+    console.log(`${dryRun ? 'Dry run: ' : ''}keeping change points, the last ${policy.keepUnchanged} unchanged snapshot(s) ` +
+        `and one per day for ${policy.keepDailyDays} day(s)`);
+    let removed = 0;
+    for (const login of targets) {
+        const account = accounts.find(acc => acc.login === login);
+        const rules = mergeNoiseRules(settings.ignoreRules, account?.ignoreRules);
+        // The same extraction rules as the checks, so both pick the same change points
+        const extraction = loadSiteProfile(account?.siteProfile || settings.siteProfile).extraction;
+        for (const application of store.listApplications(login)) {
+            const result = store.applyRetention(login, application, policy, { rules, extraction, dryRun });
+            console.log(`${login}/${application}: ${result.kept.length} kept, ${result.removed.length} ${dryRun ? 'to remove' : 'removed'}`);
+            removed += result.removed.length;
+        }
+    }
+    store.close();
+    console.log(`${removed} snapshot(s) ${dryRun ? 'would be' : 'were'} replaced by check records`);
+}
@@ -0,0 +1,64 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AccountRunResult } from './types';
+
+// When an account was checked, when it is due next and when a check last found a change
+export interface AccountScheduleState {
+    lastCheck?: string;
+    nextCheck?: string | null; // null when nothing is scheduled for the account
+    lastChange?: string;
+    trackedSince?: string; // first recorded check; counts as the last change until there is one
+}
+
+export type ScheduleState = Record<string, AccountScheduleState>;
+
+// Kept next to the account folders in data/; replaces lastCheck in settings.json
+export function getScheduleStatePath(): string {
+    return path.join(process.cwd(), 'data', 'schedule.json');
+}
+
+export function loadScheduleState(): ScheduleState {
+    try {
+        const state = JSON.parse(fs.readFileSync(getScheduleStatePath(), 'utf8'));
+        return state && typeof state === 'object' && !Array.isArray(state) ? state : {};
+    } catch {
+        return {};
+    }
+}
+
+function saveScheduleState(state: ScheduleState): void {
+    fs.mkdirSync(path.dirname(getScheduleStatePath()), { recursive: true });
+    fs.writeFileSync(getScheduleStatePath(), JSON.stringify(state, null, 2));
+}
+
+// Records the checks of a run; results without a start time count as started at `at`. Paused accounts were not checked
+export function recordChecks(results: AccountRunResult[], at: Date = new Date()): void {
+    const state = loadScheduleState();
+    for (const result of results) {
+        if (result.status === 'paused') {
+            continue;
+        }
+        const checkedAt = result.startedAt || at.toISOString();
+        const entry = state[result.accountId] ?? {};
+        entry.lastCheck = checkedAt;
+        entry.trackedSince ??= checkedAt;
+        if (result.checkStatus === 'changed') {
+            entry.lastChange = checkedAt;
+        }
+        state[result.accountId] = entry;
+    }
+    saveScheduleState(state);
+}
+
+// Next scheduled check of each login, as the scheduler armed it
+export function recordNextChecks(nextChecks: Record<string, string | null>): void {
+    const state = loadScheduleState();
+    const changed = Object.entries(nextChecks).filter(([login, nextCheck]) => state[login]?.nextCheck !== nextCheck);
+    if (changed.length === 0) {
+        return;
+    }
+    changed.forEach(([login, nextCheck]) => {
+        state[login] = { ...state[login], nextCheck };
+    });
+    saveScheduleState(state);
+}
@@ -0,0 +1,566 @@
+import { AdaptiveSchedule, QuietHours, Settings } from './settings';
+import { AccountConfig } from './types';
+import { loadAccounts } from './accounts';
+import { loadScheduleState, recordNextChecks, ScheduleState } from './schedule-state';
+import { writeLog } from './logger';
+import { nextCronTime, parseCron } from './cron';
+
+// One rule of the schedule: a cron expression, or a fixed interval for the ones a clock cannot express
+export interface ScheduleEntry {
+    label: string; // e.g. "every 30 minutes" or "saturday at 16:52"
+    expression: string | null; // minute hour day-of-month month day-of-week, local time
+    intervalMinutes: number | null; // counted from the last check
+}
+
+export interface ScheduledRun {
+    label: string;
+    at: string;
+    accounts?: string[]; // every account when left out
+}
+
+// Accounts sharing one schedule; null accounts stands for everything in accounts.json
+interface SchedulePlan {
+    accounts: string[] | null;
+    own: boolean; // the account's own or adaptive schedule rather than the settings.json one
+    entries: ScheduleEntry[];
+    quietHours: QuietHours | undefined;
+    adaptive: Required<AdaptiveSchedule> | null;
+    anchor: Date; // fixed intervals count from here
+    lastCheck: Date | null;
+    lastChange: Date | null;
+}
+
+interface DueRun {
+    plan: SchedulePlan;
+    entry: ScheduleEntry;
+    at: Date;
+}
+
+const DAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const INTERVAL_UNITS = { minutes: 1, hours: 60, days: 24 * 60 };
+const SCHEDULE_TYPES = ['interval', 'days', 'cron'];
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const ADAPTIVE_DEFAULTS: Required<AdaptiveSchedule> = {
+    enabled: false,
+    minIntervalMinutes: 60,
+    boostHours: 48,
+    backoffDays: 14,
+    maxIntervalMinutes: 24 * 60
+};
+// Longest delay setTimeout accepts; longer waits are re-armed
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+function parseTime(time: string): [number, number] {
+    const match = time.match(TIME_PATTERN);
+    if (!match) {
+        throw new Error(`"${time}" is not a HH:MM time`);
+    }
+    return [Number(match[1]), Number(match[2])];
+}
+
+export function validateSchedule(settings: Settings, context: string): void {
+    const { scheduleType, scheduleInterval, scheduleIntervalUnit, scheduleDays, scheduleCron, quietHours } = settings;
+    if (scheduleType !== undefined && !SCHEDULE_TYPES.includes(scheduleType)) {
+        throw new Error(`${context}: scheduleType must be one of: ${SCHEDULE_TYPES.join(', ')}`);
+    }
+    if (scheduleIntervalUnit !== undefined && !(scheduleIntervalUnit in INTERVAL_UNITS)) {
+        throw new Error(`${context}: scheduleIntervalUnit must be one of: ${Object.keys(INTERVAL_UNITS).join(', ')}`);
+    }
+    if (scheduleType === 'interval' && (!Number.isInteger(scheduleInterval) || scheduleInterval < 1)) {
+        throw new Error(`${context}: scheduleInterval must be a whole number of ${scheduleIntervalUnit || 'minutes'}`);
+    }
+    Object.entries(scheduleDays || {}).forEach(([day, schedule]) => {
+        if (!DAYS.includes(day)) {
+            throw new Error(`${context}: scheduleDays.${day} is not a day of the week`);
+        }
+        try {
+            [schedule.time, ...(schedule.times || [])].forEach(parseTime);
+        } catch (error) {
+            throw new Error(`${context}: scheduleDays.${day}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+    if (scheduleCron !== undefined && (!Array.isArray(scheduleCron) || scheduleCron.some(expression => typeof expression !== 'string'))) {
+        throw new Error(`${context}: scheduleCron must be a list of cron expressions`);
+    }
+    try {
+        (scheduleCron || []).forEach(parseCron);
+    } catch (error) {
+        throw new Error(`${context}: scheduleCron: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (quietHours !== undefined) {
+        try {
+            parseTime(quietHours.start);
+            parseTime(quietHours.end);
+        } catch (error) {
+            throw new Error(`${context}: quietHours: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    validateAdaptiveSchedule(settings.adaptiveSchedule, context);
+}
+
+function validateAdaptiveSchedule(adaptive: AdaptiveSchedule | undefined, context: string): void {
+    if (adaptive === undefined) {
+        return;
+    }
+    if (typeof adaptive !== 'object' || adaptive === null || typeof adaptive.enabled !== 'boolean') {
+        throw new Error(`${context}: adaptiveSchedule needs enabled: true or false`);
+    }
+    (['minIntervalMinutes', 'boostHours', 'backoffDays', 'maxIntervalMinutes'] as const).forEach(key => {
+        const value = adaptive[key];
+        if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+            throw new Error(`${context}: adaptiveSchedule.${key} must be a positive whole number`);
+        }
+    });
+    const { minIntervalMinutes, maxIntervalMinutes } = { ...ADAPTIVE_DEFAULTS, ...adaptive };
+    if (minIntervalMinutes > maxIntervalMinutes) {
+        throw new Error(`${context}: adaptiveSchedule.minIntervalMinutes must not exceed maxIntervalMinutes`);
+    }
+}
+
+// The settings.json schedule with the account's own schedule fields in place of the global ones
+export function accountScheduleSettings(settings: Settings, account: AccountConfig): Settings {
+    return { ...settings, ...account.schedule };
+}
+
+export function validateAccountSchedule(settings: Settings, account: AccountConfig, context: string): void {
+    if (account.schedule === undefined) {
+        return;
+    }
+    if (typeof account.schedule !== 'object' || account.schedule === null || Array.isArray(account.schedule)) {
+        throw new Error(`${context}: schedule must be an object of schedule settings`);
+    }
+    validateSchedule(accountScheduleSettings(settings, account), `${context}: schedule`);
+}
+
+// accounts.json for the scheduler; without it every account follows settings.json
+export function loadScheduledAccounts(): AccountConfig[] | undefined {
+    try {
+        return loadAccounts();
+    } catch {
+        return undefined;
+    }
+}
+
+// The configured schedule; empty when nothing should run
+export function buildSchedule(settings: Settings): ScheduleEntry[] {
+    if (!settings.scheduleEnabled) {
+        return [];
+    }
+
+    if (settings.scheduleType === 'interval') {
+        const interval = settings.scheduleInterval;
+        const unit = settings.scheduleIntervalUnit || 'minutes';
+        if (!(interval > 0)) {
+            return [];
+        }
+        const label = `every ${interval} ${interval === 1 ? unit.slice(0, -1) : unit}`;
+        // Intervals dividing the hour or the day stay on the clock (:00, :15, …); others count from the last check
+        if (unit === 'minutes' && 60 % interval === 0) {
+            return [{ label, expression: `*/${interval} * * * *`, intervalMinutes: null }];
+        }
+        if (unit === 'hours' && 24 % interval === 0) {
+            return [{ label, expression: `0 */${interval} * * *`, intervalMinutes: null }];
+        }
+        return [{ label, expression: null, intervalMinutes: interval * INTERVAL_UNITS[unit] }];
+    }
+
+    if (settings.scheduleType === 'cron') {
+        return (settings.scheduleCron || []).map(expression => ({ label: `cron "${expression}"`, expression, intervalMinutes: null }));
+    }
+
+    if (settings.scheduleType === 'days' && settings.scheduleDays) {
+        const entries: ScheduleEntry[] = [];
+
+        DAYS.forEach((day, dayOfWeek) => {
+            const dayConfig = settings.scheduleDays![day];
+            if (!dayConfig || !dayConfig.enabled) {
+                return;
+            }
+
+            for (const time of new Set([dayConfig.time, ...(dayConfig.times || [])])) {
+                const [hours, minutes] = parseTime(time);
+                // Cron format: minute hour * * day-of-week
+                entries.push({ label: `${day} at ${time}`, expression: `${minutes} ${hours} * * ${dayOfWeek}`, intervalMinutes: null });
+            }
+        });
+
+        return entries;
+    }
+
+    return [];
+}
+
+// Whether a time falls between quietHours.start and .end; the window may span midnight
+export function isQuietTime(date: Date, quietHours: QuietHours | undefined): boolean {
+    if (!quietHours) {
+        return false;
+    }
+    const [startHours, startMinutes] = parseTime(quietHours.start);
+    const [endHours, endMinutes] = parseTime(quietHours.end);
+    const start = startHours * 60 + startMinutes;
+    const end = endHours * 60 + endMinutes;
+    const minutes = date.getHours() * 60 + date.getMinutes();
+    return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+// Next time the entry is due after `after`; fixed intervals step from `anchor`
+export function nextRun(entry: ScheduleEntry, after: Date, anchor: Date): Date | null {
+    if (entry.expression !== null) {
+        return nextCronTime(parseCron(entry.expression), after);
+    }
+    const intervalMs = entry.intervalMinutes! * 60000;
+    const steps = Math.max(0, Math.floor((after.getTime() - anchor.getTime()) / intervalMs) + 1);
+    return new Date(anchor.getTime() + steps * intervalMs);
+}
+
+function parseDate(value: string | null | undefined): Date | null {
+    const date = value ? new Date(value) : null;
+    return date && !isNaN(date.getTime()) ? date : null;
+}
+
+function latest(dates: (Date | null)[]): Date | null {
+    return dates.reduce<Date | null>((result, date) => date && (!result || date > result) ? date : result, null);
+}
+
+function createPlan(accounts: string[] | null, own: boolean, settings: Settings, state: ScheduleState, now: Date): SchedulePlan {
+    const states = (accounts || []).map(login => state[login]);
+    // Accounts without a recorded check continue from the single lastCheck older versions kept
+    const lastCheck = latest(states.map(entry => parseDate(entry?.lastCheck))) ?? parseDate(settings.lastCheck);
+    const adaptive = settings.scheduleEnabled && settings.adaptiveSchedule?.enabled ? { ...ADAPTIVE_DEFAULTS, ...settings.adaptiveSchedule } : null;
+    return {
+        accounts,
+        own,
+        entries: buildSchedule(settings),
+        quietHours: settings.quietHours,
+        adaptive,
+        anchor: lastCheck && lastCheck <= now ? lastCheck : now,
+        lastCheck,
+        lastChange: latest(states.map(entry => parseDate(entry?.lastChange ?? entry?.trackedSince)))
+    };
+}
+
+// One plan for the accounts following settings.json, one for each account with its own or an adaptive schedule.
+// Accounts whose schedule is invalid are left out with an error in the log
+function buildPlans(settings: Settings, accounts: AccountConfig[] | undefined, state: ScheduleState, now: Date, log: boolean = false): SchedulePlan[] {
+    if (!accounts) {
+        return [createPlan(null, false, settings, state, now)].filter(plan => plan.entries.length > 0);
+    }
+
+    const shared: string[] = [];
+    const own: SchedulePlan[] = [];
+    const seen = new Set<string>();
+    accounts.forEach((account, index) => {
+        // Entries repeating a login are checked in one session; the first one's settings win
+        if (seen.has(account.login)) {
+            return;
+        }
+        seen.add(account.login);
+        if (account.schedule === undefined && !settings.adaptiveSchedule?.enabled) {
+            shared.push(account.login);
+            return;
+        }
+        try {
+            validateAccountSchedule(settings, account, `accounts.json entry ${index + 1} (${account.login})`);
+            own.push(createPlan([account.login], true, accountScheduleSettings(settings, account), state, now));
+        } catch (error) {
+            if (log) {
+                writeLog(`No scheduled checks for ${account.login}: ${error instanceof Error ? error.message : String(error)}`, 'ERROR');
+            }
+        }
+    });
+
+    const plans = shared.length > 0 ? [createPlan(shared, false, settings, state, now), ...own] : own;
+    return plans.filter(plan => plan.entries.length > 0);
+}
+
+function nextDue(entries: ScheduleEntry[], after: Date, anchor: Date): { entry: ScheduleEntry; at: Date } | null {
+    let next: { entry: ScheduleEntry; at: Date } | null = null;
+    for (const entry of entries) {
+        const at = nextRun(entry, after, anchor);
+        if (at && (!next || at < next.at)) {
+            next = { entry, at };
+        }
+    }
+    return next;
+}
+
+// Next run of a plan; an adaptive plan checks every minIntervalMinutes for boostHours after a change and at most
+// every maxIntervalMinutes once nothing has changed for backoffDays
+function planNext(plan: SchedulePlan, after: Date, lastCheck: Date | null): { entry: ScheduleEntry; at: Date } | null {
+    const next = nextDue(plan.entries, after, plan.anchor);
+    if (!plan.adaptive || !lastCheck || !plan.lastChange) {
+        return next;
+    }
+    const { minIntervalMinutes, boostHours, backoffDays, maxIntervalMinutes } = plan.adaptive;
+    const sinceChange = after.getTime() - plan.lastChange.getTime();
+
+    if (sinceChange < boostHours * HOUR_MS) {
+        const boost: ScheduleEntry = { label: `every ${minIntervalMinutes} minutes after a change`, expression: null, intervalMinutes: minIntervalMinutes };
+        const at = nextRun(boost, after, lastCheck)!;
+        if (at.getTime() - plan.lastChange.getTime() <= boostHours * HOUR_MS && (!next || at < next.at)) {
+            return { entry: boost, at };
+        }
+        return next;
+    }
+
+    if (sinceChange >= backoffDays * DAY_MS) {
+        // The first regular run once maxIntervalMinutes have passed since the last check
+        const earliest = new Date(Math.max(after.getTime(), lastCheck.getTime() + maxIntervalMinutes * 60000 - 1));
+        const backedOff = nextDue(plan.entries, earliest, plan.anchor);
+        return backedOff && { entry: { ...backedOff.entry, label: `${backedOff.entry.label}, backed off to ${maxIntervalMinutes} minutes` }, at: backedOff.at };
+    }
+    return next;
+}
+
+// The plans due first after `after`, all at the same time
+function dueRuns(plans: SchedulePlan[], after: Date, lastChecks: (Date | null)[]): DueRun[] {
+    let due: DueRun[] = [];
+    plans.forEach((plan, index) => {
+        const next = planNext(plan, after, lastChecks[index] ?? null);
+        if (!next || (due[0] && next.at > due[0].at)) {
+            return;
+        }
+        if (due[0] && next.at < due[0].at) {
+            due = [];
+        }
+        due.push({ plan, ...next });
+    });
+    return due;
+}
+
+function runAccounts(runs: { plan: SchedulePlan }[]): string[] | null {
+    if (runs.some(run => run.plan.accounts === null)) {
+        return null;
+    }
+    return [...new Set(runs.flatMap(run => run.plan.accounts!))];
+}
+
+function collectRuns(plans: SchedulePlan[], from: Date, count: number): ScheduledRun[] {
+    const runs: ScheduledRun[] = [];
+    // Adaptive plans step from their previous run
+    const lastChecks = plans.map(plan => plan.lastCheck);
+    let after = from;
+    // Bounded in case quiet hours cover every run
+    for (let skipped = 0; runs.length < count && skipped < 1000;) {
+        const due = dueRuns(plans, after, lastChecks);
+        if (due.length === 0) {
+            break;
+        }
+        const at = due[0]!.at;
+        const running = due.filter(run => !isQuietTime(at, run.plan.quietHours));
+        if (running.length === 0) {
+            skipped++;
+        } else {
+            const accounts = runAccounts(running);
+            runs.push({ label: running[0]!.entry.label, at: at.toISOString(), ...(accounts ? { accounts } : {}) });
+            running.forEach(run => {
+                lastChecks[plans.indexOf(run.plan)] = at;
+            });
+        }
+        after = at;
+    }
+    return runs;
+}
+
+// The next checks of a schedule, for previewing settings before they are saved
+export function upcomingRuns(settings: Settings, from: Date = new Date(), count: number = 5, accounts?: AccountConfig[]): ScheduledRun[] {
+    validateSchedule(settings, 'Schedule');
+    return collectRuns(buildPlans(settings, accounts, loadScheduleState(), from), from, count);
+}
+
+function describeAdaptive(adaptive: Required<AdaptiveSchedule>): string {
+    return `every ${adaptive.minIntervalMinutes} minutes for ${adaptive.boostHours} hours after a change, ` +
+        `at most every ${adaptive.maxIntervalMinutes} minutes after ${adaptive.backoffDays} days without one`;
+}
+
+// Runs the schedule from settings.json and accounts.json with one timer for the earliest due run; start() replaces
+// the previous schedule entirely
+export class Scheduler {
+    private settings: Settings | null = null;
+    private accounts: AccountConfig[] | undefined;
+    private plans: SchedulePlan[] = [];
+    // Runs started since start(), ahead of data/schedule.json which is written once the check has finished
+    private readonly fired = new Map<string, Date>();
+    private timer: NodeJS.Timeout | null = null;
+    private readonly onDue: (entry: ScheduleEntry, accounts: string[] | null) => void;
+
+    // `accounts` is null when every account is due
+    constructor(onDue: (entry: ScheduleEntry, accounts: string[] | null) => void) {
+        this.onDue = onDue;
+    }
+
+    get active(): boolean {
+        return this.plans.length > 0;
+    }
+
+    // Without `accounts` every check covers all of accounts.json on the settings.json schedule
+    start(settings: Settings, accounts?: AccountConfig[]): ScheduleEntry[] {
+        this.stop();
+        this.fired.clear();
+
+        if (!settings.scheduleEnabled && !accounts?.some(account => account.schedule?.scheduleEnabled)) {
+            writeLog('Scheduler disabled');
+            return [];
+        }
+
+        try {
+            validateSchedule(settings, 'settings.json');
+        } catch (error) {
+            writeLog(`Scheduler not started: ${error instanceof Error ? error.message : String(error)}`, 'ERROR');
+            return [];
+        }
+        const plans = buildPlans(settings, accounts, loadScheduleState(), new Date(), true);
+        if (plans.length === 0) {
+            writeLog(settings.scheduleType === 'days' ? 'No days enabled for scheduling' : 'Nothing to schedule', 'WARN');
+            return [];
+        }
+
+        this.settings = settings;
+        this.accounts = accounts;
+        this.plans = plans;
+        const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+        plans.forEach(plan => {
+            const own = plan.own ? ` of ${plan.accounts!.join(', ')}` : '';
+            plan.entries.forEach(entry => {
+                writeLog(`✓ Scheduled check${own} for ${entry.label} (${entry.expression !== null ? `expression="${entry.expression}", ` : ''}timezone: ${timezone})`);
+            });
+            if (plan.quietHours) {
+                writeLog(`Quiet hours${own}: no scheduled checks from ${plan.quietHours.start} to ${plan.quietHours.end}`);
+            }
+            if (plan.adaptive) {
+                writeLog(`Adaptive schedule${own}: ${describeAdaptive(plan.adaptive)}`);
+            }
+        });
+        const [next] = this.nextRuns(1);
+        writeLog(next ? `Next scheduled check: ${new Date(next.at).toLocaleString()} (${next.label})` : 'No scheduled check falls outside quiet hours', next ? 'INFO' : 'WARN');
+
+        this.arm();
+        return plans.flatMap(plan => plan.entries);
+    }
+
+    // Re-reads data/schedule.json, e.g. after a check found a change that an adaptive schedule follows up on
+    refresh(): void {
+        if (!this.active || !this.settings) {
+            return;
+        }
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        this.plans = buildPlans(this.settings, this.accounts, loadScheduleState(), new Date());
+        this.arm();
+    }
+
+    // Starts one check for the accounts whose scheduled run was missed while the app was not running or the computer
+    // slept; returns the first missed run of each schedule, empty when nothing was missed
+    catchUp(reason: string): ScheduledRun[] {
+        const now = new Date();
+        const missed: { plan: SchedulePlan; run: ScheduledRun }[] = [];
+        this.current().forEach(plan => {
+            // Plans never checked have nothing to catch up on
+            const [run] = plan.lastCheck ? collectRuns([plan], plan.lastCheck, 1) : [];
+            if (!run || new Date(run.at) > now) {
+                return;
+            }
+            if (isQuietTime(now, plan.quietHours)) {
+                writeLog(`Not catching up on the check missed at ${new Date(run.at).toLocaleString()} (${run.label}): quiet hours`);
+                return;
+            }
+            missed.push({ plan, run });
+        });
+        if (missed.length === 0) {
+            return [];
+        }
+
+        const accounts = runAccounts(missed);
+        missed.forEach(({ plan }) => this.fired.set(planKey(plan), now));
+        writeLog(`Catching up on missed scheduled checks (${reason}): ` +
+            `${missed.map(({ run }) => `${run.label} at ${new Date(run.at).toLocaleString()}`).join(', ')}${accounts ? ` for ${accounts.join(', ')}` : ''}`, 'WARN');
+        this.onDue({ label: `catch-up for ${missed[0]!.run.label}`, expression: null, intervalMinutes: null }, accounts);
+
+        // The next regular run counts from the catch-up
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        this.arm();
+        return missed.map(({ run }) => run);
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        this.plans = [];
+    }
+
+    nextRuns(count: number = 5, from: Date = new Date()): ScheduledRun[] {
+        return collectRuns(this.current(), from, count);
+    }
+
+    // The plans with the runs started since the last refresh counted as checks
+    private current(): SchedulePlan[] {
+        return this.plans.map(plan => ({ ...plan, lastCheck: latest([plan.lastCheck, this.fired.get(planKey(plan)) ?? null]) }));
+    }
+
+    private arm(): void {
+        const plans = this.current();
+        const due = dueRuns(plans, new Date(), plans.map(plan => plan.lastCheck));
+        this.recordNextChecks();
+        if (due.length === 0) {
+            return;
+        }
+        const at = due[0]!.at;
+        // The timer may fire late (sleep) or early (longer than setTimeout allows); only a due run starts
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            if (Date.now() >= at.getTime()) {
+                this.fire(due, at);
+            }
+            if (this.active) {
+                this.arm();
+            }
+        }, Math.min(Math.max(0, at.getTime() - Date.now()), MAX_TIMER_MS));
+    }
+
+    private fire(due: DueRun[], at: Date): void {
+        const running = due.filter(run => {
+            if (isQuietTime(at, run.plan.quietHours)) {
+                writeLog(`Skipping scheduled check for ${run.entry.label}${run.plan.accounts ? ` (${run.plan.accounts.join(', ')})` : ''}: quiet hours`);
+                return false;
+            }
+            return true;
+        });
+        if (running.length === 0) {
+            return;
+        }
+        const startedAt = new Date();
+        running.forEach(run => this.fired.set(planKey(run.plan), startedAt));
+        const accounts = runAccounts(running);
+        const entry = running[0]!.entry;
+        writeLog(`Running scheduled check for ${entry.label}${accounts ? ` (${accounts.join(', ')})` : ''} ` +
+            `(system time: ${new Date().toLocaleString()}, UTC: ${new Date().toISOString()})`);
+        this.onDue(entry, accounts);
+    }
+
+    // Next check of each account in data/schedule.json
+    private recordNextChecks(): void {
+        const nextChecks: Record<string, string | null> = {};
+        this.current().forEach(plan => {
+            const [next] = collectRuns([plan], new Date(), 1);
+            plan.accounts?.forEach(login => {
+                nextChecks[login] = next?.at ?? null;
+            });
+        });
+        if (Object.keys(nextChecks).length > 0) {
+            recordNextChecks(nextChecks);
+        }
+    }
+}
+
+function planKey(plan: SchedulePlan): string {
+    return plan.accounts ? plan.accounts.join(',') : '*';
+}
@@ -0,0 +1,96 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChannelConfig, NoiseRules, RetentionPolicy } from './types';
+
+// Path to settings.json - use project directory for consistency
+export function getSettingsPath(): string {
+    return path.join(process.cwd(), 'settings.json');
+}
+
+export interface DaySchedule {
+    enabled: boolean;
+    time: string; // HH:MM format
+    times?: string[]; // further HH:MM checks on the same day
+}
+
+// Scheduled checks due in between are skipped; HH:MM local time, start after end spans midnight
+export interface QuietHours {
+    start: string;
+    end: string;
+}
+
+// Checks more often after a change and less often once nothing has changed for a while
+export interface AdaptiveSchedule {
+    enabled: boolean;
+    minIntervalMinutes?: number; // how often to check right after a change (default 60)
+    boostHours?: number; // for how long after a change (default 48)
+    backoffDays?: number; // without a change before checking less often (default 14)
+    maxIntervalMinutes?: number; // longest gap between checks once backed off (default 1440)
+}
+
+// An account's own schedule in accounts.json; fields left out come from settings.json
+export type AccountSchedule = Partial<Pick<Settings,
+    'scheduleEnabled' | 'scheduleType' | 'scheduleInterval' | 'scheduleIntervalUnit' | 'scheduleDays' | 'scheduleCron' | 'quietHours' | 'adaptiveSchedule'>>;
+
+export interface Settings {
+    scheduleEnabled: boolean;
+    scheduleType?: 'interval' | 'days' | 'cron'; // interval, day-based or raw cron expressions
+    scheduleInterval: number; // in scheduleIntervalUnit
+    scheduleIntervalUnit?: 'minutes' | 'hours' | 'days'; // default minutes
+    scheduleDays?: {
+        [key: string]: DaySchedule; // monday, tuesday, etc.
+    };
+    scheduleCron?: string[]; // minute hour day-of-month month day-of-week, for scheduleType "cron"
+    quietHours?: QuietHours;
+    adaptiveSchedule?: AdaptiveSchedule; // applies to every account without its own
+    lastCheck?: string; // written by older versions; per-account check times are in data/schedule.json
+    siteProfile?: string; // profile for accounts without their own, see site-profile.ts
+    headlessMode?: boolean; // whether to run browser in headless mode
+    shareBrowser?: boolean; // one browser for all accounts, each in its own incognito context
+    concurrency?: number; // accounts checked at the same time (default 1)
+    accountTimeoutMinutes?: number; // a check running longer is stopped and reported as an error (default 15)
+    accountDelaySeconds?: number; // minimum gap between account starts, plus random jitter of up to the same (default 3)
+    ignoreRules?: NoiseRules; // applied to every account before comparison
+    notificationChannels?: ChannelConfig[]; // used by every account in addition to its own channels
+    retention?: Partial<RetentionPolicy>; // applied after every check when set, see retention.ts
+    storage?: 'json' | 'sqlite'; // where check history is kept, see storage/ (default json)
+    useVault?: boolean; // the desktop app keeps secrets in vault.json; asked once when plaintext secrets are found
+}
+
+// Load or create settings
+export function loadSettings(): Settings {
+    const settingsPath = getSettingsPath();
+    try {
+        if (fs.existsSync(settingsPath)) {
+            const settings = JSON.parse(fs.readFileSync(settingsPath, 'utf8'));
+            // Set defaults for new properties
+            if (!settings.scheduleType) {
+                settings.scheduleType = 'days';
+            }
+            if (!settings.scheduleDays) {
+                settings.scheduleDays = {};
+            }
+            if (settings.headlessMode === undefined) {
+                settings.headlessMode = true; // default to headless
+            }
+            return settings;
+        }
+    } catch (error) {
+        console.error('Error loading settings:', error);
+    }
+    return {
+        scheduleEnabled: false,
+        scheduleType: 'days',
+        scheduleInterval: 30, // default 30 minutes
+        scheduleDays: {},
+        headlessMode: true // default to headless mode
+    };
+}
+
+export function saveSettings(settings: Settings): void {
+    try {
+        fs.writeFileSync(getSettingsPath(), JSON.stringify(settings, null, 2));
+    } catch (error) {
+        console.error('Error saving settings:', error);
+    }
+}
@@ -0,0 +1,197 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExtractionRules, SiteProfile } from './types';
+import { DEFAULT_EXTRACTION_RULES } from './extractor';
+
+// pio-przybysz.duw.pl (Dolnośląski Urząd Wojewódzki), the portal the checker was written for
+export const DUW_PROFILE: SiteProfile = {
+    name: 'duw',
+    description: 'Dolnośląski Urząd Wojewódzki - pio-przybysz.duw.pl',
+    urls: {
+        login: 'https://pio-przybysz.duw.pl/login',
+        applicationsList: 'https://pio-przybysz.duw.pl/wnioski-przyjete',
+        detailsPath: '/szczegoly-wniosku'
+    },
+    selectors: {
+        username: 'input[formcontrolname="username"]',
+        password: 'input[formcontrolname="pass"]',
+        submit: 'button.btn-primary'
+    },
+    waits: {
+        navigationTimeoutMs: 60000,
+        elementTimeoutMs: 10000,
+        submitTimeoutMs: 30000,
+        afterLoginMs: 2000,
+        listLoadMs: 3000,
+        detailsTimeoutMs: 10000
+    },
+    extraction: DEFAULT_EXTRACTION_RULES
+};
+
+const BUILT_IN_PROFILES: Record<string, SiteProfile> = {
+    duw: DUW_PROFILE
+};
+
+// What a profile file holds once validateSiteProfile accepted it
+type SiteProfileOverrides = Partial<Pick<SiteProfile, 'name' | 'description'>> & {
+    [Section in 'urls' | 'selectors' | 'waits']?: Partial<SiteProfile[Section]>;
+} & {
+    extraction?: Partial<Omit<ExtractionRules, 'fieldLabels'>> & { fieldLabels?: Partial<ExtractionRules['fieldLabels']> };
+};
+
+const SECTION_KEYS: Record<'urls' | 'selectors' | 'waits' | 'extraction', string[]> = {
+    urls: Object.keys(DUW_PROFILE.urls),
+    selectors: Object.keys(DUW_PROFILE.selectors),
+    waits: [...Object.keys(DUW_PROFILE.waits), 'listReadySelector', 'detailsReadySelector'],
+    extraction: Object.keys(DUW_PROFILE.extraction)
+};
+
+// Profiles of other offices (or of a redesigned DUW portal) live in profiles/<name>.json in the project directory
+export function getProfilesDir(): string {
+    return path.join(process.cwd(), 'profiles');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+    return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isStringList(value: unknown): boolean {
+    return Array.isArray(value) && value.length > 0 && value.every(isNonEmptyString);
+}
+
+function checkKeys(value: Record<string, unknown>, allowed: string[], context: string): void {
+    const unknown = Object.keys(value).filter(key => !allowed.includes(key));
+    if (unknown.length > 0) {
+        throw new Error(`${context}: unknown setting(s) ${unknown.join(', ')}; expected ${allowed.join(', ')}`);
+    }
+}
+
+// A profile file may leave out any section or setting; missing ones are taken from the DUW profile
+export function validateSiteProfile(profile: unknown, context: string): asserts profile is SiteProfileOverrides {
+    if (!isObject(profile)) {
+        throw new Error(`${context}: a site profile must be an object`);
+    }
+    checkKeys(profile, ['name', 'description', ...Object.keys(SECTION_KEYS)], context);
+
+    if (profile.name !== undefined && !isNonEmptyString(profile.name)) {
+        throw new Error(`${context}: name must be a non-empty string`);
+    }
+    if (profile.description !== undefined && typeof profile.description !== 'string') {
+        throw new Error(`${context}: description must be a string`);
+    }
+
+    for (const [section, keys] of Object.entries(SECTION_KEYS)) {
+        const value = profile[section];
+        if (value === undefined) {
+            continue;
+        }
+        if (!isObject(value)) {
+            throw new Error(`${context}: ${section} must be an object`);
+        }
+        checkKeys(value, keys, `${context}: ${section}`);
+    }
+
+    const urls = (profile.urls || {}) as Record<string, unknown>;
+    for (const key of ['login', 'applicationsList']) {
+        const url = urls[key];
+        if (url !== undefined && !(isNonEmptyString(url) && /^https?:\/\/[^/]/i.test(url))) {
+            throw new Error(`${context}: urls.${key} must be an http(s) URL`);
+        }
+    }
+    if (urls.detailsPath !== undefined && !(isNonEmptyString(urls.detailsPath) && urls.detailsPath.startsWith('/'))) {
+        throw new Error(`${context}: urls.detailsPath must be a path starting with /`);
+    }
+
+    for (const [key, selector] of Object.entries((profile.selectors || {}) as Record<string, unknown>)) {
+        if (!isNonEmptyString(selector)) {
+            throw new Error(`${context}: selectors.${key} must be a CSS selector`);
+        }
+    }
+
+    for (const [key, wait] of Object.entries((profile.waits || {}) as Record<string, unknown>)) {
+        if (key.endsWith('Selector') ? !isNonEmptyString(wait) : !(typeof wait === 'number' && Number.isFinite(wait) && wait >= 0)) {
+            throw new Error(`${context}: waits.${key} must be ${key.endsWith('Selector') ? 'a CSS selector' : 'a number of milliseconds'}`);
+        }
+    }
+
+    const extraction = (profile.extraction || {}) as Record<string, unknown>;
+    if (extraction.fieldLabels !== undefined) {
+        if (!isObject(extraction.fieldLabels)) {
+            throw new Error(`${context}: extraction.fieldLabels must be an object`);
+        }
+        checkKeys(extraction.fieldLabels, Object.keys(DUW_PROFILE.extraction.fieldLabels), `${context}: extraction.fieldLabels`);
+        for (const [field, labels] of Object.entries(extraction.fieldLabels)) {
+            if (!isStringList(labels)) {
+                throw new Error(`${context}: extraction.fieldLabels.${field} must be a list of labels`);
+            }
+        }
+    }
+    for (const key of ['correspondenceKeywords', 'missingDocumentKeywords']) {
+        if (extraction[key] !== undefined && !isStringList(extraction[key])) {
+            throw new Error(`${context}: extraction.${key} must be a list of keywords`);
+        }
+    }
+}
+
+// Labels and keywords are compared with lowercase page text
+function lowercase(list: string[]): string[] {
+    return list.map(entry => entry.trim().toLowerCase());
+}
+
+function mergeExtraction(base: ExtractionRules, overrides: SiteProfileOverrides['extraction'] = {}): ExtractionRules {
+    const fieldLabels = { ...base.fieldLabels };
+    for (const [field, labels] of Object.entries(overrides.fieldLabels || {})) {
+        if (labels) {
+            fieldLabels[field as keyof ExtractionRules['fieldLabels']] = lowercase(labels);
+        }
+    }
+    return {
+        fieldLabels,
+        correspondenceKeywords: overrides.correspondenceKeywords ? lowercase(overrides.correspondenceKeywords) : base.correspondenceKeywords,
+        missingDocumentKeywords: overrides.missingDocumentKeywords ? lowercase(overrides.missingDocumentKeywords) : base.missingDocumentKeywords
+    };
+}
+
+// Settings of a validated profile file over the DUW profile
+function mergeSiteProfile(base: SiteProfile, overrides: SiteProfileOverrides, name: string): SiteProfile {
+    return {
+        name: overrides.name || name,
+        ...(overrides.description !== undefined ? { description: overrides.description } : {}),
+        urls: { ...base.urls, ...overrides.urls },
+        selectors: { ...base.selectors, ...overrides.selectors },
+        waits: { ...base.waits, ...overrides.waits },
+        extraction: mergeExtraction(base.extraction, overrides.extraction)
+    };
+}
+
+// A built-in profile name, the name of profiles/<name>.json or a path to a .json file; the DUW profile by default
+export function loadSiteProfile(reference?: string): SiteProfile {
+    if (!reference) {
+        return DUW_PROFILE;
+    }
+    const builtIn = BUILT_IN_PROFILES[reference];
+    if (builtIn) {
+        return builtIn;
+    }
+
+    const file = reference.endsWith('.json') || reference.includes('/') || reference.includes('\\')
+        ? path.resolve(process.cwd(), reference)
+        : path.join(getProfilesDir(), `${reference}.json`);
+    const context = `Site profile ${reference}`;
+    if (!fs.existsSync(file)) {
+        throw new Error(`${context}: ${file} not found`);
+    }
+
+    let profile: unknown;
+    try {
+        profile = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+        throw new Error(`${context}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    validateSiteProfile(profile, context);
+    return mergeSiteProfile(DUW_PROFILE, profile, path.basename(file, '.json'));
+}
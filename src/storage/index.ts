@@ -0,0 +1,144 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ScrapedData } from '../types';
+import { compareSnapshotFiles, isSnapshotFile } from '../history';
+import { loadSettings } from '../settings';
+import { JsonHistoryStore } from './json';
+import { loadSqlite, SqliteHistoryStore } from './sqlite';
+import { applicationFolder, HistoryStore } from './store';
+
+export { JsonHistoryStore, loadSqlite, SqliteHistoryStore };
+export * from './store';
+
+export type StorageKind = HistoryStore['kind'];
+
+export interface ImportSummary {
+    accounts: number;
+    snapshots: number;
+    skipped: number; // snapshots already in the database
+    checks: number;
+    runs: number;
+    changes: number;
+    deliveries: number;
+}
+
+export function getDataDir(): string {
+    return path.join(process.cwd(), 'data');
+}
+
+export function getHistoryDbPath(dataDir: string = getDataDir()): string {
+    return path.join(dataDir, 'history.db');
+}
+
+// One store per data directory and kind, shared by every checker of the process
+const openStores = new Map<string, HistoryStore>();
+
+// settings.json "storage" picks the backend; loose JSON files unless it is "sqlite". Without node:sqlite the
+// history stays in the JSON files, with a warning, rather than failing every check
+export function openHistoryStore(kind: StorageKind = loadSettings().storage || 'json', dataDir: string = getDataDir()): HistoryStore {
+    const key = `${kind}:${path.resolve(dataDir)}`;
+    let store = openStores.get(key);
+    if (!store) {
+        if (kind === 'sqlite' && !loadSqlite()) {
+            console.warn(`"storage": "sqlite" needs node:sqlite, which Node.js ${process.version} does not have ` +
+                `(Node.js 22.13 or newer is required); using the JSON files in ${dataDir} instead`);
+            store = new JsonHistoryStore(dataDir);
+        } else {
+            store = kind === 'sqlite' ? new SqliteHistoryStore(getHistoryDbPath(dataDir)) : new JsonHistoryStore(dataDir);
+        }
+        openStores.set(key, store);
+    }
+    return store;
+}
+
+export function closeHistoryStores(): void {
+    openStores.forEach(store => store.close());
+    openStores.clear();
+}
+
+// Snapshots from before per-application folders, stored directly in data/<login>/
+function readLegacySnapshots(accountDir: string): Array<{ name: string; data: ScrapedData }> {
+    return fs.readdirSync(accountDir).filter(isSnapshotFile).sort(compareSnapshotFiles).flatMap(name => {
+        try {
+            return [{ name, data: JSON.parse(fs.readFileSync(path.join(accountDir, name), 'utf8')) as ScrapedData }];
+        } catch {
+            return [];
+        }
+    });
+}
+
+// Copies data/<login>/ (both folder layouts) into the database. Snapshots already stored are skipped, and the
+// run, change, delivery and check logs are only copied into a database that has none for the login or application,
+// so the import can be repeated
+export function importJsonHistory(dataDir: string, target: SqliteHistoryStore): ImportSummary {
+    const source = new JsonHistoryStore(dataDir);
+    const summary: ImportSummary = { accounts: 0, snapshots: 0, skipped: 0, checks: 0, runs: 0, changes: 0, deliveries: 0 };
+
+    for (const account of source.listAccounts()) {
+        const { login } = account;
+        const legacy = readLegacySnapshots(path.join(dataDir, login));
+        const snapshots = [
+            ...legacy.map(snapshot => ({ ...snapshot, application: applicationFolder(snapshot.data.elementText || 'unknown') })),
+            ...source.listSnapshots(login)
+        ].sort((a, b) => compareSnapshotFiles(a.name, b.name));
+        if (snapshots.length === 0 && source.listRuns(login, 1).length === 0) {
+            continue;
+        }
+
+        summary.accounts++;
+        if (account.firstSeen) {
+            target.touchAccount(login, account.firstSeen);
+        }
+        if (account.lastSeen) {
+            target.touchAccount(login, account.lastSeen);
+        }
+
+        const checksImported = new Set(target.listApplications(login).filter(application => target.listChecks(login, application).length > 0));
+        snapshots.forEach(snapshot => {
+            if (target.importSnapshot(login, snapshot)) {
+                summary.snapshots++;
+            } else {
+                summary.skipped++;
+            }
+        });
+        source.listApplications(login).filter(application => !checksImported.has(application)).forEach(application => {
+            source.listChecks(login, application).forEach(record => {
+                target.insertCheck(login, application, record);
+                summary.checks++;
+            });
+        });
+
+        if (target.listRuns(login, 1).length === 0) {
+            source.listRuns(login).reverse().forEach(run => target.recordRun(run));
+            summary.runs += source.listRuns(login).length;
+        }
+        if (target.listChanges(login).length === 0) {
+            const changes = source.listChanges(login);
+            changes.forEach(record => target.recordChanges(login, record.application, record.snapshot, [record.change], record.detectedAt));
+            summary.changes += changes.length;
+        }
+        if (target.listDeliveries(login, 1).length === 0) {
+            const deliveries = source.listDeliveries(login).reverse();
+            target.recordDeliveries(deliveries);
+            summary.deliveries += deliveries.length;
+        }
+    }
+    return summary;
+}
+
+// npm run import-history
+if (require.main === module) {
+    try {
+        const dataDir = getDataDir();
+        const target = new SqliteHistoryStore(getHistoryDbPath(dataDir));
+        const summary = importJsonHistory(dataDir, target);
+        target.close();
+        console.log(`Imported ${summary.snapshots} snapshot(s) of ${summary.accounts} account(s) into ${getHistoryDbPath(dataDir)} ` +
+            `(${summary.skipped} already there), ${summary.checks} check record(s), ${summary.runs} run(s), ` +
+            `${summary.changes} change(s) and ${summary.deliveries} deliver${summary.deliveries === 1 ? 'y' : 'ies'}`);
+        console.log('Set "storage": "sqlite" in settings.json to use the database; the JSON files are left in place.');
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+    }
+}
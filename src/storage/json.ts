@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DataChange, RetentionPolicy, ScrapedData } from '../types';
+import { compareSnapshotFiles, isSnapshotFile } from '../history';
+import { CheckRecord, compactApplication, CompactionResult, readCheckLog, recordCheck, snapshotHash } from '../retention';
+import {
+    appendJsonLines,
+    applicationFolder,
+    ChangeRecord,
+    checkSnapshotName,
+    DeliveryRecord,
+    HistoryStore,
+    readJsonLines,
+    RetentionOptions,
+    RunRecord,
+    StoredAccount,
+    StoredSnapshot,
+    uniqueSnapshotName
+} from './store';
+
+const ACCOUNT_FILE = 'account.json';
+const RUNS_FILE = 'runs.jsonl';
+const CHANGES_FILE = 'changes.jsonl';
+const DELIVERIES_FILE = 'deliveries.jsonl';
+
+// The original layout: data/<login>/<application>/szczegoly-wniosku_<local time>.json, ordered by file name, with
+// runs, changes and deliveries appended to JSON Lines files in data/<login>/
+export class JsonHistoryStore implements HistoryStore {
+    readonly kind = 'json' as const;
+
+    constructor(private readonly dataDir: string) {}
+
+    private accountDir(login: string): string {
+        return path.join(this.dataDir, login);
+    }
+
+    private applicationDir(login: string, application: string): string {
+        return path.join(this.accountDir(login), applicationFolder(application));
+    }
+
+    touchAccount(login: string, seenAt: string): void {
+        const file = path.join(this.accountDir(login), ACCOUNT_FILE);
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        const previous = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) as StoredAccount : null;
+        const account: StoredAccount = { login, firstSeen: previous?.firstSeen || seenAt, lastSeen: seenAt };
+        fs.writeFileSync(file, JSON.stringify(account, null, 2));
+    }
+
+    // Folders from before account.json existed are dated by their snapshots
+    listAccounts(): StoredAccount[] {
+        if (!fs.existsSync(this.dataDir)) {
+            return [];
+        }
+        return fs.readdirSync(this.dataDir, { withFileTypes: true })
+            .filter(entry => entry.isDirectory())
+            .map(entry => entry.name)
+            .sort()
+            .map(login => {
+                const file = path.join(this.accountDir(login), ACCOUNT_FILE);
+                if (fs.existsSync(file)) {
+                    return JSON.parse(fs.readFileSync(file, 'utf8')) as StoredAccount;
+                }
+                const times = this.listSnapshots(login).map(snapshot => snapshot.data.timestamp).sort();
+                return { login, firstSeen: times[0] || '', lastSeen: times[times.length - 1] || '' };
+            });
+    }
+
+    recordRun(run: RunRecord): void {
+        fs.mkdirSync(this.accountDir(run.login), { recursive: true });
+        appendJsonLines(path.join(this.accountDir(run.login), RUNS_FILE), [run]);
+    }
+
+    listRuns(login: string, limit?: number): RunRecord[] {
+        return readJsonLines<RunRecord>(path.join(this.accountDir(login), RUNS_FILE)).reverse().slice(0, limit);
+    }
+
+    saveSnapshot(login: string, data: ScrapedData): { snapshot: StoredSnapshot; saved: boolean } {
+        const application = applicationFolder(data.elementText);
+        const dir = this.applicationDir(login, application);
+        fs.mkdirSync(dir, { recursive: true });
+
+        let latest: StoredSnapshot | null = null;
+        try {
+            latest = this.latestSnapshot(login, application);
+        } catch {
+            // A damaged snapshot never matches, so the new data gets its own file
+        }
+        const hash = snapshotHash(data);
+        if (latest && snapshotHash(latest.data) === hash) {
+            recordCheck(dir, { timestamp: data.timestamp, hash, snapshot: latest.name });
+            return { snapshot: latest, saved: false };
+        }
+
+        const name = uniqueSnapshotName(new Date(), candidate => fs.existsSync(path.join(dir, candidate)));
+        fs.writeFileSync(path.join(dir, name), JSON.stringify(data, null, 2));
+        return { snapshot: { application, name, data }, saved: true };
+    }
+
+    // Newest by file name and suffix
+    latestSnapshot(login: string, application: string): StoredSnapshot | null {
+        const dir = this.applicationDir(login, application);
+        if (!fs.existsSync(dir)) {
+            return null;
+        }
+        const name = fs.readdirSync(dir).filter(isSnapshotFile).sort(compareSnapshotFiles).pop();
+        return name ? { application: applicationFolder(application), name, data: JSON.parse(fs.readFileSync(path.join(dir, name), 'utf8')) } : null;
+    }
+
+    readSnapshot(login: string, application: string, name: string): ScrapedData {
+        checkSnapshotName(application, name);
+        const file = path.join(this.applicationDir(login, application), name);
+        if (!fs.existsSync(file)) {
+            throw new Error(`Snapshot not found: ${application}/${name}`);
+        }
+        return JSON.parse(fs.readFileSync(file, 'utf8'));
+    }
+
+    listSnapshots(login: string, application?: string): StoredSnapshot[] {
+        return (application !== undefined ? [application] : this.listApplications(login)).flatMap(app => {
+            const dir = this.applicationDir(login, app);
+            if (!fs.existsSync(dir)) {
+                return [];
+            }
+            return fs.readdirSync(dir).filter(isSnapshotFile).sort(compareSnapshotFiles).flatMap(name => {
+                try {
+                    return [{ application: applicationFolder(app), name, data: JSON.parse(fs.readFileSync(path.join(dir, name), 'utf8')) as ScrapedData }];
+                } catch {
+                    return [];
+                }
+            });
+        });
+    }
+
+    listApplications(login: string): string[] {
+        const dir = this.accountDir(login);
+        if (!fs.existsSync(dir)) {
+            return [];
+        }
+        return fs.readdirSync(dir, { withFileTypes: true })
+            .filter(entry => entry.isDirectory() && fs.readdirSync(path.join(dir, entry.name)).some(isSnapshotFile))
+            .map(entry => entry.name)
+            .sort();
+    }
+
+    listChecks(login: string, application: string): CheckRecord[] {
+        return readCheckLog(this.applicationDir(login, application));
+    }
+
+    applyRetention(login: string, application: string, policy: RetentionPolicy, options: RetentionOptions = {}): CompactionResult {
+        return compactApplication(this.applicationDir(login, application), policy, options);
+    }
+
+    recordChanges(login: string, application: string, snapshot: string, changes: DataChange[], detectedAt: string): void {
+        fs.mkdirSync(this.accountDir(login), { recursive: true });
+        const records: ChangeRecord[] = changes.map(change => ({ login, application, snapshot, detectedAt, change }));
+        appendJsonLines(path.join(this.accountDir(login), CHANGES_FILE), records);
+    }
+
+    listChanges(login: string, application?: string): ChangeRecord[] {
+        return readJsonLines<ChangeRecord>(path.join(this.accountDir(login), CHANGES_FILE))
+            .filter(record => application === undefined || record.application === application);
+    }
+
+    recordDeliveries(deliveries: DeliveryRecord[]): void {
+        for (const login of new Set(deliveries.map(delivery => delivery.login))) {
+            fs.mkdirSync(this.accountDir(login), { recursive: true });
+            appendJsonLines(path.join(this.accountDir(login), DELIVERIES_FILE), deliveries.filter(delivery => delivery.login === login));
+        }
+    }
+
+    listDeliveries(login: string, limit?: number): DeliveryRecord[] {
+        return readJsonLines<DeliveryRecord>(path.join(this.accountDir(login), DELIVERIES_FILE)).reverse().slice(0, limit);
+    }
+
+    close(): void {
+        // Nothing is kept open
+    }
+}
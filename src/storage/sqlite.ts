@@ -0,0 +1,308 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DatabaseSync } from 'node:sqlite';
+import { DataChange, ErrorCategory, RetentionPolicy, ScrapedData } from '../types';
+import { CheckRecord, CompactionResult, markChangePoints, planRetention, snapshotHash } from '../retention';
+import {
+    applicationFolder,
+    ChangeRecord,
+    checkSnapshotName,
+    DeliveryRecord,
+    HistoryStore,
+    RetentionOptions,
+    RunRecord,
+    StoredAccount,
+    StoredSnapshot,
+    uniqueSnapshotName
+} from './store';
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS accounts (
+        login TEXT PRIMARY KEY,
+        first_seen TEXT NOT NULL,
+        last_seen TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        login TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        finished_at TEXT NOT NULL,
+        status TEXT NOT NULL,
+        applications TEXT NOT NULL,
+        error TEXT,
+        error_category TEXT
+    );
+    CREATE INDEX IF NOT EXISTS runs_login ON runs (login, id);
+    CREATE TABLE IF NOT EXISTS snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        login TEXT NOT NULL,
+        application TEXT NOT NULL,
+        name TEXT NOT NULL,
+        taken_at TEXT NOT NULL,
+        hash TEXT NOT NULL,
+        data TEXT NOT NULL,
+        UNIQUE (login, application, name)
+    );
+    CREATE TABLE IF NOT EXISTS checks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        login TEXT NOT NULL,
+        application TEXT NOT NULL,
+        checked_at TEXT NOT NULL,
+        hash TEXT NOT NULL,
+        snapshot TEXT NOT NULL,
+        compacted TEXT
+    );
+    CREATE INDEX IF NOT EXISTS checks_application ON checks (login, application, id);
+    CREATE TABLE IF NOT EXISTS changes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        login TEXT NOT NULL,
+        application TEXT NOT NULL,
+        snapshot TEXT NOT NULL,
+        detected_at TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        description TEXT NOT NULL,
+        change TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS changes_application ON changes (login, application, id);
+    CREATE TABLE IF NOT EXISTS deliveries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        login TEXT NOT NULL,
+        application TEXT,
+        event TEXT NOT NULL,
+        channel TEXT NOT NULL,
+        success INTEGER NOT NULL,
+        error TEXT,
+        sent_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS deliveries_login ON deliveries (login, id);
+`;
+
+type Row = Record<string, string | number | null>;
+
+// node:sqlite ships with Node.js 22.13+ and the Electron runtime; older versions cannot open the database
+export function loadSqlite(): typeof import('node:sqlite') | null {
+    try {
+        return require('node:sqlite');
+    } catch {
+        return null;
+    }
+}
+
+// data/history.db; snapshots are ordered by insertion, so clock changes and checks within one second keep their order
+export class SqliteHistoryStore implements HistoryStore {
+    readonly kind = 'sqlite' as const;
+    private readonly db: DatabaseSync;
+
+    constructor(file: string) {
+        const sqlite = loadSqlite();
+        if (!sqlite) {
+            throw new Error(`SQLite storage needs node:sqlite (Node.js 22.13 or newer, running ${process.version})`);
+        }
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        this.db = new sqlite.DatabaseSync(file);
+        this.db.exec('PRAGMA journal_mode = WAL');
+        this.db.exec(SCHEMA);
+    }
+
+    private all(sql: string, ...params: Array<string | number | null>): Row[] {
+        return this.db.prepare(sql).all(...params) as Row[];
+    }
+
+    private get(sql: string, ...params: Array<string | number | null>): Row | undefined {
+        return this.db.prepare(sql).get(...params) as Row | undefined;
+    }
+
+    private run(sql: string, ...params: Array<string | number | null>): void {
+        this.db.prepare(sql).run(...params);
+    }
+
+    private transaction(work: () => void): void {
+        this.db.exec('BEGIN');
+        try {
+            work();
+            this.db.exec('COMMIT');
+        } catch (error) {
+            this.db.exec('ROLLBACK');
+            throw error;
+        }
+    }
+
+    touchAccount(login: string, seenAt: string): void {
+        this.run(
+            'INSERT INTO accounts (login, first_seen, last_seen) VALUES (?, ?, ?) ON CONFLICT (login) DO UPDATE SET last_seen = excluded.last_seen',
+            login, seenAt, seenAt
+        );
+    }
+
+    listAccounts(): StoredAccount[] {
+        return this.all('SELECT login, first_seen, last_seen FROM accounts ORDER BY login')
+            .map(row => ({ login: String(row.login), firstSeen: String(row.first_seen), lastSeen: String(row.last_seen) }));
+    }
+
+    recordRun(run: RunRecord): void {
+        this.run(
+            'INSERT INTO runs (login, started_at, finished_at, status, applications, error, error_category) VALUES (?, ?, ?, ?, ?, ?, ?)',
+            run.login, run.startedAt, run.finishedAt, run.status, JSON.stringify(run.applications), run.error ?? null, run.errorCategory ?? null
+        );
+    }
+
+    listRuns(login: string, limit: number = -1): RunRecord[] {
+        return this.all('SELECT * FROM runs WHERE login = ? ORDER BY id DESC LIMIT ?', login, limit).map(row => ({
+            login: String(row.login),
+            startedAt: String(row.started_at),
+            finishedAt: String(row.finished_at),
+            status: String(row.status) as RunRecord['status'],
+            applications: JSON.parse(String(row.applications)),
+            ...(row.error !== null ? { error: String(row.error) } : {}),
+            ...(row.error_category !== null ? { errorCategory: String(row.error_category) as ErrorCategory } : {})
+        }));
+    }
+
+    private toSnapshot(row: Row): StoredSnapshot {
+        return { application: String(row.application), name: String(row.name), data: JSON.parse(String(row.data)) };
+    }
+
+    saveSnapshot(login: string, data: ScrapedData): { snapshot: StoredSnapshot; saved: boolean } {
+        const application = applicationFolder(data.elementText);
+        const hash = snapshotHash(data);
+        const latest = this.get('SELECT * FROM snapshots WHERE login = ? AND application = ? ORDER BY id DESC LIMIT 1', login, application);
+        if (latest && latest.hash === hash) {
+            this.insertCheck(login, application, { timestamp: data.timestamp, hash, snapshot: String(latest.name) });
+            return { snapshot: this.toSnapshot(latest), saved: false };
+        }
+
+        const name = uniqueSnapshotName(new Date(), candidate =>
+            !!this.get('SELECT 1 FROM snapshots WHERE login = ? AND application = ? AND name = ?', login, application, candidate));
+        this.insertSnapshot(login, { application, name, data });
+        return { snapshot: { application, name, data }, saved: true };
+    }
+
+    // Used by the importer; false when the snapshot is already stored
+    importSnapshot(login: string, snapshot: StoredSnapshot): boolean {
+        if (this.get('SELECT 1 FROM snapshots WHERE login = ? AND application = ? AND name = ?', login, snapshot.application, snapshot.name)) {
+            return false;
+        }
+        this.insertSnapshot(login, snapshot);
+        return true;
+    }
+
+    private insertSnapshot(login: string, snapshot: StoredSnapshot): void {
+        this.run(
+            'INSERT INTO snapshots (login, application, name, taken_at, hash, data) VALUES (?, ?, ?, ?, ?, ?)',
+            login, snapshot.application, snapshot.name, snapshot.data.timestamp, snapshotHash(snapshot.data), JSON.stringify(snapshot.data)
+        );
+    }
+
+    insertCheck(login: string, application: string, record: CheckRecord): void {
+        this.run(
+            'INSERT INTO checks (login, application, checked_at, hash, snapshot, compacted) VALUES (?, ?, ?, ?, ?, ?)',
+            login, application, record.timestamp, record.hash, record.snapshot, record.compacted ?? null
+        );
+    }
+
+    latestSnapshot(login: string, application: string): StoredSnapshot | null {
+        const row = this.get('SELECT * FROM snapshots WHERE login = ? AND application = ? ORDER BY id DESC LIMIT 1', login, applicationFolder(application));
+        return row ? this.toSnapshot(row) : null;
+    }
+
+    readSnapshot(login: string, application: string, name: string): ScrapedData {
+        checkSnapshotName(application, name);
+        const row = this.get('SELECT data FROM snapshots WHERE login = ? AND application = ? AND name = ?', login, application, name);
+        if (!row) {
+            throw new Error(`Snapshot not found: ${application}/${name}`);
+        }
+        return JSON.parse(String(row.data));
+    }
+
+    listSnapshots(login: string, application?: string): StoredSnapshot[] {
+        const rows = application !== undefined
+            ? this.all('SELECT * FROM snapshots WHERE login = ? AND application = ? ORDER BY id', login, applicationFolder(application))
+            : this.all('SELECT * FROM snapshots WHERE login = ? ORDER BY application, id', login);
+        return rows.map(row => this.toSnapshot(row));
+    }
+
+    listApplications(login: string): string[] {
+        return this.all('SELECT DISTINCT application FROM snapshots WHERE login = ? ORDER BY application', login).map(row => String(row.application));
+    }
+
+    listChecks(login: string, application: string): CheckRecord[] {
+        return this.all('SELECT * FROM checks WHERE login = ? AND application = ? ORDER BY id', login, applicationFolder(application)).map(row => ({
+            timestamp: String(row.checked_at),
+            hash: String(row.hash),
+            snapshot: String(row.snapshot),
+            ...(row.compacted !== null ? { compacted: String(row.compacted) } : {})
+        }));
+    }
+
+    applyRetention(login: string, application: string, policy: RetentionPolicy, options: RetentionOptions = {}): CompactionResult {
+        const snapshots = markChangePoints(
+            this.listSnapshots(login, application).map(snapshot => ({ file: snapshot.name, data: snapshot.data })),
+            options.rules,
+            options.extraction
+        );
+        const { keep, remove } = planRetention(snapshots, policy, options.now);
+        if (!options.dryRun && remove.length > 0) {
+            const kept = new Set(keep);
+            this.transaction(() => {
+                let lastKept = '';
+                for (const snapshot of snapshots) {
+                    if (kept.has(snapshot.file)) {
+                        lastKept = snapshot.file;
+                        continue;
+                    }
+                    this.insertCheck(login, application, {
+                        timestamp: snapshot.data.timestamp,
+                        hash: snapshotHash(snapshot.data),
+                        snapshot: lastKept,
+                        compacted: snapshot.file
+                    });
+                    this.run('DELETE FROM snapshots WHERE login = ? AND application = ? AND name = ?', login, application, snapshot.file);
+                }
+            });
+        }
+        return { application, kept: keep, removed: remove };
+    }
+
+    recordChanges(login: string, application: string, snapshot: string, changes: DataChange[], detectedAt: string): void {
+        this.transaction(() => changes.forEach(change => this.run(
+            'INSERT INTO changes (login, application, snapshot, detected_at, kind, description, change) VALUES (?, ?, ?, ?, ?, ?, ?)',
+            login, application, snapshot, detectedAt, change.kind, change.description, JSON.stringify(change)
+        )));
+    }
+
+    listChanges(login: string, application?: string): ChangeRecord[] {
+        const rows = application !== undefined
+            ? this.all('SELECT * FROM changes WHERE login = ? AND application = ? ORDER BY id', login, application)
+            : this.all('SELECT * FROM changes WHERE login = ? ORDER BY id', login);
+        return rows.map(row => ({
+            login: String(row.login),
+            application: String(row.application),
+            snapshot: String(row.snapshot),
+            detectedAt: String(row.detected_at),
+            change: JSON.parse(String(row.change))
+        }));
+    }
+
+    recordDeliveries(deliveries: DeliveryRecord[]): void {
+        this.transaction(() => deliveries.forEach(delivery => this.run(
+            'INSERT INTO deliveries (login, application, event, channel, success, error, sent_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+            delivery.login, delivery.application ?? null, delivery.event, delivery.channel, delivery.success ? 1 : 0, delivery.error ?? null, delivery.sentAt
+        )));
+    }
+
+    listDeliveries(login: string, limit: number = -1): DeliveryRecord[] {
+        return this.all('SELECT * FROM deliveries WHERE login = ? ORDER BY id DESC LIMIT ?', login, limit).map(row => ({
+            login: String(row.login),
+            ...(row.application !== null ? { application: String(row.application) } : {}),
+            event: String(row.event) as DeliveryRecord['event'],
+            channel: String(row.channel),
+            success: row.success === 1,
+            ...(row.error !== null ? { error: String(row.error) } : {}),
+            sentAt: String(row.sent_at)
+        }));
+    }
+
+    close(): void {
+        this.db.close();
+    }
+}
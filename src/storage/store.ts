@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import { CheckStatus, DataChange, ErrorCategory, ExtractionRules, NoiseRules, NotificationEvent, RetentionPolicy, ScrapedData } from '../types';
+import { CheckRecord, CompactionResult } from '../retention';
+
+// A login that has been checked at least once
+export interface StoredAccount {
+    login: string;
+    firstSeen: string;
+    lastSeen: string;
+}
+
+// One PIOChecker.run of a login
+export interface RunRecord {
+    login: string;
+    startedAt: string;
+    finishedAt: string;
+    status: CheckStatus;
+    applications: string[];
+    error?: string;
+    errorCategory?: ErrorCategory;
+}
+
+export interface StoredSnapshot {
+    application: string;
+    name: string; // szczegoly-wniosku_<local time>.json, also for snapshots kept in SQLite
+    data: ScrapedData;
+}
+
+export interface ChangeRecord {
+    login: string;
+    application: string;
+    snapshot: string; // snapshot in which the change was first seen
+    detectedAt: string;
+    change: DataChange;
+}
+
+export interface DeliveryRecord {
+    login: string;
+    application?: string;
+    event: NotificationEvent;
+    channel: string;
+    success: boolean;
+    error?: string;
+    sentAt: string;
+}
+
+export interface RetentionOptions {
+    rules?: NoiseRules;
+    extraction?: ExtractionRules;
+    dryRun?: boolean;
+    now?: Date;
+}
+
+// Where the history of checks lives: loose JSON files in data/ (json.ts) or data/history.db (sqlite.ts)
+export interface HistoryStore {
+    readonly kind: 'json' | 'sqlite';
+
+    touchAccount(login: string, seenAt: string): void;
+    listAccounts(): StoredAccount[];
+
+    recordRun(run: RunRecord): void;
+    // Newest first
+    listRuns(login: string, limit?: number): RunRecord[];
+
+    // Stores a new snapshot, or only a check record when the page is identical to the latest snapshot
+    saveSnapshot(login: string, data: ScrapedData): { snapshot: StoredSnapshot; saved: boolean };
+    latestSnapshot(login: string, application: string): StoredSnapshot | null;
+    readSnapshot(login: string, application: string, name: string): ScrapedData;
+    // Oldest first; unreadable snapshots are skipped
+    listSnapshots(login: string, application?: string): StoredSnapshot[];
+    listApplications(login: string): string[];
+    listChecks(login: string, application: string): CheckRecord[];
+    applyRetention(login: string, application: string, policy: RetentionPolicy, options?: RetentionOptions): CompactionResult;
+
+    recordChanges(login: string, application: string, snapshot: string, changes: DataChange[], detectedAt: string): void;
+    // Oldest first
+    listChanges(login: string, application?: string): ChangeRecord[];
+
+    recordDeliveries(deliveries: DeliveryRecord[]): void;
+    // Newest first
+    listDeliveries(login: string, limit?: number): DeliveryRecord[];
+
+    close(): void;
+}
+
+// Local time as used in snapshot file names: YYYY-MM-DDTHH-MM-SS
+export function fileTimestamp(now: Date): string {
+    return now.getFullYear() + '-' +
+        String(now.getMonth() + 1).padStart(2, '0') + '-' +
+        String(now.getDate()).padStart(2, '0') + 'T' +
+        String(now.getHours()).padStart(2, '0') + '-' +
+        String(now.getMinutes()).padStart(2, '0') + '-' +
+        String(now.getSeconds()).padStart(2, '0');
+}
+
+export function snapshotName(now: Date): string {
+    return `szczegoly-wniosku_${fileTimestamp(now)}.json`;
+}
+
+// Names stay unique per application even for two checks within the same second: the second one gets -2, and so on
+export function uniqueSnapshotName(now: Date, taken: (name: string) => boolean): string {
+    const base = snapshotName(now);
+    let name = base;
+    for (let n = 2; taken(name); n++) {
+        name = base.replace(/\.json$/, `-${n}.json`);
+    }
+    return name;
+}
+
+// Folder of an application in data/<login>/
+export function applicationFolder(applicationId: string): string {
+    return applicationId.replace(/[^\w.-]/g, '_');
+}
+
+// Names come from the renderer and the CLI, so they must not reach outside the account folder
+export function checkSnapshotName(application: string, name: string): void {
+    if (!/^szczegoly-wniosku_[\w.-]+\.json$/.test(name) || application !== applicationFolder(application) || /^\.*$/.test(application)) {
+        throw new Error(`Invalid snapshot: ${application}/${name}`);
+    }
+}
+
+export function appendJsonLines(file: string, records: unknown[]): void {
+    fs.appendFileSync(file, records.map(record => JSON.stringify(record) + '\n').join(''));
+}
+
+// One JSON object per line, oldest first; a damaged line is skipped rather than hiding the whole log
+export function readJsonLines<T>(file: string): T[] {
+    if (!fs.existsSync(file)) {
+        return [];
+    }
+    return fs.readFileSync(file, 'utf8').split('\n').flatMap(line => {
+        try {
+            return line.trim() ? [JSON.parse(line) as T] : [];
+        } catch {
+            return [];
+        }
+    });
+}
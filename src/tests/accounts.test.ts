@@ -0,0 +1,148 @@
+import { after, afterEach, before, mock, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { MultiAccountChecker, PIOChecker } from '../pio-checker';
+import { pauseAccount, resumeAccount, trackApplication } from '../accounts';
+import { testAccount, useTempProject, writeJson } from './helpers';
+
+let project: ReturnType<typeof useTempProject>;
+
+before(() => {
+    project = useTempProject();
+});
+
+after(() => {
+    project.restore();
+});
+
+afterEach(() => {
+    mock.restoreAll();
+});
+
+function writeAccounts(content: unknown): void {
+    writeJson(path.join(project.dir, 'accounts.json'), content);
+}
+
+test('fails when accounts.json is missing', () => {
+    assert.throws(() => new MultiAccountChecker(), /accounts.json file not found/);
+});
+
+test('fails when accounts.json is not a non-empty array', () => {
+    writeAccounts([]);
+    assert.throws(() => new MultiAccountChecker(), /must contain an array/);
+
+    writeAccounts({ login: 'single' });
+    assert.throws(() => new MultiAccountChecker(), /must contain an array/);
+});
+
+test('rejects invalid ignore rules', () => {
+    writeAccounts([{ ...testAccount, ignoreRules: { maskPatterns: ['(unclosed'] } }]);
+    assert.throws(() => new MultiAccountChecker(), /invalid mask pattern/);
+
+    writeAccounts([{ ...testAccount, ignoreRules: { ignoreTables: [0] } }]);
+    assert.throws(() => new MultiAccountChecker(), /ignoreTables/);
+});
+
+test('rejects invalid notification preferences', () => {
+    writeAccounts([{ ...testAccount, recipients: { to: 'anna@example.com' } }]);
+    assert.throws(() => new MultiAccountChecker(), /recipients.to must be a list of email addresses/);
+
+    writeAccounts([{ ...testAccount, recipients: { errorCc: ['not-an-address'] } }]);
+    assert.throws(() => new MultiAccountChecker(), /recipients.errorCc/);
+
+    writeAccounts([{ ...testAccount, language: 'de' }]);
+    assert.throws(() => new MultiAccountChecker(), /language must be one of: en, pl/);
+
+    writeAccounts([{ ...testAccount, notifyOn: { unchanged: false } }]);
+    assert.throws(() => new MultiAccountChecker(), /notifyOn.unchanged is not an event/);
+
+    writeAccounts([{ ...testAccount, notifyOn: { change: 'smtp' } }]);
+    assert.throws(() => new MultiAccountChecker(), /notifyOn.change must be/);
+
+    writeAccounts([{ ...testAccount, notificationChannels: [{ type: 'ntfy' }] }]);
+    assert.throws(() => new MultiAccountChecker(), /accounts.json entry 1 \(test-user\).*missing url/);
+});
+
+test('injects the headless setting into every account', () => {
+    writeAccounts([testAccount, { ...testAccount, login: 'second', headless: true }]);
+
+    const accounts = new MultiAccountChecker(false).loadAccountsConfig();
+    assert.equal(accounts.length, 2);
+    assert.ok(accounts.every(account => account.headless === false));
+});
+
+test('checks applications of a login listed twice in one session', () => {
+    writeAccounts([testAccount, { ...testAccount, elementText: '224518' }, { ...testAccount, login: 'other' }]);
+
+    const accounts = new MultiAccountChecker().loadAccountsConfig();
+    assert.deepEqual(accounts.map(account => [account.login, account.applications]), [
+        ['test-user', ['223199', '224518']],
+        ['other', undefined]
+    ]);
+});
+
+test('rejects malformed application lists', () => {
+    writeAccounts([{ ...testAccount, applications: '223199' }]);
+    assert.throws(() => new MultiAccountChecker(), /applications must be "all" or a list of application numbers/);
+});
+
+test('trackApplication adds a new application to the login in accounts.json', () => {
+    writeAccounts([testAccount, { ...testAccount, login: 'all-user', applications: 'all' }]);
+
+    assert.equal(trackApplication('test-user', '230001'), true);
+    assert.equal(trackApplication('test-user', '230001'), false);
+    assert.equal(trackApplication('all-user', '230001'), false);
+    assert.throws(() => trackApplication('nobody', '230001'), /not found/);
+
+    const accounts = JSON.parse(fs.readFileSync(path.join(project.dir, 'accounts.json'), 'utf8'));
+    assert.deepEqual(accounts[0].applications, ['223199', '230001']);
+    assert.equal(accounts[0].elementText, undefined);
+    assert.equal(accounts[1].applications, 'all');
+});
+
+test('runAll skips paused accounts until they are resumed', async () => {
+    const since = '2024-05-01T08:00:00.000Z';
+    writeAccounts([{ ...testAccount, login: 'anna' }, { ...testAccount, login: 'jan' }]);
+    assert.equal(pauseAccount('anna', { reason: 'Login rejected', category: 'auth', since }), true);
+    assert.equal(pauseAccount('nobody', { reason: 'Login rejected', category: 'auth', since }), false);
+
+    const checked: string[] = [];
+    mock.method(PIOChecker.prototype, 'run', async function (this: PIOChecker) {
+        checked.push((this as unknown as { accountId: string }).accountId);
+        return { status: 'unchanged', changes: [] };
+    });
+
+    const results = await new MultiAccountChecker(true, { accountDelayMs: 0 }).runAll();
+    assert.deepEqual(checked, ['jan']);
+    assert.deepEqual(results.map(result => [result.accountId, result.status, result.errorCategory]), [
+        ['anna', 'paused', 'auth'],
+        ['jan', 'success', undefined]
+    ]);
+    assert.match(results[0]!.error!, /Paused since 2024-05-01T08:00:00.000Z: Login rejected/);
+
+    assert.equal(resumeAccount('anna'), true);
+    assert.equal(resumeAccount('anna'), false);
+    await new MultiAccountChecker(true, { accountDelayMs: 0 }).runAll();
+    assert.deepEqual(checked, ['jan', 'anna', 'jan']);
+});
+
+test('runSingle leaves a paused account alone unless forced', async () => {
+    writeAccounts([{ ...testAccount, login: 'anna' }]);
+    pauseAccount('anna', { reason: 'Account locked', category: 'account-locked', since: '2024-05-01T08:00:00.000Z' });
+
+    let checks = 0;
+    mock.method(PIOChecker.prototype, 'run', async () => {
+        checks++;
+        return { status: 'unchanged', changes: [] };
+    });
+
+    const skipped = await new MultiAccountChecker(true, { accountDelayMs: 0 }).runSingle('anna');
+    assert.equal(checks, 0);
+    assert.equal(skipped.status, 'paused');
+    assert.match(skipped.error!, /Paused since 2024-05-01T08:00:00.000Z: Account locked/);
+
+    const forced = await new MultiAccountChecker(true, { accountDelayMs: 0 }).runSingle('anna', { force: true });
+    assert.equal(checks, 1);
+    assert.equal(forced.status, 'success');
+});
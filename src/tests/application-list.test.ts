@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { applicationIdFromHref, diffApplicationLists, parseApplicationList } from '../application-list';
+import { summarizeChanges } from '../diff';
+import { ApplicationList } from '../types';
+
+const HEADERS = ['Numer wniosku', 'Rodzaj', 'Status'];
+
+function list(...entries: Array<[string, string]>): ApplicationList {
+    return {
+        url: 'https://pio-przybysz.duw.pl/wnioski-przyjete',
+        timestamp: '2024-05-02T08:00:00.000Z',
+        headers: HEADERS,
+        entries: entries.map(([applicationId, status]) => ({ applicationId, cells: [applicationId, 'Pobyt czasowy', status] }))
+    };
+}
+
+test('applicationIdFromHref reads the id after /szczegoly-wniosku/', () => {
+    assert.equal(applicationIdFromHref('/szczegoly-wniosku/224518'), '224518');
+    assert.equal(applicationIdFromHref('https://pio-przybysz.duw.pl/szczegoly-wniosku/224518?tab=2#top'), '224518');
+    assert.equal(applicationIdFromHref('/szczegoly-wniosku/'), null);
+    assert.equal(applicationIdFromHref('/wnioski-przyjete'), null);
+});
+
+test('parseApplicationList keeps the first row of each application', () => {
+    const parsed = parseApplicationList({
+        headers: HEADERS,
+        rows: [
+            { href: '/szczegoly-wniosku/223199', cells: ['223199', 'Pobyt czasowy', 'Nowy'] },
+            { href: '/regulamin', cells: ['Regulamin'] },
+            { href: '/szczegoly-wniosku/223199', cells: ['Szczegóły'] },
+            { href: '/szczegoly-wniosku/224518', cells: ['224518', 'Pobyt stały', 'Przyjęty'] }
+        ]
+    }, 'https://pio-przybysz.duw.pl/wnioski-przyjete', '2024-05-02T08:00:00.000Z');
+
+    assert.deepEqual(parsed.entries, [
+        { applicationId: '223199', cells: ['223199', 'Pobyt czasowy', 'Nowy'] },
+        { applicationId: '224518', cells: ['224518', 'Pobyt stały', 'Przyjęty'] }
+    ]);
+    assert.deepEqual(parsed.headers, HEADERS);
+});
+
+test('diffApplicationLists reports new, removed and changed applications', () => {
+    const changes = diffApplicationLists(
+        list(['223199', 'W trakcie weryfikacji'], ['220001', 'Zakończony']),
+        list(['223199', 'Decyzja wydana'], ['224518', 'Przyjęty'])
+    );
+
+    assert.deepEqual(changes.map(change => [change.kind, change.description]), [
+        ['cell-changed', 'Application 223199: Status changed from "W trakcie weryfikacji" to "Decyzja wydana"'],
+        ['application-added', 'New application 224518 (Pobyt czasowy, Przyjęty)'],
+        ['application-removed', 'Application 220001 is no longer listed']
+    ]);
+    assert.ok(changes.every(change => change.section === 'applications'));
+    assert.equal(changes[0]!.column, 2);
+});
+
+test('diffApplicationLists finds nothing in identical lists', () => {
+    assert.deepEqual(diffApplicationLists(list(['223199', 'Nowy']), list(['223199', 'Nowy'])), []);
+});
+
+test('summarizeChanges spells out application list changes', () => {
+    const changes = diffApplicationLists(list(['223199', 'Nowy']), list(['223199', 'Nowy'], ['224518', 'Przyjęty']));
+    assert.equal(summarizeChanges(changes), 'New application 224518 (Pobyt czasowy, Przyjęty)');
+});
@@ -0,0 +1,177 @@
+import { after, before, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EXIT_CHANGED, EXIT_ERROR, EXIT_UNCHANGED, exitCodeFor, runCli } from '../cli';
+import { closeHistoryStores } from '../storage';
+import { CredentialVault } from '../vault';
+import { makeSnapshot, testAccount, useTempProject, writeJson } from './helpers';
+
+let project: ReturnType<typeof useTempProject>;
+
+before(() => {
+    project = useTempProject();
+    const dir = path.join(project.dir, 'data', testAccount.login, '223199');
+    writeJson(path.join(dir, 'szczegoly-wniosku_2024-03-20T10-00-00.json'), makeSnapshot());
+    writeJson(path.join(dir, 'szczegoly-wniosku_2024-03-27T10-00-00.json'), makeSnapshot({
+        mainText: 'Szczegóły wniosku\nStatus: Decyzja wydana\nEtap: Analiza dokumentów',
+        timestamp: '2024-03-27T10:00:00.000Z'
+    }));
+    writeJson(path.join(project.dir, 'accounts.json'), [testAccount]);
+});
+
+after(() => {
+    closeHistoryStores();
+    project.restore();
+});
+
+async function cli(...argv: string[]): Promise<{ code: number; output: string }> {
+    return cliWithPassword(async () => '', ...argv);
+}
+
+async function cliWithPassword(readPassword: (prompt: string) => Promise<string>, ...argv: string[]): Promise<{ code: number; output: string }> {
+    let output = '';
+    const code = await runCli(argv, text => {
+        output += text;
+    }, readPassword);
+    return { code, output };
+}
+
+test('exitCodeFor puts errors before changes and changes before nothing new', () => {
+    assert.equal(exitCodeFor([{ accountId: 'a', status: 'success', checkStatus: 'unchanged' }]), EXIT_UNCHANGED);
+    assert.equal(exitCodeFor([{ accountId: 'a', status: 'paused' }]), EXIT_UNCHANGED);
+    assert.equal(exitCodeFor([
+        { accountId: 'a', status: 'success', checkStatus: 'unchanged' },
+        { accountId: 'b', status: 'success', checkStatus: 'changed' }
+    ]), EXIT_CHANGED);
+    assert.equal(exitCodeFor([
+        { accountId: 'a', status: 'success', checkStatus: 'changed' },
+        { accountId: 'b', status: 'error', error: 'Login failed' }
+    ]), EXIT_ERROR);
+    assert.equal(exitCodeFor([{
+        accountId: 'a',
+        status: 'success',
+        checkStatus: 'changed',
+        applications: [
+            { applicationId: '223199', status: 'changed', changes: [] },
+            { applicationId: '224518', status: 'error', changes: [], error: 'Application not found' }
+        ]
+    }]), EXIT_ERROR);
+});
+
+test('history lists the snapshots of a login newest first', async () => {
+    const { code, output } = await cli('history', testAccount.login);
+    assert.equal(code, EXIT_UNCHANGED);
+    const lines = output.trim().split('\n');
+    assert.equal(lines.length, 2);
+    assert.match(lines[0]!, /^2024-03-27T10:00:00.000Z {2}223199 {2}szczegoly-wniosku_2024-03-27T10-00-00.json {2}Decyzja wydana \/ Analiza dokumentów {2}\(status changed\)$/);
+
+    const json = await cli('history', testAccount.login, '--limit', '1', '--json');
+    assert.deepEqual(JSON.parse(json.output).map((snapshot: { filename: string }) => snapshot.filename), ['szczegoly-wniosku_2024-03-27T10-00-00.json']);
+
+    assert.equal((await cli('history', 'nobody')).code, EXIT_ERROR);
+});
+
+test('diff compares the latest two snapshots and exits with 1 when they differ', async () => {
+    const { code, output } = await cli('diff', testAccount.login);
+    assert.equal(code, EXIT_CHANGED);
+    assert.match(output, /^szczegoly-wniosku_2024-03-20T10-00-00.json → szczegoly-wniosku_2024-03-27T10-00-00.json\n/);
+    assert.match(output, / {2}- Status changed from "W trakcie weryfikacji" to "Decyzja wydana"/);
+    assert.match(output, /^\+ Status: Decyzja wydana$/m);
+    assert.match(output, /^- Status: W trakcie weryfikacji$/m);
+
+    const same = await cli('diff', testAccount.login, 'szczegoly-wniosku_2024-03-27T10-00-00.json', '--json');
+    assert.equal(same.code, EXIT_UNCHANGED);
+    assert.deepEqual(JSON.parse(same.output).changes, []);
+});
+
+test('accounts add, list and remove edit accounts.json without printing passwords', async () => {
+    assert.equal((await cli('accounts', 'add', 'anna', '--password', 'vault:anna', '--application', '230001', '--application', '230002')).code, EXIT_UNCHANGED);
+    assert.equal((await cli('accounts', 'add', 'anna', '--password', 'vault:again', '--all')).code, EXIT_ERROR);
+    assert.equal((await cli('accounts', 'add', 'jan', '--password', 'vault:jan')).code, EXIT_ERROR);
+
+    const list = await cli('accounts', 'list');
+    assert.equal(list.output, 'test-user: 223199\nanna: 230001, 230002\n');
+    assert.doesNotMatch((await cli('accounts', 'list', '--json')).output, /password|test-pass/);
+
+    assert.equal((await cli('accounts', 'remove', 'anna')).code, EXIT_UNCHANGED);
+    assert.equal((await cli('accounts', 'remove', 'anna')).code, EXIT_ERROR);
+    const accounts = JSON.parse(fs.readFileSync(path.join(project.dir, 'accounts.json'), 'utf8'));
+    assert.deepEqual(accounts.map((acc: { login: string }) => acc.login), [testAccount.login]);
+});
+
+test('accounts add keeps typed passwords off the command line and out of accounts.json', async () => {
+    const prompts: string[] = [];
+    const typed = async (prompt: string) => {
+        prompts.push(prompt);
+        return 'typed-secret';
+    };
+    assert.equal((await cliWithPassword(typed, 'accounts', 'add', 'piotr', '--password', 'plain-secret', '--all')).code, EXIT_ERROR);
+    assert.equal((await cli('accounts', 'add', 'piotr', '--all')).code, EXIT_ERROR);
+
+    process.env.PIO_VAULT_PASSPHRASE = 'cli-test-passphrase';
+    try {
+        assert.equal((await cliWithPassword(typed, 'accounts', 'add', 'piotr', '--all')).code, EXIT_UNCHANGED);
+        assert.deepEqual(prompts, ['Password for piotr: ']);
+        const accounts = JSON.parse(fs.readFileSync(path.join(project.dir, 'accounts.json'), 'utf8'));
+        assert.equal(accounts[1].password, 'vault:piotr/password');
+        assert.equal(CredentialVault.open()!.get('piotr/password'), 'typed-secret');
+    } finally {
+        delete process.env.PIO_VAULT_PASSPHRASE;
+        fs.rmSync(path.join(project.dir, 'vault.json'), { force: true });
+        writeJson(path.join(project.dir, 'accounts.json'), [testAccount]);
+    }
+});
+
+test('accounts validate reports the first broken entry', async () => {
+    const valid = await cli('accounts', 'validate', '--json');
+    assert.equal(valid.code, EXIT_UNCHANGED);
+    assert.deepEqual(JSON.parse(valid.output), { valid: true, accounts: [testAccount.login] });
+
+    const accountsPath = path.join(project.dir, 'accounts.json');
+    const original = fs.readFileSync(accountsPath, 'utf8');
+    try {
+        writeJson(accountsPath, [testAccount, { login: 'anna', elementText: '230001' }]);
+        const missing = await cli('accounts', 'validate', '--json');
+        assert.equal(missing.code, EXIT_ERROR);
+        assert.match(JSON.parse(missing.output).error, /entry 2 \(anna\): login and password are required/);
+    } finally {
+        fs.writeFileSync(accountsPath, original);
+    }
+});
+
+test('unknown commands and options exit with 2', async () => {
+    assert.equal((await cli('fetch')).code, EXIT_ERROR);
+    assert.equal((await cli()).code, EXIT_ERROR);
+    assert.equal((await cli('history', testAccount.login, '--verbose')).code, EXIT_ERROR);
+    assert.equal((await cli('check', '--force')).code, EXIT_ERROR);
+    assert.match((await cli('--help')).output, /^Usage: npm run cli/);
+});
+
+test('--json keeps stdout parseable in a separate process', () => {
+    // .env makes dotenv load something; a notification command writes to stdout
+    fs.writeFileSync(path.join(project.dir, '.env'), 'PIO_TEST_VARIABLE=1\n');
+    writeJson(path.join(project.dir, 'accounts.json'), [{
+        ...testAccount,
+        notificationChannels: [{ type: 'command', command: 'echo notified' }]
+    }]);
+    const run = (...argv: string[]) => spawnSync(process.execPath, ['--import', require.resolve('tsx'), path.join(__dirname, '..', 'cli.ts'), ...argv], {
+        cwd: project.dir,
+        encoding: 'utf8',
+        timeout: 60000
+    });
+    try {
+        const list = run('accounts', 'list', '--json');
+        assert.equal(list.status, EXIT_UNCHANGED, list.stderr);
+        assert.deepEqual(JSON.parse(list.stdout), [{ login: testAccount.login, applications: ['223199'] }]);
+
+        const notify = run('notify', 'test', '--json');
+        assert.equal(notify.status, EXIT_UNCHANGED, notify.stderr);
+        assert.equal(JSON.parse(notify.stdout)[0].success, true);
+        assert.match(notify.stderr, /notified/);
+    } finally {
+        fs.rmSync(path.join(project.dir, '.env'));
+        writeJson(path.join(project.dir, 'accounts.json'), [testAccount]);
+    }
+});
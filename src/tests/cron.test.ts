@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { nextCronTime, parseCron } from '../cron';
+
+// Monday 18 March 2024, local time
+const monday = (hours: number, minutes: number = 0) => new Date(2024, 2, 18, hours, minutes);
+
+function next(expression: string, after: Date): Date | null {
+    return nextCronTime(parseCron(expression), after);
+}
+
+test('parseCron reads ranges, steps, lists and names and names the broken field', () => {
+    const fields = parseCron('0,30 9-17/2 * jan-mar mon-fri');
+    assert.deepEqual([...fields.minutes], [0, 30]);
+    assert.deepEqual([...fields.hours], [9, 11, 13, 15, 17]);
+    assert.deepEqual([...fields.months], [1, 2, 3]);
+    assert.deepEqual([...fields.weekdays], [1, 2, 3, 4, 5]);
+    // 7 is Sunday too
+    assert.deepEqual([...parseCron('0 9 * * 7').weekdays], [0]);
+
+    assert.throws(() => parseCron('0 9 * *'), /needs 5 fields/);
+    assert.throws(() => parseCron('60 9 * * *'), /"60" is out of range 0-59/);
+    assert.throws(() => parseCron('0 9 * * fun'), /"fun" is out of range 0-7/);
+    assert.throws(() => parseCron('*/0 * * * *'), /out of range/);
+});
+
+test('nextCronTime finds the next matching minute', () => {
+    assert.deepEqual(next('*/15 * * * *', monday(8, 7)), monday(8, 15));
+    assert.deepEqual(next('0 9 * * 1', monday(9)), new Date(2024, 2, 25, 9, 0));
+    assert.deepEqual(next('30 6 * * sat,sun', monday(9)), new Date(2024, 2, 23, 6, 30));
+    assert.deepEqual(next('0 0 1 * *', monday(9)), new Date(2024, 3, 1, 0, 0));
+    assert.deepEqual(next('0 12 29 2 *', monday(9)), new Date(2028, 1, 29, 12, 0));
+    // A restricted day of month and weekday match either one
+    assert.deepEqual(next('0 9 1 * 3', monday(9)), new Date(2024, 2, 20, 9, 0));
+});
+
+// Runs the test in a time zone with daylight-saving time; Node.js picks up a changed TZ right away
+function inWarsaw(run: () => void): void {
+    const previous = process.env.TZ;
+    process.env.TZ = 'Europe/Warsaw';
+    try {
+        run();
+    } finally {
+        if (previous === undefined) {
+            delete process.env.TZ;
+        } else {
+            process.env.TZ = previous;
+        }
+    }
+}
+
+test('nextCronTime runs a time skipped by the spring-forward change at the first minute after it', () => {
+    inWarsaw(() => {
+        // 29 March 2026: 02:00 CET is followed by 03:00 CEST
+        const nightly = parseCron('30 2 * * *');
+        assert.deepEqual(nextCronTime(nightly, new Date('2026-03-28T23:00:00Z')), new Date('2026-03-29T01:00:00Z'));
+        assert.deepEqual(nextCronTime(nightly, new Date('2026-03-29T01:00:00Z')), new Date('2026-03-30T00:30:00Z'));
+
+        // Every time in the gap runs once
+        const quarterly = parseCron('*/15 2 * * *');
+        assert.deepEqual(nextCronTime(quarterly, new Date('2026-03-28T23:00:00Z')), new Date('2026-03-29T01:00:00Z'));
+        assert.deepEqual(nextCronTime(quarterly, new Date('2026-03-29T01:00:00Z')), new Date('2026-03-30T00:00:00Z'));
+    });
+});
+
+test('nextCronTime runs a fixed time once when the clock goes back, hourly expressions in both hours', () => {
+    inWarsaw(() => {
+        // 25 October 2026: 03:00 CEST is followed by 02:00 CET, so 02:00-02:59 happens twice
+        const nightly = parseCron('30 2 * * *');
+        assert.deepEqual(nextCronTime(nightly, new Date('2026-10-24T22:00:00Z')), new Date('2026-10-25T00:30:00Z'));
+        assert.deepEqual(nextCronTime(nightly, new Date('2026-10-25T00:30:00Z')), new Date('2026-10-26T01:30:00Z'));
+
+        const quarterly = parseCron('*/15 * * * *');
+        assert.deepEqual(nextCronTime(quarterly, new Date('2026-10-25T00:45:00Z')), new Date('2026-10-25T01:00:00Z'));
+        assert.deepEqual(nextCronTime(quarterly, new Date('2026-10-25T00:50:00Z')), new Date('2026-10-25T01:00:00Z'));
+        assert.deepEqual(nextCronTime(quarterly, new Date('2026-10-25T01:10:00Z')), new Date('2026-10-25T01:15:00Z'));
+        assert.deepEqual(nextCronTime(quarterly, new Date('2026-10-25T01:45:00Z')), new Date('2026-10-25T02:00:00Z'));
+    });
+});
@@ -0,0 +1,102 @@
+import { after, afterEach, before, mock, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { MultiAccountChecker } from '../pio-checker';
+import { CheckRunner, RunnerStatus } from '../check-runner';
+import { Daemon } from '../daemon';
+import { initializeLogs, startupHeader } from '../logger';
+import { getScheduleStatePath, loadScheduleState } from '../schedule-state';
+import { AccountRunResult } from '../types';
+import { testAccount, useTempProject, writeJson } from './helpers';
+
+let project: ReturnType<typeof useTempProject>;
+
+before(() => {
+    project = useTempProject();
+    writeJson(path.join(project.dir, 'accounts.json'), [testAccount]);
+    writeJson(path.join(project.dir, 'settings.json'), { scheduleEnabled: true, scheduleType: 'interval', scheduleInterval: 30 });
+});
+
+after(() => {
+    project.restore();
+});
+
+afterEach(() => {
+    mock.restoreAll();
+});
+
+function readLog(): string {
+    return fs.readFileSync(path.join(project.dir, 'logs', 'current.log'), 'utf8');
+}
+
+// runAll stays pending until the returned function is called
+function holdRunAll(): () => void {
+    let finish: (results: AccountRunResult[]) => void = () => undefined;
+    mock.method(MultiAccountChecker.prototype, 'runAll', () => new Promise<AccountRunResult[]>(resolve => {
+        finish = resolve;
+    }));
+    return () => finish([{ accountId: testAccount.login, status: 'success', checkStatus: 'unchanged' }]);
+}
+
+test('initializeLogs keeps the log of the previous start', () => {
+    initializeLogs(startupHeader('First Start'));
+    initializeLogs(startupHeader('Second Start'));
+
+    assert.match(fs.readFileSync(path.join(project.dir, 'logs', 'previous.log'), 'utf8'), /=== First Start ===/);
+    assert.match(readLog(), /^\[[^\]]+\] \[INFO\] === Second Start ===\n/);
+});
+
+test('CheckRunner skips a check while another one is running', async () => {
+    const finish = holdRunAll();
+    const statuses: RunnerStatus['status'][] = [];
+    const runner = new CheckRunner({ onStatus: status => statuses.push(status.status) });
+
+    const first = runner.run();
+    assert.equal(runner.isRunning, true);
+    assert.equal(await runner.run(), null);
+    assert.match(readLog(), /\[WARN\] Check already in progress/);
+
+    finish();
+    assert.deepEqual((await first)!.map(result => result.checkStatus), ['unchanged']);
+    assert.equal(runner.isRunning, false);
+    assert.deepEqual(statuses, ['running', 'completed']);
+    assert.match(readLog(), /Check completed successfully. Results: test-user=unchanged/);
+    assert.ok(loadScheduleState()[testAccount.login]!.lastCheck);
+});
+
+test('Daemon.stop waits for the check in progress', async () => {
+    // No check recorded, nothing to catch up on
+    fs.rmSync(getScheduleStatePath(), { force: true });
+    const finish = holdRunAll();
+    const runner = new CheckRunner();
+    const daemon = new Daemon(runner);
+    daemon.start();
+    assert.match(readLog(), /Scheduled check for every 30 minutes/);
+
+    const check = runner.run();
+    let stopped = false;
+    const stopping = daemon.stop().then(() => {
+        stopped = true;
+    });
+    await new Promise(resolve => setImmediate(resolve));
+    assert.equal(stopped, false);
+
+    finish();
+    await Promise.all([check, stopping]);
+    assert.equal(stopped, true);
+});
+
+test('Daemon catches up on a check missed while it was stopped', async () => {
+    writeJson(getScheduleStatePath(), { [testAccount.login]: { lastCheck: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString() } });
+    const finish = holdRunAll();
+    const runner = new CheckRunner();
+    const daemon = new Daemon(runner);
+    daemon.start();
+
+    assert.equal(runner.isRunning, true);
+    assert.match(readLog(), /Catching up on missed scheduled checks \(daemon started\): every 30 minutes at .+ for test-user/);
+    finish();
+    await daemon.stop();
+    assert.equal(runner.isRunning, false);
+});
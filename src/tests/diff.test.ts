@@ -0,0 +1,82 @@
+import { after, before, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { PIOChecker } from '../pio-checker';
+import { diffNumbers, diffTables, diffText, summarizeChanges } from '../diff';
+import { makeSnapshot, testAccount, useTempProject } from './helpers';
+
+let project: ReturnType<typeof useTempProject>;
+let checker: PIOChecker;
+
+before(() => {
+    project = useTempProject();
+    checker = new PIOChecker(testAccount);
+});
+
+after(() => {
+    project.restore();
+});
+
+test('compareData reports no changes for identical snapshots', () => {
+    assert.deepEqual(checker.compareData(makeSnapshot(), makeSnapshot()), []);
+});
+
+test('compareData reports a status change as a field change first', () => {
+    const previous = makeSnapshot();
+    const current = makeSnapshot({ mainText: previous.mainText.replace('W trakcie weryfikacji', 'Decyzja wydana') });
+
+    const changes = checker.compareData(previous, current);
+    assert.equal(changes[0]!.kind, 'field-changed');
+    assert.equal(changes[0]!.oldValue, 'W trakcie weryfikacji');
+    assert.equal(changes[0]!.newValue, 'Decyzja wydana');
+    assert.ok(changes.some(change => change.kind === 'line-removed'));
+    assert.ok(changes.some(change => change.kind === 'line-added'));
+});
+
+test('compareData derives details for snapshots saved without them', () => {
+    const previous = makeSnapshot();
+    const current = makeSnapshot({ mainText: previous.mainText.replace('Analiza dokumentów', 'Decyzja') });
+    delete previous.details;
+
+    const stageChange = checker.compareData(previous, current).find(change => change.location === 'Stage');
+    assert.ok(stageChange);
+    assert.equal(stageChange.newValue, 'Decyzja');
+});
+
+test('diffTables pairs modified rows and reports cell changes with the column header', () => {
+    const changes = diffTables(
+        [[['Data', 'Status'], ['01.01.2024', 'Nowy'], ['02.01.2024', 'Nowy']]],
+        [[['Data', 'Status'], ['01.01.2024', 'W toku'], ['02.01.2024', 'Nowy'], ['03.01.2024', 'Nowy']]]
+    );
+
+    assert.deepEqual(changes.map(change => change.kind), ['cell-changed', 'row-added']);
+    assert.equal(changes[0]!.location, 'Table 1, row 2, column Status');
+    assert.equal(changes[0]!.column, 1);
+    assert.equal(changes[1]!.newValue, '03.01.2024 | Nowy');
+});
+
+test('diffTables reports added and removed tables', () => {
+    const added = diffTables([], [[['a']]]);
+    assert.equal(added[0]!.kind, 'table-added');
+
+    const removed = diffTables([[['a']]], []);
+    assert.equal(removed[0]!.kind, 'table-removed');
+});
+
+test('diffText returns line-level additions and removals', () => {
+    const changes = diffText('a\nb\nc', 'a\nc\nd');
+    assert.deepEqual(changes.map(change => `${change.kind}:${change.oldValue ?? change.newValue}`), ['line-removed:b', 'line-added:d']);
+});
+
+test('diffNumbers treats numbers as a multiset', () => {
+    const changes = diffNumbers(['1', '1', '2'], ['1', '2', '3']);
+    assert.deepEqual(changes.map(change => change.description), ['Number/date added: 3', 'Number/date removed: 1']);
+});
+
+test('summarizeChanges lists field changes and counts the rest', () => {
+    const previous = makeSnapshot();
+    const current = makeSnapshot({ mainText: previous.mainText.replace('W trakcie weryfikacji', 'Decyzja wydana') });
+
+    const summary = summarizeChanges(checker.compareData(previous, current));
+    assert.match(summary, /^Status changed from "W trakcie weryfikacji" to "Decyzja wydana"/);
+    assert.match(summary, /2 text line change\(s\)/);
+});
@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+    ApplicationNotFoundError,
+    AuthenticationError,
+    backoffDelay,
+    CheckError,
+    classifyError,
+    createCheckError,
+    NavigationTimeoutError,
+    SiteUnavailableError,
+    withContext
+} from '../errors';
+
+test('classifyError maps timeouts and network failures onto categories', () => {
+    const timeout = new Error('Navigation timeout of 60000 ms exceeded');
+    timeout.name = 'TimeoutError';
+
+    assert.ok(classifyError(timeout) instanceof NavigationTimeoutError);
+    assert.ok(classifyError(new Error('net::ERR_NAME_NOT_RESOLVED at https://pio-przybysz.duw.pl/login')) instanceof SiteUnavailableError);
+    assert.equal(classifyError('something odd').category, 'unknown');
+
+    const auth = new AuthenticationError('Login rejected');
+    assert.equal(classifyError(auth), auth);
+});
+
+test('only site, timeout and unknown errors are transient', () => {
+    assert.equal(new SiteUnavailableError('x').transient, true);
+    assert.equal(new NavigationTimeoutError('x').transient, true);
+    assert.equal(new CheckError('unknown', 'x').transient, true);
+    assert.equal(new AuthenticationError('x').transient, false);
+    assert.equal(new ApplicationNotFoundError('x').transient, false);
+    assert.equal(createCheckError('selector-changed', 'x').transient, false);
+});
+
+test('withContext keeps the error class and category', () => {
+    const error = withContext(new AuthenticationError('Login rejected'), 'Failed after 1 attempt(s)');
+
+    assert.ok(error instanceof AuthenticationError);
+    assert.equal(error.name, 'AuthenticationError');
+    assert.equal(error.message, 'Failed after 1 attempt(s): Login rejected');
+});
+
+test('backoffDelay doubles per attempt with jitter and a cap', () => {
+    assert.deepEqual([1, 2, 3].map(attempt => backoffDelay(attempt, 5000, 60000, () => 0)), [5000, 10000, 20000]);
+    assert.equal(backoffDelay(2, 5000, 60000, () => 1), 12000);
+    assert.equal(backoffDelay(10, 5000, 60000, () => 0), 60000);
+});
@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { extractApplicationDetails, extractNumbers } from '../extractor';
+
+test('extracts inline, next-line and table labelled fields', () => {
+    const text = [
+        'Numer sprawy: SO-IV.6151.12345.2024',
+        'Data złożenia wniosku',
+        '12.03.2024',
+        'Etap: Analiza dokumentów'
+    ].join('\n');
+    const tables = [[['Status', 'W trakcie weryfikacji'], ['Osoba prowadząca', 'Jan Kowalski']]];
+
+    const details = extractApplicationDetails(text, tables);
+
+    assert.equal(details.caseNumber, 'SO-IV.6151.12345.2024');
+    assert.equal(details.submissionDate, '12.03.2024');
+    assert.equal(details.stage, 'Analiza dokumentów');
+    assert.equal(details.status, 'W trakcie weryfikacji');
+    assert.equal(details.caseHandler, 'Jan Kowalski');
+    assert.equal(details.applicationNumber, null);
+});
+
+test('extracts deadlines, correspondence and missing-document requests', () => {
+    const text = 'Termin na uzupełnienie: 20.05.2024\nWezwanie do uzupełnienia braków formalnych';
+    const tables = [[['Data', 'Dokument'], ['01.04.2024', 'Wezwanie do uzupełnienia braków']]];
+
+    const details = extractApplicationDetails(text, tables);
+
+    assert.deepEqual(details.deadlines, [{ label: 'Termin na uzupełnienie', date: '20.05.2024' }]);
+    assert.deepEqual(details.correspondence, [{
+        date: '01.04.2024',
+        title: 'Wezwanie do uzupełnienia braków',
+        cells: ['01.04.2024', 'Wezwanie do uzupełnienia braków']
+    }]);
+    assert.deepEqual(details.missingDocuments, ['Wezwanie do uzupełnienia braków formalnych']);
+});
+
+test('extractNumbers finds dates and numbers in page text', () => {
+    assert.deepEqual(extractNumbers('Wniosek 223199 z dnia 12.03.2024'), ['223199', '12.03.2024']);
+});
@@ -0,0 +1,53 @@
+import { after, before, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getFailureFile, listFailures, pruneFailures } from '../failures';
+import { useTempProject, writeJson } from './helpers';
+
+let project: ReturnType<typeof useTempProject>;
+
+before(() => {
+    project = useTempProject();
+});
+
+after(() => {
+    project.restore();
+});
+
+function writeCapture(accountDir: string, run: string, name: string, capturedAt: string): void {
+    writeJson(path.join(accountDir, 'failures', run, name, 'failure.json'), {
+        run, name, dir: '/moved/elsewhere', capturedAt, attempt: 1, url: 'https://pio-przybysz.duw.pl/login',
+        error: 'Login rejected', errorCategory: 'auth', files: ['page.html']
+    });
+    fs.writeFileSync(path.join(accountDir, 'failures', run, name, 'page.html'), '<html></html>');
+}
+
+test('listFailures returns the newest run first with its captures', () => {
+    const accountDir = path.join(project.dir, 'data', 'anna');
+    assert.deepEqual(listFailures(accountDir), []);
+    writeCapture(accountDir, '2024-05-01T08-00-00', 'attempt-1', '2024-05-01T08:00:05.000Z');
+    writeCapture(accountDir, '2024-05-02T08-00-00', 'attempt-2', '2024-05-02T08:01:00.000Z');
+    writeCapture(accountDir, '2024-05-02T08-00-00', 'attempt-1-223199', '2024-05-02T08:00:10.000Z');
+
+    const runs = listFailures(accountDir);
+    assert.deepEqual(runs.map(run => [run.run, run.captures.map(capture => capture.name)]), [
+        ['2024-05-02T08-00-00', ['attempt-1-223199', 'attempt-2']],
+        ['2024-05-01T08-00-00', ['attempt-1']]
+    ]);
+    assert.equal(runs[1]!.captures[0]!.dir, path.join(accountDir, 'failures', '2024-05-01T08-00-00', 'attempt-1'));
+
+    assert.equal(getFailureFile(accountDir, '2024-05-01T08-00-00', 'attempt-1', 'page.html'),
+        path.join(accountDir, 'failures', '2024-05-01T08-00-00', 'attempt-1', 'page.html'));
+    assert.throws(() => getFailureFile(accountDir, '..', 'anna', 'session.json'), /Invalid failure file/);
+    assert.throws(() => getFailureFile(accountDir, '2024-05-01T08-00-00', 'attempt-1', 'screenshot.png'), /not found/);
+});
+
+test('pruneFailures keeps the newest runs only', () => {
+    const accountDir = path.join(project.dir, 'data', 'jan');
+    ['2024-05-01', '2024-05-02', '2024-05-03'].forEach(day => writeCapture(accountDir, `${day}T08-00-00`, 'attempt-1', `${day}T08:00:00.000Z`));
+
+    assert.equal(pruneFailures(accountDir, 2), 1);
+    assert.deepEqual(listFailures(accountDir).map(run => run.run), ['2024-05-03T08-00-00', '2024-05-02T08-00-00']);
+    assert.equal(pruneFailures(accountDir, 2), 0);
+});
@@ -0,0 +1,45 @@
+// Shared helpers for the automated test suite
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ScrapedData } from '../types';
+
+// Run each test file in its own temporary project directory (data/, accounts.json, settings.json)
+export function useTempProject(): { dir: string; restore: () => void } {
+    const previousCwd = process.cwd();
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pio-test-'));
+    process.chdir(dir);
+
+    return {
+        dir,
+        restore: () => {
+            process.chdir(previousCwd);
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    };
+}
+
+export function writeJson(file: string, content: unknown): void {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(content, null, 2));
+}
+
+export function makeSnapshot(overrides: Partial<ScrapedData> = {}): ScrapedData {
+    return {
+        mainText: 'Szczegóły wniosku\nStatus: W trakcie weryfikacji\nEtap: Analiza dokumentów',
+        fields: {
+            tables: [[['Data', 'Dokument'], ['14.03.2024', 'Potwierdzenie złożenia wniosku']]],
+            numbers: ['14.03.2024']
+        },
+        url: 'https://pio-przybysz.duw.pl/szczegoly-wniosku/223199',
+        timestamp: '2024-03-20T10:00:00.000Z',
+        elementText: '223199',
+        ...overrides
+    };
+}
+
+export const testAccount = {
+    login: 'test-user',
+    password: 'test-pass',
+    elementText: '223199'
+};
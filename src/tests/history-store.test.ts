@@ -0,0 +1,158 @@
+import { after, before, mock, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { closeHistoryStores, HistoryStore, importJsonHistory, JsonHistoryStore, loadSqlite, openHistoryStore, SqliteHistoryStore } from '../storage';
+import { DataChange } from '../types';
+import { makeSnapshot, useTempProject, writeJson } from './helpers';
+
+let project: ReturnType<typeof useTempProject>;
+
+before(() => {
+    project = useTempProject();
+});
+
+after(() => {
+    mock.timers.reset();
+    project.restore();
+});
+
+// node:sqlite needs Node.js 22.13+; the JSON store is tested everywhere
+const noSqlite = loadSqlite() === null ? 'node:sqlite is not available in this Node.js version' : false;
+
+const statusChange: DataChange = {
+    kind: 'field-changed',
+    section: 'details',
+    location: 'Status',
+    oldValue: 'W trakcie weryfikacji',
+    newValue: 'Decyzja wydana',
+    description: 'Status changed from "W trakcie weryfikacji" to "Decyzja wydana"'
+};
+
+function exerciseStore(store: HistoryStore): void {
+    mock.timers.enable({ apis: ['Date'], now: new Date(2024, 2, 20, 10, 0, 0).getTime() });
+    try {
+        store.touchAccount('anna', '2024-03-20T09:00:00.000Z');
+        store.touchAccount('anna', '2024-03-21T09:00:00.000Z');
+        assert.deepEqual(store.listAccounts(), [{ login: 'anna', firstSeen: '2024-03-20T09:00:00.000Z', lastSeen: '2024-03-21T09:00:00.000Z' }]);
+
+        assert.equal(store.latestSnapshot('anna', '223199'), null);
+        const first = store.saveSnapshot('anna', makeSnapshot());
+        assert.equal(first.saved, true);
+        assert.equal(first.snapshot.name, 'szczegoly-wniosku_2024-03-20T10-00-00.json');
+
+        const repeated = store.saveSnapshot('anna', makeSnapshot({ timestamp: '2024-03-20T11:00:00.000Z' }));
+        assert.equal(repeated.saved, false);
+        assert.deepEqual(store.listChecks('anna', '223199').map(record => [record.timestamp, record.snapshot]), [
+            ['2024-03-20T11:00:00.000Z', first.snapshot.name]
+        ]);
+
+        mock.timers.tick(60000);
+        const decided = store.saveSnapshot('anna', makeSnapshot({ mainText: 'Status: Decyzja wydana', timestamp: '2024-03-20T12:00:00.000Z' }));
+        assert.equal(decided.saved, true);
+        assert.equal(store.latestSnapshot('anna', '223199')!.name, decided.snapshot.name);
+        assert.equal(store.readSnapshot('anna', '223199', first.snapshot.name).mainText, makeSnapshot().mainText);
+        assert.deepEqual(store.listSnapshots('anna').map(snapshot => snapshot.name), [first.snapshot.name, decided.snapshot.name]);
+        assert.deepEqual(store.listApplications('anna'), ['223199']);
+        assert.throws(() => store.readSnapshot('anna', '..', first.snapshot.name), /Invalid snapshot/);
+
+        store.recordChanges('anna', '223199', decided.snapshot.name, [statusChange], '2024-03-20T12:00:00.000Z');
+        assert.deepEqual(store.listChanges('anna', '223199').map(record => [record.snapshot, record.change.description]), [
+            [decided.snapshot.name, statusChange.description]
+        ]);
+        assert.deepEqual(store.listChanges('anna', '224518'), []);
+
+        store.recordRun({ login: 'anna', startedAt: '2024-03-20T09:00:00.000Z', finishedAt: '2024-03-20T09:01:00.000Z', status: 'first-run', applications: ['223199'] });
+        store.recordRun({ login: 'anna', startedAt: '2024-03-20T12:00:00.000Z', finishedAt: '2024-03-20T12:01:00.000Z', status: 'error', applications: [], error: 'Login failed', errorCategory: 'auth' });
+        assert.deepEqual(store.listRuns('anna', 1).map(run => [run.status, run.errorCategory]), [['error', 'auth']]);
+        assert.equal(store.listRuns('anna').length, 2);
+
+        store.recordDeliveries([
+            { login: 'anna', application: '223199', event: 'change', channel: 'desktop', success: true, sentAt: '2024-03-20T12:00:01.000Z' },
+            { login: 'anna', event: 'error', channel: 'smtp', success: false, error: 'Timeout', sentAt: '2024-03-20T12:01:01.000Z' }
+        ]);
+        assert.deepEqual(store.listDeliveries('anna').map(delivery => [delivery.channel, delivery.success, delivery.error ?? null]), [
+            ['smtp', false, 'Timeout'],
+            ['desktop', true, null]
+        ]);
+    } finally {
+        mock.timers.reset();
+    }
+}
+
+test('the JSON store keeps snapshots, checks, runs, changes and deliveries in data/<login>/', () => {
+    const dataDir = path.join(project.dir, 'json-data');
+    exerciseStore(new JsonHistoryStore(dataDir));
+
+    assert.deepEqual(fs.readdirSync(path.join(dataDir, 'anna')).sort(), ['223199', 'account.json', 'changes.jsonl', 'deliveries.jsonl', 'runs.jsonl']);
+    assert.ok(fs.existsSync(path.join(dataDir, 'anna', '223199', 'checks.jsonl')));
+});
+
+test('the SQLite store keeps the same history in one database', { skip: noSqlite }, () => {
+    const store = new SqliteHistoryStore(path.join(project.dir, 'sqlite-data', 'history.db'));
+    exerciseStore(store);
+    store.close();
+});
+
+test('the SQLite store keeps the order of snapshots taken within the same second', { skip: noSqlite }, () => {
+    const store = new SqliteHistoryStore(path.join(project.dir, 'same-second', 'history.db'));
+    mock.timers.enable({ apis: ['Date'], now: new Date(2024, 2, 31, 2, 30, 0).getTime() });
+    try {
+        store.saveSnapshot('anna', makeSnapshot({ mainText: 'first' }));
+        const second = store.saveSnapshot('anna', makeSnapshot({ mainText: 'second' }));
+        assert.equal(second.snapshot.name, 'szczegoly-wniosku_2024-03-31T02-30-00-2.json');
+        assert.equal(store.latestSnapshot('anna', '223199')!.data.mainText, 'second');
+    } finally {
+        mock.timers.reset();
+        store.close();
+    }
+});
+
+test('the JSON store gives snapshots taken within the same second their own file', () => {
+    const store = new JsonHistoryStore(path.join(project.dir, 'json-same-second'));
+    mock.timers.enable({ apis: ['Date'], now: new Date(2024, 2, 31, 2, 30, 0).getTime() });
+    try {
+        store.saveSnapshot('anna', makeSnapshot({ mainText: 'first' }));
+        const second = store.saveSnapshot('anna', makeSnapshot({ mainText: 'second' }));
+        const third = store.saveSnapshot('anna', makeSnapshot({ mainText: 'third' }));
+        assert.equal(second.snapshot.name, 'szczegoly-wniosku_2024-03-31T02-30-00-2.json');
+        assert.equal(third.snapshot.name, 'szczegoly-wniosku_2024-03-31T02-30-00-3.json');
+        assert.deepEqual(store.listSnapshots('anna').map(snapshot => snapshot.data.mainText), ['first', 'second', 'third']);
+        assert.equal(store.latestSnapshot('anna', '223199')!.data.mainText, 'third');
+    } finally {
+        mock.timers.reset();
+    }
+});
+
+test('openHistoryStore keeps the JSON files when node:sqlite is missing', { skip: !noSqlite && 'node:sqlite is available' }, () => {
+    const warn = mock.method(console, 'warn', () => {});
+    try {
+        const store = openHistoryStore('sqlite', path.join(project.dir, 'fallback-data'));
+        assert.equal(store.kind, 'json');
+        assert.match(String(warn.mock.calls[0]?.arguments[0]), /needs node:sqlite.*using the JSON files/);
+    } finally {
+        warn.mock.restore();
+        closeHistoryStores();
+    }
+});
+
+test('importJsonHistory copies both folder layouts and can be repeated', { skip: noSqlite }, () => {
+    const dataDir = path.join(project.dir, 'import-data');
+    writeJson(path.join(dataDir, 'jan', 'szczegoly-wniosku_2024-01-01T10-00-00.json'), makeSnapshot({ elementText: '224518' }));
+    writeJson(path.join(dataDir, 'jan', '223199', 'szczegoly-wniosku_2024-02-01T10-00-00.json'), makeSnapshot());
+    writeJson(path.join(dataDir, 'jan', '223199', 'szczegoly-wniosku_2024-02-02T10-00-00.json'), makeSnapshot({ mainText: 'Status: Decyzja wydana' }));
+    const source = new JsonHistoryStore(dataDir);
+    source.recordRun({ login: 'jan', startedAt: '2024-02-02T10:00:00.000Z', finishedAt: '2024-02-02T10:01:00.000Z', status: 'changed', applications: ['223199'] });
+    source.recordChanges('jan', '223199', 'szczegoly-wniosku_2024-02-02T10-00-00.json', [statusChange], '2024-02-02T10:00:00.000Z');
+
+    const target = new SqliteHistoryStore(path.join(dataDir, 'history.db'));
+    const summary = importJsonHistory(dataDir, target);
+    assert.deepEqual(summary, { accounts: 1, snapshots: 3, skipped: 0, checks: 0, runs: 1, changes: 1, deliveries: 0 });
+    assert.deepEqual(target.listApplications('jan'), ['223199', '224518']);
+    assert.equal(target.latestSnapshot('jan', '223199')!.name, 'szczegoly-wniosku_2024-02-02T10-00-00.json');
+
+    const again = importJsonHistory(dataDir, target);
+    assert.deepEqual(again, { accounts: 1, snapshots: 0, skipped: 3, checks: 0, runs: 0, changes: 0, deliveries: 0 });
+    assert.equal(target.listRuns('jan').length, 1);
+    target.close();
+});
@@ -0,0 +1,105 @@
+import { after, before, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { compareSnapshots, diffLines, listSnapshots, toSideBySide } from '../history';
+import { DUW_PROFILE } from '../site-profile';
+import { JsonHistoryStore } from '../storage';
+import { makeSnapshot, useTempProject, writeJson } from './helpers';
+
+let project: ReturnType<typeof useTempProject>;
+let accountDir: string;
+let store: JsonHistoryStore;
+
+const FIRST = 'szczegoly-wniosku_2024-03-20T10-00-00.json';
+const SECOND = 'szczegoly-wniosku_2024-03-21T10-00-00.json';
+const THIRD = 'szczegoly-wniosku_2024-03-22T10-00-00.json';
+
+before(() => {
+    project = useTempProject();
+    accountDir = path.join(project.dir, 'data', 'anna');
+    store = new JsonHistoryStore(path.join(project.dir, 'data'));
+    const decided = makeSnapshot().mainText.replace('W trakcie weryfikacji', 'Decyzja wydana');
+    writeJson(path.join(accountDir, '223199', FIRST), makeSnapshot({ timestamp: '2024-03-20T10:00:00.000Z' }));
+    writeJson(path.join(accountDir, '223199', SECOND), makeSnapshot({ timestamp: '2024-03-21T10:00:00.000Z' }));
+    writeJson(path.join(accountDir, '223199', THIRD), makeSnapshot({
+        timestamp: '2024-03-22T10:00:00.000Z',
+        mainText: `${decided}\nSesja wygaśnie za 14:59`,
+        fields: { tables: [[['Data', 'Dokument'], ['14.03.2024', 'Potwierdzenie złożenia wniosku'], ['22.03.2024', 'Decyzja']]], numbers: [] }
+    }));
+    writeJson(path.join(accountDir, '224518', FIRST), makeSnapshot({ elementText: '224518' }));
+    fs.writeFileSync(path.join(accountDir, '224518', SECOND), '{ broken');
+});
+
+after(() => {
+    project.restore();
+});
+
+test('listSnapshots returns the whole history newest first and marks status changes', () => {
+    const history = listSnapshots(store, 'anna');
+
+    assert.deepEqual(history.map(snapshot => [snapshot.application, snapshot.filename, snapshot.status, snapshot.statusChanged]), [
+        ['223199', THIRD, 'Decyzja wydana', true],
+        ['223199', SECOND, 'W trakcie weryfikacji', false],
+        ['223199', FIRST, 'W trakcie weryfikacji', false],
+        ['224518', FIRST, 'W trakcie weryfikacji', false]
+    ]);
+    assert.equal(listSnapshots(store, 'anna', '224518').length, 1);
+    assert.deepEqual(listSnapshots(store, 'nobody'), []);
+});
+
+test('readSnapshot only opens snapshot files of the account', () => {
+    assert.equal(store.readSnapshot('anna', '223199', FIRST).timestamp, '2024-03-20T10:00:00.000Z');
+    assert.throws(() => store.readSnapshot('anna', '..', FIRST), /Invalid snapshot/);
+    assert.throws(() => store.readSnapshot('anna', '223199', '../../accounts.json'), /Invalid snapshot/);
+    assert.throws(() => store.readSnapshot('anna', '223199', 'szczegoly-wniosku_2030-01-01T00-00-00.json'), /not found/);
+});
+
+test('compareSnapshots diffs text and tables in either order and applies ignore rules', () => {
+    const comparison = compareSnapshots(store, 'anna', '223199', THIRD, FIRST, { maskPatterns: ['Sesja wygaśnie za \\d+:\\d{2}'] });
+
+    assert.equal(comparison.from.filename, FIRST);
+    assert.equal(comparison.to.filename, THIRD);
+    assert.equal(comparison.to.statusChanged, true);
+    assert.match(comparison.summary, /Status changed from "W trakcie weryfikacji" to "Decyzja wydana"/);
+
+    const changedText = comparison.text.filter(line => line.type !== 'equal').map(line => [line.type, line.text]);
+    assert.deepEqual(changedText, [
+        ['removed', 'Status: W trakcie weryfikacji'],
+        ['added', 'Status: Decyzja wydana'],
+        ['added', '***']
+    ]);
+    assert.deepEqual(comparison.sideBySide[1], {
+        left: { type: 'removed', text: 'Status: W trakcie weryfikacji', oldLine: 2 },
+        right: { type: 'added', text: 'Status: Decyzja wydana', newLine: 2 }
+    });
+
+    const [table] = comparison.tables;
+    assert.equal(table!.type, 'changed');
+    assert.deepEqual(table!.rows.map(row => row.type), ['equal', 'equal', 'added']);
+    assert.deepEqual(table!.rows[2]!.newRow, ['22.03.2024', 'Decyzja']);
+});
+
+test('compareSnapshots reads the details with the extraction rules of the site profile', () => {
+    const dir = path.join(project.dir, 'data', 'jan', '223199');
+    writeJson(path.join(dir, FIRST), makeSnapshot({ mainText: 'Szczegóły wniosku\nStan sprawy: W toku\nSesja wygaśnie za 14:59' }));
+    writeJson(path.join(dir, SECOND), makeSnapshot({
+        mainText: 'Szczegóły wniosku\nStan sprawy: Zakończona\nSesja wygaśnie za 9:12',
+        timestamp: '2024-03-21T10:00:00.000Z'
+    }));
+    const rules = { maskPatterns: ['Sesja wygaśnie za \\d+:\\d{2}'] };
+    const extraction = { ...DUW_PROFILE.extraction, fieldLabels: { ...DUW_PROFILE.extraction.fieldLabels, status: ['stan sprawy'] } };
+
+    assert.doesNotMatch(compareSnapshots(store, 'jan', '223199', FIRST, SECOND, rules).summary, /Status changed/);
+    assert.match(compareSnapshots(store, 'jan', '223199', FIRST, SECOND, rules, extraction).summary, /Status changed from "W toku" to "Zakończona"/);
+});
+
+test('side-by-side rows pair changed lines and keep the unchanged ones on both sides', () => {
+    const rows = toSideBySide(diffLines('a\nb\nc', 'a\nB\nc\nd'));
+    assert.deepEqual(rows.map(row => [row.left?.text ?? null, row.right?.text ?? null]), [
+        ['a', 'a'],
+        ['b', 'B'],
+        ['c', 'c'],
+        [null, 'd']
+    ]);
+});
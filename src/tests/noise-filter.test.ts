@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { applyNoiseRules, mergeNoiseRules, validateNoiseRules } from '../noise-filter';
+import { diffSnapshots } from '../diff';
+import { makeSnapshot } from './helpers';
+
+test('masked text and ignored columns no longer produce changes', () => {
+    const rules = { maskPatterns: ['\\d{2}:\\d{2}'], ignoreColumns: [{ table: 1, column: 'Odświeżono' }] };
+    const previous = makeSnapshot({
+        mainText: 'Status: Nowy\nSesja wygaśnie za 14:59',
+        fields: { tables: [[['Status', 'Odświeżono'], ['Nowy', '10:00']]], numbers: [] }
+    });
+    const current = makeSnapshot({
+        mainText: 'Status: Nowy\nSesja wygaśnie za 12:01',
+        fields: { tables: [[['Status', 'Odświeżono'], ['Nowy', '11:00']]], numbers: [] }
+    });
+
+    assert.ok(diffSnapshots(previous, current).length > 0);
+    assert.deepEqual(diffSnapshots(applyNoiseRules(previous, rules), applyNoiseRules(current, rules)), []);
+});
+
+test('includeSections keeps only text between the markers', () => {
+    const data = makeSnapshot({ mainText: 'Cookies banner\nSzczegóły\nStatus: Nowy\nStopka\n2024 footer' });
+    const filtered = applyNoiseRules(data, { includeSections: [{ start: 'Szczegóły', end: 'Stopka' }] });
+    assert.equal(filtered.mainText, 'Szczegóły\nStatus: Nowy');
+});
+
+test('ignoreTables drops whole tables', () => {
+    const data = makeSnapshot({ fields: { tables: [[['a']], [['b']]], numbers: [] } });
+    assert.deepEqual(applyNoiseRules(data, { ignoreTables: [1] }).fields.tables, [[['b']]]);
+});
+
+test('mergeNoiseRules concatenates global and account rules', () => {
+    assert.deepEqual(
+        mergeNoiseRules({ maskPatterns: ['a'] }, undefined, { maskPatterns: ['b'], ignoreTables: [2] }),
+        { maskPatterns: ['a', 'b'], ignoreTables: [2] }
+    );
+});
+
+test('validateNoiseRules rejects malformed rules', () => {
+    assert.throws(() => validateNoiseRules('nope', 'test'), /must be an object/);
+    assert.throws(() => validateNoiseRules({ ignoreColumns: [{ table: 1 }] }, 'test'), /ignoreColumns/);
+    assert.throws(() => validateNoiseRules({ includeSections: [{}] }, 'test'), /includeSections/);
+    assert.doesNotThrow(() => validateNoiseRules(undefined, 'test'));
+});
@@ -0,0 +1,166 @@
+import { after, before, beforeEach, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { createChannel, createChannels, defaultChannelConfigs, NotificationMessage, notifyChannels, validateChannelConfigs } from '../notifications';
+import { ChannelConfig } from '../types';
+
+interface ReceivedRequest {
+    method: string;
+    path: string;
+    headers: http.IncomingHttpHeaders;
+    body: string;
+}
+
+// Local stand-in for Telegram, Slack, Discord, ntfy and generic webhook endpoints
+let server: http.Server;
+let baseUrl: string;
+let received: ReceivedRequest[];
+
+before(async () => {
+    server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => {
+            body += chunk;
+        });
+        req.on('end', () => {
+            received.push({ method: req.method || '', path: req.url || '', headers: req.headers, body });
+            res.writeHead(req.url === '/fail' ? 500 : 200, { 'Content-Type': 'application/json' });
+            res.end(req.url === '/fail' ? '{"ok":false}' : '{"ok":true}');
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+    received = [];
+});
+
+function message(overrides: Partial<NotificationMessage> = {}): NotificationMessage {
+    return {
+        event: 'change',
+        accountId: 'test-user',
+        title: 'PIO Checker - Changes Detected!',
+        text: 'Changes found: Status: "W trakcie weryfikacji" → "Decyzja wydana"',
+        url: 'https://pio-przybysz.duw.pl/wnioski-przyjete',
+        timestamp: '2024-05-02T08:00:00.000Z',
+        ...overrides
+    };
+}
+
+test('telegram channel posts to the bot sendMessage endpoint', async () => {
+    await createChannel({ type: 'telegram', botToken: '123:abc', chatId: 42, apiUrl: baseUrl }).send(message());
+
+    assert.equal(received.length, 1);
+    assert.equal(received[0]!.path, '/bot123:abc/sendMessage');
+    const payload = JSON.parse(received[0]!.body);
+    assert.equal(payload.chat_id, 42);
+    assert.match(payload.text, /^PIO Checker - Changes Detected! - test-user\n\nChanges found/);
+    assert.match(payload.text, /wnioski-przyjete$/);
+});
+
+test('slack, discord and generic webhooks use their own payload formats', async () => {
+    await createChannel({ type: 'slack', url: `${baseUrl}/slack` }).send(message());
+    await createChannel({ type: 'discord', url: `${baseUrl}/discord` }).send(message());
+    await createChannel({ type: 'webhook', url: `${baseUrl}/hook`, headers: { 'X-Token': 'secret' } }).send(message({
+        changes: [{ kind: 'field-changed', section: 'details', location: 'Status', oldValue: 'a', newValue: 'b', description: 'Status changed' }]
+    }));
+
+    const [slack, discord, hook] = received;
+    assert.match(JSON.parse(slack!.body).text, /^\*PIO Checker - Changes Detected! - test-user\*\n/);
+    assert.match(JSON.parse(discord!.body).content, /^\*\*PIO Checker - Changes Detected! - test-user\*\*\n/);
+
+    const payload = JSON.parse(hook!.body);
+    assert.equal(hook!.headers['x-token'], 'secret');
+    assert.equal(payload.event, 'change');
+    assert.equal(payload.accountId, 'test-user');
+    assert.equal(payload.changes[0].description, 'Status changed');
+});
+
+test('ntfy channel sends the text body with title, priority and click headers', async () => {
+    await createChannel({ type: 'ntfy', url: `${baseUrl}/pio-topic`, token: 'tk_123' }).send(message({ event: 'error', title: 'Błąd' }));
+
+    const request = received[0]!;
+    assert.equal(request.path, '/pio-topic');
+    assert.match(request.body, /^Changes found/);
+    assert.equal(request.headers.title, `=?UTF-8?B?${Buffer.from('Błąd - test-user').toString('base64')}?=`);
+    assert.equal(request.headers.priority, '4');
+    assert.equal(request.headers.tags, 'warning');
+    assert.equal(request.headers.click, 'https://pio-przybysz.duw.pl/wnioski-przyjete');
+    assert.equal(request.headers.authorization, 'Bearer tk_123');
+});
+
+test('command channel passes the message through environment and stdin', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pio-command-'));
+    const output = path.join(dir, 'out.json');
+    const script = `let input = ''; process.stdin.on('data', c => input += c); process.stdin.on('end', () => require('fs').writeFileSync(${JSON.stringify(output)}, JSON.stringify({ event: process.env.PIO_EVENT, account: process.env.PIO_ACCOUNT, stdin: JSON.parse(input) })));`;
+
+    try {
+        await createChannel({ type: 'command', command: process.execPath, args: ['-e', script] }).send(message());
+
+        const result = JSON.parse(fs.readFileSync(output, 'utf8'));
+        assert.equal(result.event, 'change');
+        assert.equal(result.account, 'test-user');
+        assert.equal(result.stdin.title, 'PIO Checker - Changes Detected!');
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+});
+
+test('command channel rejects on a non-zero exit code', async () => {
+    await assert.rejects(
+        createChannel({ type: 'command', command: process.execPath, args: ['-e', 'process.exit(3)'] }).send(message()),
+        /exited with code 3/
+    );
+});
+
+test('notifyChannels only delivers subscribed events and isolates failures', async () => {
+    const channels = createChannels([
+        { type: 'webhook', name: 'broken', url: `${baseUrl}/fail` },
+        { type: 'webhook', name: 'changes-only', url: `${baseUrl}/ok` },
+        { type: 'webhook', name: 'everything', url: `${baseUrl}/all`, events: ['firstRun', 'noChange', 'change', 'error'] },
+        { type: 'webhook', name: 'disabled', url: `${baseUrl}/disabled`, enabled: false }
+    ]);
+
+    const results = await notifyChannels(channels, message());
+    assert.deepEqual(results.map(result => [result.channel, result.success]), [
+        ['broken', false],
+        ['changes-only', true],
+        ['everything', true]
+    ]);
+    assert.match(results[0]!.error!, /HTTP 500/);
+
+    received = [];
+    await notifyChannels(channels, message({ event: 'noChange' }));
+    assert.deepEqual(received.map(request => request.path), ['/all']);
+});
+
+test('defaultChannelConfigs adds Gmail only when credentials are set', () => {
+    assert.deepEqual(defaultChannelConfigs({}).map(config => config.type), ['desktop']);
+    assert.deepEqual(defaultChannelConfigs({ mail: 'a@example.com', pass: 'secret' }), [
+        { type: 'desktop' },
+        { type: 'smtp', name: 'gmail', service: 'gmail', user: 'a@example.com', pass: 'secret' }
+    ]);
+});
+
+test('validateChannelConfigs reports unknown types, missing fields and bad events', () => {
+    const valid: ChannelConfig[] = [
+        { type: 'desktop' },
+        { type: 'smtp', host: 'smtp.example.com', to: ['a@example.com'] },
+        { type: 'telegram', botToken: 'x', chatId: '1', events: ['error'] }
+    ];
+    assert.doesNotThrow(() => validateChannelConfigs(valid, 'test'));
+    assert.doesNotThrow(() => validateChannelConfigs(undefined, 'test'));
+
+    assert.throws(() => validateChannelConfigs({}, 'test'), /notificationChannels must be an array/);
+    assert.throws(() => validateChannelConfigs([{ type: 'pager' }], 'test'), /notificationChannels\[0\] must have a type/);
+    assert.throws(() => validateChannelConfigs([{ type: 'slack' }], 'test'), /\(slack\) is missing url/);
+    assert.throws(() => validateChannelConfigs([{ type: 'smtp', user: 'a' }], 'test'), /service or a host/);
+    assert.throws(() => validateChannelConfigs([{ type: 'desktop', events: ['changed'] }], 'test'), /events must be a list of/);
+});
@@ -0,0 +1,462 @@
+import { after, afterEach, before, mock, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+// Mock the CommonJS module objects themselves so the checker sees the replacements
+import notifier = require('node-notifier');
+import nodemailer = require('nodemailer');
+import { PIOChecker } from '../pio-checker';
+import { JsonHistoryStore } from '../storage';
+import { AccountLockedError, AuthenticationError, MaintenanceError, NavigationTimeoutError } from '../errors';
+import { AccountConfig, ApplicationList, ApplicationScrape, ScrapedData } from '../types';
+import { makeSnapshot, testAccount, useTempProject, writeJson } from './helpers';
+
+let project: ReturnType<typeof useTempProject>;
+let sentMail: nodemailer.SendMailOptions[];
+let notifications: Array<{ title: string; message: string }>;
+
+before(() => {
+    project = useTempProject();
+    process.env.mail = 'checker@example.com';
+    process.env.pass = 'app-password';
+});
+
+after(() => {
+    delete process.env.mail;
+    delete process.env.pass;
+    project.restore();
+});
+
+afterEach(() => {
+    mock.restoreAll();
+    delete (notifier as any).notify;
+    fs.rmSync(path.join(project.dir, 'data'), { recursive: true, force: true });
+});
+
+// Fresh checker with nodemailer and node-notifier replaced by recorders
+function createChecker(account: AccountConfig = testAccount, options: { dryRun?: boolean } = {}): PIOChecker {
+    sentMail = [];
+    notifications = [];
+    mock.method(nodemailer, 'createTransport', () => ({
+        sendMail: async (options: nodemailer.SendMailOptions) => {
+            sentMail.push(options);
+            return { response: '250 OK' };
+        }
+    }));
+    // node-notifier exposes notify() as a non-configurable prototype getter, so shadow it on the instance
+    Object.defineProperty(notifier, 'notify', {
+        configurable: true,
+        value: (options: any) => {
+            notifications.push({ title: options.title, message: options.message });
+            return notifier;
+        }
+    });
+    return new PIOChecker(account, null, options);
+}
+
+// Store a snapshot as the application's previous check
+function writePrevious(snapshot: ScrapedData): void {
+    writeJson(path.join(project.dir, 'data', testAccount.login, snapshot.elementText, 'szczegoly-wniosku_2024-01-01T00-00-00.json'), snapshot);
+}
+
+function scraped(...snapshots: ScrapedData[]): ApplicationScrape[] {
+    return snapshots.map(data => ({ applicationId: data.elementText, data }));
+}
+
+function changedSnapshots() {
+    const previous = makeSnapshot();
+    const current = makeSnapshot({
+        mainText: previous.mainText.replace('W trakcie weryfikacji', 'Decyzja wydana'),
+        fields: {
+            tables: [[['Data', 'Dokument'], ['14.03.2024', 'Potwierdzenie złożenia wniosku'], ['02.05.2024', 'Decyzja w sprawie']]],
+            numbers: ['14.03.2024', '02.05.2024']
+        }
+    });
+    return { previous, current };
+}
+
+test('formatTablesForEmail renders header cells and highlights changed cells', () => {
+    const checker = createChecker();
+    const html = checker.formatTablesForEmail([[['Data', 'Status'], ['01.01.2024', 'Nowy']]], [
+        { kind: 'cell-changed', section: 'tables', location: '', table: 0, row: 1, column: 1, oldValue: 'x', newValue: 'Nowy', description: '' }
+    ]);
+
+    assert.match(html, /<h5>Table 1:<\/h5>/);
+    assert.match(html, /<th style="[^"]*">Data<\/th>/);
+    assert.match(html, /<td style="[^"]*background: #fff8c5;">Nowy<\/td>/);
+    assert.doesNotMatch(html, /background: #fff8c5;">01.01.2024/);
+});
+
+test('email formatters escape text taken from the page', () => {
+    const checker = createChecker();
+    const tables = checker.formatTablesForEmail([[['Data', '<b>Dokument</b>'], ['14.03.2024', '<script>alert(1)</script>']]]);
+    assert.match(tables, /&lt;b&gt;Dokument&lt;\/b&gt;/);
+    assert.match(tables, /&lt;script&gt;alert\(1\)&lt;\/script&gt;/);
+    assert.doesNotMatch(tables, /<script>|<b>/);
+
+    const details = checker.formatDetailsForEmail({
+        caseNumber: 'WSC-II-S.6151.1.2024',
+        applicationNumber: null,
+        submissionDate: null,
+        status: 'W trakcie <img src=x onerror=alert(1)>',
+        stage: null,
+        caseHandler: 'Anna & Jan',
+        deadlines: [{ label: 'Termin <u>uzupełnienia</u>', date: '2024-05-01"' }],
+        correspondence: [],
+        missingDocuments: ['<a href="https://evil.example">Zdjęcie</a>']
+    });
+    assert.match(details, /W trakcie &lt;img src=x onerror=alert\(1\)&gt;/);
+    assert.match(details, /Anna &amp; Jan/);
+    assert.match(details, /Termin &lt;u&gt;uzupełnienia&lt;\/u&gt;: 2024-05-01&quot;/);
+    assert.match(details, /&lt;a href=&quot;https:\/\/evil.example&quot;&gt;Zdjęcie&lt;\/a&gt;/);
+    assert.doesNotMatch(details, /<img|<u>|<a /);
+});
+
+test('formatTablesForEmail handles missing tables', () => {
+    assert.equal(createChecker().formatTablesForEmail([]), '<p>No table data available</p>');
+});
+
+test('createDetailedEmailContent renders every change section', () => {
+    const checker = createChecker();
+    const { previous, current } = changedSnapshots();
+    const html = checker.createDetailedEmailContent(checker.compareData(previous, current), current);
+
+    assert.match(html, /Status changed from &quot;W trakcie weryfikacji&quot; to &quot;Decyzja wydana&quot;/);
+    assert.match(html, /<h3>Table Changes:<\/h3>/);
+    assert.match(html, /Table 1, row 3/);
+    assert.match(html, /<h3>Text Changes:<\/h3>/);
+    assert.match(html, /<strong>Added:<\/strong> 02.05.2024/);
+    assert.match(html, /href="https:\/\/pio-przybysz.duw.pl\/szczegoly-wniosku\/223199"/);
+
+    const quoted = checker.createDetailedEmailContent([], { ...current, url: 'https://pio-przybysz.duw.pl/?a=1&b="x"' });
+    assert.match(quoted, /href="https:\/\/pio-przybysz.duw.pl\/\?a=1&amp;b=&quot;x&quot;"/);
+});
+
+test('run saves a baseline on the first run without sending email', async () => {
+    const checker = createChecker();
+    mock.method(checker, 'scrapeData', async () => scraped(makeSnapshot()));
+
+    const result = await checker.run();
+
+    assert.equal(result.status, 'first-run');
+    assert.ok(checker.getLatestSnapshot('223199'));
+    assert.equal(sentMail.length, 0);
+    assert.match(notifications[0]!.title, /First Run/);
+});
+
+test('run notifies and emails when the application changed', async () => {
+    const checker = createChecker();
+    const { previous, current } = changedSnapshots();
+    writePrevious(previous);
+    mock.method(checker, 'scrapeData', async () => scraped(current));
+
+    const result = await checker.run();
+
+    assert.equal(result.status, 'changed');
+    assert.match(notifications[0]!.title, /Changes Detected/);
+    assert.match(notifications[0]!.message, /Status changed/);
+    assert.equal(sentMail.length, 1);
+    assert.equal(sentMail[0]!.to, 'checker@example.com');
+    assert.match(String(sentMail[0]!.subject), /Changes Detected!.*Account: test-user/);
+});
+
+test('the change email shows the timeline and the run, changes and deliveries are stored', async () => {
+    const checker = createChecker();
+    const { previous, current } = changedSnapshots();
+    writePrevious(previous);
+    mock.method(checker, 'scrapeData', async () => scraped({ ...current, timestamp: '2024-04-02T10:00:00.000Z' }));
+
+    await checker.run();
+
+    const html = String(sentMail[0]!.html);
+    assert.match(html, /<h3>Timeline:<\/h3>/);
+    assert.match(html, /W trakcie weryfikacji<\/td><td[^>]*>Analiza dokumentów<\/td><td[^>]*>[^<]+<\/td><td[^>]*>13<\/td>/);
+    assert.match(html, /Decyzja wydana/);
+    assert.match(html, /1 with changes/);
+
+    const store = new JsonHistoryStore(path.join(project.dir, 'data'));
+    assert.deepEqual(store.listRuns(testAccount.login).map(run => [run.status, run.applications]), [['changed', ['223199']]]);
+    assert.ok(store.listChanges(testAccount.login, '223199').some(record => record.change.location === 'Status'));
+    assert.deepEqual(store.listDeliveries(testAccount.login).map(delivery => [delivery.event, delivery.success]), [['change', true], ['change', true]]);
+});
+
+test('run reports unchanged data without email', async () => {
+    const checker = createChecker();
+    writePrevious(makeSnapshot());
+    mock.method(checker, 'scrapeData', async () => scraped(makeSnapshot()));
+
+    const result = await checker.run();
+
+    assert.equal(result.status, 'unchanged');
+    assert.match(notifications[0]!.title, /No Changes/);
+    assert.equal(sentMail.length, 0);
+});
+
+test('a dry run reports the change without saving or sending anything', async () => {
+    const checker = createChecker(testAccount, { dryRun: true });
+    const { previous, current } = changedSnapshots();
+    writePrevious(previous);
+    mock.method(checker, 'scrapeData', async () => scraped(current));
+
+    const result = await checker.run();
+
+    assert.equal(result.status, 'changed');
+    assert.equal(checker.getLatestSnapshot('223199')!.data.mainText, previous.mainText);
+    assert.equal(notifications.length, 0);
+    assert.equal(sentMail.length, 0);
+    const store = new JsonHistoryStore(path.join(project.dir, 'data'));
+    assert.deepEqual(store.listRuns(testAccount.login), []);
+    assert.deepEqual(store.listChanges(testAccount.login), []);
+});
+
+test('sendTestNotification reaches the channels of change notifications without storing a delivery', async () => {
+    const checker = createChecker({ ...testAccount, recipients: { to: ['anna@example.com'] } });
+
+    const results = await checker.sendTestNotification();
+
+    assert.deepEqual(results.map(result => [result.channel, result.success]), [['desktop', true], ['gmail', true]]);
+    assert.match(notifications[0]!.title, /Test Notification/);
+    assert.equal(sentMail[0]!.to, 'anna@example.com');
+    assert.deepEqual(new JsonHistoryStore(path.join(project.dir, 'data')).listDeliveries(testAccount.login), []);
+});
+
+test('run turns scraping failures into an error result and error email', async () => {
+    const checker = createChecker();
+    mock.method(checker, 'scrapeData', async () => {
+        throw new Error('Site unavailable');
+    });
+
+    const result = await checker.run();
+
+    assert.equal(result.status, 'error');
+    assert.equal(result.error, 'Site unavailable');
+    assert.equal(result.errorCategory, 'unknown');
+    assert.match(notifications[0]!.title, /Error/);
+    assert.match(String(sentMail[0]!.html), /Site unavailable/);
+});
+
+test('error notifications name the error category', async () => {
+    const checker = createChecker();
+    mock.method(checker, 'scrapeData', async () => {
+        throw new AuthenticationError('Login rejected for test-user');
+    });
+
+    const result = await checker.run();
+
+    assert.equal(result.errorCategory, 'auth');
+    assert.match(notifications[0]!.title, /^PIO Checker - Login Failed/);
+    assert.equal(notifications[0]!.message, 'An error occurred (Login failed): Login rejected for test-user ' +
+        'Scheduled checks of this account are paused until its password is updated.');
+    assert.match(String(sentMail[0]!.html), /<strong>Error type:<\/strong> Login failed/);
+});
+
+test('error emails attach the last failure capture and list all of them', async () => {
+    const checker = createChecker();
+    const run = path.join(project.dir, 'data', testAccount.login, 'failures', '2024-05-01T08-00-00');
+    const capture = (name: string, attempt: number) => ({
+        run: '2024-05-01T08-00-00', name, dir: path.join(run, name), capturedAt: '2024-05-01T08:00:00.000Z', attempt,
+        url: 'https://pio-przybysz.duw.pl/login', error: 'Login page did not load', errorCategory: 'navigation-timeout' as const,
+        files: ['screenshot.png', 'page.html']
+    });
+    mock.method(checker, 'scrapeData', async () => {
+        checker.failureCaptures = [capture('attempt-1', 1), capture('attempt-2', 2)];
+        throw new NavigationTimeoutError('Failed to scrape data after 2 attempt(s): Login page did not load');
+    });
+
+    await checker.run();
+
+    assert.deepEqual(sentMail[0]!.attachments, [
+        { filename: 'attempt-2-screenshot.png', path: path.join(run, 'attempt-2', 'screenshot.png') },
+        { filename: 'attempt-2-page.html', path: path.join(run, 'attempt-2', 'page.html') }
+    ]);
+    const html = String(sentMail[0]!.html);
+    assert.match(html, /Saved pages/);
+    assert.ok(html.includes(path.join(run, 'attempt-1')));
+    assert.ok(html.includes(path.join(run, 'attempt-2')));
+});
+
+test('maintenance pages get their own notification without pausing the account', async () => {
+    writeJson(path.join(project.dir, 'accounts.json'), [testAccount]);
+    const checker = createChecker();
+    mock.method(checker, 'scrapeData', async () => {
+        throw new MaintenanceError('The portal is showing a maintenance page: "Przerwa techniczna"');
+    });
+
+    const result = await checker.run();
+
+    assert.equal(result.errorCategory, 'maintenance');
+    assert.match(notifications[0]!.title, /^PIO Checker - Site Maintenance/);
+    assert.match(notifications[0]!.message, /The next scheduled check will try again\.$/);
+    const accounts = JSON.parse(fs.readFileSync(path.join(project.dir, 'accounts.json'), 'utf8'));
+    assert.equal(accounts[0].paused, undefined);
+    fs.rmSync(path.join(project.dir, 'accounts.json'));
+});
+
+test('rejected credentials pause the account until a check succeeds again', async () => {
+    writeJson(path.join(project.dir, 'accounts.json'), [testAccount]);
+    const rejected = createChecker();
+    mock.method(rejected, 'scrapeData', async () => {
+        throw new AccountLockedError('The portal reports the account as locked: "Konto zostało zablokowane"');
+    });
+    await rejected.run();
+
+    const accountsPath = path.join(project.dir, 'accounts.json');
+    const [paused] = JSON.parse(fs.readFileSync(accountsPath, 'utf8'));
+    assert.equal(paused.paused.category, 'account-locked');
+    assert.match(paused.paused.reason, /Konto zostało zablokowane/);
+    assert.match(notifications[0]!.title, /^PIO Checker - Account Locked/);
+
+    const checker = createChecker(paused);
+    mock.method(checker, 'scrapeData', async () => scraped(makeSnapshot()));
+    const result = await checker.run();
+
+    assert.equal(result.status, 'first-run');
+    assert.equal(JSON.parse(fs.readFileSync(accountsPath, 'utf8'))[0].paused, undefined);
+    fs.rmSync(accountsPath);
+});
+
+test('run sends email to the account recipients and adds errorCc only to error reports', async () => {
+    const checker = createChecker({
+        ...testAccount,
+        recipients: { to: ['anna@example.com', 'jan@example.com'], cc: ['family@example.com'], errorCc: ['admin@example.com'] }
+    });
+    const { previous, current } = changedSnapshots();
+    writePrevious(previous);
+    mock.method(checker, 'scrapeData', async () => scraped(current));
+
+    await checker.run();
+
+    assert.equal(sentMail[0]!.from, 'checker@example.com');
+    assert.equal(sentMail[0]!.to, 'anna@example.com, jan@example.com');
+    assert.equal(sentMail[0]!.cc, 'family@example.com');
+
+    mock.method(checker, 'scrapeData', async () => {
+        throw new Error('Site unavailable');
+    });
+    await checker.run();
+
+    assert.equal(sentMail[1]!.cc, 'family@example.com, admin@example.com');
+});
+
+test('notifyOn mutes events and limits them to named channels', async () => {
+    const checker = createChecker({ ...testAccount, notifyOn: { noChange: false, change: ['smtp'] } });
+    const { previous, current } = changedSnapshots();
+    writePrevious(previous);
+    mock.method(checker, 'scrapeData', async () => scraped(current));
+
+    await checker.run();
+    assert.equal(notifications.length, 0);
+    assert.equal(sentMail.length, 1);
+
+    mock.method(checker, 'scrapeData', async () => scraped(current));
+    assert.equal((await checker.run()).status, 'unchanged');
+    assert.equal(notifications.length, 0);
+});
+
+test('language switches notification and email texts', async () => {
+    const checker = createChecker({ ...testAccount, language: 'pl' });
+    const { previous, current } = changedSnapshots();
+    writePrevious(previous);
+    mock.method(checker, 'scrapeData', async () => scraped(current));
+
+    await checker.run();
+
+    assert.equal(notifications[0]!.title, 'PIO Checker - Wykryto zmiany! - test-user');
+    assert.match(notifications[0]!.message, /^Znalezione zmiany: /);
+    assert.match(String(sentMail[0]!.subject), /Wykryto zmiany!.*Account: test-user/);
+    assert.match(String(sentMail[0]!.html), /<h3>Zmiany w tabelach:<\/h3>/);
+    assert.match(String(sentMail[0]!.html), /<h5>Tabela 1:<\/h5>/);
+});
+
+test('run checks each application separately and names it in notifications', async () => {
+    const checker = createChecker({ ...testAccount, applications: ['223199', '224518'] });
+    const { previous, current } = changedSnapshots();
+    const other = makeSnapshot({ elementText: '224518', url: 'https://pio-przybysz.duw.pl/szczegoly-wniosku/224518' });
+    writePrevious(previous);
+    mock.method(checker, 'scrapeData', async () => [
+        ...scraped(current, other),
+        { applicationId: '230001', error: 'Could not find link containing text: 230001', errorCategory: 'application-not-found' }
+    ]);
+
+    const result = await checker.run();
+
+    assert.equal(result.status, 'changed');
+    assert.deepEqual(result.applications!.map(application => [application.applicationId, application.status]), [
+        ['223199', 'changed'],
+        ['224518', 'first-run'],
+        ['230001', 'error']
+    ]);
+    assert.equal(result.error, '230001: Could not find link containing text: 230001');
+    assert.equal(result.errorCategory, 'application-not-found');
+    assert.equal(result.applications![2]!.errorCategory, 'application-not-found');
+    assert.deepEqual(notifications.map(notification => notification.title), [
+        'PIO Checker - Changes Detected! (223199) - test-user',
+        'PIO Checker - First Run (224518) - test-user',
+        'PIO Checker - Error (230001) - test-user'
+    ]);
+    assert.ok(checker.getLatestSnapshot('224518'));
+    assert.match(String(sentMail[1]!.html), /<strong>Application Number:<\/strong> 230001/);
+});
+
+function applicationList(...ids: string[]): ApplicationList {
+    return {
+        url: 'https://pio-przybysz.duw.pl/wnioski-przyjete',
+        timestamp: '2024-05-02T08:00:00.000Z',
+        headers: ['Numer wniosku', 'Status'],
+        entries: ids.map(applicationId => ({ applicationId, cells: [applicationId, 'Przyjęty'] }))
+    };
+}
+
+test('run notifies about new applications on the list and suggests tracking them', async () => {
+    const checker = createChecker();
+    writeJson(path.join(project.dir, 'data', testAccount.login, 'wnioski-przyjete_2024-01-01T00-00-00.json'), applicationList('223199'));
+    writePrevious(makeSnapshot());
+    mock.method(checker, 'scrapeData', async () => {
+        checker.applicationList = applicationList('223199', '230001');
+        return scraped(makeSnapshot());
+    });
+
+    const result = await checker.run();
+
+    assert.equal(result.status, 'changed');
+    assert.deepEqual(result.untrackedApplications, ['230001']);
+    assert.equal(result.changes[0]!.kind, 'application-added');
+    assert.equal(notifications[0]!.title, 'PIO Checker - Applications List Changed - test-user');
+    assert.match(notifications[0]!.message, /New application 230001.*Not tracked yet: 230001/);
+    assert.match(String(sentMail[0]!.html), /<th style="[^"]*">Numer wniosku<\/th>/);
+    assert.ok(checker.getLatestApplicationListFile()!.endsWith('.json'));
+});
+
+test('the first applications list is saved as a baseline without notifying', async () => {
+    const checker = createChecker();
+    writePrevious(makeSnapshot());
+    mock.method(checker, 'scrapeData', async () => {
+        checker.applicationList = applicationList('223199');
+        return scraped(makeSnapshot());
+    });
+
+    const result = await checker.run();
+
+    assert.equal(result.status, 'unchanged');
+    assert.ok(checker.getLatestApplicationListFile());
+    assert.deepEqual(notifications.map(notification => notification.title), ['PIO Checker - No Changes - test-user']);
+});
+
+test('autoTrack saves newly listed applications to accounts.json', async () => {
+    writeJson(path.join(project.dir, 'accounts.json'), [testAccount]);
+    const checker = createChecker({ ...testAccount, autoTrack: true });
+    writeJson(path.join(project.dir, 'data', testAccount.login, 'wnioski-przyjete_2024-01-01T00-00-00.json'), applicationList('223199'));
+    mock.method(checker, 'scrapeData', async () => {
+        checker.applicationList = applicationList('223199', '230001');
+        return scraped(makeSnapshot(), makeSnapshot({ elementText: '230001' }));
+    });
+
+    const result = await checker.run();
+
+    assert.equal(result.untrackedApplications, undefined);
+    assert.match(notifications[0]!.message, /Now tracking: 230001/);
+    assert.equal(notifications[1]!.title, 'PIO Checker - First Run (223199) - test-user');
+    const accounts = JSON.parse(fs.readFileSync(path.join(project.dir, 'accounts.json'), 'utf8'));
+    assert.deepEqual(accounts[0].applications, ['223199', '230001']);
+    fs.rmSync(path.join(project.dir, 'accounts.json'));
+});
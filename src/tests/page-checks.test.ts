@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { detectPageProblem, pageText } from '../page-checks';
+
+const LOGIN_URL = 'https://pio-przybysz.duw.pl/login';
+
+test('pageText keeps visible text only', () => {
+    assert.equal(pageText('<style>p { color: red }</style><p>Status:&nbsp;<b>W trakcie</b></p><script>var x = 1;</script>'), 'Status: W trakcie');
+});
+
+test('detectPageProblem recognises each problem by content or URL', () => {
+    const cases: Array<[string, string, string]> = [
+        [LOGIN_URL, '<div class="alert">Nieprawidłowy login lub hasło</div>', 'auth'],
+        [`${LOGIN_URL}?error=invalid-credentials`, '<form></form>', 'auth'],
+        [LOGIN_URL, '<p>Too many failed login attempts. Try again later.</p>', 'account-locked'],
+        [LOGIN_URL, '<div class="g-recaptcha" data-sitekey="x"></div>', 'captcha'],
+        [LOGIN_URL, '<p>Zaznacz: Nie jestem robotem</p>', 'captcha'],
+        ['https://pio-przybysz.duw.pl/maintenance', '<html></html>', 'maintenance'],
+        ['https://pio-przybysz.duw.pl/wnioski-przyjete', '<h1>Trwają prace serwisowe</h1>', 'maintenance']
+    ];
+    for (const [url, html, category] of cases) {
+        assert.equal(detectPageProblem(url, html)?.category, category, html);
+    }
+    assert.equal(detectPageProblem(LOGIN_URL, '<form><input formcontrolname="username"></form>'), null);
+});
+
+test('a maintenance notice wins over the login form it is shown on', () => {
+    const problem = detectPageProblem(LOGIN_URL, '<p>Przerwa techniczna do 12:00</p><p>Nieprawidłowy login lub hasło</p>');
+    assert.equal(problem?.category, 'maintenance');
+    assert.match(problem!.message, /maintenance page: "Przerwa techniczna do 12:00/);
+});
@@ -0,0 +1,114 @@
+import { after, afterEach, before, mock, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { formatDuration, runPool, withTimeout } from '../pool';
+import { MultiAccountChecker, PIOChecker } from '../pio-checker';
+import { AccountProgress } from '../types';
+import { useTempProject, writeJson } from './helpers';
+
+let project: ReturnType<typeof useTempProject>;
+
+before(() => {
+    project = useTempProject();
+});
+
+after(() => {
+    project.restore();
+});
+
+afterEach(() => {
+    mock.restoreAll();
+});
+
+test('runPool keeps at most `concurrency` tasks in flight and results in input order', async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await runPool([30, 10, 20, 5, 15], async (ms, index) => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise(resolve => setTimeout(resolve, ms));
+        running--;
+        return index;
+    }, { concurrency: 2 });
+
+    assert.equal(peak, 2);
+    assert.deepEqual(results, [0, 1, 2, 3, 4]);
+});
+
+test('runPool spaces task starts by the delay plus jitter', async () => {
+    const sleeps: number[] = [];
+    await runPool(['a', 'b', 'c'], async () => {}, {
+        concurrency: 3,
+        spacingMs: 1000,
+        jitterMs: 1000,
+        random: () => 0.5,
+        sleep: async ms => { sleeps.push(ms); }
+    });
+
+    // Start times are handed out up front, so the waits of parallel lanes add up
+    assert.equal(sleeps.length, 2);
+    assert.ok(Math.abs(sleeps[0]! - 1500) < 50);
+    assert.ok(Math.abs(sleeps[1]! - 3000) < 50);
+});
+
+test('withTimeout rejects and calls onTimeout when the task takes too long', async () => {
+    const onTimeout = mock.fn();
+    await assert.rejects(withTimeout(new Promise(() => {}), 10, 'too slow', onTimeout), /too slow/);
+    assert.equal(onTimeout.mock.callCount(), 1);
+
+    assert.equal(await withTimeout(Promise.resolve('done'), 1000, 'too slow'), 'done');
+    assert.equal(await withTimeout(Promise.resolve('no limit'), 0, 'too slow'), 'no limit');
+});
+
+test('runAll checks accounts in parallel with timing, timeouts and progress', async () => {
+    writeJson('accounts.json', [
+        { login: 'fast', password: 'pass', elementText: '1' },
+        { login: 'slow', password: 'pass', elementText: '2' },
+        { login: 'stuck', password: 'pass', elementText: '3' }
+    ]);
+    const aborted: string[] = [];
+    mock.method(PIOChecker.prototype, 'abort', async function (this: PIOChecker, reason: string) {
+        aborted.push(reason);
+    });
+    mock.method(PIOChecker.prototype, 'run', async function (this: PIOChecker) {
+        const login = (this as unknown as { accountId: string }).accountId;
+        if (login === 'stuck') {
+            return new Promise(() => {});
+        }
+        await new Promise(resolve => setTimeout(resolve, login === 'slow' ? 40 : 5));
+        return { status: 'unchanged', changes: [] };
+    });
+
+    const progress: AccountProgress[] = [];
+    const checker = new MultiAccountChecker(true, {
+        concurrency: 3,
+        accountDelayMs: 0,
+        accountTimeoutMs: 100,
+        onProgress: event => progress.push(event)
+    });
+    const results = await checker.runAll();
+
+    assert.deepEqual(results.map(result => [result.accountId, result.status, result.error]), [
+        ['fast', 'success', undefined],
+        ['slow', 'success', undefined],
+        ['stuck', 'error', 'Check timed out after 100ms']
+    ]);
+    assert.ok(results.every(result => result.startedAt && result.finishedAt && result.durationMs !== undefined));
+    assert.ok(results[1]!.durationMs! >= 35);
+    assert.deepEqual(aborted, ['Check timed out after 100ms']);
+
+    assert.deepEqual(progress.filter(event => event.state === 'queued').map(event => event.accountId), ['fast', 'slow', 'stuck']);
+    const finished = progress.filter(event => event.state === 'finished');
+    assert.deepEqual(finished.map(event => [event.accountId, event.completed, event.total]), [
+        ['fast', 1, 3],
+        ['slow', 2, 3],
+        ['stuck', 3, 3]
+    ]);
+    // All three were running before the first one finished
+    assert.equal(progress.findIndex(event => event.state === 'finished'), 6);
+});
+
+test('formatDuration picks a readable unit', () => {
+    assert.equal(formatDuration(850), '850ms');
+    assert.equal(formatDuration(42400), '42s');
+    assert.equal(formatDuration(15 * 60000), '15 min');
+});
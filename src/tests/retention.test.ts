@@ -0,0 +1,93 @@
+import { after, before, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { compactApplication, planRetention, readCheckLog, snapshotHash, validateRetention } from '../retention';
+import { makeSnapshot, useTempProject, writeJson } from './helpers';
+
+let project: ReturnType<typeof useTempProject>;
+
+before(() => {
+    project = useTempProject();
+});
+
+after(() => {
+    project.restore();
+});
+
+const snapshotFile = (stamp: string) => `szczegoly-wniosku_${stamp}.json`;
+
+test('snapshotHash ignores the check time but not the page content', () => {
+    assert.equal(snapshotHash(makeSnapshot()), snapshotHash(makeSnapshot({ timestamp: '2025-01-01T00:00:00.000Z' })));
+    assert.notEqual(snapshotHash(makeSnapshot()), snapshotHash(makeSnapshot({ mainText: 'Status: Decyzja wydana' })));
+});
+
+test('validateRetention accepts whole numbers and rejects anything else', () => {
+    validateRetention(undefined, 'settings.json');
+    validateRetention({ keepUnchanged: 0, keepDailyDays: 7 }, 'settings.json');
+
+    assert.throws(() => validateRetention([], 'settings.json'), /settings.json: retention must be an object/);
+    assert.throws(() => validateRetention({ keepWeekly: 4 }, 'settings.json'), /unknown retention setting keepWeekly/);
+    assert.throws(() => validateRetention({ keepUnchanged: -1 }, 'settings.json'), /retention.keepUnchanged must be a whole number/);
+    assert.throws(() => validateRetention({ keepDailyDays: 1.5 }, 'settings.json'), /retention.keepDailyDays must be a whole number/);
+});
+
+test('planRetention keeps change points, the latest, the newest unchanged and one per recent day', () => {
+    const snapshots = [
+        { file: snapshotFile('2024-03-01T10-00-00'), changed: true },
+        { file: snapshotFile('2024-03-01T12-00-00'), changed: false },
+        { file: snapshotFile('2024-03-02T10-00-00'), changed: true },
+        { file: snapshotFile('2024-03-02T12-00-00'), changed: false },
+        { file: snapshotFile('2024-03-19T10-00-00'), changed: false },
+        { file: snapshotFile('2024-03-19T12-00-00'), changed: false },
+        { file: snapshotFile('2024-03-20T08-00-00'), changed: false },
+        { file: snapshotFile('2024-03-20T09-00-00'), changed: false },
+        { file: snapshotFile('2024-03-20T10-00-00'), changed: false }
+    ];
+
+    const plan = planRetention(snapshots, { keepUnchanged: 1, keepDailyDays: 2 }, new Date(2024, 2, 20, 11, 0, 0));
+
+    assert.deepEqual(plan.keep, [
+        snapshotFile('2024-03-01T10-00-00'),
+        snapshotFile('2024-03-02T10-00-00'),
+        snapshotFile('2024-03-19T12-00-00'),
+        snapshotFile('2024-03-20T10-00-00')
+    ]);
+    assert.equal(plan.remove.length, 5);
+
+    const keepAll = planRetention(snapshots, { keepUnchanged: 100, keepDailyDays: 0 });
+    assert.equal(keepAll.remove.length, 0);
+});
+
+test('compactApplication applies ignore rules, leaves check records and supports dry runs', () => {
+    const dir = path.join(project.dir, 'data', 'anna', '223199');
+    const stamps = ['2024-03-01T10-00-00', '2024-03-02T10-00-00', '2024-03-03T10-00-00', '2024-03-04T10-00-00'];
+    stamps.forEach((stamp, index) => writeJson(path.join(dir, snapshotFile(stamp)), makeSnapshot({
+        timestamp: `2024-03-0${index + 1}T10:00:00.000Z`,
+        mainText: `${makeSnapshot().mainText}\nSesja wygaśnie za 1${index}:00`
+    })));
+    fs.writeFileSync(path.join(dir, snapshotFile('2024-03-02T12-00-00')), '{ broken');
+    const policy = { keepUnchanged: 0, keepDailyDays: 0 };
+    const rules = { maskPatterns: ['Sesja wygaśnie za \\d+:\\d+'] };
+
+    const preview = compactApplication(dir, policy, { rules, dryRun: true });
+    assert.deepEqual(preview.removed, [snapshotFile(stamps[1]!), snapshotFile(stamps[2]!)]);
+    assert.equal(fs.readdirSync(dir).length, 5);
+
+    // Without the rule the session timer makes every snapshot a change point
+    assert.deepEqual(compactApplication(dir, policy, { dryRun: true }).removed, []);
+
+    const result = compactApplication(dir, policy, { rules });
+    assert.equal(result.application, '223199');
+    assert.deepEqual(result.kept, [snapshotFile(stamps[0]!), snapshotFile(stamps[3]!)]);
+    assert.deepEqual(fs.readdirSync(dir).sort(), [
+        'checks.jsonl',
+        snapshotFile(stamps[0]!),
+        snapshotFile('2024-03-02T12-00-00'),
+        snapshotFile(stamps[3]!)
+    ]);
+    assert.deepEqual(readCheckLog(dir).map(record => [record.timestamp, record.snapshot, record.compacted]), [
+        ['2024-03-02T10:00:00.000Z', snapshotFile(stamps[0]!), snapshotFile(stamps[1]!)],
+        ['2024-03-03T10:00:00.000Z', snapshotFile(stamps[0]!), snapshotFile(stamps[2]!)]
+    ]);
+});
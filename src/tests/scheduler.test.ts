@@ -0,0 +1,362 @@
+import { after, afterEach, before, mock, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import {
+    buildSchedule,
+    isQuietTime,
+    nextRun,
+    Scheduler,
+    ScheduleEntry,
+    upcomingRuns,
+    validateAccountSchedule,
+    validateSchedule
+} from '../scheduler';
+import { getScheduleStatePath, loadScheduleState, recordChecks, ScheduleState } from '../schedule-state';
+import { AccountSchedule, Settings } from '../settings';
+import { AccountConfig } from '../types';
+import { useTempProject, writeJson } from './helpers';
+
+let project: ReturnType<typeof useTempProject>;
+
+// The scheduler writes to logs/
+before(() => {
+    project = useTempProject();
+});
+
+after(() => {
+    project.restore();
+});
+
+afterEach(() => {
+    mock.timers.reset();
+    fs.rmSync(getScheduleStatePath(), { force: true });
+});
+
+const baseSettings: Settings = {
+    scheduleEnabled: true,
+    scheduleType: 'days',
+    scheduleInterval: 30,
+    scheduleDays: {}
+};
+
+// Monday 18 March 2024, local time
+const monday = (hours: number, minutes: number = 0) => new Date(2024, 2, 18, hours, minutes);
+
+// Mocked timers only fire what is due at the end of one tick, so time passes a minute at a time
+function passMinutes(minutes: number): void {
+    for (let minute = 0; minute < minutes; minute++) {
+        mock.timers.tick(60000);
+    }
+}
+
+function cronEntry(expression: string): ScheduleEntry {
+    return { label: expression, expression, intervalMinutes: null };
+}
+
+function account(login: string, schedule?: AccountSchedule): AccountConfig {
+    return { login, password: 'test-pass', ...(schedule ? { schedule } : {}) };
+}
+
+function runTimes(runs: { at: string }[]): Date[] {
+    return runs.map(run => new Date(run.at));
+}
+
+function writeState(state: ScheduleState): void {
+    writeJson(getScheduleStatePath(), state);
+}
+
+test('returns nothing when the scheduler is disabled', () => {
+    assert.deepEqual(buildSchedule({ ...baseSettings, scheduleEnabled: false }), []);
+});
+
+test('builds a minute step expression in interval mode', () => {
+    const entries = buildSchedule({ ...baseSettings, scheduleType: 'interval', scheduleInterval: 15 });
+    assert.deepEqual(entries.map(entry => entry.expression), ['*/15 * * * *']);
+});
+
+test('ignores a non-positive interval', () => {
+    assert.deepEqual(buildSchedule({ ...baseSettings, scheduleType: 'interval', scheduleInterval: 0 }), []);
+});
+
+test('keeps intervals the clock cannot express as fixed intervals', () => {
+    const interval = (scheduleInterval: number, scheduleIntervalUnit: NonNullable<Settings['scheduleIntervalUnit']>) =>
+        buildSchedule({ ...baseSettings, scheduleType: 'interval', scheduleInterval, scheduleIntervalUnit })[0];
+
+    assert.deepEqual(interval(6, 'hours'), { label: 'every 6 hours', expression: '0 */6 * * *', intervalMinutes: null });
+    assert.deepEqual(interval(7, 'minutes'), { label: 'every 7 minutes', expression: null, intervalMinutes: 7 });
+    assert.deepEqual(interval(90, 'minutes'), { label: 'every 90 minutes', expression: null, intervalMinutes: 90 });
+    assert.deepEqual(interval(5, 'hours'), { label: 'every 5 hours', expression: null, intervalMinutes: 300 });
+    assert.deepEqual(interval(1, 'days'), { label: 'every 1 day', expression: null, intervalMinutes: 1440 });
+});
+
+test('builds one expression per enabled day with cron day numbers', () => {
+    const entries = buildSchedule({
+        ...baseSettings,
+        scheduleDays: {
+            monday: { enabled: true, time: '09:05' },
+            tuesday: { enabled: false, time: '10:00' },
+            saturday: { enabled: true, time: '16:52' },
+            sunday: { enabled: true, time: '00:00' }
+        }
+    });
+
+    assert.deepEqual(entries.map(entry => entry.expression), ['0 0 * * 0', '5 9 * * 1', '52 16 * * 6']);
+    assert.equal(entries[2]!.label, 'saturday at 16:52');
+});
+
+test('builds one expression per time of a day', () => {
+    const entries = buildSchedule({
+        ...baseSettings,
+        scheduleDays: { monday: { enabled: true, time: '09:00', times: ['13:30', '09:00', '18:00'] } }
+    });
+    assert.deepEqual(entries.map(entry => entry.label), ['monday at 09:00', 'monday at 13:30', 'monday at 18:00']);
+});
+
+test('returns nothing in days mode when no day is enabled', () => {
+    assert.deepEqual(buildSchedule(baseSettings), []);
+});
+
+test('passes raw cron expressions through', () => {
+    const entries = buildSchedule({ ...baseSettings, scheduleType: 'cron', scheduleCron: ['0 8-18/2 * * mon-fri'] });
+    assert.deepEqual(entries, [{ label: 'cron "0 8-18/2 * * mon-fri"', expression: '0 8-18/2 * * mon-fri', intervalMinutes: null }]);
+});
+
+test('validateSchedule names the broken setting', () => {
+    assert.throws(() => validateSchedule({ ...baseSettings, scheduleType: 'weekly' as any }, 'settings.json'), /settings.json: scheduleType must be one of/);
+    assert.throws(() => validateSchedule({ ...baseSettings, scheduleType: 'interval', scheduleInterval: 1.5 }, 'settings.json'), /whole number of minutes/);
+    assert.throws(() => validateSchedule({ ...baseSettings, scheduleIntervalUnit: 'weeks' as any }, 'settings.json'), /scheduleIntervalUnit/);
+    assert.throws(() => validateSchedule({ ...baseSettings, scheduleDays: { monday: { enabled: true, time: '9am' } } }, 'settings.json'),
+        /scheduleDays.monday: "9am" is not a HH:MM time/);
+    assert.throws(() => validateSchedule({ ...baseSettings, scheduleDays: { someday: { enabled: true, time: '09:00' } } }, 'settings.json'),
+        /someday is not a day/);
+    assert.throws(() => validateSchedule({ ...baseSettings, scheduleCron: ['0 9 * *'] }, 'settings.json'), /needs 5 fields/);
+    assert.throws(() => validateSchedule({ ...baseSettings, scheduleCron: ['0 25 * * *'] }, 'settings.json'), /"25" is out of range 0-23/);
+    assert.throws(() => validateSchedule({ ...baseSettings, quietHours: { start: '22:00', end: '7' } }, 'settings.json'), /quietHours/);
+    validateSchedule({ ...baseSettings, scheduleType: 'cron', scheduleCron: ['*/5 * 1,15 jan-jun sun'], quietHours: { start: '22:00', end: '07:00' } }, 'settings.json');
+});
+
+test('nextRun finds the next matching minute of a cron expression', () => {
+    assert.deepEqual(nextRun(cronEntry('*/15 * * * *'), monday(8, 7), monday(0)), monday(8, 15));
+    assert.deepEqual(nextRun(cronEntry('0 9 * * 1'), monday(9), monday(0)), new Date(2024, 2, 25, 9, 0));
+});
+
+test('nextRun steps fixed intervals from the anchor', () => {
+    const every90 = { label: 'every 90 minutes', expression: null, intervalMinutes: 90 };
+    assert.deepEqual(nextRun(every90, monday(8), monday(7, 45)), monday(9, 15));
+    assert.deepEqual(nextRun(every90, monday(9, 15), monday(7, 45)), monday(10, 45));
+    assert.deepEqual(nextRun(every90, monday(7, 45), monday(7, 45)), monday(9, 15));
+});
+
+test('quiet hours may span midnight', () => {
+    const night = { start: '22:00', end: '07:00' };
+    assert.equal(isQuietTime(monday(23), night), true);
+    assert.equal(isQuietTime(monday(6, 59), night), true);
+    assert.equal(isQuietTime(monday(7), night), false);
+    assert.equal(isQuietTime(monday(12), { start: '12:00', end: '13:00' }), true);
+    assert.equal(isQuietTime(monday(12), undefined), false);
+});
+
+test('upcomingRuns previews the next checks and skips quiet hours', () => {
+    const runs = upcomingRuns({
+        ...baseSettings,
+        scheduleType: 'interval',
+        scheduleInterval: 4,
+        scheduleIntervalUnit: 'hours',
+        quietHours: { start: '22:00', end: '06:00' }
+    }, monday(17), 4);
+    assert.deepEqual(runs.map(run => new Date(run.at)), [monday(20), new Date(2024, 2, 19, 8), new Date(2024, 2, 19, 12), new Date(2024, 2, 19, 16)]);
+    assert.equal(runs[0]!.label, 'every 4 hours');
+
+    // Intervals continue from the last check
+    const fromLastCheck = upcomingRuns({
+        ...baseSettings,
+        scheduleType: 'interval',
+        scheduleInterval: 5,
+        scheduleIntervalUnit: 'hours',
+        lastCheck: monday(10, 20).toISOString()
+    }, monday(17), 2);
+    assert.deepEqual(fromLastCheck.map(run => new Date(run.at)), [monday(20, 20), new Date(2024, 2, 19, 1, 20)]);
+
+    assert.deepEqual(upcomingRuns({ ...baseSettings, scheduleEnabled: false }, monday(17)), []);
+});
+
+test('Scheduler runs every entry of the schedule and replaces it on restart', () => {
+    mock.timers.enable({ apis: ['Date', 'setTimeout'], now: monday(8, 55).getTime() });
+    const due: string[] = [];
+    const scheduler = new Scheduler(entry => due.push(entry.label));
+    try {
+        scheduler.start({
+            ...baseSettings,
+            scheduleDays: { monday: { enabled: true, time: '09:00', times: ['09:30'] }, tuesday: { enabled: true, time: '09:00' } }
+        });
+        assert.deepEqual(scheduler.nextRuns(3).map(run => run.label), ['monday at 09:00', 'monday at 09:30', 'tuesday at 09:00']);
+
+        passMinutes(5);
+        assert.deepEqual(due, ['monday at 09:00']);
+        passMinutes(30);
+        assert.deepEqual(due, ['monday at 09:00', 'monday at 09:30']);
+
+        // Only the new schedule fires after a restart
+        scheduler.start({ ...baseSettings, scheduleType: 'interval', scheduleInterval: 15 });
+        passMinutes(60);
+        assert.deepEqual(due.slice(2), ['every 15 minutes', 'every 15 minutes', 'every 15 minutes', 'every 15 minutes']);
+
+        scheduler.start({ ...baseSettings, scheduleEnabled: false });
+        assert.equal(scheduler.active, false);
+        passMinutes(24 * 60);
+        assert.equal(due.length, 6);
+    } finally {
+        scheduler.stop();
+    }
+});
+
+test('Scheduler skips runs due in quiet hours', () => {
+    mock.timers.enable({ apis: ['Date', 'setTimeout'], now: monday(21).getTime() });
+    const due: string[] = [];
+    const scheduler = new Scheduler(entry => due.push(entry.label));
+    try {
+        scheduler.start({ ...baseSettings, scheduleType: 'interval', scheduleInterval: 2, scheduleIntervalUnit: 'hours', quietHours: { start: '23:00', end: '05:00' } });
+        passMinutes(10 * 60);
+        assert.equal(due.length, 2); // 22:00 and 06:00, nothing at 00:00, 02:00 and 04:00
+    } finally {
+        scheduler.stop();
+    }
+});
+
+test('accounts with their own schedule run apart from the shared one', () => {
+    const runs = upcomingRuns({ ...baseSettings, scheduleType: 'interval', scheduleInterval: 4, scheduleIntervalUnit: 'hours' }, monday(17), 3, [
+        account('first'),
+        account('second'),
+        account('evening', { scheduleType: 'days', scheduleDays: { monday: { enabled: true, time: '18:30' } } }),
+        account('first', { scheduleEnabled: false })
+    ]);
+    assert.deepEqual(runs, [
+        { label: 'monday at 18:30', at: monday(18, 30).toISOString(), accounts: ['evening'] },
+        { label: 'every 4 hours', at: monday(20).toISOString(), accounts: ['first', 'second'] },
+        { label: 'every 4 hours', at: new Date(2024, 2, 19, 0).toISOString(), accounts: ['first', 'second'] }
+    ]);
+});
+
+test('validateAccountSchedule names the account', () => {
+    assert.throws(() => validateAccountSchedule(baseSettings, account('x', { scheduleType: 'weekly' as any }), 'accounts.json entry 1 (x)'),
+        /accounts.json entry 1 \(x\): schedule: scheduleType must be one of/);
+    assert.throws(() => validateAccountSchedule(baseSettings, account('x', { adaptiveSchedule: { enabled: true, minIntervalMinutes: 600, maxIntervalMinutes: 60 } }), 'x'),
+        /minIntervalMinutes must not exceed maxIntervalMinutes/);
+    assert.throws(() => validateSchedule({ ...baseSettings, adaptiveSchedule: { enabled: true, boostHours: 0 } }, 'settings.json'), /adaptiveSchedule.boostHours/);
+    validateAccountSchedule(baseSettings, account('x'), 'x');
+});
+
+test('an adaptive schedule checks every hour for two days after a change', () => {
+    const wednesday = (hours: number) => new Date(2024, 2, 20, hours);
+    writeState({ watched: { lastCheck: wednesday(7).toISOString(), lastChange: monday(9).toISOString() } });
+    const runs = upcomingRuns({
+        ...baseSettings,
+        scheduleDays: { monday: { enabled: true, time: '09:00' }, thursday: { enabled: true, time: '09:00' } },
+        adaptiveSchedule: { enabled: true }
+    }, wednesday(7), 3, [account('watched')]);
+
+    assert.deepEqual(runTimes(runs), [wednesday(8), wednesday(9), new Date(2024, 2, 21, 9)]);
+    assert.deepEqual(runs.map(run => run.label), ['every 60 minutes after a change', 'every 60 minutes after a change', 'thursday at 09:00']);
+});
+
+test('an adaptive schedule backs off when nothing changed for a while', () => {
+    writeState({ quiet: { lastCheck: monday(8).toISOString(), trackedSince: new Date(2024, 1, 20).toISOString() } });
+    const settings: Settings = { ...baseSettings, scheduleType: 'interval', scheduleInterval: 4, scheduleIntervalUnit: 'hours' };
+    const runs = upcomingRuns(settings, monday(9), 2, [account('quiet', { adaptiveSchedule: { enabled: true, backoffDays: 7 } })]);
+
+    assert.deepEqual(runTimes(runs), [new Date(2024, 2, 19, 8), new Date(2024, 2, 20, 8)]);
+    assert.equal(runs[0]!.label, 'every 4 hours, backed off to 1440 minutes');
+
+    // Without any recorded check the regular schedule applies
+    fs.rmSync(getScheduleStatePath());
+    assert.deepEqual(runTimes(upcomingRuns(settings, monday(9), 1, [account('quiet', { adaptiveSchedule: { enabled: true } })])), [monday(12)]);
+});
+
+test('recordChecks keeps the last check and change of each account', () => {
+    recordChecks([{ accountId: 'first', status: 'success', checkStatus: 'first-run', startedAt: monday(9).toISOString() }]);
+    recordChecks([
+        { accountId: 'first', status: 'success', checkStatus: 'changed', startedAt: monday(10).toISOString() },
+        { accountId: 'paused', status: 'paused' }
+    ]);
+    recordChecks([{ accountId: 'first', status: 'error' }], monday(11));
+
+    assert.deepEqual(loadScheduleState(), {
+        first: { lastCheck: monday(11).toISOString(), trackedSince: monday(9).toISOString(), lastChange: monday(10).toISOString() }
+    });
+});
+
+test('Scheduler checks the due accounts together and records their next check', () => {
+    mock.timers.enable({ apis: ['Date', 'setTimeout'], now: monday(8, 55).getTime() });
+    const due: (string[] | null)[] = [];
+    const scheduler = new Scheduler((entry, accounts) => due.push(accounts));
+    try {
+        scheduler.start({ ...baseSettings, scheduleDays: { monday: { enabled: true, time: '09:00' } } }, [
+            account('weekly'),
+            account('often', { scheduleType: 'interval', scheduleInterval: 30 })
+        ]);
+        assert.deepEqual(loadScheduleState(), {
+            weekly: { nextCheck: monday(9).toISOString() },
+            often: { nextCheck: monday(9).toISOString() }
+        });
+
+        passMinutes(35);
+        assert.deepEqual(due, [['weekly', 'often'], ['often']]);
+        assert.equal(loadScheduleState().weekly!.nextCheck, new Date(2024, 2, 25, 9).toISOString());
+        assert.equal(loadScheduleState().often!.nextCheck, monday(10).toISOString());
+    } finally {
+        scheduler.stop();
+    }
+
+    // Without accounts every check covers all of them
+    scheduler.start({ ...baseSettings, scheduleType: 'interval', scheduleInterval: 15 });
+    try {
+        passMinutes(15);
+        assert.deepEqual(due.slice(2), [null]);
+    } finally {
+        scheduler.stop();
+    }
+});
+
+test('Scheduler follows up on a change after refresh', () => {
+    mock.timers.enable({ apis: ['Date', 'setTimeout'], now: monday(8, 55).getTime() });
+    const due: string[] = [];
+    const scheduler = new Scheduler(entry => due.push(entry.label));
+    try {
+        scheduler.start({ ...baseSettings, scheduleDays: { monday: { enabled: true, time: '09:00' } }, adaptiveSchedule: { enabled: true } }, [account('watched')]);
+        passMinutes(5);
+        recordChecks([{ accountId: 'watched', status: 'success', checkStatus: 'changed' }]);
+        scheduler.refresh();
+
+        assert.deepEqual(runTimes(scheduler.nextRuns(2)), [monday(10), monday(11)]);
+        passMinutes(60);
+        assert.deepEqual(due, ['monday at 09:00', 'every 60 minutes after a change']);
+    } finally {
+        scheduler.stop();
+    }
+});
+
+test('Scheduler.catchUp runs one check for the runs missed since the last check', () => {
+    mock.timers.enable({ apis: ['Date', 'setTimeout'], now: monday(8, 30).getTime() });
+    writeState({ early: { lastCheck: monday(6).toISOString() }, late: { lastCheck: monday(8, 10).toISOString() } });
+    const due: (string[] | null)[] = [];
+    const scheduler = new Scheduler((entry, accounts) => due.push(accounts));
+    const settings: Settings = { ...baseSettings, scheduleDays: { monday: { enabled: true, time: '07:00', times: ['08:00'] } } };
+    try {
+        scheduler.start(settings, [account('early'), account('late', { scheduleDays: { monday: { enabled: true, time: '09:00' } } })]);
+
+        assert.deepEqual(scheduler.catchUp('startup'), [{ label: 'monday at 07:00', at: monday(7).toISOString(), accounts: ['early'] }]);
+        assert.deepEqual(due, [['early']]);
+        assert.deepEqual(scheduler.catchUp('startup'), []);
+        assert.equal(loadScheduleState().early!.nextCheck, new Date(2024, 2, 25, 7).toISOString());
+
+        passMinutes(30);
+        assert.deepEqual(due, [['early'], ['late']]);
+
+        // Nothing runs in quiet hours
+        scheduler.start({ ...settings, quietHours: { start: '09:00', end: '10:00' } }, [account('early')]);
+        assert.deepEqual(scheduler.catchUp('system resumed'), []);
+        assert.equal(due.length, 2);
+    } finally {
+        scheduler.stop();
+    }
+});
@@ -0,0 +1,401 @@
+import { after, afterEach, before, mock, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+// Mock the CommonJS module object itself so the checker sees the replacement
+import puppeteer = require('puppeteer');
+import { PIOChecker } from '../pio-checker';
+import { SharedBrowser } from '../browser';
+import { AccountLockedError, AuthenticationError, MaintenanceError } from '../errors';
+import { testAccount, useTempProject, writeJson } from './helpers';
+
+const DETAILS_URL = 'https://pio-przybysz.duw.pl/szczegoly-wniosku';
+
+// What the wnioski-przyjete list evaluation returns for the given applications
+function listPage(...ids: string[]) {
+    return {
+        headers: ['Numer wniosku', 'Status'],
+        rows: ids.map(id => ({ href: `/szczegoly-wniosku/${id}`, cells: [id, 'W trakcie weryfikacji'] }))
+    };
+}
+
+let project: ReturnType<typeof useTempProject>;
+
+before(() => {
+    project = useTempProject();
+});
+
+after(() => {
+    project.restore();
+});
+
+afterEach(() => {
+    mock.restoreAll();
+});
+
+// Minimal stand-in for the puppeteer Page used by scrapeData; evaluate() answers from a queue
+class FakePage {
+    logins = 0;
+    currentUrl = 'about:blank';
+    typed: string[] = [];
+    visited: string[] = [];
+    selectors: string[] = [];
+    // Cookies the portal hands out after login, and the ones restored from a saved session
+    cookieJar: Array<{ name: string; value: string; expires: number }> = [];
+    restoredCookies: unknown[] = [];
+    // Send the list page back to the login form until the form has been submitted, or always (wrong password)
+    sessionExpired = false;
+    rejectLogin = false;
+    // Markup returned by content(), e.g. an error message or a maintenance notice
+    html = '<html></html>';
+
+    constructor(private evaluateResults: unknown[], private detailsUrl: string = DETAILS_URL) {}
+
+    async setDefaultTimeout() {}
+    async setDefaultNavigationTimeout() {}
+    async setUserAgent() {}
+    async waitForTimeout() {}
+    async waitForSelector(selector: string) {
+        this.selectors.push(selector);
+    }
+    async waitForNavigation() {
+        this.logins++;
+    }
+    async content() { return this.html; }
+
+    // Console and error listeners registered through on(); tests call them to simulate page output
+    listeners = new Map<string, (event: unknown) => void>();
+    on(event: string, listener: (event: unknown) => void) {
+        this.listeners.set(event, listener);
+    }
+
+    async screenshot(options: { path: string }) {
+        fs.writeFileSync(options.path, 'PNG');
+    }
+
+    async goto(url: string) {
+        this.visited.push(url);
+        const loggedOut = this.rejectLogin || (this.sessionExpired && this.logins === 0);
+        this.currentUrl = loggedOut && url.endsWith('/wnioski-przyjete')
+            ? 'https://pio-przybysz.duw.pl/login'
+            : url;
+    }
+
+    async cookies() {
+        return this.cookieJar;
+    }
+
+    async setCookie(...cookies: unknown[]) {
+        this.restoredCookies.push(...cookies);
+    }
+
+    async $(selector: string) {
+        this.selectors.push(selector);
+        return {
+            type: async (text: string) => { this.typed.push(text); },
+            click: async () => {}
+        };
+    }
+
+    async evaluate(_fn: unknown, applicationId?: string) {
+        const result = this.evaluateResults.shift();
+        // The link lookup clicks the application link, which opens the details page
+        if (result === true) {
+            this.currentUrl = `${this.detailsUrl}/${applicationId}`;
+        }
+        return result;
+    }
+
+    url() {
+        return this.currentUrl;
+    }
+}
+
+function mockBrowser(...pages: FakePage[]) {
+    const nextPage = async () => pages.length > 1 ? pages.shift()! : pages[0]!;
+    const context = { newPage: nextPage, close: mock.fn(async () => {}) };
+    const browser = {
+        newPage: nextPage,
+        createIncognitoBrowserContext: mock.fn(async () => context),
+        isConnected: () => true,
+        close: mock.fn(async () => {})
+    };
+    const launch = mock.method(puppeteer, 'launch', async () => browser);
+    return { browser, context, launch };
+}
+
+test('scrapeData logs in, opens the application and extracts its data', async () => {
+    const mainText = 'Szczegóły wniosku\nStatus: W trakcie weryfikacji\nData złożenia wniosku: 12.03.2024';
+    const tables = [[['Data', 'Dokument'], ['14.03.2024', 'Potwierdzenie złożenia wniosku']]];
+    const page = new FakePage([listPage('223199'), true, mainText, tables]);
+    const { browser, launch } = mockBrowser(page);
+
+    const [scrape] = await new PIOChecker({ ...testAccount, headless: false }).scrapeData();
+    const data = scrape!.data!;
+
+    assert.equal((launch.mock.calls[0]!.arguments[0] as puppeteer.PuppeteerLaunchOptions).headless, false);
+    assert.deepEqual(page.visited, ['https://pio-przybysz.duw.pl/login', 'https://pio-przybysz.duw.pl/wnioski-przyjete']);
+    assert.deepEqual(page.typed, [testAccount.login, testAccount.password]);
+    assert.equal(scrape!.applicationId, '223199');
+    assert.equal(data.url, `${DETAILS_URL}/223199`);
+    assert.equal(data.elementText, '223199');
+    assert.deepEqual(data.fields.tables, tables);
+    assert.deepEqual(data.fields.numbers, ['12.03.2024']);
+    assert.equal(data.details?.status, 'W trakcie weryfikacji');
+    assert.equal(data.details?.submissionDate, '12.03.2024');
+    assert.equal(browser.close.mock.callCount(), 1);
+});
+
+test('scrapeData uses the configured portal URLs', async () => {
+    const page = new FakePage([listPage('223199'), true, 'text', []], 'http://127.0.0.1:4300/szczegoly-wniosku');
+    mockBrowser(page);
+
+    const [scrape] = await new PIOChecker({
+        ...testAccount,
+        loginUrl: 'http://127.0.0.1:4300/login',
+        wniosikiUrl: 'http://127.0.0.1:4300/wnioski-przyjete'
+    }).scrapeData();
+
+    assert.deepEqual(page.visited, ['http://127.0.0.1:4300/login', 'http://127.0.0.1:4300/wnioski-przyjete']);
+    assert.equal(scrape!.data!.url, 'http://127.0.0.1:4300/szczegoly-wniosku/223199');
+});
+
+test('scrapeData follows the URLs, selectors and extraction rules of the site profile', async () => {
+    writeJson(path.join(project.dir, 'profiles', 'opole.json'), {
+        urls: {
+            login: 'https://pio.opole.uw.gov.pl/logowanie',
+            applicationsList: 'https://pio.opole.uw.gov.pl/moje-wnioski',
+            detailsPath: '/wniosek'
+        },
+        selectors: { username: '#login', password: '#haslo', submit: 'button[type=submit]' },
+        waits: { detailsReadySelector: '.szczegoly' },
+        extraction: { fieldLabels: { status: ['Stan sprawy'] } }
+    });
+    const list = { headers: ['Numer'], rows: [{ href: '/wniosek/OP-17', cells: ['OP-17'] }] };
+    const page = new FakePage([list, true, 'Stan sprawy: Zakończona', []], 'https://pio.opole.uw.gov.pl/wniosek');
+    mockBrowser(page);
+
+    const [scrape] = await new PIOChecker({ ...testAccount, siteProfile: 'opole', applications: 'all' }).scrapeData();
+
+    assert.deepEqual(page.visited, ['https://pio.opole.uw.gov.pl/logowanie', 'https://pio.opole.uw.gov.pl/moje-wnioski']);
+    assert.deepEqual(page.selectors, ['#login', '#login', '#haslo', '#haslo', 'button[type=submit]', '.szczegoly']);
+    assert.equal(scrape!.applicationId, 'OP-17');
+    assert.equal(scrape!.data!.details?.status, 'Zakończona');
+    fs.rmSync(path.join(project.dir, 'profiles'), { recursive: true });
+});
+
+test('scrapeData checks every listed application in a single login session', async () => {
+    const page = new FakePage([listPage('223199', '224518'), true, 'Status: Nowy', [], true, 'Status: Przyjęty', []]);
+    const { launch } = mockBrowser(page);
+
+    const scrapes = await new PIOChecker({ ...testAccount, applications: ['223199', '224518'] }).scrapeData();
+
+    assert.equal(launch.mock.callCount(), 1);
+    assert.equal(page.logins, 1);
+    assert.deepEqual(page.visited, [
+        'https://pio-przybysz.duw.pl/login',
+        'https://pio-przybysz.duw.pl/wnioski-przyjete',
+        'https://pio-przybysz.duw.pl/wnioski-przyjete'
+    ]);
+    assert.deepEqual(scrapes.map(scrape => [scrape.applicationId, scrape.data?.elementText, scrape.data?.details?.status]), [
+        ['223199', '223199', 'Nowy'],
+        ['224518', '224518', 'Przyjęty']
+    ]);
+});
+
+test('scrapeData discovers applications on the list page when tracking all', async () => {
+    const page = new FakePage([listPage('224518', '223199', '224518'), true, 'A', [], true, 'B', []]);
+    mockBrowser(page);
+
+    const scrapes = await new PIOChecker({ login: 'all-user', password: 'pass', applications: 'all' }).scrapeData();
+
+    assert.deepEqual(scrapes.map(scrape => scrape.data?.url), [`${DETAILS_URL}/224518`, `${DETAILS_URL}/223199`]);
+});
+
+test('scrapeData keeps the applications list and picks up new applications with autoTrack', async () => {
+    writeJson(path.join(project.dir, 'data', 'tracker', 'wnioski-przyjete_2024-01-01T00-00-00.json'), {
+        url: 'https://pio-przybysz.duw.pl/wnioski-przyjete',
+        timestamp: '2024-01-01T00:00:00.000Z',
+        headers: ['Numer wniosku', 'Status'],
+        entries: [{ applicationId: '223199', cells: ['223199', 'W trakcie weryfikacji'] }]
+    });
+    const page = new FakePage([listPage('223199', '230001'), true, 'A', [], true, 'B', []]);
+    mockBrowser(page);
+
+    const checker = new PIOChecker({ login: 'tracker', password: 'pass', elementText: '223199', autoTrack: true });
+    const scrapes = await checker.scrapeData();
+
+    assert.deepEqual(scrapes.map(scrape => scrape.applicationId), ['223199', '230001']);
+    assert.deepEqual(checker.applicationList!.entries.map(entry => entry.applicationId), ['223199', '230001']);
+});
+
+test('scrapeData saves the session cookies and skips the login form while they are valid', async () => {
+    const cookie = { name: 'SESSION', value: 'abc', expires: -1 };
+    const first = new FakePage([listPage('223199'), true, 'A', []]);
+    first.cookieJar = [cookie];
+    mockBrowser(first);
+    await new PIOChecker({ ...testAccount, login: 'session-user' }).scrapeData();
+
+    const sessionFile = path.join(project.dir, 'data', 'session-user', 'session.json');
+    assert.deepEqual(JSON.parse(fs.readFileSync(sessionFile, 'utf8')).cookies, [cookie]);
+
+    mock.restoreAll();
+    const second = new FakePage([listPage('223199'), true, 'A', []]);
+    mockBrowser(second);
+    await new PIOChecker({ ...testAccount, login: 'session-user' }).scrapeData();
+
+    assert.deepEqual(second.restoredCookies, [cookie]);
+    assert.deepEqual(second.visited, ['https://pio-przybysz.duw.pl/wnioski-przyjete']);
+    assert.deepEqual(second.typed, []);
+});
+
+test('scrapeData logs in again when the saved session has expired', async () => {
+    const sessionFile = path.join(project.dir, 'data', 'expired-user', 'session.json');
+    writeJson(sessionFile, { savedAt: '2024-01-01T00:00:00.000Z', cookies: [{ name: 'SESSION', value: 'old', expires: -1 }] });
+    const page = new FakePage([listPage('223199'), true, 'A', []]);
+    page.sessionExpired = true;
+    page.cookieJar = [{ name: 'SESSION', value: 'new', expires: -1 }];
+    mockBrowser(page);
+
+    const [scrape] = await new PIOChecker({ ...testAccount, login: 'expired-user' }).scrapeData();
+
+    assert.ok(scrape!.data);
+    assert.deepEqual(page.visited, [
+        'https://pio-przybysz.duw.pl/wnioski-przyjete',
+        'https://pio-przybysz.duw.pl/login',
+        'https://pio-przybysz.duw.pl/wnioski-przyjete'
+    ]);
+    assert.equal(page.logins, 1);
+    assert.equal(JSON.parse(fs.readFileSync(sessionFile, 'utf8')).cookies[0].value, 'new');
+});
+
+test('scrapeData keeps no session when reuseSession is off', async () => {
+    const page = new FakePage([listPage('223199'), true, 'A', []]);
+    page.cookieJar = [{ name: 'SESSION', value: 'abc', expires: -1 }];
+    mockBrowser(page);
+
+    await new PIOChecker({ ...testAccount, login: 'no-session-user', reuseSession: false }).scrapeData();
+
+    assert.equal(fs.existsSync(path.join(project.dir, 'data', 'no-session-user', 'session.json')), false);
+});
+
+test('accounts sharing a browser get one launch and a context each', async () => {
+    const pages = [new FakePage([listPage('223199'), true, 'A', []]), new FakePage([listPage('224518'), true, 'B', []])];
+    const { browser, context, launch } = mockBrowser(...pages);
+    const shared = new SharedBrowser(true);
+
+    await new PIOChecker({ login: 'shared-a', password: 'pass-a', elementText: '223199' }, shared).scrapeData();
+    await new PIOChecker({ login: 'shared-b', password: 'pass-b', elementText: '224518' }, shared).scrapeData();
+    await shared.close();
+
+    assert.equal(launch.mock.callCount(), 1);
+    assert.equal(browser.createIncognitoBrowserContext.mock.callCount(), 2);
+    assert.equal(context.close.mock.callCount(), 2);
+    assert.equal(browser.close.mock.callCount(), 1);
+    assert.deepEqual(pages[1]!.typed, ['shared-b', 'pass-b']);
+});
+
+test('scrapeData fails without retrying when the login is rejected', async () => {
+    const page = new FakePage([]);
+    page.rejectLogin = true;
+    const { launch } = mockBrowser(page);
+
+    await assert.rejects(
+        new PIOChecker({ ...testAccount, login: 'wrong-password' }).scrapeData(),
+        (error: unknown) => error instanceof AuthenticationError && /after 1 attempt\(s\): Login rejected for wrong-password/.test(error.message)
+    );
+    assert.equal(launch.mock.callCount(), 1);
+});
+
+test('scrapeData names wrong credentials, locked accounts and maintenance pages', async () => {
+    const wrongPassword = new FakePage([]);
+    wrongPassword.rejectLogin = true;
+    wrongPassword.html = '<div class="alert">Nieprawidłowy login lub hasło.</div><form></form>';
+    mockBrowser(wrongPassword);
+    await assert.rejects(
+        new PIOChecker(testAccount).scrapeData(),
+        (error: unknown) => error instanceof AuthenticationError && /rejected the login or password: "Nieprawidłowy login lub hasło/.test(error.message)
+    );
+    // The message on the login page only counts once the credentials were sent
+    assert.deepEqual(wrongPassword.typed, [testAccount.login, testAccount.password]);
+    mock.restoreAll();
+
+    const locked = new FakePage([]);
+    locked.html = '<p>Konto zostało zablokowane na 30 minut.</p>';
+    mockBrowser(locked);
+    await assert.rejects(new PIOChecker(testAccount).scrapeData(), AccountLockedError);
+    assert.deepEqual(locked.typed, []);
+    mock.restoreAll();
+
+    const maintenance = new FakePage([]);
+    maintenance.html = '<h1>Przerwa techniczna</h1><p>Zapraszamy później.</p>';
+    const { launch } = mockBrowser(maintenance);
+    await assert.rejects(new PIOChecker(testAccount).scrapeData(), MaintenanceError);
+    assert.equal(launch.mock.callCount(), 1);
+});
+
+test('scrapeData does not retry an application missing from the list', async () => {
+    const page = new FakePage([listPage('224518'), false, [], true, 'B', []]);
+    const { launch } = mockBrowser(page);
+
+    const scrapes = await new PIOChecker({ ...testAccount, applications: ['223199', '224518'] }).scrapeData();
+
+    assert.equal(launch.mock.callCount(), 1);
+    assert.equal(scrapes[0]!.errorCategory, 'application-not-found');
+    assert.match(scrapes[0]!.error!, /after 1 attempt\(s\): Could not find link containing text: 223199/);
+    assert.ok(scrapes[1]!.data);
+});
+
+test('failed applications and attempts leave a screenshot, the page HTML and console messages', async () => {
+    const page = new FakePage([listPage('224518'), false, [], true, 'B', []]);
+    page.html = '<html><body>Wnioski</body></html>';
+    mockBrowser(page);
+    const checker = new PIOChecker({ ...testAccount, applications: ['223199', '224518'] });
+    const originalEvaluate = page.evaluate.bind(page);
+    page.evaluate = async (fn: unknown, applicationId?: string) => {
+        page.listeners.get('console')!({ type: () => 'error', text: () => 'Http failure response: 500' });
+        return originalEvaluate(fn, applicationId);
+    };
+
+    await checker.scrapeData();
+
+    const [capture] = checker.failureCaptures;
+    assert.equal(checker.failureCaptures.length, 1);
+    assert.equal(capture!.name, 'attempt-1-223199');
+    assert.equal(capture!.errorCategory, 'application-not-found');
+    assert.deepEqual(capture!.files, ['screenshot.png', 'page.html', 'console.log']);
+    assert.equal(path.dirname(path.dirname(capture!.dir)), path.join(project.dir, 'data', testAccount.login, 'failures'));
+    assert.equal(fs.readFileSync(path.join(capture!.dir, 'page.html'), 'utf8'), page.html);
+    assert.match(fs.readFileSync(path.join(capture!.dir, 'console.log'), 'utf8'), /\[error\] Http failure response: 500/);
+    const saved = JSON.parse(fs.readFileSync(path.join(capture!.dir, 'failure.json'), 'utf8'));
+    assert.equal(saved.url, 'https://pio-przybysz.duw.pl/wnioski-przyjete');
+
+    // A whole failed attempt is captured without an application in its name
+    const rejected = new FakePage([]);
+    rejected.rejectLogin = true;
+    mock.restoreAll();
+    mockBrowser(rejected);
+    const failing = new PIOChecker(testAccount);
+    await assert.rejects(failing.scrapeData(), AuthenticationError);
+    assert.deepEqual(failing.failureCaptures.map(failure => [failure.name, failure.errorCategory]), [['attempt-1', 'auth']]);
+});
+
+test('scrapeData retries transient failures with backoff', async () => {
+    const page = new FakePage([listPage('223199'), true, 'A', []]);
+    const { browser } = mockBrowser(page);
+    mock.restoreAll();
+    let launches = 0;
+    mock.method(puppeteer, 'launch', async () => {
+        if (launches++ === 0) {
+            throw new Error('net::ERR_CONNECTION_REFUSED at https://pio-przybysz.duw.pl/login');
+        }
+        return browser;
+    });
+
+    const checker = new PIOChecker(testAccount);
+    (checker as unknown as { retryBaseDelayMs: number }).retryBaseDelayMs = 1;
+    const [scrape] = await checker.scrapeData();
+
+    assert.equal(launches, 2);
+    assert.ok(scrape!.data);
+});
@@ -0,0 +1,75 @@
+import { after, before, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as path from 'path';
+import { DUW_PROFILE, loadSiteProfile, validateSiteProfile } from '../site-profile';
+import { extractApplicationDetails } from '../extractor';
+import { MultiAccountChecker } from '../pio-checker';
+import { testAccount, useTempProject, writeJson } from './helpers';
+
+let project: ReturnType<typeof useTempProject>;
+
+before(() => {
+    project = useTempProject();
+});
+
+after(() => {
+    project.restore();
+});
+
+test('loadSiteProfile defaults to the DUW portal', () => {
+    assert.equal(loadSiteProfile(), DUW_PROFILE);
+    assert.equal(loadSiteProfile('duw'), DUW_PROFILE);
+    assert.equal(DUW_PROFILE.urls.login, 'https://pio-przybysz.duw.pl/login');
+    assert.equal(DUW_PROFILE.selectors.submit, 'button.btn-primary');
+});
+
+test('profile files override single settings of the DUW profile', () => {
+    writeJson(path.join(project.dir, 'profiles', 'duw-2025.json'), {
+        description: 'DUW after the login page redesign',
+        selectors: { submit: 'button[type="submit"]' },
+        waits: { listReadySelector: 'table.wnioski' },
+        extraction: { fieldLabels: { caseHandler: ['Inspektor'] }, missingDocumentKeywords: ['Wezwanie'] }
+    });
+    writeJson(path.join(project.dir, 'custom', 'lodz.json'), { name: 'łódź', urls: { login: 'https://pio.lodz.uw.gov.pl/login' } });
+
+    const profile = loadSiteProfile('duw-2025');
+    assert.equal(profile.name, 'duw-2025');
+    assert.equal(profile.selectors.submit, 'button[type="submit"]');
+    assert.equal(profile.selectors.username, DUW_PROFILE.selectors.username);
+    assert.equal(profile.waits.listReadySelector, 'table.wnioski');
+    assert.equal(profile.waits.listLoadMs, 3000);
+    assert.deepEqual(profile.extraction.fieldLabels.caseHandler, ['inspektor']);
+    assert.deepEqual(profile.extraction.fieldLabels.status, DUW_PROFILE.extraction.fieldLabels.status);
+
+    const details = extractApplicationDetails('Inspektor: Jan Kowalski\nWezwanie do złożenia zdjęcia', [], profile.extraction);
+    assert.equal(details.caseHandler, 'Jan Kowalski');
+    assert.deepEqual(details.missingDocuments, ['Wezwanie do złożenia zdjęcia']);
+
+    const lodz = loadSiteProfile('custom/lodz.json');
+    assert.equal(lodz.name, 'łódź');
+    assert.equal(lodz.urls.login, 'https://pio.lodz.uw.gov.pl/login');
+});
+
+test('invalid profiles are rejected with the offending setting', () => {
+    const invalid: Array<[unknown, RegExp]> = [
+        [[], /must be an object/],
+        [{ urls: { login: 'pio.duw.pl/login' } }, /urls.login must be an http\(s\) URL/],
+        [{ urls: { detailsPath: 'szczegoly-wniosku' } }, /urls.detailsPath must be a path starting with \//],
+        [{ selectors: { submit: '' } }, /selectors.submit must be a CSS selector/],
+        [{ selectors: { captcha: '#captcha' } }, /selectors: unknown setting\(s\) captcha/],
+        [{ waits: { listLoadMs: -1 } }, /waits.listLoadMs must be a number of milliseconds/],
+        [{ extraction: { fieldLabels: { status: 'Status' } } }, /fieldLabels.status must be a list of labels/],
+        [{ selector: {} }, /unknown setting\(s\) selector/]
+    ];
+    for (const [profile, message] of invalid) {
+        assert.throws(() => validateSiteProfile(profile, 'profile'), message);
+    }
+    assert.throws(() => loadSiteProfile('missing'), /Site profile missing: .*profiles\/missing.json not found/);
+});
+
+test('accounts with a broken site profile fail when accounts.json is loaded', () => {
+    writeJson(path.join(project.dir, 'profiles', 'broken.json'), { waits: { afterLoginMs: 'long' } });
+    writeJson(path.join(project.dir, 'accounts.json'), [{ ...testAccount, siteProfile: 'broken' }]);
+
+    assert.throws(() => new MultiAccountChecker(), /Site profile broken: waits.afterLoginMs/);
+});
@@ -0,0 +1,91 @@
+import { after, before, mock, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PIOChecker } from '../pio-checker';
+import { readCheckLog, snapshotHash } from '../retention';
+import { CheckResult } from '../types';
+import { makeSnapshot, testAccount, useTempProject, writeJson } from './helpers';
+
+let project: ReturnType<typeof useTempProject>;
+let checker: PIOChecker;
+let dataDir: string;
+
+before(() => {
+    project = useTempProject();
+    checker = new PIOChecker(testAccount);
+    dataDir = path.join(project.dir, 'data', testAccount.login, testAccount.elementText);
+});
+
+after(() => {
+    mock.timers.reset();
+    project.restore();
+});
+
+test('creates the per-account data directory', () => {
+    assert.ok(fs.existsSync(path.dirname(dataDir)));
+});
+
+test('getLatestSnapshot returns null without snapshots', () => {
+    assert.equal(checker.getLatestSnapshot('223199'), null);
+});
+
+test('saveData names files with a zero-padded local timestamp', () => {
+    mock.timers.enable({ apis: ['Date'], now: new Date(2024, 0, 5, 7, 3, 9).getTime() });
+    const { snapshot, saved } = checker.saveData(makeSnapshot());
+    mock.timers.reset();
+
+    assert.ok(saved);
+    assert.equal(snapshot.name, 'szczegoly-wniosku_2024-01-05T07-03-09.json');
+    assert.deepEqual(JSON.parse(fs.readFileSync(path.join(dataDir, snapshot.name), 'utf8')), makeSnapshot());
+});
+
+test('getLatestSnapshot picks the newest snapshot across day and month boundaries', () => {
+    for (const stamp of ['2024-01-31T23-59-59', '2024-02-01T00-00-00', '2023-12-31T12-00-00']) {
+        writeJson(path.join(dataDir, `szczegoly-wniosku_${stamp}.json`), makeSnapshot());
+    }
+    writeJson(path.join(dataDir, 'unrelated.json'), {});
+
+    assert.equal(checker.getLatestSnapshot('223199')!.name, 'szczegoly-wniosku_2024-02-01T00-00-00.json');
+});
+
+test('a real check moves snapshots from the old per-login layout into application folders', async () => {
+    const accountDir = path.join(project.dir, 'data', 'legacy-user');
+    writeJson(path.join(accountDir, 'szczegoly-wniosku_2024-01-01T00-00-00.json'), makeSnapshot());
+    writeJson(path.join(accountDir, 'szczegoly-wniosku_2024-01-02T00-00-00.json'), makeSnapshot({ elementText: '224518' }));
+
+    const config = { ...testAccount, login: 'legacy-user', applications: ['223199', '224518'] };
+    const unchecked = async (): Promise<CheckResult> => ({ status: 'unchanged', changes: [] });
+
+    const dryRun = new PIOChecker(config, null, { dryRun: true });
+    mock.method(dryRun as unknown as { runCheck: () => Promise<CheckResult> }, 'runCheck', unchecked);
+    await dryRun.run();
+    assert.equal(fs.readdirSync(accountDir).filter(file => file.startsWith('szczegoly-wniosku_')).length, 2);
+
+    const legacy = new PIOChecker(config);
+    mock.method(legacy as unknown as { runCheck: () => Promise<CheckResult> }, 'runCheck', unchecked);
+    await legacy.run();
+    assert.deepEqual(fs.readdirSync(accountDir).filter(file => file.startsWith('szczegoly-wniosku_')), []);
+    assert.ok(fs.existsSync(path.join(accountDir, '224518')));
+    assert.equal(legacy.getLatestSnapshot('223199')!.name, 'szczegoly-wniosku_2024-01-01T00-00-00.json');
+    assert.equal(legacy.getLatestSnapshot('224518')!.name, 'szczegoly-wniosku_2024-01-02T00-00-00.json');
+});
+
+test('saveData records an identical page in checks.jsonl instead of copying it', () => {
+    const latest = checker.getLatestSnapshot('223199')!;
+    const unchanged = checker.saveData(makeSnapshot({ timestamp: '2024-03-21T10:00:00.000Z' }));
+
+    assert.equal(unchanged.saved, false);
+    assert.equal(unchanged.snapshot.name, latest.name);
+    assert.equal(fs.readdirSync(dataDir).filter(file => file.startsWith('szczegoly-wniosku_')).length, 4);
+    const records = readCheckLog(dataDir);
+    assert.equal(records.length, 1);
+    assert.equal(records[0]!.timestamp, '2024-03-21T10:00:00.000Z');
+    assert.equal(records[0]!.snapshot, latest.name);
+    assert.equal(records[0]!.hash, snapshotHash(makeSnapshot()));
+
+    const changed = checker.saveData(makeSnapshot({ mainText: 'Status: Decyzja wydana' }));
+    assert.ok(changed.saved);
+    assert.notEqual(changed.snapshot.name, latest.name);
+    assert.equal(readCheckLog(dataDir).length, 1);
+});
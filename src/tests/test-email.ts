@@ -1,13 +1,15 @@
 // Test script for email notifications
 import * as nodemailer from 'nodemailer';
 import * as dotenv from 'dotenv';
+import { resolveSecrets } from '../vault';
 
 // Load environment variables
-dotenv.config();
+dotenv.config({ quiet: true });
 
 async function testEmail(): Promise<void> {
     const gmailUser = process.env.mail;
-    const gmailPass = process.env.pass;
+    // pass may be a vault:<key> reference after `npm run vault -- migrate`
+    const gmailPass = resolveSecrets(process.env.pass, '.env');
 
     if (!gmailUser || !gmailPass) {
         console.error('❌ Error: Gmail credentials not found in .env file');
@@ -0,0 +1,80 @@
+// Offline end-to-end run of the checker against the local fixture server
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PIOChecker } from '../pio-checker';
+import { DEFAULT_FIXTURES_DIR, startFixtureServer } from '../fixture-server';
+import { NotificationMessage } from '../notifications';
+
+// Appends each message the command channel pipes to stdin to the file named by the last argument
+const CAPTURE_SCRIPT = "const fs = require('fs'); fs.appendFileSync(process.argv[process.argv.length - 1], fs.readFileSync(0, 'utf8') + '\\n')";
+
+async function testFixture(): Promise<void> {
+    // Work on a copy so the details page can be edited between runs
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pio-fixture-'));
+    const fixturesDir = path.join(workDir, 'fixtures');
+    fs.cpSync(process.argv[2] || DEFAULT_FIXTURES_DIR, fixturesDir, { recursive: true });
+    const previousCwd = process.cwd();
+    process.chdir(workDir);
+    const captureFile = path.join(workDir, 'notifications.jsonl');
+
+    const credentials = { login: 'fixture-user', password: 'fixture-pass' };
+    const server = await startFixtureServer({ fixturesDir, credentials });
+    console.log(`🧪 Fixture server running at ${server.url}`);
+    console.log(`Working directory: ${workDir}\n`);
+
+    try {
+        // Notifications are captured instead of going to the desktop or the Gmail account from .env
+        const checker = new PIOChecker({
+            ...credentials,
+            elementText: '223199',
+            loginUrl: server.loginUrl,
+            wniosikiUrl: server.wniosikiUrl,
+            notificationChannels: [{ type: 'command', name: 'capture', command: process.execPath, args: ['-e', CAPTURE_SCRIPT, captureFile] }]
+        });
+
+        console.log('Run 1: baseline...');
+        const first = await checker.run();
+        console.log(`Result: ${first.status}\n`);
+
+        // Simulate the office moving the case forward
+        const detailsFile = path.join(fixturesDir, 'szczegoly-wniosku.html');
+        fs.writeFileSync(detailsFile, fs.readFileSync(detailsFile, 'utf8')
+            .replace('W trakcie weryfikacji', 'Decyzja wydana')
+            .replace('<tr><td>14.03.2024</td><td>Potwierdzenie złożenia wniosku</td></tr>',
+                '<tr><td>14.03.2024</td><td>Potwierdzenie złożenia wniosku</td></tr>\n            <tr><td>02.05.2024</td><td>Decyzja w sprawie</td></tr>'));
+
+        console.log('Run 2: after status change...');
+        const second = await checker.run();
+        console.log(`Result: ${second.status}`);
+        second.changes.forEach(change => console.log(`  - ${change.description}`));
+
+        console.log('\nRequests served:', server.requests.join(', '));
+
+        const notified: NotificationMessage[] = fs.existsSync(captureFile)
+            ? fs.readFileSync(captureFile, 'utf8').split('\n').filter(Boolean).map(line => JSON.parse(line))
+            : [];
+        console.log('Notifications:', notified.map(message => message.event).join(', ') || 'none');
+        const change = notified.find(message => message.event === 'change');
+
+        if (first.status !== 'first-run' || second.status !== 'changed') {
+            console.error('\n❌ Unexpected results');
+            process.exitCode = 1;
+        } else if (!change || change.accountId !== credentials.login || !change.text.includes('Decyzja wydana')) {
+            console.error('\n❌ No change notification with the new status was sent');
+            console.error('\n❌ Unexpected results');
+            process.exitCode = 1;
+        } else {
+            console.log('\n✅ Offline pipeline works: login → find link → extract → save → compare → notify');
+        }
+    } finally {
+        await server.close();
+        process.chdir(previousCwd);
+        fs.rmSync(workDir, { recursive: true, force: true });
+    }
+}
+
+testFixture().catch(error => {
+    console.error('❌ Fixture test failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,67 @@
+// Replay ignore rules against the stored snapshots of a login
+import * as fs from 'fs';
+import * as path from 'path';
+import { evaluateNoiseRules, mergeNoiseRules, validateNoiseRules } from '../noise-filter';
+import { loadSettings } from '../settings';
+import { loadSiteProfile } from '../site-profile';
+import { AccountConfig } from '../types';
+import { openHistoryStore } from '../storage';
+
+function testRules(): void {
+    const login = process.argv[2];
+    const rulesFile = process.argv[3];
+
+    if (!login) {
+        console.error('Usage: npm run test:rules -- <login> [rules.json]');
+        console.error('Without a rules file the ignoreRules from settings.json and accounts.json are used.');
+        process.exit(1);
+    }
+
+    const accountsFile = path.join(process.cwd(), 'accounts.json');
+    const accounts: AccountConfig[] = fs.existsSync(accountsFile)
+        ? JSON.parse(fs.readFileSync(accountsFile, 'utf8'))
+        : [];
+    const account = accounts.find(acc => acc.login === login);
+
+    const settings = loadSettings();
+    const rules = rulesFile
+        ? JSON.parse(fs.readFileSync(rulesFile, 'utf8'))
+        : mergeNoiseRules(settings.ignoreRules, account?.ignoreRules);
+    const extraction = loadSiteProfile(account?.siteProfile || settings.siteProfile).extraction;
+    validateNoiseRules(rules, rulesFile || 'ignoreRules');
+
+    console.log('🧪 Testing ignore rules for account:', login);
+    console.log('Rules:', JSON.stringify(rules, null, 2));
+    console.log('');
+
+    const store = openHistoryStore();
+    const applications = store.listApplications(login);
+
+    if (applications.length === 0) {
+        console.log(`No snapshots found for ${login} in the ${store.kind} history store`);
+        return;
+    }
+
+    applications.forEach(application => {
+        console.log(`📄 Application ${application}`);
+        const reports = evaluateNoiseRules(store.listSnapshots(login, application), rules, extraction);
+        if (reports.length === 0) {
+            console.log('Not enough snapshots to compare - at least two are needed.\n');
+            return;
+        }
+
+        let suppressed = 0;
+        reports.forEach(report => {
+            const marker = report.filteredChanges === 0 ? (report.rawChanges > 0 ? '🔇' : '✅') : '🔔';
+            console.log(`${marker} ${report.previousFile} → ${report.currentFile}: ${report.rawChanges} raw change(s), ${report.filteredChanges} after rules`);
+            report.remaining.slice(0, 10).forEach(description => console.log(`     ${description}`));
+            if (report.rawChanges > 0 && report.filteredChanges === 0) {
+                suppressed++;
+            }
+        });
+
+        console.log(`\n${suppressed} of ${reports.length} comparison(s) would no longer trigger "Changes Detected".\n`);
+    });
+}
+
+testRules();
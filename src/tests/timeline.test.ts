@@ -0,0 +1,102 @@
+import { after, before, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as path from 'path';
+import { JsonHistoryStore } from '../storage';
+import { buildTimeline, buildTimelines, parsePageDate, timelineToCsv } from '../timeline';
+import { makeSnapshot, useTempProject, writeJson } from './helpers';
+
+let project: ReturnType<typeof useTempProject>;
+let store: JsonHistoryStore;
+
+const NOW = new Date('2024-06-01T12:00:00.000Z');
+
+before(() => {
+    project = useTempProject();
+    const applicationDir = path.join(project.dir, 'data', 'anna', '223199');
+    const withStatus = (status: string, stage: string, timestamp: string) => makeSnapshot({
+        mainText: `Szczegóły wniosku\nData złożenia wniosku: 14.03.2024\nStatus: ${status}\nEtap: ${stage}`,
+        timestamp
+    });
+    writeJson(path.join(applicationDir, 'szczegoly-wniosku_2024-03-20T10-00-00.json'), withStatus('W trakcie weryfikacji', 'Analiza dokumentów', '2024-03-20T10:00:00.000Z'));
+    writeJson(path.join(applicationDir, 'szczegoly-wniosku_2024-04-01T10-00-00.json'), withStatus('W trakcie weryfikacji', 'Analiza dokumentów', '2024-04-01T10:00:00.000Z'));
+    writeJson(path.join(applicationDir, 'szczegoly-wniosku_2024-04-10T10-00-00.json'), withStatus('W trakcie weryfikacji', 'Wezwanie do uzupełnienia', '2024-04-10T10:00:00.000Z'));
+    writeJson(path.join(applicationDir, 'szczegoly-wniosku_2024-05-20T10-00-00.json'), withStatus('Decyzja wydana', 'Zakończono', '2024-05-20T10:00:00.000Z'));
+
+    store = new JsonHistoryStore(path.join(project.dir, 'data'));
+    store.recordChanges('anna', '223199', 'szczegoly-wniosku_2024-04-10T10-00-00.json', [
+        { kind: 'field-changed', section: 'details', location: 'Stage', oldValue: 'Analiza dokumentów', newValue: 'Wezwanie do uzupełnienia', description: 'Stage changed' },
+        { kind: 'line-added', section: 'text', location: 'Text', oldValue: null, newValue: 'Wezwanie', description: 'Line added' }
+    ], '2024-04-10T10:00:00.000Z');
+    store.recordRun({ login: 'anna', startedAt: '2024-05-19T10:00:00.000Z', finishedAt: '2024-05-19T10:01:00.000Z', status: 'error', applications: ['223199'] });
+    store.recordRun({ login: 'anna', startedAt: '2024-05-20T10:00:00.000Z', finishedAt: '2024-05-20T10:01:00.000Z', status: 'changed', applications: ['223199'] });
+    store.recordRun({ login: 'anna', startedAt: '2024-05-21T10:00:00.000Z', finishedAt: '2024-05-21T10:01:00.000Z', status: 'unchanged', applications: ['224518'] });
+});
+
+after(() => {
+    project.restore();
+});
+
+test('parsePageDate reads the date formats shown on the portal', () => {
+    assert.equal(parsePageDate('14.03.2024')!.getTime(), new Date(2024, 2, 14).getTime());
+    assert.equal(parsePageDate('2024-03-14')!.getTime(), new Date(2024, 2, 14).getTime());
+    assert.equal(parsePageDate('4/3/2024')!.getTime(), new Date(2024, 2, 4).getTime());
+    assert.equal(parsePageDate('31.02.2024'), null);
+    assert.equal(parsePageDate(null), null);
+});
+
+test('buildTimeline lists each stage once with the days spent in it', () => {
+    const timeline = buildTimeline(store, 'anna', '223199', NOW);
+
+    assert.deepEqual(timeline.stages.map(stage => [stage.status, stage.stage, stage.enteredAt, stage.leftAt, stage.days]), [
+        ['W trakcie weryfikacji', 'Analiza dokumentów', '2024-03-20T10:00:00.000Z', '2024-04-10T10:00:00.000Z', 21],
+        ['W trakcie weryfikacji', 'Wezwanie do uzupełnienia', '2024-04-10T10:00:00.000Z', '2024-05-20T10:00:00.000Z', 40],
+        ['Decyzja wydana', 'Zakończono', '2024-05-20T10:00:00.000Z', null, 12]
+    ]);
+    assert.equal(timeline.submissionDate, '14.03.2024');
+    assert.equal(timeline.elapsedSince, 'submission');
+    assert.equal(timeline.elapsedDays, 79);
+    assert.equal(timeline.currentStatus, 'Decyzja wydana');
+    assert.deepEqual(timeline.statistics, {
+        firstCheck: '2024-03-20T10:00:00.000Z',
+        lastCheck: '2024-05-20T10:00:00.000Z',
+        checks: 4,
+        snapshots: 4,
+        changes: 1,
+        runs: 2,
+        failedRuns: 1
+    });
+});
+
+test('without a submission date the elapsed time counts from the first check', () => {
+    writeJson(path.join(project.dir, 'data', 'anna', '224518', 'szczegoly-wniosku_2024-05-01T10-00-00.json'), makeSnapshot({
+        elementText: '224518',
+        timestamp: '2024-05-01T10:00:00.000Z'
+    }));
+
+    const timelines = buildTimelines(store, 'anna', NOW);
+    const [, other] = timelines;
+    assert.equal(timelines.length, 2);
+    assert.equal(other!.elapsedSince, 'first-check');
+    assert.equal(other!.elapsedDays, 31);
+});
+
+test('buildTimeline counts the runs of applications whose ID is not a folder name', () => {
+    writeJson(path.join(project.dir, 'data', 'jan', 'WSC-II-S_6151_12345_2024', 'szczegoly-wniosku_2024-05-01T10-00-00.json'),
+        makeSnapshot({ elementText: 'WSC-II-S/6151/12345/2024' }));
+    store.recordRun({ login: 'jan', startedAt: '2024-05-01T10:00:00.000Z', finishedAt: '2024-05-01T10:01:00.000Z', status: 'error', applications: ['WSC-II-S/6151/12345/2024'] });
+
+    const timeline = buildTimeline(store, 'jan', 'WSC-II-S_6151_12345_2024', NOW);
+    assert.equal(timeline.statistics.runs, 1);
+    assert.equal(timeline.statistics.failedRuns, 1);
+});
+
+test('timelineToCsv writes one row per stage and quotes fields when needed', () => {
+    const timeline = buildTimeline(store, 'anna', '223199', NOW);
+    timeline.stages[0]!.stage = 'Analiza, "pilne"';
+    const lines = timelineToCsv([timeline]).trimEnd().split('\n');
+
+    assert.equal(lines.length, 4);
+    assert.match(lines[0]!, /^login,application,case_number,submission_date,elapsed_days,status,stage,entered_at/);
+    assert.match(lines[1]!, /^anna,223199,,14\.03\.2024,79,W trakcie weryfikacji,"Analiza, ""pilne""",2024-03-20T10:00:00\.000Z,/);
+    assert.match(lines[3]!, /,Zakończono,2024-05-20T10:00:00\.000Z,,12,4,1,2,1$/);
+});
@@ -0,0 +1,205 @@
+import { after, afterEach, before, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import {
+    CredentialVault,
+    findPlaintextSecrets,
+    MASKED_SECRET,
+    maskSecrets,
+    migrateToVault,
+    moveSecretsToVault,
+    readSecret,
+    redactSecrets,
+    resolveSecrets,
+    restoreMaskedSecrets,
+    SafeStorage,
+    useSafeStorage
+} from '../vault';
+import { MultiAccountChecker } from '../pio-checker';
+import { testAccount, useTempProject, writeJson } from './helpers';
+
+let project: ReturnType<typeof useTempProject>;
+
+before(() => {
+    project = useTempProject();
+    process.env.PIO_VAULT_PASSPHRASE = 'correct horse battery staple';
+});
+
+after(() => {
+    delete process.env.PIO_VAULT_PASSPHRASE;
+    project.restore();
+});
+
+afterEach(() => {
+    useSafeStorage(undefined);
+    for (const file of ['vault.json', 'accounts.json', 'settings.json', '.env']) {
+        fs.rmSync(path.join(project.dir, file), { force: true });
+    }
+});
+
+// Reversible stand-in for Electron's safeStorage
+const fakeSafeStorage: SafeStorage = {
+    isEncryptionAvailable: () => true,
+    encryptString: plainText => Buffer.from(`keychain:${plainText}`),
+    decryptString: encrypted => encrypted.toString().replace(/^keychain:/, '')
+};
+
+test('passphrase vault encrypts at rest and rejects a wrong passphrase', () => {
+    const vault = CredentialVault.create();
+    vault.set('anna/password', 'hunter2-secret');
+    vault.save();
+
+    const stored = fs.readFileSync('vault.json', 'utf8');
+    assert.doesNotMatch(stored, /hunter2-secret/);
+    assert.equal(JSON.parse(stored).backend, 'passphrase');
+
+    assert.equal(CredentialVault.open()!.get('anna/password'), 'hunter2-secret');
+    assert.throws(() => CredentialVault.open({ passphrase: 'wrong' }), /wrong passphrase/);
+    assert.throws(() => CredentialVault.create(), /already exists/);
+});
+
+test('vault uses the OS keychain when Electron provides safeStorage and there is no passphrase', () => {
+    useSafeStorage(fakeSafeStorage);
+    delete process.env.PIO_VAULT_PASSPHRASE;
+    try {
+        const vault = CredentialVault.create();
+        vault.set('gmail', 'app-password');
+        vault.save();
+
+        assert.equal(vault.backend, 'safeStorage');
+        assert.equal(CredentialVault.open()!.get('gmail'), 'app-password');
+
+        useSafeStorage(undefined);
+        assert.throws(() => CredentialVault.open(), /can only be opened from the desktop app/);
+    } finally {
+        useSafeStorage(undefined);
+        process.env.PIO_VAULT_PASSPHRASE = 'correct horse battery staple';
+    }
+});
+
+test('vault prefers the passphrase so command line runs can open it', () => {
+    useSafeStorage(fakeSafeStorage);
+    try {
+        assert.equal(CredentialVault.create().backend, 'passphrase');
+    } finally {
+        useSafeStorage(undefined);
+    }
+});
+
+test('findPlaintextSecrets names the files a migration would rewrite', () => {
+    writeJson(path.join(project.dir, 'accounts.json'), [{ login: 'anna', password: 'vault:anna/password' }]);
+    writeJson(path.join(project.dir, 'settings.json'), { notificationChannels: [{ type: 'ntfy', url: 'https://ntfy.sh/x', token: 'tk' }] });
+    fs.writeFileSync(path.join(project.dir, '.env'), 'mail=a@b.c\npass="gmail-app-password"\n');
+    assert.deepEqual(findPlaintextSecrets(), ['settings.json', '.env']);
+
+    writeJson(path.join(project.dir, 'settings.json'), {});
+    fs.writeFileSync(path.join(project.dir, '.env'), 'pass=vault:env/pass\n');
+    assert.deepEqual(findPlaintextSecrets(), []);
+});
+
+test('resolveSecrets replaces vault references and reports missing entries', () => {
+    const plain = { login: 'anna', password: 'plain-password' };
+    assert.deepEqual(resolveSecrets(plain, 'test'), plain);
+    assert.throws(() => resolveSecrets({ password: 'vault:anna/password' }, 'test'), /test: vault:anna\/password cannot be resolved, no credential vault/);
+
+    const vault = CredentialVault.create();
+    vault.set('anna/password', 'vaulted-password');
+    vault.set('tg', '123:abc');
+    vault.save();
+
+    const resolved = resolveSecrets({
+        login: 'anna',
+        password: 'vault:anna/password',
+        notificationChannels: [{ type: 'telegram', botToken: 'vault:tg', chatId: 1 }]
+    }, 'test');
+    assert.equal(resolved.password, 'vaulted-password');
+    assert.equal(resolved.notificationChannels[0]!.botToken, '123:abc');
+    assert.throws(() => resolveSecrets({ password: 'vault:jan/password' }, 'test'), /vault:jan\/password not found/);
+});
+
+test('migrateToVault moves plaintext secrets out of accounts.json, settings.json and .env', () => {
+    writeJson('accounts.json', [
+        { login: 'anna', password: 'anna-password', elementText: '223199' },
+        { login: 'jan', password: 'vault:jan/password', elementText: '224518', notificationChannels: [{ type: 'ntfy', url: 'https://ntfy.sh/x', token: 'tk_secret' }] }
+    ]);
+    writeJson('settings.json', { scheduleEnabled: false, notificationChannels: [{ type: 'smtp', host: 'smtp.example.com', pass: 'smtp-password' }] });
+    fs.writeFileSync('.env', 'mail=me@example.com\npass="gmail-app-password"\n');
+
+    const vault = CredentialVault.create();
+    vault.set('jan/password', 'jan-password');
+    const report = migrateToVault(vault);
+    assert.deepEqual(report, { accounts: 2, settings: 1, env: 1 });
+
+    const accounts = JSON.parse(fs.readFileSync('accounts.json', 'utf8'));
+    assert.equal(accounts[0].password, 'vault:anna/password');
+    assert.equal(accounts[1].password, 'vault:jan/password');
+    assert.equal(accounts[1].notificationChannels[0].token, 'vault:jan/notificationChannels/0/token');
+    assert.equal(JSON.parse(fs.readFileSync('settings.json', 'utf8')).notificationChannels[0].pass, 'vault:settings/notificationChannels/0/pass');
+    assert.equal(fs.readFileSync('.env', 'utf8'), 'mail=me@example.com\npass=vault:env/pass\n');
+
+    const reopened = CredentialVault.open()!;
+    assert.equal(reopened.get('anna/password'), 'anna-password');
+    assert.equal(reopened.get('jan/password'), 'jan-password');
+    assert.equal(reopened.get('env/pass'), 'gmail-app-password');
+
+    // Running it again finds nothing left to move
+    assert.deepEqual(migrateToVault(reopened), { accounts: 0, settings: 0, env: 0 });
+});
+
+test('loadAccountsConfig resolves account passwords from the vault', () => {
+    const vault = CredentialVault.create();
+    vault.set('test-user/password', 'from-the-vault');
+    vault.save();
+    writeJson('accounts.json', [{ ...testAccount, password: 'vault:test-user/password' }]);
+
+    const [account] = new MultiAccountChecker().loadAccountsConfig();
+    assert.equal(account!.password, 'from-the-vault');
+});
+
+test('secrets are masked for the renderer and restored on save', () => {
+    const stored = [
+        { login: 'anna', password: 'anna-password' },
+        { login: 'jan', password: 'vault:jan/password' }
+    ];
+    const masked = maskSecrets(stored);
+    assert.deepEqual(masked, [{ login: 'anna', password: MASKED_SECRET }, { login: 'jan', password: 'vault:jan/password' }]);
+
+    // The renderer reordered the entries and added a new one
+    const saved = restoreMaskedSecrets([masked[1], masked[0], { login: 'ola', password: 'typed-password' }], stored);
+    assert.deepEqual(saved, [
+        { login: 'jan', password: 'vault:jan/password' },
+        { login: 'anna', password: 'anna-password' },
+        { login: 'ola', password: 'typed-password' }
+    ]);
+    assert.throws(() => restoreMaskedSecrets([{ login: 'new', password: MASKED_SECRET }], stored), /enter the secret again/);
+});
+
+test('webhook headers are vaulted, masked and redacted like other secrets', () => {
+    const settings = { notificationChannels: [{ type: 'webhook', url: 'https://hooks.example.com/pio', headers: { Authorization: 'Bearer hook-token' } }] };
+    assert.deepEqual(maskSecrets(settings).notificationChannels[0]!.headers, { Authorization: MASKED_SECRET });
+
+    writeJson(path.join(project.dir, 'settings.json'), settings);
+    assert.deepEqual(findPlaintextSecrets(path.join(project.dir, 'missing.env')), ['settings.json']);
+
+    const vault = CredentialVault.create();
+    const { value, moved } = moveSecretsToVault(settings, vault, 'settings');
+    assert.equal(moved, 1);
+    assert.deepEqual(value.notificationChannels[0]!.headers, { Authorization: 'vault:settings/notificationChannels/0/headers/Authorization' });
+    assert.equal(value.notificationChannels[0]!.url, 'https://hooks.example.com/pio');
+
+    resolveSecrets(value, 'test', vault);
+    assert.equal(redactSecrets('webhook rejected Bearer hook-token'), `webhook rejected ${MASKED_SECRET}`);
+});
+
+test('redactSecrets scrubs resolved secrets from log lines and results', () => {
+    resolveSecrets({ password: 'p4ssw0rd-anna' }, 'test');
+    assert.equal(redactSecrets('login failed for anna with p4ssw0rd-anna'), `login failed for anna with ${MASKED_SECRET}`);
+    assert.deepEqual(redactSecrets([{ error: 'p4ssw0rd-anna rejected' }]), [{ error: `${MASKED_SECRET} rejected` }]);
+});
+
+test('readSecret takes a piped secret without its line break', async () => {
+    const piped = Readable.from(['s3cret-from', '-stdin\n']) as unknown as NodeJS.ReadStream;
+    assert.equal(await readSecret('Password: ', piped), 's3cret-from-stdin');
+});
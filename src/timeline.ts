@@ -0,0 +1,158 @@
+import * as fs from 'fs';
+import { getDetails } from './diff';
+import { applicationFolder, HistoryStore, openHistoryStore } from './storage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One status/stage combination the application was in, as first seen by a check
+export interface TimelineStage {
+    status: string | null;
+    stage: string | null;
+    enteredAt: string; // timestamp of the first snapshot showing it
+    leftAt: string | null; // first snapshot showing the next one; null for the current stage
+    days: number; // whole days until leftAt, or until now for the current stage
+    snapshot: string;
+}
+
+export interface CheckStatistics {
+    firstCheck: string | null;
+    lastCheck: string | null;
+    checks: number; // stored snapshots plus "checked, unchanged" records
+    snapshots: number;
+    changes: number; // checks that found a change
+    runs: number; // runs of the login that covered the application
+    failedRuns: number;
+}
+
+export interface ApplicationTimeline {
+    login: string;
+    application: string;
+    caseNumber: string | null;
+    submissionDate: string | null; // as shown on the page
+    // Days since the submission date, or since the first check when the page shows no submission date
+    elapsedDays: number | null;
+    elapsedSince: 'submission' | 'first-check' | null;
+    currentStatus: string | null;
+    currentStage: string | null;
+    stages: TimelineStage[];
+    statistics: CheckStatistics;
+}
+
+// 14.03.2024, 14-03-2024, 14/03/2024 or 2024-03-14, as local midnight
+export function parsePageDate(value: string | null): Date | null {
+    const text = value?.trim() || '';
+    const dayFirst = text.match(/^(\d{1,2})[.\-/](\d{1,2})[.\-/](\d{4})/);
+    const yearFirst = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    const [year, month, day] = dayFirst
+        ? [dayFirst[3], dayFirst[2], dayFirst[1]]
+        : yearFirst ? [yearFirst[1], yearFirst[2], yearFirst[3]] : [];
+    if (!year || !month || !day) {
+        return null;
+    }
+    const date = new Date(Number(year), Number(month) - 1, Number(day));
+    return date.getMonth() === Number(month) - 1 ? date : null;
+}
+
+function daysBetween(from: Date, to: Date): number {
+    return Math.max(0, Math.floor((to.getTime() - from.getTime()) / DAY_MS));
+}
+
+// Stages and statistics of one application from its stored snapshots; snapshots without status and stage are skipped
+export function buildTimeline(store: HistoryStore, login: string, application: string, now: Date = new Date()): ApplicationTimeline {
+    const snapshots = store.listSnapshots(login, application);
+    const checkRecords = store.listChecks(login, application);
+    const stages: TimelineStage[] = [];
+    let caseNumber: string | null = null;
+    let submissionDate: string | null = null;
+
+    for (const snapshot of snapshots) {
+        const details = getDetails(snapshot.data);
+        caseNumber = details.caseNumber || caseNumber;
+        submissionDate = details.submissionDate || submissionDate;
+        if (details.status === null && details.stage === null) {
+            continue;
+        }
+        const current = stages[stages.length - 1];
+        if (current && current.status === details.status && current.stage === details.stage) {
+            continue;
+        }
+        if (current) {
+            current.leftAt = snapshot.data.timestamp;
+        }
+        stages.push({ status: details.status, stage: details.stage, enteredAt: snapshot.data.timestamp, leftAt: null, days: 0, snapshot: snapshot.name });
+    }
+    stages.forEach(stage => {
+        stage.days = daysBetween(new Date(stage.enteredAt), stage.leftAt ? new Date(stage.leftAt) : now);
+    });
+
+    const checkTimes = [...snapshots.map(snapshot => snapshot.data.timestamp), ...checkRecords.map(record => record.timestamp)].sort();
+    const submittedAt = parsePageDate(submissionDate);
+    const firstCheck = checkTimes[0] ?? null;
+    // Runs list application IDs, the store their folder names
+    const runs = store.listRuns(login).filter(run => run.applications.some(id => applicationFolder(id) === application));
+    const last = stages[stages.length - 1];
+
+    return {
+        login,
+        application,
+        caseNumber,
+        submissionDate,
+        elapsedDays: submittedAt ? daysBetween(submittedAt, now) : firstCheck ? daysBetween(new Date(firstCheck), now) : null,
+        elapsedSince: submittedAt ? 'submission' : firstCheck ? 'first-check' : null,
+        currentStatus: last?.status ?? null,
+        currentStage: last?.stage ?? null,
+        stages,
+        statistics: {
+            firstCheck,
+            lastCheck: checkTimes[checkTimes.length - 1] ?? null,
+            checks: checkTimes.length,
+            snapshots: snapshots.length,
+            changes: new Set(store.listChanges(login, application).map(record => record.snapshot)).size,
+            runs: runs.length,
+            failedRuns: runs.filter(run => run.status === 'error').length
+        }
+    };
+}
+
+export function buildTimelines(store: HistoryStore, login: string, now: Date = new Date()): ApplicationTimeline[] {
+    return store.listApplications(login).map(application => buildTimeline(store, login, application, now));
+}
+
+function csvField(value: string | number | null): string {
+    const text = value === null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per stage, with the application's totals repeated on each row for spreadsheet filtering
+export function timelineToCsv(timelines: ApplicationTimeline[]): string {
+    const header = ['login', 'application', 'case_number', 'submission_date', 'elapsed_days', 'status', 'stage', 'entered_at', 'left_at',
+        'days', 'checks', 'changes', 'runs', 'failed_runs'];
+    const rows = timelines.flatMap(timeline => timeline.stages.map(stage => [
+        timeline.login, timeline.application, timeline.caseNumber, timeline.submissionDate, timeline.elapsedDays,
+        stage.status, stage.stage, stage.enteredAt, stage.leftAt, stage.days,
+        timeline.statistics.checks, timeline.statistics.changes, timeline.statistics.runs, timeline.statistics.failedRuns
+    ]));
+    return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+// npm run timeline -- <login> [application] [--csv] [--out file]
+if (require.main === module) {
+    const args = process.argv.slice(2);
+    const outIndex = args.indexOf('--out');
+    const outFile = outIndex >= 0 ? args[outIndex + 1] : undefined;
+    const [login, application] = args.filter((arg, index) => !arg.startsWith('--') && (outIndex < 0 || index !== outIndex + 1));
+    if (!login) {
+        console.error('Usage: npm run timeline -- <login> [application] [--csv] [--out file]');
+        process.exit(1);
+    }
+
+    const store = openHistoryStore();
+    const timelines = application ? [buildTimeline(store, login, application)] : buildTimelines(store, login);
+    const output = args.includes('--csv') ? timelineToCsv(timelines) : JSON.stringify(timelines, null, 2) + '\n';
+    if (outFile) {
+        fs.writeFileSync(outFile, output);
+        console.log(`Timeline of ${timelines.length} application(s) written to ${outFile}`);
+    } else {
+        process.stdout.write(output);
+    }
+}
@@ -0,0 +1,348 @@
+// Shared types for the PIO checker
+import type { AccountSchedule } from './settings';
+
+export interface AccountConfig {
+    login: string;
+    password: string;
+    elementText?: string; // single application number, kept for older configs
+    // Application numbers to track under this login, or "all" for every application on wnioski-przyjete
+    applications?: string[] | 'all';
+    // Start tracking applications that newly appear on wnioski-przyjete (saved to accounts.json)
+    autoTrack?: boolean;
+    headless?: boolean;
+    // Keep the portal cookies in data/<login>/session.json and skip the login form while they are valid (default true)
+    reuseSession?: boolean;
+    ignoreRules?: NoiseRules;
+    // Name of a profile in profiles/ or a path to one; defaults to settings.json siteProfile, then the built-in DUW profile
+    siteProfile?: string;
+    // Override the portal URLs of the profile, e.g. to run against the fixture server
+    loginUrl?: string;
+    wniosikiUrl?: string;
+    notificationChannels?: ChannelConfig[];
+    // Email addresses for this account; replaces the "to" of every email channel
+    recipients?: EmailRecipients;
+    language?: NotificationLanguage; // defaults to 'en'
+    // Per event: false mutes it, a list of channel names/types limits delivery to those channels
+    notifyOn?: Partial<Record<NotificationEvent, boolean | string[]>>;
+    // Set when the portal rejected the credentials or locked the account; runAll skips the account until it is cleared
+    paused?: AccountPause;
+    // Replaces parts of the settings.json schedule for this account
+    schedule?: AccountSchedule;
+}
+
+export interface AccountPause {
+    reason: string;
+    category: ErrorCategory;
+    since: string; // ISO timestamp
+}
+
+export type NotificationEvent = 'firstRun' | 'noChange' | 'change' | 'error';
+
+export type NotificationLanguage = 'en' | 'pl';
+
+export interface EmailRecipients {
+    to?: string[];
+    cc?: string[];
+    errorCc?: string[]; // added to cc for error reports only
+}
+
+interface BaseChannelConfig {
+    name?: string; // shown in logs, defaults to the type
+    enabled?: boolean;
+    events?: NotificationEvent[]; // defaults depend on the channel type
+}
+
+export interface DesktopChannelConfig extends BaseChannelConfig {
+    type: 'desktop';
+}
+
+// Generic SMTP; "service" selects a nodemailer well-known service such as gmail instead of host/port
+export interface SmtpChannelConfig extends BaseChannelConfig {
+    type: 'smtp';
+    service?: string;
+    host?: string;
+    port?: number;
+    secure?: boolean;
+    user?: string;
+    pass?: string;
+    from?: string;
+    to?: string | string[];
+}
+
+export interface TelegramChannelConfig extends BaseChannelConfig {
+    type: 'telegram';
+    botToken: string;
+    chatId: string | number;
+    apiUrl?: string; // defaults to https://api.telegram.org
+}
+
+// "webhook" posts the full message as JSON, "slack" and "discord" use those services' payload formats
+export interface WebhookChannelConfig extends BaseChannelConfig {
+    type: 'webhook' | 'slack' | 'discord';
+    url: string;
+    headers?: Record<string, string>;
+}
+
+export interface NtfyChannelConfig extends BaseChannelConfig {
+    type: 'ntfy';
+    url: string; // server and topic, e.g. https://ntfy.sh/my-pio-topic
+    token?: string;
+    priority?: number;
+}
+
+// Runs a local command with the message in PIO_* environment variables and as JSON on stdin
+export interface CommandChannelConfig extends BaseChannelConfig {
+    type: 'command';
+    command: string;
+    args?: string[]; // without args the command is run through the shell
+    timeoutMs?: number;
+}
+
+export type ChannelConfig =
+    | DesktopChannelConfig
+    | SmtpChannelConfig
+    | TelegramChannelConfig
+    | WebhookChannelConfig
+    | NtfyChannelConfig
+    | CommandChannelConfig;
+
+// Column to drop from a table before comparison; column is a 1-based number or the header text
+export interface ColumnIgnoreRule {
+    table: number; // 1-based, as numbered in emails
+    column: number | string;
+}
+
+// Only compare the text between a start line and an optional end line
+export interface SectionRule {
+    start: string;
+    end?: string;
+}
+
+// Rules that remove volatile page content before snapshots are compared
+export interface NoiseRules {
+    maskPatterns?: string[]; // regular expressions, matches are masked in text and table cells
+    ignoreTables?: number[]; // 1-based table numbers
+    ignoreColumns?: ColumnIgnoreRule[];
+    includeSections?: SectionRule[]; // when set, text outside these sections is ignored
+}
+
+// Which snapshots of an application are kept; snapshots where something changed are always kept
+export interface RetentionPolicy {
+    keepUnchanged: number; // newest unchanged snapshots to keep
+    keepDailyDays: number; // keep the newest snapshot of each day for this many days
+}
+
+export interface TableData {
+    tables: string[][][];
+    numbers: string[];
+}
+
+export interface DeadlineEntry {
+    label: string;
+    date: string;
+}
+
+export interface CorrespondenceEntry {
+    date: string | null;
+    title: string;
+    cells: string[];
+}
+
+// Labels (lowercase, without trailing colon) and keywords used to read named fields from a details page
+export interface ExtractionRules {
+    fieldLabels: Record<'caseNumber' | 'applicationNumber' | 'submissionDate' | 'status' | 'stage' | 'caseHandler', string[]>;
+    correspondenceKeywords: string[]; // in the header of the correspondence table
+    missingDocumentKeywords: string[]; // in lines requesting missing documents
+}
+
+// Everything that ties the checker to one office's portal: where its pages are, how to log in and what to wait for
+export interface SiteProfile {
+    name: string;
+    description?: string;
+    urls: {
+        login: string;
+        applicationsList: string;
+        detailsPath: string; // path of application pages, resolved against applicationsList, e.g. /szczegoly-wniosku
+    };
+    selectors: {
+        username: string;
+        password: string;
+        submit: string;
+    };
+    waits: {
+        navigationTimeoutMs: number;
+        elementTimeoutMs: number; // for the login fields and the ready selectors
+        submitTimeoutMs: number; // navigation after submitting the login form
+        afterLoginMs: number;
+        listLoadMs: number;
+        listReadySelector?: string;
+        detailsTimeoutMs: number; // for the details page to open after clicking its link
+        detailsReadySelector?: string;
+    };
+    extraction: ExtractionRules;
+}
+
+// Named fields extracted from the szczegoly-wniosku page
+export interface ApplicationDetails {
+    caseNumber: string | null;
+    applicationNumber: string | null;
+    submissionDate: string | null;
+    status: string | null;
+    stage: string | null;
+    caseHandler: string | null;
+    deadlines: DeadlineEntry[];
+    correspondence: CorrespondenceEntry[];
+    missingDocuments: string[];
+}
+
+export interface ScrapedData {
+    mainText: string;
+    fields: TableData;
+    // Missing in snapshots saved before structured extraction was added
+    details?: ApplicationDetails;
+    url: string;
+    timestamp: string;
+    elementText: string; // application number the snapshot belongs to
+}
+
+// One row of the wnioski-przyjete list
+export interface ApplicationListEntry {
+    applicationId: string;
+    cells: string[];
+}
+
+// Snapshot of the accepted-applications list, stored as data/<login>/wnioski-przyjete_<timestamp>.json
+export interface ApplicationList {
+    url: string;
+    timestamp: string;
+    headers: string[];
+    entries: ApplicationListEntry[];
+}
+
+// One application from a login session; data is missing when the application could not be scraped
+export interface ApplicationScrape {
+    applicationId: string;
+    data?: ScrapedData;
+    error?: string;
+    errorCategory?: ErrorCategory;
+}
+
+export type ChangeSection = 'details' | 'tables' | 'text' | 'numbers' | 'applications';
+
+export type ChangeKind =
+    | 'field-changed'
+    | 'item-added'
+    | 'item-removed'
+    | 'table-added'
+    | 'table-removed'
+    | 'row-added'
+    | 'row-removed'
+    | 'cell-changed'
+    | 'line-added'
+    | 'line-removed'
+    | 'number-added'
+    | 'number-removed'
+    | 'application-added'
+    | 'application-removed';
+
+// A single difference between two snapshots
+export interface DataChange {
+    kind: ChangeKind;
+    section: ChangeSection;
+    // Human-readable position, e.g. "Table 2, row 3, column Status"
+    location: string;
+    // Zero-based indexes for table changes
+    table?: number;
+    row?: number;
+    column?: number;
+    oldValue: string | null;
+    newValue: string | null;
+    description: string;
+}
+
+export type CheckStatus = 'first-run' | 'unchanged' | 'changed' | 'error';
+
+// Why a check failed; only site-unavailable, navigation-timeout and unknown are retried
+export type ErrorCategory =
+    | 'auth'
+    | 'account-locked'
+    | 'captcha'
+    | 'maintenance'
+    | 'application-not-found'
+    | 'site-unavailable'
+    | 'selector-changed'
+    | 'navigation-timeout'
+    | 'unknown';
+
+export interface ApplicationCheckResult {
+    applicationId: string;
+    status: CheckStatus;
+    changes: DataChange[];
+    error?: string;
+    errorCategory?: ErrorCategory;
+}
+
+// Outcome of one login session; status and changes summarize all of its applications
+export interface CheckResult {
+    status: CheckStatus;
+    changes: DataChange[];
+    error?: string;
+    errorCategory?: ErrorCategory; // of the first failed application when there are several
+    applications?: ApplicationCheckResult[];
+    // New applications on the list that are not tracked (autoTrack off)
+    untrackedApplications?: string[];
+}
+
+// Per-account entry of the results returned by MultiAccountChecker.runAll
+export interface AccountRunResult {
+    accountId: string;
+    status: 'success' | 'error' | 'paused';
+    checkStatus?: CheckStatus;
+    changes?: DataChange[];
+    summary?: string;
+    error?: string;
+    errorCategory?: ErrorCategory;
+    applications?: ApplicationCheckResult[];
+    untrackedApplications?: string[];
+    // When the account's check ran and how long it took, including a timeout
+    startedAt?: string;
+    finishedAt?: string;
+    durationMs?: number;
+}
+
+// Page state saved when a scraping attempt or an application failed, in data/<login>/failures/<run>/<name>/
+export interface FailureCapture {
+    run: string; // folder of the check, named by its start time
+    name: string; // attempt-2 or attempt-1-223199
+    dir: string;
+    capturedAt: string;
+    attempt: number;
+    applicationId?: string;
+    url: string;
+    error: string;
+    errorCategory: ErrorCategory;
+    files: string[]; // the artifacts that could be saved: screenshot.png, page.html, console.log
+}
+
+// Reported by MultiAccountChecker.runAll while accounts move through the pool
+export interface AccountProgress {
+    accountId: string;
+    state: 'queued' | 'running' | 'finished';
+    completed: number; // accounts finished so far
+    total: number;
+    result?: AccountRunResult; // set once finished
+}
+
+export interface RunOptions {
+    shareBrowser?: boolean; // defaults to settings.json shareBrowser
+    concurrency?: number; // accounts checked at the same time, defaults to settings.json concurrency or 1
+    accountTimeoutMs?: number; // 0 disables the limit
+    accountDelayMs?: number; // minimum gap between account starts, plus up to the same again at random
+    dryRun?: boolean; // compare with the stored history without saving or notifying anything
+    onProgress?: (progress: AccountProgress) => void;
+}
+
+export interface LinkInfo {
+    text: string;
+    href: string | null;
+}
@@ -0,0 +1,553 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { Writable } from 'stream';
+import { getAccountsPath } from './accounts';
+import { getSettingsPath } from './settings';
+
+// Config values of the form "vault:<key>" are looked up in the vault instead of being used as is
+export const VAULT_PREFIX = 'vault:';
+// Shown to the renderer in place of plaintext secrets; saving it back keeps the stored value
+export const MASKED_SECRET = '********';
+// Config fields holding passwords and tokens (account password, smtp pass, telegram botToken, ntfy token)
+export const SECRET_FIELDS = ['password', 'pass', 'botToken', 'token'];
+// Objects whose every value is a secret (webhook headers, which typically carry an Authorization token)
+export const SECRET_MAPS = ['headers'];
+
+const CHECK_VALUE = 'pio-vault';
+
+// The parts of Electron's safeStorage the vault needs; passed in so this module also runs outside Electron
+export interface SafeStorage {
+    isEncryptionAvailable(): boolean;
+    encryptString(plainText: string): Buffer;
+    decryptString(encrypted: Buffer): string;
+}
+
+export interface VaultOptions {
+    passphrase?: string;
+    safeStorage?: SafeStorage;
+    filePath?: string;
+}
+
+interface VaultFile {
+    version: 1;
+    backend: 'passphrase' | 'safeStorage';
+    salt?: string;
+    check?: string;
+    secrets: Record<string, string>;
+}
+
+interface SecretCipher {
+    encrypt(plainText: string): string;
+    decrypt(stored: string): string;
+}
+
+// Path to vault.json - use project directory for consistency
+export function getVaultPath(): string {
+    return path.join(process.cwd(), 'vault.json');
+}
+
+let registeredSafeStorage: SafeStorage | undefined;
+
+// Electron registers its safeStorage once the app is ready; plain Node runs use PIO_VAULT_PASSPHRASE
+export function useSafeStorage(safeStorage: SafeStorage | undefined): void {
+    registeredSafeStorage = safeStorage;
+}
+
+function withDefaults(options: VaultOptions): VaultOptions & { filePath: string } {
+    const passphrase = options.passphrase ?? process.env.PIO_VAULT_PASSPHRASE;
+    const safeStorage = options.safeStorage ?? registeredSafeStorage;
+    return {
+        filePath: options.filePath || getVaultPath(),
+        ...(passphrase ? { passphrase } : {}),
+        ...(safeStorage ? { safeStorage } : {})
+    };
+}
+
+// AES-256-GCM with a scrypt key; stored as iv:tag:ciphertext in base64
+function passphraseCipher(passphrase: string, salt: Buffer): SecretCipher {
+    const key = crypto.scryptSync(passphrase, salt, 32);
+    return {
+        encrypt: plainText => {
+            const iv = crypto.randomBytes(12);
+            const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+            const data = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+            return [iv, cipher.getAuthTag(), data].map(part => part.toString('base64')).join(':');
+        },
+        decrypt: stored => {
+            const [iv, tag, data] = stored.split(':').map(part => Buffer.from(part, 'base64'));
+            if (!iv || !tag || !data) {
+                throw new Error('malformed vault entry');
+            }
+            const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+            decipher.setAuthTag(tag);
+            return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+        }
+    };
+}
+
+// OS keychain (Keychain, DPAPI, libsecret) through Electron
+function safeStorageCipher(safeStorage: SafeStorage): SecretCipher {
+    return {
+        encrypt: plainText => safeStorage.encryptString(plainText).toString('base64'),
+        decrypt: stored => safeStorage.decryptString(Buffer.from(stored, 'base64'))
+    };
+}
+
+export class CredentialVault {
+    private constructor(
+        readonly filePath: string,
+        private file: VaultFile,
+        private cipher: SecretCipher
+    ) {}
+
+    // Prefers the passphrase, which command line runs and the daemon can open too; the OS keychain only without one
+    static create(options: VaultOptions = {}): CredentialVault {
+        const { filePath, passphrase, safeStorage } = withDefaults(options);
+        if (fs.existsSync(filePath)) {
+            throw new Error(`Credential vault already exists: ${filePath}`);
+        }
+
+        if (!passphrase) {
+            if (safeStorage && safeStorage.isEncryptionAvailable()) {
+                return new CredentialVault(filePath, { version: 1, backend: 'safeStorage', secrets: {} }, safeStorageCipher(safeStorage));
+            }
+            throw new Error('Cannot create credential vault: set PIO_VAULT_PASSPHRASE or run the desktop app with OS keychain support');
+        }
+
+        const salt = crypto.randomBytes(16);
+        const cipher = passphraseCipher(passphrase, salt);
+        const file: VaultFile = {
+            version: 1,
+            backend: 'passphrase',
+            salt: salt.toString('base64'),
+            check: cipher.encrypt(CHECK_VALUE),
+            secrets: {}
+        };
+        return new CredentialVault(filePath, file, cipher);
+    }
+
+    // Returns null when no vault has been created yet
+    static open(options: VaultOptions = {}): CredentialVault | null {
+        const { filePath, passphrase, safeStorage } = withDefaults(options);
+        if (!fs.existsSync(filePath)) {
+            return null;
+        }
+
+        const file: VaultFile = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        if (!file || file.version !== 1 || typeof file.secrets !== 'object' || file.secrets === null) {
+            throw new Error(`Unsupported credential vault format: ${filePath}`);
+        }
+
+        if (file.backend === 'safeStorage') {
+            if (!safeStorage || !safeStorage.isEncryptionAvailable()) {
+                throw new Error(`Credential vault ${filePath} is protected by the OS keychain and can only be opened from the desktop app`);
+            }
+            return new CredentialVault(filePath, file, safeStorageCipher(safeStorage));
+        }
+
+        if (!passphrase) {
+            throw new Error(`Credential vault ${filePath} is locked: set PIO_VAULT_PASSPHRASE`);
+        }
+        const cipher = passphraseCipher(passphrase, Buffer.from(file.salt || '', 'base64'));
+        try {
+            if (cipher.decrypt(file.check || '') !== CHECK_VALUE) {
+                throw new Error('check value mismatch');
+            }
+        } catch {
+            throw new Error(`Credential vault ${filePath}: wrong passphrase`);
+        }
+        return new CredentialVault(filePath, file, cipher);
+    }
+
+    static openOrCreate(options: VaultOptions = {}): CredentialVault {
+        return CredentialVault.open(options) || CredentialVault.create(options);
+    }
+
+    get backend(): VaultFile['backend'] {
+        return this.file.backend;
+    }
+
+    keys(): string[] {
+        return Object.keys(this.file.secrets).sort();
+    }
+
+    has(key: string): boolean {
+        return Object.prototype.hasOwnProperty.call(this.file.secrets, key);
+    }
+
+    get(key: string): string | undefined {
+        const stored = this.has(key) ? this.file.secrets[key] : undefined;
+        if (stored === undefined) {
+            return undefined;
+        }
+        try {
+            return this.cipher.decrypt(stored);
+        } catch (error) {
+            throw new Error(`Credential vault: cannot decrypt ${key}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    set(key: string, value: string): void {
+        this.file.secrets[key] = this.cipher.encrypt(value);
+    }
+
+    delete(key: string): boolean {
+        if (!this.has(key)) {
+            return false;
+        }
+        delete this.file.secrets[key];
+        return true;
+    }
+
+    save(): void {
+        fs.writeFileSync(this.filePath, JSON.stringify(this.file, null, 2), { mode: 0o600 });
+    }
+}
+
+export function isSecretRef(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(VAULT_PREFIX) && value.length > VAULT_PREFIX.length;
+}
+
+// Every secret value seen by this process, so logs and renderer payloads can be scrubbed
+const knownSecrets = new Set<string>();
+
+function registerSecret(value: string): void {
+    // Very short values would blank out ordinary text
+    if (value.length >= 4) {
+        knownSecrets.add(value);
+    }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// `parent` is the key of the object holding `field`, so header values count whatever the header is called
+function isSecretField(field?: string, parent?: string): boolean {
+    return (!!field && SECRET_FIELDS.includes(field)) || (!!parent && SECRET_MAPS.includes(parent));
+}
+
+// Deep copy with every "vault:<key>" replaced by the decrypted value; plaintext secrets are left in place
+export function resolveSecrets<T>(value: T, context: string, vault?: CredentialVault | null): T {
+    let opened: CredentialVault | null | undefined = vault;
+
+    const lookup = (ref: string): string => {
+        const key = ref.slice(VAULT_PREFIX.length);
+        if (opened === undefined) {
+            opened = CredentialVault.open();
+        }
+        if (!opened) {
+            throw new Error(`${context}: ${ref} cannot be resolved, no credential vault found at ${getVaultPath()}`);
+        }
+        const secret = opened.get(key);
+        if (secret === undefined) {
+            throw new Error(`${context}: ${ref} not found in the credential vault`);
+        }
+        return secret;
+    };
+
+    const walk = (node: unknown, field?: string, parent?: string): unknown => {
+        if (isSecretRef(node)) {
+            const secret = lookup(node);
+            registerSecret(secret);
+            return secret;
+        }
+        if (typeof node === 'string') {
+            if (isSecretField(field, parent)) {
+                registerSecret(node);
+            }
+            return node;
+        }
+        if (Array.isArray(node)) {
+            return node.map(item => walk(item));
+        }
+        if (isPlainObject(node)) {
+            return Object.fromEntries(Object.entries(node).map(([key, item]) => [key, walk(item, key, field)]));
+        }
+        return node;
+    };
+
+    return walk(value) as T;
+}
+
+// Replaces known secret values in log lines, error messages and anything else leaving the main process
+export function redactSecrets<T>(value: T): T {
+    if (knownSecrets.size === 0) {
+        return value;
+    }
+    // Longest first so a secret containing another is not left half-masked
+    const secrets = [...knownSecrets].sort((a, b) => b.length - a.length);
+    const scrub = (text: string): string =>
+        secrets.reduce((result, secret) => result.split(secret).join(MASKED_SECRET), text);
+
+    const walk = (node: unknown): unknown => {
+        if (typeof node === 'string') {
+            return scrub(node);
+        }
+        if (Array.isArray(node)) {
+            return node.map(walk);
+        }
+        if (isPlainObject(node)) {
+            return Object.fromEntries(Object.entries(node).map(([key, item]) => [key, walk(item)]));
+        }
+        return node;
+    };
+    return walk(value) as T;
+}
+
+// Renderer view of accounts.json / settings.json: plaintext secrets masked, vault references kept
+export function maskSecrets<T>(value: T): T {
+    const walk = (node: unknown, field?: string, parent?: string): unknown => {
+        if (typeof node === 'string') {
+            return isSecretField(field, parent) && !isSecretRef(node) && node !== '' ? MASKED_SECRET : node;
+        }
+        if (Array.isArray(node)) {
+            return node.map(item => walk(item));
+        }
+        if (isPlainObject(node)) {
+            return Object.fromEntries(Object.entries(node).map(([key, item]) => [key, walk(item, key, field)]));
+        }
+        return node;
+    };
+    return walk(value) as T;
+}
+
+// Puts back the stored value wherever the renderer returned MASKED_SECRET; accounts are matched by login
+export function restoreMaskedSecrets<T>(incoming: T, existing: unknown): T {
+    const walk = (node: unknown, previous: unknown): unknown => {
+        if (node === MASKED_SECRET) {
+            if (typeof previous !== 'string') {
+                throw new Error('A masked secret was saved for an entry that has no stored value; enter the secret again');
+            }
+            return previous;
+        }
+        if (Array.isArray(node)) {
+            const before = Array.isArray(previous) ? previous : [];
+            return node.map((item, index) => {
+                const login = isPlainObject(item) ? item.login : undefined;
+                const match = typeof login === 'string'
+                    ? before.find(candidate => isPlainObject(candidate) && candidate.login === login)
+                    : before[index];
+                return walk(item, match);
+            });
+        }
+        if (isPlainObject(node)) {
+            const before = isPlainObject(previous) ? previous : {};
+            return Object.fromEntries(Object.entries(node).map(([key, item]) => [key, walk(item, before[key])]));
+        }
+        return node;
+    };
+    return walk(incoming, existing) as T;
+}
+
+function collectRefs(node: unknown, refs: Set<string>): Set<string> {
+    if (isSecretRef(node)) {
+        refs.add(node.slice(VAULT_PREFIX.length));
+    } else if (Array.isArray(node)) {
+        node.forEach(item => collectRefs(item, refs));
+    } else if (isPlainObject(node)) {
+        Object.values(node).forEach(item => collectRefs(item, refs));
+    }
+    return refs;
+}
+
+/**
+ * Moves plaintext secrets of accounts.json or settings.json content into the vault and returns the content with
+ * "vault:<key>" references plus the number of secrets moved. Keys follow the location, e.g. "anna/password",
+ * "anna/notificationChannels/0/pass" or "settings/notificationChannels/1/headers/Authorization". The vault still has to be saved by the caller.
+ */
+export function moveSecretsToVault<T>(value: T, vault: CredentialVault, scope: string): { value: T; moved: number } {
+    const referenced = collectRefs(value, new Set());
+    let moved = 0;
+
+    const keyFor = (base: string): string => {
+        let key = base;
+        for (let suffix = 2; referenced.has(key); suffix++) {
+            key = `${base}-${suffix}`;
+        }
+        referenced.add(key);
+        return key;
+    };
+
+    const walk = (node: unknown, location: string, field?: string, parent?: string): unknown => {
+        if (typeof node === 'string') {
+            if (!isSecretField(field, parent) || node === '' || isSecretRef(node) || node === MASKED_SECRET) {
+                return node;
+            }
+            const key = keyFor(location);
+            vault.set(key, node);
+            registerSecret(node);
+            moved++;
+            return `${VAULT_PREFIX}${key}`;
+        }
+        if (Array.isArray(node)) {
+            // Top-level account entries are keyed by login so references survive reordering
+            return node.map((item, index) => {
+                const login = location === scope && isPlainObject(item) && typeof item.login === 'string' ? item.login : undefined;
+                return walk(item, login ?? `${location}/${index}`);
+            });
+        }
+        if (isPlainObject(node)) {
+            return Object.fromEntries(Object.entries(node).map(([key, item]) => [key, walk(item, `${location}/${key}`, key, field)]));
+        }
+        return node;
+    };
+
+    return { value: walk(value, scope) as T, moved };
+}
+
+// Files migrateToVault would change: accounts.json, settings.json and .env with plaintext secrets
+export function findPlaintextSecrets(envPath: string = path.join(process.cwd(), '.env')): string[] {
+    const hasPlaintext = (node: unknown, field?: string, parent?: string): boolean => {
+        if (typeof node === 'string') {
+            return isSecretField(field, parent) && node !== '' && !isSecretRef(node) && node !== MASKED_SECRET;
+        }
+        if (Array.isArray(node)) {
+            return node.some(item => hasPlaintext(item));
+        }
+        return isPlainObject(node) && Object.entries(node).some(([key, item]) => hasPlaintext(item, key, field));
+    };
+
+    const files: string[] = [];
+    for (const file of [getAccountsPath(), getSettingsPath()]) {
+        if (fs.existsSync(file) && hasPlaintext(JSON.parse(fs.readFileSync(file, 'utf8')))) {
+            files.push(path.basename(file));
+        }
+    }
+    if (fs.existsSync(envPath) && fs.readFileSync(envPath, 'utf8').split('\n').some(line => {
+        const raw = line.match(/^\s*pass\s*=\s*(.*?)\s*$/)?.[1]?.replace(/^(['"])(.*)\1$/, '$2');
+        return !!raw && !isSecretRef(raw);
+    })) {
+        files.push(path.basename(envPath));
+    }
+    return files;
+}
+
+export interface MigrationReport {
+    accounts: number;
+    settings: number;
+    env: number;
+}
+
+// One-off migration of accounts.json, settings.json and the Gmail `pass` in .env into the vault
+export function migrateToVault(vault: CredentialVault, envPath: string = path.join(process.cwd(), '.env')): MigrationReport {
+    const report: MigrationReport = { accounts: 0, settings: 0, env: 0 };
+
+    const accountsPath = getAccountsPath();
+    if (fs.existsSync(accountsPath)) {
+        const accounts = JSON.parse(fs.readFileSync(accountsPath, 'utf8'));
+        const { value, moved } = moveSecretsToVault(accounts, vault, 'accounts');
+        if (moved > 0) {
+            fs.writeFileSync(accountsPath, JSON.stringify(value, null, 2));
+        }
+        report.accounts = moved;
+    }
+
+    const settingsPath = getSettingsPath();
+    if (fs.existsSync(settingsPath)) {
+        const settings = JSON.parse(fs.readFileSync(settingsPath, 'utf8'));
+        const { value, moved } = moveSecretsToVault(settings, vault, 'settings');
+        if (moved > 0) {
+            fs.writeFileSync(settingsPath, JSON.stringify(value, null, 2));
+        }
+        report.settings = moved;
+    }
+
+    if (fs.existsSync(envPath)) {
+        const lines = fs.readFileSync(envPath, 'utf8').split('\n');
+        const updated = lines.map(line => {
+            const match = line.match(/^(\s*pass\s*=\s*)(.*?)\s*$/);
+            const raw = match?.[2]?.replace(/^(['"])(.*)\1$/, '$2');
+            if (!match || !raw || isSecretRef(raw)) {
+                return line;
+            }
+            vault.set('env/pass', raw);
+            registerSecret(raw);
+            report.env++;
+            return `${match[1]}${VAULT_PREFIX}env/pass`;
+        });
+        if (report.env > 0) {
+            fs.writeFileSync(envPath, updated.join('\n'));
+        }
+    }
+
+    if (report.accounts + report.settings + report.env > 0) {
+        vault.save();
+    }
+    return report;
+}
+
+// Reads a secret without putting it on the command line: typed at a prompt that does not echo, or piped on stdin
+export async function readSecret(prompt: string, input: NodeJS.ReadStream = process.stdin): Promise<string> {
+    if (!input.isTTY) {
+        let data = '';
+        for await (const chunk of input) {
+            data += chunk;
+        }
+        return data.replace(/\r?\n$/, '');
+    }
+
+    // Only the prompt is shown; the typed characters go nowhere
+    const muted = new Writable({ write: (chunk, encoding, callback) => callback() });
+    const prompter = readline.createInterface({ input, output: muted, terminal: true });
+    process.stderr.write(prompt);
+    return new Promise(resolve => {
+        prompter.question('', answer => {
+            prompter.close();
+            process.stderr.write('\n');
+            resolve(answer);
+        });
+    });
+}
+
+async function main(command: string | undefined, key: string | undefined, extra: string[]): Promise<void> {
+    switch (command) {
+        case 'migrate': {
+            const report = migrateToVault(CredentialVault.openOrCreate());
+            console.log(`Moved ${report.accounts} secret(s) from accounts.json, ${report.settings} from settings.json and ${report.env} from .env into ${getVaultPath()}`);
+            break;
+        }
+        case 'list': {
+            const vault = CredentialVault.open();
+            console.log(vault ? vault.keys().map(entry => `${VAULT_PREFIX}${entry}`).join('\n') : 'No credential vault found');
+            break;
+        }
+        case 'set': {
+            // Values on the command line end up in shell history
+            if (!key || extra.length > 0) {
+                throw new Error('Usage: npm run vault -- set <key>, then type the value or pipe it on stdin');
+            }
+            const value = await readSecret(`Value for ${VAULT_PREFIX}${key}: `);
+            if (!value) {
+                throw new Error('No value given');
+            }
+            const vault = CredentialVault.openOrCreate();
+            vault.set(key, value);
+            vault.save();
+            console.log(`Stored ${VAULT_PREFIX}${key}`);
+            break;
+        }
+        case 'remove': {
+            const vault = CredentialVault.open();
+            if (!key || !vault || !vault.delete(key)) {
+                throw new Error(`No vault entry ${key || ''}`.trim());
+            }
+            vault.save();
+            console.log(`Removed ${VAULT_PREFIX}${key}`);
+            break;
+        }
+        default:
+            console.log('Usage: npm run vault -- <migrate | list | set <key> | remove <key>>');
+    }
+}
+
+// npm run vault -- <command>
+if (require.main === module) {
+    const [command, key, ...extra] = process.argv.slice(2);
+    main(command, key, extra).catch(error => {
+        console.error(error instanceof Error ? error.message : String(error));
+        process.exit(1);
+    });
+}